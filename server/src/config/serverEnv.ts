@@ -65,6 +65,10 @@ export const appEnv = {
     rawEnv.WIND_FIELD_INTENSITY_KTS ?? rawEnv.VITE_WIND_FIELD_INTENSITY_KTS,
     3,
   ),
+  windFieldShiftDeg: toNumber(
+    rawEnv.WIND_FIELD_SHIFT_DEG ?? rawEnv.VITE_WIND_FIELD_SHIFT_DEG,
+    6,
+  ),
   windFieldCount: toNumber(rawEnv.WIND_FIELD_COUNT ?? rawEnv.VITE_WIND_FIELD_COUNT, 32),
   windFieldSizeWorld: toNumber(
     rawEnv.WIND_FIELD_SIZE_WORLD ?? rawEnv.VITE_WIND_FIELD_SIZE_WORLD,
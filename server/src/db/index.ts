@@ -101,6 +101,13 @@ const MIGRATIONS = [
   { filename: '007_user_theme.sql' },
   { filename: '008_regatta_status.sql' },
   { filename: '009_training_flag.sql' },
+  { filename: '010_penalty_system.sql' },
+  { filename: '011_start_procedure.sql' },
+  { filename: '012_boat_class.sql' },
+  { filename: '013_handicap.sql' },
+  { filename: '014_match_racing.sql' },
+  { filename: '015_team_racing.sql' },
+  { filename: '016_time_limits.sql' },
 ]
 
 const MIGRATION_LOCK_ID = 839_201_741
@@ -0,0 +1,2 @@
+ALTER TABLE race_conditions ADD COLUMN IF NOT EXISTS penalty_system TEXT NOT NULL DEFAULT 'two-turns';
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS dsq BOOLEAN NOT NULL DEFAULT false;
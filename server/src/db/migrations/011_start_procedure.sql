@@ -0,0 +1,3 @@
+ALTER TABLE race_conditions ADD COLUMN IF NOT EXISTS start_procedure TEXT NOT NULL DEFAULT 'standard';
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS start_penalty TEXT
+  CHECK (start_penalty IN ('zfp', 'ufd', 'bfd'));
@@ -0,0 +1 @@
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS boat_class TEXT NOT NULL DEFAULT 'generic';
@@ -0,0 +1,3 @@
+ALTER TABLE race_conditions ADD COLUMN IF NOT EXISTS handicap_system TEXT NOT NULL DEFAULT 'none';
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS corrected_time_seconds REAL;
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS rating REAL;
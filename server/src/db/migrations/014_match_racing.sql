@@ -0,0 +1,2 @@
+ALTER TABLE race_conditions ADD COLUMN IF NOT EXISTS race_format TEXT NOT NULL DEFAULT 'fleet';
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS match_points INTEGER;
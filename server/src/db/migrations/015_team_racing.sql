@@ -0,0 +1,3 @@
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS team TEXT;
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS team_points INTEGER;
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS team_won BOOLEAN;
@@ -0,0 +1 @@
+ALTER TABLE race_results ADD COLUMN IF NOT EXISTS tle BOOLEAN NOT NULL DEFAULT false;
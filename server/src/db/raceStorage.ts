@@ -57,6 +57,7 @@ const buildMetadata = (state: RaceState) => {
     boatNames,
     finishTimes,
     lapsToFinish: state.lapsToFinish,
+    abandoned: Boolean(state.abandoned),
   }
 }
 
@@ -67,7 +68,8 @@ const toIso = (value: string | Date | undefined) => {
 }
 
 export const saveRace = async (recording: ReplayRecording, finalState: RaceState) => {
-  const winnerId = finalState.leaderboard[0] ?? null
+  // An abandoned race has no winner.
+  const winnerId = finalState.abandoned ? null : (finalState.leaderboard[0] ?? null)
   const finishedAt = new Date().toISOString()
   const metadata = buildMetadata(finalState)
 
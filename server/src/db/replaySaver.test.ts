@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { ReplayRecording } from '@/types/race'
+import { createInitialRaceState } from '@/state/factories'
+
+vi.mock('./raceStorage', () => ({
+  saveRace: vi.fn(),
+}))
+
+import { saveRace } from './raceStorage'
+import { ReplaySaver } from './replaySaver'
+
+const saveRaceMock = vi.mocked(saveRace)
+
+const makeRecording = (): ReplayRecording => {
+  const state = createInitialRaceState('replay-test')
+  return { version: 1, meta: state.meta, frames: [], chat: [] }
+}
+
+/** Hold each save open until the test lets it land. */
+const holdSaves = () => {
+  const landings: Array<() => void> = []
+  saveRaceMock.mockImplementation(
+    () => new Promise<void>((resolve) => landings.push(resolve)),
+  )
+  return landings
+}
+
+describe('ReplaySaver', () => {
+  beforeEach(() => {
+    saveRaceMock.mockReset()
+  })
+
+  it('saves an abandon asked for while the winner save is running', async () => {
+    const landings = holdSaves()
+    const saver = new ReplaySaver(() => {})
+    const recording = makeRecording()
+    const state = createInitialRaceState('replay-test')
+    state.leaderboard = ['winner']
+
+    const winnerSave = saver.save('winner_recorded', recording, state)
+    const abandoned = { ...state, abandoned: true }
+    const resetSave = saver.save('race_reset', recording, abandoned)
+    expect(saveRaceMock).toHaveBeenCalledTimes(1)
+
+    landings[0]()
+    await vi.waitFor(() => expect(saveRaceMock).toHaveBeenCalledTimes(2))
+    expect(saveRaceMock.mock.calls[1][1].abandoned).toBe(true)
+    landings[1]()
+    await Promise.all([winnerSave, resetSave])
+  })
+
+  it('ignores repeats of a save already in hand', async () => {
+    saveRaceMock.mockResolvedValue(undefined)
+    const settled: string[] = []
+    const saver = new ReplaySaver((save) => settled.push(save.reason))
+    const recording = makeRecording()
+    const state = createInitialRaceState('replay-test')
+
+    saver.save('winner_recorded', recording, state)
+    saver.save('winner_recorded', recording, state)
+    await saver.save('winner_recorded', recording, state)
+    expect(saveRaceMock).toHaveBeenCalledTimes(1)
+    expect(settled).toEqual(['winner_recorded'])
+  })
+
+  it('reports a failed save and carries on with the next', async () => {
+    saveRaceMock.mockRejectedValueOnce(new Error('db down')).mockResolvedValue(undefined)
+    const errors: unknown[] = []
+    const saver = new ReplaySaver((_save, error) => errors.push(error))
+    const recording = makeRecording()
+    const state = createInitialRaceState('replay-test')
+
+    saver.save('winner_recorded', recording, state)
+    await saver.save('race_reset', recording, state)
+    expect(saveRaceMock).toHaveBeenCalledTimes(2)
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toBeInstanceOf(Error)
+    expect(errors[1]).toBeUndefined()
+  })
+})
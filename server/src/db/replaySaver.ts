@@ -0,0 +1,53 @@
+import type { ReplayRecording, RaceState } from '@/types/race'
+import { cloneRaceState } from '@/state/factories'
+import { saveRace } from './raceStorage'
+
+export type ReplaySave = {
+  reason: string
+  recording: ReplayRecording
+  finalState: RaceState
+}
+
+/**
+ * Writes replays one at a time.  A save asked for while another is being
+ * written waits its turn instead of being lost, so abandoning a race during
+ * the first finisher's save still stores it as abandoned.  Asking again for a
+ * save already in hand (the room asks every tick until one lands) is a no-op,
+ * and a newer save of the same recording replaces one still waiting.
+ */
+export class ReplaySaver {
+  private current?: ReplaySave
+
+  private waiting: ReplaySave[] = []
+
+  private draining?: Promise<void>
+
+  constructor(private readonly onSettled: (save: ReplaySave, error?: unknown) => void) {}
+
+  save(reason: string, recording: ReplayRecording, finalState: RaceState) {
+    const queued = [this.current, ...this.waiting].some(
+      (save) => save?.recording === recording && save.reason === reason,
+    )
+    if (!queued) {
+      this.waiting = this.waiting.filter((save) => save.recording !== recording)
+      this.waiting.push({ reason, recording, finalState: cloneRaceState(finalState) })
+    }
+    this.draining ??= this.drain()
+    return this.draining
+  }
+
+  private async drain() {
+    for (let next = this.waiting.shift(); next; next = this.waiting.shift()) {
+      this.current = next
+      let failure: unknown
+      try {
+        await saveRace(next.recording, next.finalState)
+      } catch (error) {
+        failure = error
+      }
+      this.onSettled(next, failure)
+    }
+    this.current = undefined
+    this.draining = undefined
+  }
+}
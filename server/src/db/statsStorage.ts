@@ -1,4 +1,21 @@
-import type { ReplayRecording, RaceState, ReplayFrame } from '@/types/race'
+import type { DnfMode, ReplayRecording, RaceState, ReplayFrame } from '@/types/race'
+import {
+  getPenaltyConfig,
+  isDisqualified,
+  penalisedPoints,
+  placesOnPoints,
+} from '@/logic/penalties'
+import {
+  getStartProcedure,
+  isStartDisqualified,
+  startPenaltyPoints,
+} from '@/logic/startProcedures'
+import { getBoatClass } from '@/logic/boatClasses'
+import { boatRating, getHandicapSystem, isHandicapRace, scoredTime } from '@/logic/handicap'
+import { getRaceFormat, isMatchRace, matchPoints } from '@/logic/matchRacing'
+import { isTeamRace, teamRaceBoatPoints, teamRaceResult } from '@/logic/teamRacing'
+import { getTimeLimitConfig, tlePoints } from '@/logic/timeLimits'
+import { isPursuitRace } from '@/logic/pursuit'
 import { withClient } from './index'
 
 // ---------------------------------------------------------------------------
@@ -59,8 +76,15 @@ type BoatResult = {
   displayName: string
   finishPosition: number | null
   finishTimeSeconds: number | null
+  correctedTimeSeconds: number | null
+  rating: number | null
   dnf: boolean
+  /** Did not finish within the finishing window and scored TLE. */
+  tle: boolean
   ocs: boolean
+  dsq: boolean
+  startPenalty: string | null
+  boatClass: string
   penalties: number
   protestPenalties: number
 }
@@ -68,9 +92,13 @@ type BoatResult = {
 const computeResults = (
   finalState: RaceState,
   userBoatMap: Map<string, string | null>,
-  dnfMode: 'dnf' | 'position' = 'dnf',
+  dnfMode: DnfMode = 'dnf',
 ): BoatResult[] => {
   const results: BoatResult[] = []
+  const penaltyConfig = getPenaltyConfig(finalState)
+  const handicapSystem = getHandicapSystem(finalState)
+  // Boats still sailing when a pursuit ends are placed in the order they were sailing.
+  const scoreOnPosition = dnfMode === 'position' || isPursuitRace(finalState)
 
   for (let i = 0; i < finalState.leaderboard.length; i++) {
     const boatId = finalState.leaderboard[i]
@@ -78,16 +106,26 @@ const computeResults = (
     if (!boat) continue
     const hasFinishTime = typeof boat.finishTime === 'number' && boat.finishTime > 0
     const userId = userBoatMap.get(boatId) ?? null
+    const dsq = isDisqualified(boat, penaltyConfig) || isStartDisqualified(boat)
+    const startPenalty = boat.startPenalty || null
+    const correctedTimeSeconds = hasFinishTime ? (scoredTime(boat, finalState) ?? null) : null
+    const rating = isHandicapRace(finalState) ? boatRating(boat, handicapSystem) : null
 
-    if (dnfMode === 'position') {
+    if (scoreOnPosition) {
       results.push({
         boatId,
         userId,
         displayName: boat.name,
-        finishPosition: i + 1,
+        finishPosition: dsq ? null : i + 1,
         finishTimeSeconds: hasFinishTime ? boat.finishTime! : null,
+        correctedTimeSeconds,
+        rating,
         dnf: false,
-        ocs: Boolean(boat.overEarly),
+        tle: false,
+        ocs: Boolean(boat.recalled || boat.overEarly),
+        dsq,
+        startPenalty,
+        boatClass: getBoatClass(boat.classId).id,
         penalties: boat.penalties ?? 0,
         protestPenalties: boat.protestPenalties ?? 0,
       })
@@ -97,10 +135,17 @@ const computeResults = (
         boatId,
         userId,
         displayName: boat.name,
-        finishPosition: dnf ? null : results.filter((r) => !r.dnf).length + 1,
+        finishPosition:
+          dnf || dsq ? null : results.filter((r) => !r.dnf && !r.dsq).length + 1,
         finishTimeSeconds: hasFinishTime ? boat.finishTime! : null,
+        correctedTimeSeconds,
+        rating,
         dnf,
-        ocs: Boolean(boat.overEarly),
+        tle: dnf && !dsq && dnfMode === 'tle',
+        ocs: Boolean(boat.recalled || boat.overEarly),
+        dsq,
+        startPenalty,
+        boatClass: getBoatClass(boat.classId).id,
         penalties: boat.penalties ?? 0,
         protestPenalties: boat.protestPenalties ?? 0,
       })
@@ -118,16 +163,57 @@ export const saveRaceStats = async (
   recording: ReplayRecording,
   finalState: RaceState,
   userBoatMap: Map<string, string | null>,
-  dnfMode: 'dnf' | 'position' = 'dnf',
+  dnfMode: DnfMode = 'dnf',
 ) => {
   const raceId = recording.meta.raceId
   const windStats = computeWindStats(recording.frames)
   const MIN_FLEET_SIZE = 3
   const fleetSize = Object.keys(finalState.boats).length
-  if (fleetSize < MIN_FLEET_SIZE) return
+  // A match is always two boats, so it is the one race small enough to score.
+  if (fleetSize < MIN_FLEET_SIZE && !isMatchRace(finalState)) return
+  if (finalState.abandoned) return
 
   const results = computeResults(finalState, userBoatMap, dnfMode)
   const dnfPoints = fleetSize + 1
+  const penaltyConfig = getPenaltyConfig(finalState)
+  // Team races score each boat on its place (D3.1) and each team on the total.
+  const teamRace = isTeamRace(finalState)
+  const teamBoatPoints = teamRace ? teamRaceBoatPoints(finalState) : null
+  const teamResult = teamRace ? teamRaceResult(finalState) : null
+  // Boats scored TLE get the same points, set by the race's time limit config.
+  const tleScore = tlePoints(
+    getTimeLimitConfig(finalState),
+    Math.max(0, ...results.map((result) => result.finishPosition ?? 0)),
+    results.filter((result) => result.finishTimeSeconds !== null).length,
+    fleetSize,
+  )
+
+  // Each boat is scored on its finishing place.  A scoring penalty then moves
+  // her down the results without changing anyone else's points (44.3(c)).
+  const scored = results.map((result) => {
+    const boat = finalState.boats[result.boatId]
+    const rawPoints =
+      result.tle && !result.ocs
+        ? tleScore
+        : result.dnf || result.ocs
+          ? dnfPoints
+          : (result.finishPosition ?? dnfPoints)
+    const points =
+      teamBoatPoints?.[result.boatId] ??
+      penalisedPoints(
+        startPenaltyPoints(rawPoints, boat, fleetSize),
+        boat,
+        fleetSize,
+        penaltyConfig,
+      )
+    return { result, boat, points }
+  })
+  const places =
+    penaltyConfig.system === 'scoring'
+      ? placesOnPoints(
+          scored.map(({ result, points }) => ({ place: result.finishPosition, points })),
+        )
+      : results.map((result) => result.finishPosition)
 
   // Race duration: time of the last running frame
   const runningFrames = recording.frames.filter((f) => f.state.phase === 'running')
@@ -146,8 +232,9 @@ export const saveRaceStats = async (
           avg_wind_speed_kts, min_wind_speed_kts, max_wind_speed_kts,
           baseline_wind_deg, wind_direction_stddev,
           wind_field_enabled, wind_field_intensity_kts,
-          course_name, race_duration_seconds
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
+          course_name, race_duration_seconds, penalty_system, start_procedure,
+          handicap_system, race_format
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
         ON CONFLICT (race_id) DO UPDATE SET
           fleet_size = EXCLUDED.fleet_size,
           laps = EXCLUDED.laps,
@@ -159,7 +246,11 @@ export const saveRaceStats = async (
           wind_field_enabled = EXCLUDED.wind_field_enabled,
           wind_field_intensity_kts = EXCLUDED.wind_field_intensity_kts,
           course_name = EXCLUDED.course_name,
-          race_duration_seconds = EXCLUDED.race_duration_seconds`,
+          race_duration_seconds = EXCLUDED.race_duration_seconds,
+          penalty_system = EXCLUDED.penalty_system,
+          start_procedure = EXCLUDED.start_procedure,
+          handicap_system = EXCLUDED.handicap_system,
+          race_format = EXCLUDED.race_format`,
         [
           raceId,
           fleetSize,
@@ -173,20 +264,24 @@ export const saveRaceStats = async (
           finalState.windField?.intensityKts ?? null,
           finalState.meta.courseName,
           raceDuration,
+          penaltyConfig.system,
+          getStartProcedure(finalState),
+          getHandicapSystem(finalState),
+          getRaceFormat(finalState),
         ],
       )
 
       // Insert race_results
-      for (const result of results) {
-        const points =
-          result.dnf || result.ocs ? dnfPoints : (result.finishPosition ?? dnfPoints)
+      for (const [index, { result, boat, points }] of scored.entries()) {
+        const team = teamRace ? (boat.team ?? null) : null
 
         await client.query(
           `INSERT INTO race_results (
             race_id, user_id, boat_id, display_name,
             finish_position, finish_time_seconds, fleet_size, points,
-            dnf, ocs, penalties, protest_penalties
-          ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
+            dnf, ocs, penalties, protest_penalties, dsq, start_penalty, boat_class,
+            corrected_time_seconds, rating, match_points, team, team_points, team_won, tle
+          ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22)
           ON CONFLICT (race_id, boat_id) DO UPDATE SET
             user_id = EXCLUDED.user_id,
             display_name = EXCLUDED.display_name,
@@ -197,13 +292,23 @@ export const saveRaceStats = async (
             dnf = EXCLUDED.dnf,
             ocs = EXCLUDED.ocs,
             penalties = EXCLUDED.penalties,
-            protest_penalties = EXCLUDED.protest_penalties`,
+            protest_penalties = EXCLUDED.protest_penalties,
+            dsq = EXCLUDED.dsq,
+            start_penalty = EXCLUDED.start_penalty,
+            boat_class = EXCLUDED.boat_class,
+            corrected_time_seconds = EXCLUDED.corrected_time_seconds,
+            rating = EXCLUDED.rating,
+            match_points = EXCLUDED.match_points,
+            team = EXCLUDED.team,
+            team_points = EXCLUDED.team_points,
+            team_won = EXCLUDED.team_won,
+            tle = EXCLUDED.tle`,
           [
             raceId,
             result.userId,
             result.boatId,
             result.displayName,
-            result.finishPosition,
+            places[index],
             result.finishTimeSeconds,
             fleetSize,
             points,
@@ -211,6 +316,16 @@ export const saveRaceStats = async (
             result.ocs,
             result.penalties,
             result.protestPenalties,
+            result.dsq,
+            result.startPenalty,
+            result.boatClass,
+            result.correctedTimeSeconds,
+            result.rating,
+            isMatchRace(finalState) ? matchPoints(finalState, result.boatId) : null,
+            team,
+            team && teamResult ? teamResult.totals[team] : null,
+            team && teamResult ? teamResult.winner === team : null,
+            result.tle,
           ],
         )
       }
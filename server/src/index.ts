@@ -9,6 +9,7 @@ import { env } from './lib/env'
 import { runMigrations } from './db'
 import { getRace, getRecentRaces, queryRaces } from './db/raceStorage'
 import { RaceRoom } from './rooms/RaceRoom'
+import { isCourseLayoutId } from '@/config/courseLayouts'
 import { authenticate } from './auth/authMiddleware'
 import authRoutes from './routes/authRoutes'
 import adminRoutes from './routes/adminRoutes'
@@ -158,6 +159,7 @@ expressApp.get('/api/rooms', async (_req, res) => {
               createdAt: number
               createdBy: string
               regattaId: string
+              courseLayout: string
               status: 'waiting' | 'in-progress' | 'finished'
               phase: 'prestart' | 'running' | 'finished' | 'results'
               timeToStartSeconds: number
@@ -176,6 +178,7 @@ expressApp.get('/api/rooms', async (_req, res) => {
             phase: metadata.phase ?? 'prestart',
             regattaId: raceRoom?.regattaId ?? metadata.regattaId ?? undefined,
             createdBy: raceRoom?.createdBy ?? metadata.createdBy ?? undefined,
+            courseLayout: raceRoom?.courseLayout ?? metadata.courseLayout ?? undefined,
           }
         } catch (err) {
           console.warn('[API] error getting room details', roomInfo.roomId, err)
@@ -201,12 +204,17 @@ expressApp.get('/api/rooms', async (_req, res) => {
 
 expressApp.post('/api/rooms', async (req, res) => {
   try {
-    const { roomName, description, createdBy, regattaId } = req.body
+    const { roomName, description, createdBy, regattaId, courseLayout } = req.body
+    if (courseLayout !== undefined && !isCourseLayoutId(courseLayout)) {
+      res.status(400).json({ error: 'Unknown course layout' })
+      return
+    }
     const options: Record<string, unknown> = {
       roomName: typeof roomName === 'string' ? roomName.trim() : undefined,
       description: typeof description === 'string' ? description.trim() : undefined,
       createdBy: typeof createdBy === 'string' ? createdBy : undefined,
       regattaId: typeof regattaId === 'string' && regattaId ? regattaId : undefined,
+      courseLayout,
     }
     const room = await matchMaker.createRoom('race_room', options)
     res.json({ roomId: room.roomId })
@@ -234,6 +242,7 @@ expressApp.get('/api/rooms/:roomId', async (req, res) => {
         createdAt: number
         createdBy: string
         regattaId: string
+        courseLayout: string
         status: 'waiting' | 'in-progress' | 'finished'
         timeToStartSeconds: number
         phase: string
@@ -252,6 +261,7 @@ expressApp.get('/api/rooms/:roomId', async (req, res) => {
       phase: metadata.phase ?? 'prestart',
       regattaId: raceRoom?.regattaId ?? metadata.regattaId ?? undefined,
       createdBy: raceRoom?.createdBy ?? metadata.createdBy ?? undefined,
+      courseLayout: raceRoom?.courseLayout ?? metadata.courseLayout ?? undefined,
     })
   } catch (error) {
     console.error('[API] error getting room', error)
@@ -9,29 +9,100 @@ import {
   cloneRaceState,
 } from '@/state/factories'
 import type {
+  BoatClassId,
+  BoatState,
   ChatMessage,
   ChatSenderRole,
+  CurrentFieldConfig,
+  DnfMode,
+  HandicapSystem,
+  PenaltyConfig,
+  PenaltySystem,
   RaceEvent,
+  StartProcedure,
   RaceRole,
   RaceState,
   ReplayRecording,
   PlayerInput,
   ProtestStatus,
+  RaceFormat,
+  SailTrimMode,
+  TeamId,
+  TimeLimitConfig,
+  UmpireDecision,
+  WindScenario,
+  WindScript,
 } from '@/types/race'
 import { appEnv } from '@/config/env'
 import { createId } from '@/utils/ids'
 import { assignLeaderboard } from '@/logic/leaderboard'
 import { placeBoatNearNextMark } from '@/logic/debugPlacement'
 import { normalizeDeg, quantizeHeading } from '@/logic/physics'
-import { SPIN_HOLD_SECONDS } from '@/logic/constants'
+import { FOULED_FLASH_SECONDS, SPIN_HOLD_SECONDS } from '@/logic/constants'
+import {
+  clearSpinPenalty,
+  describeSpin,
+  getPenaltyConfig,
+  isDisqualified,
+  isPenaltySystem,
+  planPenaltySpin,
+  spinHeadings,
+  type SpinPlan,
+} from '@/logic/penalties'
+import {
+  applyGeneralRecall,
+  canGeneralRecall,
+  isStartDisqualified,
+  isStartProcedure,
+} from '@/logic/startProcedures'
+import { isBoatClassId } from '@/logic/boatClasses'
+import { defaultCurrentField, isCurrentMode } from '@/logic/currentField'
+import { isWindScenario } from '@/logic/windScenarios'
+import { getWindScriptPreset, validateWindScript } from '@/config/windScripts'
+import {
+  correctedTime,
+  getHandicapSystem,
+  isHandicapRace,
+  isHandicapSystem,
+  isValidRating,
+  rankByCorrectedTime,
+  usesPhrfRatings,
+} from '@/logic/handicap'
+import { isSailTrimMode } from '@/logic/sailTrim'
+import {
+  isMatchRace,
+  isRaceFormat,
+  MATCH_RACE_BOATS,
+  matchEndForIndex,
+  matchEntryStation,
+} from '@/logic/matchRacing'
+import {
+  balanceTeams,
+  isTeamId,
+  isTeamRace,
+  nextTeam,
+  TEAM_RACE_MAX_BOATS,
+  teamCounts,
+  teamsReady,
+} from '@/logic/teamRacing'
+import { isPursuitMinutes, isPursuitRace, pursuitStartTimes } from '@/logic/pursuit'
+import { getTimeLimitConfig, mergeTimeLimits } from '@/logic/timeLimits'
+import { shortenedFinishLegIndex, shortenedFinishLine } from '@/logic/shortenCourse'
+import { getCourseLegs } from '@/config/course'
 import { RaceRoomState } from '../state/RaceRoomState'
 import { RaceStore } from '../state/serverRaceStore'
 import { applyRaceStateToSchema } from '../state/schema/applyRaceState'
-import { saveRace } from '../db/raceStorage'
+import { ReplaySaver } from '../db/replaySaver'
 import { saveRaceStats } from '../db/statsStorage'
 import { addRaceToRegatta, getNextRaceNumber } from '../db/regattaStorage'
 import { MlAiController } from '@/ai/mlController'
 import { AiManager } from '@/ai/manager'
+import {
+  defaultCourseLayoutId,
+  getCourseLayout,
+  isCourseLayoutId,
+  type CourseLayoutId,
+} from '@/config/courseLayouts'
 
 const roomDebug = (...args: unknown[]) => {
   if (!appEnv.debugNetLogs) return
@@ -53,6 +124,8 @@ type InputMessage = {
   spin?: 'full'
   vmgMode?: boolean
   blowSails?: boolean
+  roll?: boolean
+  sheet?: number
   clearPenalty?: boolean
 }
 
@@ -62,14 +135,31 @@ type ProtestCommand =
   | { kind: 'file'; targetBoatId: string }
   | { kind: 'revoke'; targetBoatId: string }
   | { kind: 'judge_clear'; targetBoatId: string }
+  | { kind: 'umpire_call'; targetBoatId: string; decision: UmpireDecision }
 
 type HostCommand =
   | { kind: 'arm'; seconds?: number }
   | { kind: 'finish_race' }
-  | { kind: 'confirm_results'; scored: boolean; dnfMode: 'dnf' | 'position'; leaderboard?: string[] }
+  | { kind: 'general_recall' }
+  | { kind: 'shorten_course' }
+  | { kind: 'abandon' }
+  | { kind: 'confirm_results'; scored: boolean; dnfMode: DnfMode; leaderboard?: string[] }
   | { kind: 'reset' }
   | { kind: 'pause'; paused: boolean }
   | { kind: 'wind_field'; enabled: boolean }
+  | { kind: 'current_field'; config: Partial<CurrentFieldConfig> }
+  | { kind: 'wind_scenario'; scenario: WindScenario }
+  | { kind: 'wind_script'; scriptId?: string; script?: WindScript }
+  | { kind: 'penalty_system'; system: PenaltySystem; scoringPercent?: number }
+  | { kind: 'start_procedure'; procedure: StartProcedure }
+  | { kind: 'boat_class'; classId: BoatClassId; boatId?: string }
+  | { kind: 'handicap_system'; system: HandicapSystem }
+  | { kind: 'boat_rating'; boatId: string; rating?: number }
+  | { kind: 'sail_trim'; mode: SailTrimMode }
+  | { kind: 'race_format'; format: RaceFormat }
+  | { kind: 'boat_team'; boatId: string; team: TeamId }
+  | { kind: 'pursuit_minutes'; minutes: number }
+  | { kind: 'time_limits'; limits: Partial<TimeLimitConfig> }
   | { kind: 'debug_set_pos'; boatId: string; x: number; y: number; headingDeg?: number }
   | { kind: 'debug_lap'; boatId: string }
   | { kind: 'debug_finish'; boatId: string }
@@ -106,7 +196,24 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
   private activeSpins = new Map<string, NodeJS.Timeout[]>()
   private replayRecorder = new ReplayRecorder()
   private replaySaved = false
-  private persistingReplay = false
+  private replaySaver = new ReplaySaver((save, error) => {
+    const raceId = save.recording.meta.raceId
+    if (error) {
+      console.error('[RaceRoom] failed to save replay', {
+        raceId,
+        reason: save.reason,
+        error,
+      })
+    } else {
+      console.info('[RaceRoom] saved replay', { raceId, reason: save.reason })
+    }
+    // A save landing after a reset belongs to the race before it.
+    if (save.recording === this.replayRecorder.getRecording()) {
+      this.replaySaved = true
+    }
+  })
+  /** The host's penalty settings from before a match or team race forced one-turn. */
+  private fleetPenaltyConfig?: PenaltyConfig
   private lastCountdownLogAtMs = 0
   private lastLobbyUpdateAtMs = 0
   private lastLobbyStatus?: string
@@ -119,6 +226,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
   public createdAt: number = Date.now()
   public createdBy?: string
   public regattaId?: string
+  public courseLayout: CourseLayoutId = defaultCourseLayoutId
   private lastPlayerLeaveTime?: number
   private cleanupTimer?: NodeJS.Timeout
   private aiController?: MlAiController | AiManager
@@ -140,6 +248,9 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     this.createdAt = Date.now()
     this.createdBy = typeof options.createdBy === 'string' ? options.createdBy : undefined
     this.regattaId = typeof options.regattaId === 'string' && options.regattaId ? options.regattaId : undefined
+    this.courseLayout = isCourseLayoutId(options.courseLayout)
+      ? options.courseLayout
+      : defaultCourseLayoutId
 
     // Expose metadata to matchMaker listings if needed.
     this.setMetadata({
@@ -148,6 +259,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       createdAt: this.createdAt,
       createdBy: this.createdBy ?? '',
       regattaId: this.regattaId ?? '',
+      courseLayout: this.courseLayout,
       status: 'waiting',
       timeToStartSeconds: null,
       phase: 'prestart',
@@ -164,8 +276,11 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       roomName: this.metadataRoomName,
     })
     const initialRaceId = createId(`race-${this.roomId}`)
-    const initialState = createInitialRaceState(initialRaceId)
-    initialState.meta.courseName = this.metadataRoomName
+    const initialState = createInitialRaceState(
+      initialRaceId,
+      appEnv.countdownSeconds,
+      getCourseLayout(this.courseLayout),
+    )
     this.raceStore = new RaceStore(initialState)
     applyRaceStateToSchema(this.state.race, initialState)
     this.replayRecorder.start(initialState)
@@ -262,6 +377,8 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         spin: message.spin,
         vmgMode: message.vmgMode,
         blowSails: message.blowSails,
+        roll: message.roll,
+        sheet: message.sheet,
         tClient: Date.now(),
       }
       this.raceStore.upsertInput(payload)
@@ -284,6 +401,18 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         this.clearProtestAsJudge(targetBoatId)
         return
       }
+      if (command.kind === 'umpire_call') {
+        if (role !== 'judge') {
+          console.warn('[RaceRoom] ignoring umpire_call from non-judge', {
+            sessionId: client.sessionId,
+            role,
+            command,
+          })
+          return
+        }
+        this.umpireCall(targetBoatId, command.decision)
+        return
+      }
 
       // file/revoke must come from a player with an assigned boat
       const protestorBoatId = this.clientBoatMap.get(client.sessionId)
@@ -327,6 +456,12 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         this.armCountdown(command.seconds ?? appEnv.countdownSeconds)
       } else if (command.kind === 'finish_race') {
         this.finishRace()
+      } else if (command.kind === 'general_recall') {
+        this.generalRecall()
+      } else if (command.kind === 'shorten_course') {
+        this.shortenCourse()
+      } else if (command.kind === 'abandon') {
+        this.abandonRace()
       } else if (command.kind === 'confirm_results') {
         this.confirmResults(command)
       } else if (command.kind === 'reset') {
@@ -335,6 +470,32 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         this.setPaused(command.paused)
       } else if (command.kind === 'wind_field') {
         this.setWindFieldEnabled(command.enabled)
+      } else if (command.kind === 'current_field') {
+        this.setCurrentField(command.config)
+      } else if (command.kind === 'wind_scenario') {
+        this.setWindScenario(command.scenario)
+      } else if (command.kind === 'wind_script') {
+        this.setWindScript(command.scriptId, command.script)
+      } else if (command.kind === 'penalty_system') {
+        this.setPenaltySystem(command.system, command.scoringPercent)
+      } else if (command.kind === 'start_procedure') {
+        this.setStartProcedure(command.procedure)
+      } else if (command.kind === 'boat_class') {
+        this.setBoatClass(command.classId, command.boatId)
+      } else if (command.kind === 'handicap_system') {
+        this.setHandicapSystem(command.system)
+      } else if (command.kind === 'boat_rating') {
+        this.setBoatRating(command.boatId, command.rating)
+      } else if (command.kind === 'sail_trim') {
+        this.setSailTrimMode(command.mode)
+      } else if (command.kind === 'race_format') {
+        this.setRaceFormat(command.format)
+      } else if (command.kind === 'boat_team') {
+        this.setBoatTeam(command.boatId, command.team)
+      } else if (command.kind === 'pursuit_minutes') {
+        this.setPursuitMinutes(command.minutes)
+      } else if (command.kind === 'time_limits') {
+        this.setTimeLimits(command.limits)
       } else if (command.kind === 'debug_set_pos') {
         this.debugSetBoatPosition(command.boatId, command.x, command.y, command.headingDeg)
       } else if (command.kind === 'debug_lap') {
@@ -722,8 +883,9 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     this.lastPlayerLeaveTime = undefined
   }
   /**
-   * Queue a 360° spin sequence for a boat.
-   * The spin consists of three heading changes: +120°, +240°, then back to origin.
+   * Queue a penalty spin sequence for a boat.
+   * Each turn consists of three heading changes: +120°, +240°, then back to origin.
+   * Fouls take two turns and touching a mark one (see `planPenaltySpin`).
    * Each heading is held for SPIN_HOLD_SECONDS before moving to the next.
    */
   private queueSpin(boatId: string) {
@@ -744,9 +906,10 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       }
     })
 
-    // Calculate the three headings for the spin sequence (120° increments)
+    // Calculate the headings for the spin sequence (120° increments per turn)
+    const plan = planPenaltySpin(boat, getPenaltyConfig(state))
     const origin = boat.desiredHeadingDeg ?? boat.headingDeg
-    const headings = [origin + 120, origin + 240, origin].map((deg) => normalizeDeg(deg))
+    const headings = spinHeadings(origin, plan.turns)
 
     // Schedule each heading change with increasing delays
     let delay = 0
@@ -755,7 +918,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         this.injectHeading(boatId, heading)
         // On the last heading (back to origin), finish the spin
         if (index === headings.length - 1) {
-          this.finishSpin(boatId)
+          this.finishSpin(boatId, plan)
         }
       }, delay)
       delay += SPIN_HOLD_SECONDS * 1000
@@ -785,7 +948,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
    * Finish a spin sequence: clean up timers and restore normal boat state.
    * This is called after the final heading change (back to origin) completes.
    */
-  private finishSpin(boatId: string) {
+  private finishSpin(boatId: string, plan: SpinPlan) {
     // Clear all timers for this spin
     const timers = this.activeSpins.get(boatId)
     if (timers) {
@@ -799,8 +962,8 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         boat.rightsSuspended = false
       }
     })
-    // Clear one penalty if the boat has any; and clear any active protest on that boat.
-    this.clearOnePenaltyAfterSpin(boatId)
+    // Clear the penalty the spin paid for; and clear any active protest on that boat.
+    this.clearOnePenaltyAfterSpin(boatId, plan)
   }
 
   /**
@@ -810,6 +973,8 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
    */
   private handlePenaltyClearRequest(boatId: string) {
     if (!this.raceStore) return
+    // Umpire penalties in a match can only be taken, not waived.
+    if (isMatchRace(this.raceStore.getState())) return
     let cleared = false
     let waived = false
     let boatName: string | undefined
@@ -839,6 +1004,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
           boat.protestPenalties = Math.max(0, boat.protestPenalties - 1)
         }
         boat.penalties = Math.max(0, boat.penalties - 1)
+        boat.markPenalties = Math.min(boat.markPenalties ?? 0, boat.penalties)
         cleared = true
       }
       boat.fouled = (boat.penalties ?? 0) > 0
@@ -864,7 +1030,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
   /**
    * Clear one penalty after a spin, and clear any active protest on this boat.
    */
-  private clearOnePenaltyAfterSpin(boatId: string) {
+  private clearOnePenaltyAfterSpin(boatId: string, plan: SpinPlan) {
     if (!this.raceStore) return
     let clearedPenalty = false
     let clearedProtest = false
@@ -876,17 +1042,13 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       if (!boat) return
       boatName = boat.name
 
-      if ((boat.penalties ?? 0) > 0) {
-        if ((boat.protestPenalties ?? 0) > 0) {
-          boat.protestPenalties = Math.max(0, boat.protestPenalties - 1)
-        }
-        boat.penalties = Math.max(0, boat.penalties - 1)
-        clearedPenalty = true
-      }
+      clearedPenalty = clearSpinPenalty(boat, plan.clears)
       boat.fouled = (boat.penalties ?? 0) > 0
       remaining = boat.penalties ?? 0
 
-      if (draft.protests && draft.protests[boatId]) {
+      // A Y flag still waiting on the umpires is theirs to settle.
+      const protest = draft.protests?.[boatId]
+      if (protest && protest.status !== 'y_flag') {
         delete draft.protests[boatId]
         clearedProtest = true
       }
@@ -900,10 +1062,10 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       events.push({
         eventId: createId('event'),
         kind: 'rule_hint',
-        ruleId: 'other',
+        ruleId: plan.clears === 'mark' ? '31' : 'other',
         boats: [boatId],
         t: state.t,
-        message: `${boatName} completed a 360° spin and cleared a penalty (${remaining} remaining)`,
+        message: `${boatName} completed ${describeSpin(plan.turns)} and cleared a penalty (${remaining} remaining)`,
       })
     }
     if (clearedProtest) {
@@ -913,7 +1075,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         ruleId: 'other',
         boats: [boatId],
         t: state.t,
-        message: `${boatName} resolved the protest with a 360° spin`,
+        message: `${boatName} resolved the protest with ${describeSpin(plan.turns)}`,
       })
     }
     this.broadcastEvents(events)
@@ -926,6 +1088,8 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     let filed = false
     let protestorName: string | undefined
     let targetName: string | undefined
+    // In a match the protest is a Y flag: no penalty until the umpires decide.
+    const yFlag = isMatchRace(this.raceStore.getState())
     this.mutateState((draft) => {
       draft.protests ??= {}
       const protestor = draft.boats[protestorBoatId]
@@ -939,11 +1103,12 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         protestedBoatId: targetBoatId,
         protestorBoatId,
         createdAtT: draft.t,
-        status: 'active',
+        status: yFlag ? 'y_flag' : 'active',
       }
+      filed = true
+      if (yFlag) return
       target.penalties = (target.penalties ?? 0) + 1
       target.protestPenalties = (target.protestPenalties ?? 0) + 1
-      filed = true
     })
 
     if (!filed || !protestorName || !targetName) return
@@ -955,7 +1120,51 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
         ruleId: 'other',
         boats: [protestorBoatId, targetBoatId],
         t: state.t,
-        message: `${protestorName} protested ${targetName} (penalty applied)`,
+        message: yFlag
+          ? `${protestorName} flew the Y flag: protest vs ${targetName} (awaiting umpires)`
+          : `${protestorName} protested ${targetName} (penalty applied)`,
+      },
+    ])
+  }
+
+  /**
+   * Rule on a Y flag as the umpires.  A penalty is taken like any other (one
+   * turn, any time before finishing); no penalty is the green and white flag.
+   */
+  private umpireCall(targetBoatId: string, decision: UmpireDecision) {
+    if (!this.raceStore) return
+    let message: string | undefined
+    let boats: string[] = []
+    this.mutateState((draft) => {
+      const protest = draft.protests?.[targetBoatId]
+      if (!protest || protest.status !== 'y_flag') return
+      const target = draft.boats[targetBoatId]
+      const protestor = draft.boats[protest.protestorBoatId]
+      if (!target || !protestor) return
+      delete draft.protests[targetBoatId]
+      boats = [protestor.id, target.id]
+      if (decision === 'no_penalty') {
+        message = `Umpires: no penalty (green and white flag) on ${protestor.name}'s Y flag vs ${target.name}`
+        return
+      }
+      const penalised = decision === 'penalty_protestor' ? protestor : target
+      penalised.penalties = (penalised.penalties ?? 0) + 1
+      penalised.protestPenalties = (penalised.protestPenalties ?? 0) + 1
+      penalised.fouled = true
+      penalised.fouledUntil = draft.t + FOULED_FLASH_SECONDS
+      message = `Umpires: penalty on ${penalised.name} (Y flag from ${protestor.name})`
+    })
+
+    if (!message) return
+    const state = this.raceStore.getState()
+    this.broadcastEvents([
+      {
+        eventId: createId('event'),
+        kind: 'umpire_call',
+        ruleId: 'other',
+        boats,
+        t: state.t,
+        message,
       },
     ])
   }
@@ -1050,14 +1259,25 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       const fallback = Object.values(draft.boats).find((boat) => !taken.has(boat.id))
       const existing = preferAi ?? fallback
       const displayName = this.resolvePlayerName(client, options)
+      const boatCount = Object.keys(draft.boats).length
+      const matchFull =
+        (isMatchRace(draft) && boatCount >= MATCH_RACE_BOATS) ||
+        (isTeamRace(draft) && boatCount >= TEAM_RACE_MAX_BOATS)
 
       if (existing) {
         existing.ai = undefined
         existing.name = displayName
         assignedId = existing.id
+      } else if (matchFull) {
+        // Every boat of the match or team race is sailed; the client watches instead.
+        assignedId = null
       } else {
         const index = Object.keys(draft.boats).length
         const newBoat = createBoatState(displayName, index, `player-${client.sessionId}`)
+        newBoat.classId = draft.boatClass
+        if (isTeamRace(draft)) {
+          newBoat.team = nextTeam(Object.values(draft.boats))
+        }
         draft.boats[newBoat.id] = newBoat
         assignedId = newBoat.id
       }
@@ -1198,6 +1418,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       draft.windField = draft.windField ?? {
         enabled: next,
         intensityKts: appEnv.windFieldIntensityKts,
+        shiftDeg: appEnv.windFieldShiftDeg,
         count: appEnv.windFieldCount,
         sizeWorld: appEnv.windFieldSizeWorld,
         domainLengthWorld: appEnv.windFieldDomainLengthWorld,
@@ -1209,6 +1430,283 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     })
   }
 
+  private setWindScenario(scenario: WindScenario) {
+    if (!this.raceStore) return
+    if (!isWindScenario(scenario)) return
+    this.mutateState((draft) => {
+      draft.windScenario = scenario
+    })
+  }
+
+  /**
+   * Load a preset wind script by id, or a custom one; neither clears the
+   * script and returns to live wind.  Only before the sequence starts, so a
+   * heat never switches wind part-way through.
+   */
+  private setWindScript(scriptId?: string, script?: WindScript) {
+    if (!this.raceStore) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setWindScript ignored – race already started', { phase: state.phase })
+      return
+    }
+    let next: WindScript | null = null
+    if (scriptId) {
+      next = getWindScriptPreset(scriptId)
+      if (!next) {
+        roomDebug('setWindScript ignored – unknown preset', { scriptId })
+        return
+      }
+    } else if (script) {
+      const errors = validateWindScript(script)
+      if (errors.length) {
+        roomDebug('setWindScript ignored – invalid script', { errors })
+        return
+      }
+      next = script
+    }
+    this.mutateState((draft) => {
+      draft.windScript = next ?? undefined
+    })
+  }
+
+  /** Merge a partial current config into the race; invalid fields are ignored. */
+  private setCurrentField(config: Partial<CurrentFieldConfig>) {
+    if (!this.raceStore || !config) return
+    const finite = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value)
+    this.mutateState((draft) => {
+      const next = { ...defaultCurrentField, ...draft.currentField }
+      if (typeof config.enabled === 'boolean') next.enabled = config.enabled
+      if (isCurrentMode(config.mode)) next.mode = config.mode
+      if (finite(config.setDeg)) next.setDeg = ((config.setDeg % 360) + 360) % 360
+      if (finite(config.driftKts)) next.driftKts = Math.max(0, Math.min(6, config.driftKts))
+      if (finite(config.gradientWidthWorld) && config.gradientWidthWorld > 0) {
+        next.gradientWidthWorld = config.gradientWidthWorld
+      }
+      if (finite(config.periodSeconds) && config.periodSeconds > 0) {
+        next.periodSeconds = config.periodSeconds
+      }
+      if (finite(config.phase)) next.phase = config.phase
+      draft.currentField = next
+    })
+  }
+
+  private setPenaltySystem(system: PenaltySystem, scoringPercent?: number) {
+    if (!this.raceStore) return
+    if (!isPenaltySystem(system)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setPenaltySystem ignored – race already started', { phase: state.phase })
+      return
+    }
+    this.mutateState((draft) => {
+      const current = getPenaltyConfig(draft)
+      const percent = Number(scoringPercent)
+      draft.penaltyConfig = {
+        system,
+        scoringPercent:
+          Number.isFinite(percent) && percent > 0
+            ? Math.min(100, percent)
+            : current.scoringPercent,
+      }
+    })
+  }
+
+  private setStartProcedure(procedure: StartProcedure) {
+    if (!this.raceStore) return
+    if (!isStartProcedure(procedure)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setStartProcedure ignored – race already started', { phase: state.phase })
+      return
+    }
+    this.mutateState((draft) => {
+      draft.startProcedure = procedure
+    })
+  }
+
+  /** Set one boat's class, or the whole fleet's (and the default for new boats). */
+  private setBoatClass(classId: BoatClassId, boatId?: string) {
+    if (!this.raceStore) return
+    if (!isBoatClassId(classId)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setBoatClass ignored – race already started', { phase: state.phase })
+      return
+    }
+    this.mutateState((draft) => {
+      if (boatId) {
+        const boat = draft.boats[boatId]
+        if (boat) boat.classId = classId
+        return
+      }
+      draft.boatClass = classId
+      Object.values(draft.boats).forEach((boat) => {
+        boat.classId = classId
+      })
+    })
+  }
+
+  private setHandicapSystem(system: HandicapSystem) {
+    if (!this.raceStore) return
+    if (!isHandicapSystem(system)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setHandicapSystem ignored – race already started', { phase: state.phase })
+      return
+    }
+    // PHRF ratings and Portsmouth Numbers are different scales, so boats go
+    // back to their class ratings when the race changes between them.
+    const clearRatings =
+      usesPhrfRatings(getHandicapSystem(state)) !== usesPhrfRatings(system)
+    this.mutateState((draft) => {
+      draft.handicapSystem = system
+      if (clearRatings) {
+        Object.values(draft.boats).forEach((boat) => {
+          boat.rating = undefined
+        })
+      }
+    })
+  }
+
+  /** Set a boat's handicap rating; a missing rating uses its class rating. */
+  private setBoatRating(boatId: string, rating?: number) {
+    if (!this.raceStore) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setBoatRating ignored – race already started', { phase: state.phase })
+      return
+    }
+    const value = Number(rating)
+    if (rating !== undefined && !isValidRating(value, getHandicapSystem(state))) {
+      roomDebug('setBoatRating ignored – invalid rating', { boatId, rating })
+      return
+    }
+    this.mutateState((draft) => {
+      const boat = draft.boats[boatId]
+      if (!boat) return
+      boat.rating = rating === undefined ? undefined : value
+    })
+  }
+
+  private setSailTrimMode(mode: SailTrimMode) {
+    if (!this.raceStore) return
+    if (!isSailTrimMode(mode)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setSailTrimMode ignored – race already started', { phase: state.phase })
+      return
+    }
+    this.mutateState((draft) => {
+      draft.sailTrim = mode
+    })
+  }
+
+  /**
+   * Switch between fleet, match and team racing.  A match is sailed by two
+   * boats under the one-turn penalty (C5.2), and a team race by up to eight
+   * under the one-turn penalty (D2.1), so extra boats are dropped, keeping
+   * the host's and other sailed boats first; their sailors become boatless.
+   * Team racing splits the remaining boats into two teams.
+   */
+  private setRaceFormat(format: RaceFormat) {
+    if (!this.raceStore) return
+    if (!isRaceFormat(format)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setRaceFormat ignored – race already started', { phase: state.phase })
+      return
+    }
+    const hostBoatId = this.hostSessionId
+      ? this.clientBoatMap.get(this.hostSessionId)
+      : undefined
+    const sailed = new Set(this.clientBoatMap.values())
+    const priority = (boatId: string) =>
+      boatId === hostBoatId ? 0 : sailed.has(boatId) ? 1 : 2
+    const maxBoats =
+      format === 'match'
+        ? MATCH_RACE_BOATS
+        : format === 'team'
+          ? TEAM_RACE_MAX_BOATS
+          : Infinity
+    const ranked = Object.keys(state.boats).sort((a, b) => priority(a) - priority(b))
+    const dropped = ranked.slice(maxBoats)
+    const umpired = format === 'match' || format === 'team'
+    const restoredPenaltyConfig = umpired ? undefined : this.fleetPenaltyConfig
+    this.fleetPenaltyConfig = umpired
+      ? (this.fleetPenaltyConfig ?? getPenaltyConfig(state))
+      : undefined
+    this.mutateState((draft) => {
+      draft.raceFormat = format
+      const teams = format === 'team' ? balanceTeams(ranked.slice(0, maxBoats)) : {}
+      Object.values(draft.boats).forEach((boat) => {
+        boat.team = teams[boat.id]
+      })
+      if (!umpired) {
+        if (restoredPenaltyConfig) draft.penaltyConfig = restoredPenaltyConfig
+        return
+      }
+      draft.penaltyConfig = { ...getPenaltyConfig(draft), system: 'one-turn' }
+      dropped.forEach((boatId) => {
+        delete draft.boats[boatId]
+      })
+      draft.leaderboard = draft.leaderboard.filter((id) => !dropped.includes(id))
+    })
+    for (const [sessionId, boatId] of Array.from(this.clientBoatMap.entries())) {
+      if (!dropped.includes(boatId)) continue
+      this.clientBoatMap.delete(sessionId)
+      const client = this.clients.find((c) => c.sessionId === sessionId)
+      client?.send('boat_assignment', { boatId: null })
+    }
+    if (dropped.length) this.broadcastRoster()
+  }
+
+  /** Move a boat to the other team before a team race starts. */
+  private setBoatTeam(boatId: string, team: TeamId) {
+    if (!this.raceStore) return
+    if (!isTeamId(team)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed || !isTeamRace(state)) {
+      roomDebug('setBoatTeam ignored – not a team race in prestart', {
+        phase: state.phase,
+      })
+      return
+    }
+    this.mutateState((draft) => {
+      const boat = draft.boats[boatId]
+      if (!boat) return
+      boat.team = team
+    })
+  }
+
+  private setPursuitMinutes(minutes: number) {
+    if (!this.raceStore) return
+    if (!isPursuitMinutes(minutes)) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setPursuitMinutes ignored – race already started', {
+        phase: state.phase,
+      })
+      return
+    }
+    this.mutateState((draft) => {
+      draft.pursuitMinutes = minutes
+    })
+  }
+
+  private setTimeLimits(limits: Partial<TimeLimitConfig>) {
+    if (!this.raceStore) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'prestart' || state.countdownArmed) {
+      roomDebug('setTimeLimits ignored – race already started', { phase: state.phase })
+      return
+    }
+    this.mutateState((draft) => {
+      draft.timeLimits = mergeTimeLimits(getTimeLimitConfig(draft), limits ?? {})
+    })
+  }
+
   private debugSetBoatPosition(boatId: string, x: number, y: number, headingDeg?: number) {
     if (!this.raceStore) return
     const state = this.raceStore.getState()
@@ -1320,6 +1818,13 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
   }
 
   private armCountdown(seconds: number) {
+    const current = this.raceStore?.getState()
+    if (current && isTeamRace(current) && !teamsReady(current)) {
+      roomDebug('armCountdown ignored – teams are uneven', {
+        teams: teamCounts(Object.values(current.boats)),
+      })
+      return
+    }
     const clockStartMs = Date.now() + seconds * 1000
     console.info('[RaceRoom] armCountdown', {
       seconds,
@@ -1332,6 +1837,26 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       draft.countdownArmed = true
       draft.clockStartMs = clockStartMs
       draft.t = -seconds
+      // Pursuit start times are fixed from the fleet as it is when the sequence
+      // starts; a boat that joins later starts with the slowest boats at the gun.
+      const startTimes = isPursuitRace(draft) ? pursuitStartTimes(draft) : {}
+      Object.values(draft.boats).forEach((boat) => {
+        boat.startTime = startTimes[boat.id]
+      })
+      if (isMatchRace(draft)) {
+        // Send each boat to its end of the line, ready to enter the start box.
+        Object.values(draft.boats).forEach((boat, index) => {
+          const end = matchEndForIndex(index)
+          const station = matchEntryStation(draft, end)
+          boat.matchEnd = end
+          boat.matchEntered = false
+          boat.pos = { ...station.pos }
+          boat.prevPos = { ...station.pos }
+          boat.headingDeg = station.headingDeg
+          boat.desiredHeadingDeg = station.headingDeg
+          boat.speed = 0
+        })
+      }
       const hostBoatId = this.hostSessionId
         ? this.clientBoatMap.get(this.hostSessionId)
         : this.raceStore?.getState().hostBoatId
@@ -1380,32 +1905,19 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
   private finishBoatDraft(boat: RaceState['boats'][string], draft: RaceState) {
     boat.finished = true
     boat.finishTime = draft.t
+    if (!isPursuitRace(draft)) {
+      boat.correctedTime = correctedTime(draft.t, boat, draft)
+    }
     boat.distanceToNextMark = 0
     boat.nextMarkIndex = 0
     boat.inMarkZone = false
   }
 
   private async persistReplay(reason: string, finalStateOverride?: RaceState) {
-    if (this.persistingReplay) return
     const recording = this.replayRecorder.getRecording()
     const finalState = finalStateOverride ?? this.raceStore?.getState()
     if (!recording || !finalState || recording.frames.length <= 1) return
-
-    this.persistingReplay = true
-    try {
-      await saveRace(recording, cloneRaceState(finalState))
-      this.replaySaved = true
-      console.info('[RaceRoom] saved replay', { raceId: recording.meta.raceId, reason })
-    } catch (error) {
-      this.replaySaved = true
-      console.error('[RaceRoom] failed to save replay', {
-        raceId: recording?.meta.raceId,
-        reason,
-        error,
-      })
-    } finally {
-      this.persistingReplay = false
-    }
+    await this.replaySaver.save(reason, recording, finalState)
   }
 
   private finishRace() {
@@ -1431,7 +1943,113 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     void this.persistReplay('race_finished')
   }
 
-  private confirmResults(command: { scored: boolean; dnfMode: 'dnf' | 'position'; leaderboard?: string[] }) {
+  /**
+   * General recall (First Substitute, RRS 29.2): the start is sailed again.
+   * Every boat goes back to the start leg and a new sequence begins at once;
+   * boats disqualified under the black flag are named and sit it out (30.4).
+   */
+  private generalRecall() {
+    if (!this.raceStore) return
+    const state = this.raceStore.getState()
+    if (!canGeneralRecall(state)) {
+      roomDebug('generalRecall ignored', { phase: state.phase, t: state.t })
+      return
+    }
+
+    const seconds = appEnv.countdownSeconds
+    roomDebug('generalRecall', { seconds, ...this.describeHost(this.hostSessionId) })
+    let excluded: BoatState[] = []
+    this.mutateState((draft) => {
+      excluded = applyGeneralRecall(draft)
+      draft.phase = 'prestart'
+      draft.countdownArmed = true
+      draft.clockStartMs = Date.now() + seconds * 1000
+      draft.t = -seconds
+      draft.xFlagUntil = undefined
+    })
+    this.loop?.restartSequence()
+    this.recordRoomEvents([
+      {
+        eventId: createId('event'),
+        kind: 'general_recall',
+        t: state.t,
+        message: excluded.length
+          ? `General recall (First Substitute) — new starting sequence; ${excluded.map((boat) => boat.name).join(', ')} BFD, excluded from the restart`
+          : 'General recall (First Substitute) — new starting sequence',
+        boats: excluded.length ? excluded.map((boat) => boat.id) : undefined,
+        ruleId: '29',
+      },
+    ])
+  }
+
+  /**
+   * Shorten course (S flag, RRS 32.2): boats finish across a line laid at the
+   * leading boat's next mark instead of sailing the rest of the course.
+   */
+  private shortenCourse() {
+    if (!this.raceStore) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'running' || state.shortenedFinish) {
+      roomDebug('shortenCourse ignored', {
+        phase: state.phase,
+        shortened: Boolean(state.shortenedFinish),
+      })
+      return
+    }
+    const legs = getCourseLegs(state)
+    const legIndex = shortenedFinishLegIndex(state, legs)
+    const finish = legIndex === null ? null : shortenedFinishLine(state, legs, legIndex)
+    if (!finish) {
+      roomDebug('shortenCourse ignored – leader is not sailing to a mark')
+      return
+    }
+
+    roomDebug('shortenCourse', { legIndex: finish.legIndex })
+    this.mutateState((draft) => {
+      draft.shortenedFinish = finish
+    })
+    this.recordRoomEvents([
+      {
+        eventId: createId('event'),
+        kind: 'shorten_course',
+        t: state.t,
+        message: `Course shortened (S flag): finish at the ${legs[finish.legIndex].label.toLowerCase()} mark`,
+      },
+    ])
+  }
+
+  /**
+   * Abandon the race (N flag, RRS 32.1).  Nothing is scored: the replay is
+   * saved tagged as abandoned and the fleet goes back to the start.
+   */
+  private abandonRace() {
+    if (!this.raceStore) return
+    const state = this.raceStore.getState()
+    if (state.phase !== 'running' && state.phase !== 'finished') {
+      roomDebug('abandonRace ignored – wrong phase', { phase: state.phase })
+      return
+    }
+
+    roomDebug('abandonRace', { ...this.describeHost(this.hostSessionId) })
+    this.mutateState((draft) => {
+      draft.abandoned = true
+    })
+    this.recordRoomEvents([
+      {
+        eventId: createId('event'),
+        kind: 'abandon',
+        t: state.t,
+        message: 'Race abandoned (N flag) — back to the start',
+      },
+    ])
+    this.resetRaceState()
+  }
+
+  private confirmResults(command: {
+    scored: boolean
+    dnfMode: DnfMode
+    leaderboard?: string[]
+  }) {
     if (!this.raceStore) return
     const state = this.raceStore.getState()
     if (state.phase !== 'results') {
@@ -1441,11 +2059,13 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
 
     roomDebug('confirmResults', { scored: command.scored, dnfMode: command.dnfMode })
 
+    let overridden = false
     if (command.leaderboard?.length) {
       const currentIds = new Set(state.leaderboard)
       const newIds = new Set(command.leaderboard)
       const valid = currentIds.size === newIds.size && [...newIds].every((id) => currentIds.has(id))
       if (valid) {
+        overridden = true
         this.mutateState((draft) => {
           draft.leaderboard = command.leaderboard!
         })
@@ -1457,6 +2077,33 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       }
     }
 
+    // Handicap races score finishers on corrected time unless the host
+    // reordered the results by hand.
+    if (!overridden && isHandicapRace(state)) {
+      this.mutateState((draft) => {
+        draft.leaderboard = rankByCorrectedTime(draft.leaderboard, draft)
+      })
+    }
+
+    // Under the DSQ penalty system, any boat still carrying a foul scores
+    // behind every boat that was not disqualified, as do UFD/BFD starters.
+    this.mutateState((draft) => {
+      const config = getPenaltyConfig(draft)
+      const isDsq = (boatId: string) => {
+        const boat = draft.boats[boatId]
+        if (!boat) return false
+        return isDisqualified(boat, config) || isStartDisqualified(boat)
+      }
+      draft.leaderboard = [
+        ...draft.leaderboard.filter((boatId) => !isDsq(boatId)),
+        ...draft.leaderboard.filter(isDsq),
+      ]
+    })
+
+    // A scoring penalty (44.3(c)) is scored on the finishing place, so the
+    // list stays in finishing order here and `saveRaceStats` ranks penalised
+    // boats on their points as it saves them.
+
     const hostSessionId = this.hostSessionId
 
     if (command.scored) {
@@ -1478,7 +2125,7 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     recording: ReplayRecording,
     finalState: RaceState,
     userBoatMap: Map<string, string | null>,
-    dnfMode: 'dnf' | 'position',
+    dnfMode: DnfMode,
     hostSessionId?: string,
   ) {
     const raceId = recording.meta.raceId
@@ -1540,7 +2187,12 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     this.mutateState((draft) => {
       // Refresh course geometry on reset so edits in shared `createInitialRaceState`
       // (marks/gate/start line) take effect without recreating the room.
-      const fresh = createInitialRaceState(draft.meta.raceId, appEnv.countdownSeconds)
+      const fresh = createInitialRaceState(
+        draft.meta.raceId,
+        appEnv.countdownSeconds,
+        draft.course,
+      )
+      draft.course = fresh.course
       draft.marks = fresh.marks
       draft.startLine = fresh.startLine
       draft.leewardGate = fresh.leewardGate
@@ -1548,12 +2200,18 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
       draft.phase = 'prestart'
       draft.countdownArmed = false
       draft.clockStartMs = null
+      draft.xFlagUntil = undefined
+      draft.shortenedFinish = undefined
+      draft.abandoned = undefined
       draft.t = -appEnv.countdownSeconds
       draft.meta = createRaceMeta(createId('race'))
-      draft.meta.courseName = this.metadataRoomName
+      draft.meta.courseName = fresh.meta.courseName
       const nextBoats: RaceState['boats'] = {}
       assignment.forEach(({ boatId, name, index }) => {
         nextBoats[boatId] = createBoatState(name, index, boatId)
+        nextBoats[boatId].classId = draft.boats[boatId]?.classId ?? draft.boatClass
+        nextBoats[boatId].rating = draft.boats[boatId]?.rating
+        nextBoats[boatId].team = draft.boats[boatId]?.team
       })
       draft.boats = nextBoats
       draft.leaderboard = assignment.map((entry) => entry.boatId)
@@ -1585,6 +2243,15 @@ export class RaceRoom extends Room<{ state: RaceRoomState }> {
     this.broadcast('events', events)
   }
 
+  /** Send events the room makes itself and keep them in the replay. */
+  private recordRoomEvents(events: RaceEvent[]) {
+    this.broadcastEvents(events)
+    const state = this.raceStore?.getState()
+    if (state) {
+      this.replayRecorder.recordFrame(state, events, true)
+    }
+  }
+
   private handleChat(client: Client, payload: ChatMessagePayload) {
     const text = typeof payload?.text === 'string' ? payload.text.trim() : ''
     if (!text) return
@@ -23,6 +23,9 @@ export class WindFieldSchema extends Schema {
   @type('number')
   intensityKts = 0
 
+  @type('number')
+  shiftDeg = 0
+
   @type('number')
   count = 0
 
@@ -42,6 +45,51 @@ export class WindFieldSchema extends Schema {
   tileSizeWorld = 0
 }
 
+export class CurrentFieldSchema extends Schema {
+  @type('boolean')
+  enabled = false
+
+  @type('string')
+  mode: 'uniform' | 'gradient' | 'tidal' = 'uniform'
+
+  @type('number')
+  setDeg = 0
+
+  @type('number')
+  driftKts = 0
+
+  @type('number')
+  gradientWidthWorld = 0
+
+  @type('number')
+  periodSeconds = 0
+
+  @type('number')
+  phase = 0
+}
+
+export class PenaltyConfigSchema extends Schema {
+  @type('string')
+  system: 'two-turns' | 'one-turn' | 'scoring' | 'dsq' = 'two-turns'
+
+  @type('number')
+  scoringPercent = 20
+}
+
+export class TimeLimitConfigSchema extends Schema {
+  @type('number')
+  firstBoatMinutes = 0
+
+  @type('number')
+  windowMinutes = 10
+
+  @type('string')
+  tleScoring: 'last-finisher' | 'finishers' = 'last-finisher'
+
+  @type('number')
+  tlePlaces = 1
+}
+
 export class RaceMetaSchema extends Schema {
   @type('string')
   raceId = ''
@@ -64,6 +112,21 @@ export class StartLineSchema extends Schema {
   committee = new Vec2Schema()
 }
 
+/** Leg 0 (the start) means the course has not been shortened. */
+export class ShortenedFinishSchema extends Schema {
+  @type('number')
+  legIndex = 0
+
+  @type('number')
+  headingDeg = 0
+
+  @type(Vec2Schema)
+  pin = new Vec2Schema()
+
+  @type(Vec2Schema)
+  committee = new Vec2Schema()
+}
+
 export class GateSchema extends Schema {
   @type(Vec2Schema)
   left = new Vec2Schema()
@@ -94,12 +157,18 @@ export class BoatStateSchema extends Schema {
   @type('number')
   speed = 0
 
+  @type('string')
+  classId: 'generic' | 'laser' | '420' | 'j70' = 'generic'
+
   @type('number')
   wakeFactor = 1
 
   @type('boolean')
   blowSails = false
 
+  @type('number')
+  sheet = 0
+
   @type('number')
   lap = 0
 
@@ -115,6 +184,22 @@ export class BoatStateSchema extends Schema {
   @type('number')
   finishTime = 0
 
+  /** Only meaningful when `corrected`; under PHRF ToD it may be zero or negative. */
+  @type('number')
+  correctedTime = 0
+
+  /** The boat has a corrected time; boats racing on and pursuit finishers do not. */
+  @type('boolean')
+  corrected = false
+
+  /** Only meaningful when `rated`; otherwise the boat's class rating applies. */
+  @type('number')
+  rating = 0
+
+  /** The boat has its own rating, which may be zero under PHRF. */
+  @type('boolean')
+  rated = false
+
   @type('number')
   distanceToNextMark = 0
 
@@ -124,15 +209,57 @@ export class BoatStateSchema extends Schema {
   @type('number')
   protestPenalties = 0
 
+  @type('number')
+  markPenalties = 0
+
   @type('number')
   stallTimer = 0
 
   @type('number')
   tackTimer = 0
 
+  /** Empty on a steady course. */
+  @type('string')
+  maneuver: '' | 'tack' | 'gybe' = ''
+
+  @type('string')
+  maneuverPhase: '' | 'luff' | 'exit' | 'accelerate' = ''
+
+  @type('number')
+  maneuverPhaseTime = 0
+
+  /** 0 until the maneuver has been rolled. */
+  @type('number')
+  maneuverRoll = 0
+
   @type('boolean')
   overEarly = false
 
+  @type('boolean')
+  recalled = false
+
+  @type('boolean')
+  roundTheEnds = false
+
+  /** Empty when the boat has no start penalty. */
+  @type('string')
+  startPenalty: '' | 'zfp' | 'ufd' | 'bfd' = ''
+
+  /** Empty outside match racing. */
+  @type('string')
+  matchEnd: '' | 'port' | 'starboard' = ''
+
+  @type('boolean')
+  matchEntered = false
+
+  /** Empty outside team racing. */
+  @type('string')
+  team: '' | 'a' | 'b' = ''
+
+  /** Zero outside pursuit racing. */
+  @type('number')
+  startTime = 0
+
   @type('boolean')
   fouled = false
 
@@ -153,6 +280,9 @@ export class BoatStateSchema extends Schema {
 
   @type('boolean')
   vmgMode = false
+
+  @type('number')
+  legIndex = 0
 }
 
 export class ProtestSchema extends Schema {
@@ -166,7 +296,7 @@ export class ProtestSchema extends Schema {
   createdAtT = 0
 
   @type('string')
-  status: 'active' | 'active_waived' = 'active'
+  status: 'active' | 'active_waived' | 'y_flag' = 'active'
 }
 
 export class RaceStateSchema extends Schema {
@@ -185,12 +315,64 @@ export class RaceStateSchema extends Schema {
   @type(WindFieldSchema)
   windField = new WindFieldSchema()
 
+  @type(CurrentFieldSchema)
+  currentField = new CurrentFieldSchema()
+
+  @type('string')
+  windScenario:
+    | 'oscillating'
+    | 'persistent-left'
+    | 'persistent-right'
+    | 'convergence'
+    | 'random-walk' = 'oscillating'
+
+  @type(PenaltyConfigSchema)
+  penaltyConfig = new PenaltyConfigSchema()
+
+  @type('string')
+  startProcedure: 'standard' | 'i-flag' | 'z-flag' | 'u-flag' | 'black-flag' = 'standard'
+
+  @type('string')
+  boatClass: 'generic' | 'laser' | '420' | 'j70' = 'generic'
+
+  @type('string')
+  handicapSystem: 'none' | 'phrf-tot' | 'phrf-tod' | 'portsmouth' = 'none'
+
+  @type('string')
+  sailTrim: 'auto' | 'manual' = 'auto'
+
+  @type('string')
+  raceFormat: 'fleet' | 'match' | 'team' | 'pursuit' = 'fleet'
+
+  @type('number')
+  pursuitMinutes = 15
+
+  @type(TimeLimitConfigSchema)
+  timeLimits = new TimeLimitConfigSchema()
+
+  @type(ShortenedFinishSchema)
+  shortenedFinish = new ShortenedFinishSchema()
+
+  @type('boolean')
+  abandoned = false
+
+  @type('number')
+  xFlagUntil = 0
+
   @type({ map: BoatStateSchema })
   boats = new MapSchema<BoatStateSchema>()
 
   @type({ map: ProtestSchema })
   protests = new MapSchema<ProtestSchema>()
 
+  /** JSON-encoded `WindScript`; empty means live (random) wind. */
+  @type('string')
+  windScriptJson = ''
+
+  /** JSON-encoded `CourseDefinition`; empty means the default course. */
+  @type('string')
+  courseJson = ''
+
   @type([Vec2Schema])
   marks = new ArraySchema<Vec2Schema>()
 
@@ -1,4 +1,13 @@
 import type { BoatState, RaceState, Vec2 } from '@/types/race'
+import { getPenaltyConfig } from '@/logic/penalties'
+import { getStartProcedure } from '@/logic/startProcedures'
+import { getBoatClass } from '@/logic/boatClasses'
+import { getHandicapSystem } from '@/logic/handicap'
+import { getWindScenario } from '@/logic/windScenarios'
+import { boatSheet, getSailTrimMode } from '@/logic/sailTrim'
+import { getRaceFormat } from '@/logic/matchRacing'
+import { getPursuitMinutes } from '@/logic/pursuit'
+import { getTimeLimitConfig } from '@/logic/timeLimits'
 import {
   BoatStateSchema,
   ProtestSchema,
@@ -19,19 +28,37 @@ const upsertBoat = (target: BoatStateSchema, source: BoatState) => {
   target.desiredHeadingDeg = source.desiredHeadingDeg
   assignVec(target.pos, source.pos)
   target.speed = source.speed
+  target.classId = getBoatClass(source.classId).id
   target.wakeFactor = source.wakeFactor ?? 1
   target.blowSails = Boolean(source.blowSails)
+  target.sheet = boatSheet(source)
   target.lap = source.lap ?? 0
   target.nextMarkIndex = source.nextMarkIndex ?? 0
   target.inMarkZone = source.inMarkZone ?? false
   target.finished = Boolean(source.finished)
   target.finishTime = source.finishTime ?? 0
+  target.correctedTime = source.correctedTime ?? 0
+  target.corrected = source.correctedTime !== undefined
+  target.rating = source.rating ?? 0
+  target.rated = source.rating !== undefined
   target.distanceToNextMark = source.distanceToNextMark ?? 0
   target.penalties = source.penalties ?? 0
   target.protestPenalties = source.protestPenalties ?? 0
+  target.markPenalties = source.markPenalties ?? 0
   target.stallTimer = source.stallTimer ?? 0
   target.tackTimer = source.tackTimer ?? 0
+  target.maneuver = source.maneuver ?? ''
+  target.maneuverPhase = source.maneuverPhase ?? ''
+  target.maneuverPhaseTime = source.maneuverPhaseTime ?? 0
+  target.maneuverRoll = source.maneuverRoll ?? 0
   target.overEarly = Boolean(source.overEarly)
+  target.recalled = Boolean(source.recalled)
+  target.roundTheEnds = Boolean(source.roundTheEnds)
+  target.startPenalty = source.startPenalty ?? ''
+  target.matchEnd = source.matchEnd ?? ''
+  target.matchEntered = Boolean(source.matchEntered)
+  target.team = source.team ?? ''
+  target.startTime = source.startTime ?? 0
   target.fouled = Boolean(source.fouled)
   target.fouledUntil = source.fouledUntil ?? 0
   target.lastInputSeq = source.lastInputSeq ?? 0
@@ -39,6 +66,7 @@ const upsertBoat = (target: BoatStateSchema, source: BoatState) => {
   target.rightsSuspended = Boolean(source.rightsSuspended)
   target.vmgMode = Boolean(source.vmgMode)
   target.collisionWarning = source.collisionWarning ?? ''
+  target.legIndex = source.legIndex ?? 0
 }
 
 const upsertProtest = (
@@ -47,7 +75,7 @@ const upsertProtest = (
     protestedBoatId: string
     protestorBoatId: string
     createdAtT: number
-    status: 'active' | 'active_waived'
+    status: 'active' | 'active_waived' | 'y_flag'
   },
 ) => {
   target.protestedBoatId = source.protestedBoatId
@@ -70,6 +98,7 @@ export const applyRaceStateToSchema = (target: RaceStateSchema, source: RaceStat
   if (windField) {
     target.windField.enabled = Boolean(windField.enabled)
     target.windField.intensityKts = windField.intensityKts ?? 0
+    target.windField.shiftDeg = windField.shiftDeg ?? 0
     target.windField.count = windField.count ?? 0
     target.windField.sizeWorld = windField.sizeWorld ?? 0
     target.windField.domainLengthWorld = windField.domainLengthWorld ?? 0
@@ -79,6 +108,41 @@ export const applyRaceStateToSchema = (target: RaceStateSchema, source: RaceStat
   } else {
     target.windField.enabled = false
   }
+  const currentField = source.currentField
+  if (currentField) {
+    target.currentField.enabled = Boolean(currentField.enabled)
+    target.currentField.mode = currentField.mode ?? 'uniform'
+    target.currentField.setDeg = currentField.setDeg ?? 0
+    target.currentField.driftKts = currentField.driftKts ?? 0
+    target.currentField.gradientWidthWorld = currentField.gradientWidthWorld ?? 0
+    target.currentField.periodSeconds = currentField.periodSeconds ?? 0
+    target.currentField.phase = currentField.phase ?? 0
+  } else {
+    target.currentField.enabled = false
+  }
+  target.windScenario = getWindScenario(source)
+  const penaltyConfig = getPenaltyConfig(source)
+  target.penaltyConfig.system = penaltyConfig.system
+  target.penaltyConfig.scoringPercent = penaltyConfig.scoringPercent
+  target.startProcedure = getStartProcedure(source)
+  target.boatClass = getBoatClass(source.boatClass).id
+  target.handicapSystem = getHandicapSystem(source)
+  target.sailTrim = getSailTrimMode(source)
+  target.raceFormat = getRaceFormat(source)
+  target.pursuitMinutes = getPursuitMinutes(source)
+  const timeLimits = getTimeLimitConfig(source)
+  target.timeLimits.firstBoatMinutes = timeLimits.firstBoatMinutes
+  target.timeLimits.windowMinutes = timeLimits.windowMinutes
+  target.timeLimits.tleScoring = timeLimits.tleScoring
+  target.timeLimits.tlePlaces = timeLimits.tlePlaces
+  target.shortenedFinish.legIndex = source.shortenedFinish?.legIndex ?? 0
+  target.shortenedFinish.headingDeg = source.shortenedFinish?.headingDeg ?? 0
+  if (source.shortenedFinish) {
+    assignVec(target.shortenedFinish.pin, source.shortenedFinish.pin)
+    assignVec(target.shortenedFinish.committee, source.shortenedFinish.committee)
+  }
+  target.abandoned = Boolean(source.abandoned)
+  target.xFlagUntil = source.xFlagUntil ?? 0
   target.phase = source.phase
   target.countdownArmed = source.countdownArmed
   target.clockStartMs = source.clockStartMs ?? -1
@@ -88,6 +152,15 @@ export const applyRaceStateToSchema = (target: RaceStateSchema, source: RaceStat
   target.aiEnabled = source.aiEnabled
   target.paused = Boolean(source.paused)
 
+  const courseJson = source.course ? JSON.stringify(source.course) : ''
+  if (target.courseJson !== courseJson) {
+    target.courseJson = courseJson
+  }
+  const windScriptJson = source.windScript ? JSON.stringify(source.windScript) : ''
+  if (target.windScriptJson !== windScriptJson) {
+    target.windScriptJson = windScriptJson
+  }
+
   assignVec(target.startLine.pin, source.startLine.pin)
   assignVec(target.startLine.committee, source.startLine.committee)
   assignVec(target.leewardGate.left, source.leewardGate.left)
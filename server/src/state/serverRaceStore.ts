@@ -32,7 +32,9 @@ export class RaceStore {
   }
 
   upsertInput = (input: PlayerInput) => {
-    this.latestInputs[input.boatId] = input
+    // A roll is one-shot, so keep it when a later input lands in the same tick.
+    const roll = input.roll || this.latestInputs[input.boatId]?.roll
+    this.latestInputs[input.boatId] = roll ? { ...input, roll } : input
   }
 
   consumeInputs = () => {
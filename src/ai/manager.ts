@@ -3,6 +3,8 @@ import type { RaceStore } from '@/state/raceStore'
 import type { ControlUpdate } from '@/net/controlTypes'
 import { headingFromAwa, angleDiff, normalizeDeg } from '@/logic/physics'
 import { distanceBetween } from '@/utils/geometry'
+import { getCourseLegs } from '@/config/course'
+import { canSpinOffPenalty, getPenaltyConfig } from '@/logic/penalties'
 
 type Leg = 'prestart' | 'upwind' | 'downwind'
 
@@ -43,7 +45,7 @@ export class AiManager {
     Object.values(state.boats).forEach((boat) => {
       if (!boat.ai?.enabled) return
       if (boat.rightsSuspended) return
-      if (boat.penalties > 0) {
+      if (canSpinOffPenalty(boat, getPenaltyConfig(state))) {
         this.requestSpin(boat.id)
         return
       }
@@ -135,7 +137,7 @@ export class AiManager {
     if (state.phase !== 'running') {
       return 'prestart'
     }
-    const windward = state.marks[0]
+    const windward = this.getWindwardMark(state)
     const gateCenter = this.getGateCenter(state)
 
     if (current === 'prestart') {
@@ -160,7 +162,7 @@ export class AiManager {
     leg: Leg,
   ) {
     const windDir = state.wind.directionDeg
-    const windward = state.marks[0]
+    const windward = this.getWindwardMark(state)
     const gateCenter = this.getGateCenter(state)
     const target = leg === 'upwind' ? windward : gateCenter
     if (!target) return boat.desiredHeadingDeg
@@ -246,6 +248,11 @@ export class AiManager {
     return normalizeDeg((rad * 180) / Math.PI)
   }
 
+  private getWindwardMark(state: RaceState): Vec2 | undefined {
+    const leg = getCourseLegs(state).find((entry) => entry.kind === 'windward')
+    return state.marks[leg?.markIndices[0] ?? 0]
+  }
+
   private getGateCenter(state: RaceState): Vec2 {
     return {
       x: (state.leewardGate.left.x + state.leewardGate.right.x) / 2,
@@ -3,6 +3,7 @@ import type { ControlUpdate } from '@/net/controlTypes'
 import type { RaceStore } from '@/state/raceStore'
 import { extractFeatures, featuresToArray } from './features'
 import { normalizeDeg, angleDiff } from '@/logic/physics'
+import { canSpinOffPenalty, getPenaltyConfig } from '@/logic/penalties'
 
 type OrtSession = {
   run(feeds: Record<string, unknown>): Promise<Record<string, { data: Float32Array }>>
@@ -62,7 +63,7 @@ export class MlAiController {
       if (!boat.ai?.enabled) continue
 
       if (boat.rightsSuspended) continue
-      if (boat.penalties > 0) {
+      if (canSpinOffPenalty(boat, getPenaltyConfig(state))) {
         this.requestSpin(boat.id)
         continue
       }
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCourseLegs,
+  courseLeewardGate,
+  getCourseLegs,
+  parseCourseDefinition,
+  validateCourseDefinition,
+  windwardLeewardCourse,
+} from './course'
+import type { CourseDefinition } from '@/types/course'
+
+const triangle: CourseDefinition = {
+  version: 1,
+  id: 'test-triangle',
+  name: 'Triangle',
+  marks: [
+    { id: 'top', label: 'Windward', position: { x: 0, y: -600 } },
+    { id: 'committee', label: 'Committee', position: { x: 150, y: 100 } },
+    { id: 'pin', label: 'Pin', position: { x: -150, y: 100 } },
+    { id: 'wing', label: 'Wing', position: { x: -300, y: -250 } },
+    { id: 'bottom', label: 'Leeward', position: { x: 0, y: 60 } },
+  ],
+  startLine: { committee: 1, pin: 2 },
+  legs: [
+    { id: 'windward', label: 'Windward', kind: 'windward', markIndex: 0 },
+    { id: 'wing', label: 'Wing', kind: 'reach', markIndex: 3 },
+    { id: 'leeward', label: 'Leeward', kind: 'leeward', markIndex: 4 },
+  ],
+}
+
+describe('validateCourseDefinition', () => {
+  it('accepts the built-in course', () => {
+    expect(validateCourseDefinition(windwardLeewardCourse)).toEqual([])
+  })
+
+  it('survives a JSON round trip', () => {
+    const parsed = parseCourseDefinition(JSON.parse(JSON.stringify(triangle)))
+    expect(parsed).toEqual(triangle)
+  })
+
+  it('rejects non-objects', () => {
+    expect(validateCourseDefinition(null)).toEqual(['course must be an object'])
+    expect(parseCourseDefinition('windward-leeward')).toBeNull()
+  })
+
+  it('reports mark indices out of range', () => {
+    const errors = validateCourseDefinition({
+      ...triangle,
+      legs: [{ id: 'w', label: 'W', kind: 'windward', markIndex: 9 }],
+    })
+    expect(errors).toContain('legs[0].markIndex must be a mark index between 0 and 4')
+  })
+
+  it('requires two distinct gate marks', () => {
+    const errors = validateCourseDefinition({
+      ...triangle,
+      legs: [{ id: 'g', label: 'Gate', kind: 'gate', gateMarkIndices: [3, 3] }],
+    })
+    expect(errors).toContain('legs[0].gateMarkIndices needs two different marks')
+  })
+
+  it('rejects malformed radials and duplicate mark ids', () => {
+    const errors = validateCourseDefinition({
+      ...triangle,
+      marks: [...triangle.marks, { id: 'pin', label: 'Pin 2', position: { x: 0, y: 0 } }],
+      legs: [
+        { id: 'w', label: 'W', kind: 'windward', markIndex: 0, radials: [{ axis: 'z' }] },
+      ],
+    })
+    expect(errors).toContain('marks[5].id "pin" is duplicated')
+    expect(errors).toContain(
+      "legs[0].radials[0] must be { axis: 'x' | 'y', direction: 1 | -1 }",
+    )
+  })
+
+  it('bounds finalLapLegs by the lap length', () => {
+    const errors = validateCourseDefinition({ ...triangle, finalLapLegs: 4 })
+    expect(errors).toContain('finalLapLegs must be an integer between 0 and 3')
+  })
+})
+
+describe('buildCourseLegs', () => {
+  it('expands windward/leeward laps like the classic course', () => {
+    const legs = buildCourseLegs(windwardLeewardCourse, 2)
+    expect(legs.map((leg) => leg.kind)).toEqual([
+      'start',
+      'windward',
+      'gate',
+      'windward',
+      'finish',
+    ])
+    expect(legs.map((leg) => leg.sequence)).toEqual([0, 1, 2, 3, 4])
+    expect(legs[2].gateMarkIndices).toEqual([3, 4])
+    expect(legs[2].endsLap).toBe(true)
+    expect(legs[4].finishLineIndices).toEqual([1, 2])
+  })
+
+  it('trims the final lap to finalLapLegs', () => {
+    const legs = buildCourseLegs(windwardLeewardCourse, 1)
+    expect(legs.map((leg) => leg.kind)).toEqual(['start', 'windward', 'finish'])
+  })
+
+  it('repeats every leg when no final lap trim is set', () => {
+    const legs = buildCourseLegs(triangle, 2)
+    expect(legs.map((leg) => leg.id)).toEqual([
+      'start',
+      'windward',
+      'wing',
+      'leeward',
+      'windward-2',
+      'wing-2',
+      'leeward-2',
+      'finish',
+    ])
+    expect(legs.filter((leg) => leg.endsLap).map((leg) => leg.id)).toEqual(['leeward'])
+  })
+
+  it('sails opening legs once and uses a separate finish line', () => {
+    const legs = buildCourseLegs(
+      {
+        ...triangle,
+        openingLegs: [{ id: 'reach', label: 'Reach', kind: 'reach', markIndex: 3 }],
+        legs: [triangle.legs[0]],
+        finishLine: { committee: 1, pin: 4 },
+      },
+      2,
+    )
+    expect(legs.map((leg) => leg.id)).toEqual([
+      'start',
+      'reach',
+      'windward',
+      'windward-2',
+      'finish',
+    ])
+    expect(legs[legs.length - 1].finishLineIndices).toEqual([1, 4])
+  })
+
+  it('memoises legs per course and lap count', () => {
+    const state = { course: triangle, lapsToFinish: 2 }
+    expect(getCourseLegs(state)).toBe(getCourseLegs({ ...state }))
+    expect(getCourseLegs({ course: undefined, lapsToFinish: 2 })[2].kind).toBe('gate')
+  })
+})
+
+describe('courseLeewardGate', () => {
+  it('uses the gate marks when the course has a gate', () => {
+    expect(courseLeewardGate(windwardLeewardCourse)).toEqual({
+      left: { x: -95, y: 73 },
+      right: { x: 95, y: 80 },
+    })
+  })
+
+  it('falls back to the leeward mark for gate-less courses', () => {
+    expect(courseLeewardGate(triangle)).toEqual({
+      left: { x: 0, y: 60 },
+      right: { x: 0, y: 60 },
+    })
+  })
+})
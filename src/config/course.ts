@@ -1,99 +1,452 @@
+import type {
+  CourseDefinition,
+  CourseLegDefinition,
+  CourseLineDefinition,
+  RadialStep,
+} from '@/types/course'
+import type { Gate, RaceState, StartLine, Vec2 } from '@/types/race'
+
+export type { RadialStep } from '@/types/course'
+
 export type CourseLeg = {
   id: string
   sequence: number
   rounding: 'port' | 'starboard'
   markIndices: number[]
   label: string
-  kind?: 'windward' | 'leeward' | 'gate' | 'start' | 'finish' | 'generic'
+  kind?:
+    | 'windward'
+    | 'leeward'
+    | 'reach'
+    | 'offset'
+    | 'gate'
+    | 'start'
+    | 'finish'
+    | 'generic'
   /** For gates: indices of the two marks forming the gate line */
   gateMarkIndices?: [number, number]
   /** For start/finish: indices of committee and pin marks forming the line */
   finishLineIndices?: [number, number]
+  /** Lap (0-indexed) this leg belongs to */
+  lap?: number
+  /** Completing this leg finishes a lap (boat.lap increments) */
+  endsLap?: boolean
+  /** Custom radial sequence from the course definition */
+  radials?: RadialStep[]
 }
 
-export type RadialStep = { axis: 'x' | 'y'; direction: 1 | -1 }
+/**
+ * Default windward/leeward course.
+ * Marks keep the historical index convention: 0 = windward, 1 = committee,
+ * 2 = pin, 3/4 = leeward gate (left/west, right/east).
+ * Laps = windward roundings; lapsToFinish=2 => Start -> W -> Gate -> W -> Finish.
+ */
+export const windwardLeewardCourse: CourseDefinition = {
+  version: 1,
+  id: 'windward-leeward',
+  name: 'Windward / Leeward',
+  marks: [
+    // Moved down ~10% from -728 (closer to the start line) to tighten the course.
+    { id: 'windward', label: 'Windward', position: { x: 0, y: Math.round(-728 * 0.9) } },
+    { id: 'committee', label: 'Committee', position: { x: 180, y: 125 } },
+    { id: 'pin', label: 'Pin', position: { x: -180, y: 85 } },
+    // M2.1 / M2.2 (leeward gate marks) - widened for better gate separation/visibility.
+    { id: 'gate-left', label: 'Gate (left)', position: { x: -95, y: 73 } },
+    { id: 'gate-right', label: 'Gate (right)', position: { x: 95, y: 80 } },
+  ],
+  startLine: { committee: 1, pin: 2 },
+  legs: [
+    {
+      id: 'windward',
+      label: 'Windward',
+      kind: 'windward',
+      markIndex: 0,
+      rounding: 'port',
+    },
+    { id: 'leeward-gate', label: 'Gate', kind: 'gate', gateMarkIndices: [3, 4] },
+  ],
+  finalLapLegs: 1,
+}
 
-export const courseLegs: CourseLeg[] = [
-  {
-    id: 'start',
-    sequence: 0,
-    rounding: 'port', // Not used for start
-    markIndices: [1, 2], // Committee boat and pin
-    label: 'Start',
-    kind: 'start',
-    finishLineIndices: [1, 2], // Mark 1 = committee, Mark 2 = pin
-  },
-  {
-    id: 'windward-entry',
-    sequence: 1,
-    rounding: 'port',
-    markIndices: [0],
-    label: 'Windward',
-    kind: 'windward',
-  },
-  {
-    id: 'leeward-gate',
-    sequence: 2,
-    rounding: 'port', // Will be determined dynamically based on which side they go
-    markIndices: [3, 4], // Both gate marks - left (west) and right (east)
-    label: 'Gate',
-    kind: 'gate',
-    gateMarkIndices: [3, 4], // Mark 3 = left/west, Mark 4 = right/east
-  },
-  {
-    id: 'windward-return',
-    sequence: 3,
-    rounding: 'port',
-    markIndices: [0],
-    label: 'Windward',
-    kind: 'windward',
-  },
-  {
+export const defaultCourse = windwardLeewardCourse
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0
+
+const validateMarkIndex = (
+  value: unknown,
+  markCount: number,
+  path: string,
+  errors: string[],
+) => {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < 0 ||
+    (value as number) >= markCount
+  ) {
+    errors.push(`${path} must be a mark index between 0 and ${markCount - 1}`)
+  }
+}
+
+const validateLine = (
+  value: unknown,
+  markCount: number,
+  path: string,
+  errors: string[],
+) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`)
+    return
+  }
+  validateMarkIndex(value.committee, markCount, `${path}.committee`, errors)
+  validateMarkIndex(value.pin, markCount, `${path}.pin`, errors)
+  if (value.committee === value.pin) {
+    errors.push(`${path} needs two different marks`)
+  }
+}
+
+const validateRadials = (value: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path} must be a non-empty array`)
+    return
+  }
+  value.forEach((step, index) => {
+    if (
+      !isRecord(step) ||
+      (step.axis !== 'x' && step.axis !== 'y') ||
+      (step.direction !== 1 && step.direction !== -1)
+    ) {
+      errors.push(`${path}[${index}] must be { axis: 'x' | 'y', direction: 1 | -1 }`)
+    }
+  })
+}
+
+const legKinds = new Set(['windward', 'leeward', 'reach', 'offset', 'gate'])
+
+const validateLegs = (
+  value: unknown,
+  markCount: number,
+  path: string,
+  errors: string[],
+) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`)
+    return
+  }
+  value.forEach((leg, index) => {
+    const legPath = `${path}[${index}]`
+    if (!isRecord(leg)) {
+      errors.push(`${legPath} must be an object`)
+      return
+    }
+    if (!isNonEmptyString(leg.id)) errors.push(`${legPath}.id is required`)
+    if (!isNonEmptyString(leg.label)) errors.push(`${legPath}.label is required`)
+    if (typeof leg.kind !== 'string' || !legKinds.has(leg.kind)) {
+      errors.push(`${legPath}.kind must be one of ${Array.from(legKinds).join(', ')}`)
+      return
+    }
+    if (leg.kind === 'gate') {
+      const gate = leg.gateMarkIndices
+      if (!Array.isArray(gate) || gate.length !== 2) {
+        errors.push(`${legPath}.gateMarkIndices must list two marks`)
+      } else {
+        validateMarkIndex(gate[0], markCount, `${legPath}.gateMarkIndices[0]`, errors)
+        validateMarkIndex(gate[1], markCount, `${legPath}.gateMarkIndices[1]`, errors)
+        if (gate[0] === gate[1]) {
+          errors.push(`${legPath}.gateMarkIndices needs two different marks`)
+        }
+      }
+    } else {
+      validateMarkIndex(leg.markIndex, markCount, `${legPath}.markIndex`, errors)
+    }
+    if (
+      leg.rounding !== undefined &&
+      leg.rounding !== 'port' &&
+      leg.rounding !== 'starboard'
+    ) {
+      errors.push(`${legPath}.rounding must be 'port' or 'starboard'`)
+    }
+    if (leg.radials !== undefined) {
+      validateRadials(leg.radials, `${legPath}.radials`, errors)
+    }
+  })
+}
+
+/**
+ * Validate an untrusted course definition (e.g. parsed JSON).
+ * Returns a list of problems; an empty list means the course is usable.
+ */
+export const validateCourseDefinition = (value: unknown): string[] => {
+  const errors: string[] = []
+  if (!isRecord(value)) {
+    return ['course must be an object']
+  }
+  if (value.version !== 1) errors.push('version must be 1')
+  if (!isNonEmptyString(value.id)) errors.push('id is required')
+  if (!isNonEmptyString(value.name)) errors.push('name is required')
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    errors.push('description must be a string')
+  }
+
+  const marks = value.marks
+  if (!Array.isArray(marks) || marks.length < 2) {
+    errors.push('marks must list at least the committee boat and pin')
+    return errors
+  }
+  const markIds = new Set<string>()
+  marks.forEach((mark, index) => {
+    const path = `marks[${index}]`
+    if (!isRecord(mark)) {
+      errors.push(`${path} must be an object`)
+      return
+    }
+    if (!isNonEmptyString(mark.id)) {
+      errors.push(`${path}.id is required`)
+    } else if (markIds.has(mark.id)) {
+      errors.push(`${path}.id "${mark.id}" is duplicated`)
+    } else {
+      markIds.add(mark.id)
+    }
+    if (!isNonEmptyString(mark.label)) errors.push(`${path}.label is required`)
+    const position = mark.position
+    if (
+      !isRecord(position) ||
+      !isFiniteNumber(position.x) ||
+      !isFiniteNumber(position.y)
+    ) {
+      errors.push(`${path}.position must have finite x and y`)
+    }
+  })
+
+  validateLine(value.startLine, marks.length, 'startLine', errors)
+  if (value.finishLine !== undefined) {
+    validateLine(value.finishLine, marks.length, 'finishLine', errors)
+  }
+  if (value.openingLegs !== undefined) {
+    validateLegs(value.openingLegs, marks.length, 'openingLegs', errors)
+  }
+  validateLegs(value.legs, marks.length, 'legs', errors)
+  const legCount = Array.isArray(value.legs) ? value.legs.length : 0
+  if (legCount === 0) errors.push('legs must contain at least one leg')
+  if (value.finalLapLegs !== undefined) {
+    const finalLapLegs = value.finalLapLegs
+    if (
+      !Number.isInteger(finalLapLegs) ||
+      (finalLapLegs as number) < 0 ||
+      (finalLapLegs as number) > legCount
+    ) {
+      errors.push(`finalLapLegs must be an integer between 0 and ${legCount}`)
+    }
+  }
+  return errors
+}
+
+/** Parse an untrusted course definition, returning null when it is invalid. */
+export const parseCourseDefinition = (value: unknown): CourseDefinition | null =>
+  validateCourseDefinition(value).length === 0 ? (value as CourseDefinition) : null
+
+export const getCourseDefinition = (state: Pick<RaceState, 'course'>): CourseDefinition =>
+  state.course ?? defaultCourse
+
+const lineIndices = (line: CourseLineDefinition): [number, number] => [
+  line.committee,
+  line.pin,
+]
+
+const toCourseLeg = (
+  definition: CourseLegDefinition,
+  sequence: number,
+  lap: number,
+  idSuffix: string,
+): CourseLeg => {
+  const markIndices =
+    definition.kind === 'gate' && definition.gateMarkIndices
+      ? [...definition.gateMarkIndices]
+      : [definition.markIndex ?? 0]
+  return {
+    id: `${definition.id}${idSuffix}`,
+    sequence,
+    rounding: definition.rounding ?? 'port',
+    markIndices,
+    label: definition.label,
+    kind: definition.kind,
+    gateMarkIndices:
+      definition.kind === 'gate' && definition.gateMarkIndices
+        ? [definition.gateMarkIndices[0], definition.gateMarkIndices[1]]
+        : undefined,
+    lap,
+    radials: definition.radials,
+  }
+}
+
+/**
+ * Expand a course definition into the flat list of legs a boat sails:
+ * start, opening legs, `laps` repetitions of the lap legs (the final one
+ * trimmed to `finalLapLegs`), then the finish.
+ */
+export const buildCourseLegs = (course: CourseDefinition, laps: number): CourseLeg[] => {
+  const lapCount = Math.max(1, Math.floor(laps || 1))
+  const finishLine = course.finishLine ?? course.startLine
+  const legs: CourseLeg[] = [
+    {
+      id: 'start',
+      sequence: 0,
+      rounding: 'port', // Not used for start
+      markIndices: lineIndices(course.startLine),
+      label: 'Start',
+      kind: 'start',
+      finishLineIndices: lineIndices(course.startLine),
+      lap: 0,
+    },
+  ]
+  course.openingLegs?.forEach((definition) => {
+    legs.push(toCourseLeg(definition, legs.length, 0, ''))
+  })
+  for (let lap = 0; lap < lapCount; lap += 1) {
+    const finalLap = lap === lapCount - 1
+    const lapLegs = finalLap
+      ? course.legs.slice(0, course.finalLapLegs ?? course.legs.length)
+      : course.legs
+    const suffix = lap === 0 ? '' : `-${lap + 1}`
+    lapLegs.forEach((definition, index) => {
+      const leg = toCourseLeg(definition, legs.length, lap, suffix)
+      if (!finalLap && index === lapLegs.length - 1) {
+        leg.endsLap = true
+      }
+      legs.push(leg)
+    })
+  }
+  legs.push({
     id: 'finish',
-    sequence: 4,
+    sequence: legs.length,
     rounding: 'port', // Not used for finish
-    markIndices: [1, 2], // Committee boat and pin
+    markIndices: lineIndices(finishLine),
     label: 'Finish',
     kind: 'finish',
-    finishLineIndices: [1, 2], // Mark 1 = committee, Mark 2 = pin
-  },
-]
+    finishLineIndices: lineIndices(finishLine),
+    lap: lapCount - 1,
+  })
+  return legs
+}
+
+const cachedLegs = new WeakMap<CourseDefinition, Map<number, CourseLeg[]>>()
 
-const sequenceByMark = new Map<
-  number,
-  { rounding: 'port' | 'starboard'; sequences: number[] }
->()
-courseLegs.forEach((leg) => {
-  leg.markIndices.forEach((markIndex) => {
-    const entry = sequenceByMark.get(markIndex) ?? {
-      rounding: leg.rounding,
-      sequences: [],
+/**
+ * Expanded legs for the race's course and lap count, memoised per course
+ * object so repeated lookups within a tick cost nothing.
+ */
+export const getCourseLegs = (
+  state: Pick<RaceState, 'course' | 'lapsToFinish'>,
+): CourseLeg[] => {
+  const course = getCourseDefinition(state)
+  let byLaps = cachedLegs.get(course)
+  if (!byLaps) {
+    byLaps = new Map()
+    cachedLegs.set(course, byLaps)
+  }
+  let legs = byLaps.get(state.lapsToFinish)
+  if (!legs) {
+    legs = buildCourseLegs(course, state.lapsToFinish)
+    byLaps.set(state.lapsToFinish, legs)
+  }
+  return legs
+}
+
+/** Mark positions in index order, as stored in `RaceState.marks`. */
+export const courseMarkPositions = (course: CourseDefinition): Vec2[] =>
+  course.marks.map((mark) => ({ x: mark.position.x, y: mark.position.y }))
+
+export const courseStartLine = (course: CourseDefinition): StartLine => ({
+  committee: { ...course.marks[course.startLine.committee].position },
+  pin: { ...course.marks[course.startLine.pin].position },
+})
+
+/**
+ * The first gate leg's marks, or a zero-width gate at the first rounding
+ * mark for courses without a gate (kept for consumers of `leewardGate`).
+ */
+export const courseLeewardGate = (course: CourseDefinition): Gate => {
+  const gateLeg = [...(course.openingLegs ?? []), ...course.legs].find(
+    (leg) => leg.kind === 'gate' && leg.gateMarkIndices,
+  )
+  if (gateLeg?.gateMarkIndices) {
+    const [leftIdx, rightIdx] = gateLeg.gateMarkIndices
+    return {
+      left: { ...course.marks[leftIdx].position },
+      right: { ...course.marks[rightIdx].position },
+    }
+  }
+  const leewardLeg =
+    course.legs.find((leg) => leg.kind === 'leeward') ??
+    course.legs[course.legs.length - 1]
+  const mark = course.marks[leewardLeg?.markIndex ?? course.startLine.pin].position
+  return { left: { ...mark }, right: { ...mark } }
+}
+
+/** Distinct gates on the course as [left, right] mark index pairs. */
+export const courseGatePairs = (course: CourseDefinition): Array<[number, number]> => {
+  const pairs = new Map<string, [number, number]>()
+  ;[...(course.openingLegs ?? []), ...course.legs].forEach((leg) => {
+    if (leg.kind === 'gate' && leg.gateMarkIndices) {
+      const [left, right] = leg.gateMarkIndices
+      pairs.set(`${left}-${right}`, [left, right])
     }
-    entry.sequences.push(leg.sequence)
-    sequenceByMark.set(markIndex, entry)
   })
-})
+  return Array.from(pairs.values())
+}
+
+/** Indices of every mark that belongs to a gate on the course. */
+export const courseGateMarkIndices = (course: CourseDefinition): Set<number> =>
+  new Set(courseGatePairs(course).flat())
+
+/** Indices of the marks forming the start and finish lines. */
+export const courseLineMarkIndices = (course: CourseDefinition): Set<number> => {
+  const finishLine = course.finishLine ?? course.startLine
+  return new Set([
+    course.startLine.committee,
+    course.startLine.pin,
+    finishLine.committee,
+    finishLine.pin,
+  ])
+}
 
 export type CourseMarkAnnotation = {
   markIndex: number
   rounding: 'port' | 'starboard'
   sequences: number[]
   kind?: CourseLeg['kind']
+  radials?: RadialStep[]
 }
 
-export const courseMarkAnnotations: CourseMarkAnnotation[] = Array.from(
-  sequenceByMark.entries(),
-).map(([markIndex, { rounding, sequences }]) => {
-  const matchingLeg = courseLegs.find(
-    (leg) => leg.rounding === rounding && leg.markIndices.includes(markIndex),
-  )
-  return {
-    markIndex,
-    rounding,
-    sequences: sequences.sort((a, b) => a - b),
-    kind: matchingLeg?.kind,
-  }
-})
+export const buildCourseMarkAnnotations = (legs: CourseLeg[]): CourseMarkAnnotation[] => {
+  const byMark = new Map<number, CourseMarkAnnotation>()
+  legs.forEach((leg) => {
+    leg.markIndices.forEach((markIndex) => {
+      const entry = byMark.get(markIndex)
+      if (entry) {
+        entry.sequences.push(leg.sequence)
+        return
+      }
+      byMark.set(markIndex, {
+        markIndex,
+        rounding: leg.rounding,
+        sequences: [leg.sequence],
+        kind: leg.kind,
+        radials: leg.radials,
+      })
+    })
+  })
+  return Array.from(byMark.values()).map((entry) => ({
+    ...entry,
+    sequences: entry.sequences.sort((a, b) => a - b),
+  }))
+}
 
 export const radialSets: Record<
   'windward' | 'leeward',
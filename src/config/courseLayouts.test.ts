@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { buildCourseLegs, validateCourseDefinition } from './course'
+import {
+  courseLayouts,
+  defaultCourseLayoutId,
+  getCourseLayout,
+  isCourseLayoutId,
+  type CourseLayoutId,
+} from './courseLayouts'
+
+describe('courseLayouts', () => {
+  it.each(Object.keys(courseLayouts) as CourseLayoutId[])(
+    '%s is a valid course',
+    (id) => {
+      const course = courseLayouts[id]
+      expect(course.id).toBe(id)
+      expect(validateCourseDefinition(course)).toEqual([])
+    },
+  )
+
+  it('keeps the shared start line for every layout', () => {
+    Object.values(courseLayouts).forEach((course) => {
+      expect(course.marks[course.startLine.committee].position).toEqual({
+        x: 180,
+        y: 125,
+      })
+      expect(course.marks[course.startLine.pin].position).toEqual({ x: -180, y: 85 })
+    })
+  })
+
+  it('sails the reach mark once on a reaching start', () => {
+    const legs = buildCourseLegs(courseLayouts['reaching-start'], 2)
+    expect(legs.map((leg) => leg.id)).toEqual([
+      'start',
+      'reach',
+      'windward',
+      'leeward-gate',
+      'windward-2',
+      'finish',
+    ])
+  })
+
+  it('falls back to the default layout for unknown ids', () => {
+    expect(isCourseLayoutId('triangle')).toBe(true)
+    expect(isCourseLayoutId('toString')).toBe(false)
+    expect(getCourseLayout('nope')).toBe(courseLayouts[defaultCourseLayoutId])
+  })
+})
@@ -0,0 +1,184 @@
+import { windwardLeewardCourse } from '@/config/course'
+import type {
+  CourseDefinition,
+  CourseLegDefinition,
+  CourseMarkDefinition,
+} from '@/types/course'
+
+export type CourseLayoutId =
+  | 'windward-leeward'
+  | 'windward-leeward-offset'
+  | 'triangle'
+  | 'trapezoid-inner'
+  | 'trapezoid-outer'
+  | 'reaching-start'
+
+export const defaultCourseLayoutId: CourseLayoutId = 'windward-leeward'
+
+// Every layout shares the start line (and therefore the spawn box) and the
+// windward mark of the default course; only the downwind/reaching marks move.
+const [windwardMark, committeeMark, pinMark, gateLeftMark, gateRightMark] =
+  windwardLeewardCourse.marks
+
+const startMarks: CourseMarkDefinition[] = [windwardMark, committeeMark, pinMark]
+
+const windwardOffset: CourseDefinition = {
+  version: 1,
+  id: 'windward-leeward-offset',
+  name: 'Windward / Leeward (offset)',
+  description: 'Windward mark followed by a short offset leg before the run.',
+  marks: [
+    ...startMarks,
+    gateLeftMark,
+    gateRightMark,
+    { id: 'offset', label: 'Offset', position: { x: -80, y: -640 } },
+  ],
+  startLine: { committee: 1, pin: 2 },
+  legs: [
+    { id: 'windward', label: 'Windward', kind: 'windward', markIndex: 0 },
+    {
+      id: 'offset',
+      label: 'Offset',
+      kind: 'offset',
+      markIndex: 5,
+      // Pass north of the offset, then bear away down its west side.
+      radials: [
+        { axis: 'y', direction: -1 },
+        { axis: 'x', direction: -1 },
+      ],
+    },
+    { id: 'leeward-gate', label: 'Gate', kind: 'gate', gateMarkIndices: [3, 4] },
+  ],
+  finalLapLegs: 2,
+}
+
+const triangle: CourseDefinition = {
+  version: 1,
+  id: 'triangle',
+  name: 'Triangle',
+  description: 'Beat, two reaches via a wing mark, then back upwind.',
+  marks: [
+    ...startMarks,
+    { id: 'wing', label: 'Wing', position: { x: -330, y: -285 } },
+    { id: 'leeward', label: 'Leeward', position: { x: 0, y: 60 } },
+  ],
+  startLine: { committee: 1, pin: 2 },
+  legs: [
+    { id: 'windward', label: 'Windward', kind: 'windward', markIndex: 0 },
+    {
+      id: 'wing',
+      label: 'Wing',
+      kind: 'reach',
+      markIndex: 3,
+      radials: [
+        { axis: 'y', direction: -1 },
+        { axis: 'x', direction: -1 },
+        { axis: 'y', direction: 1 },
+      ],
+    },
+    { id: 'leeward', label: 'Leeward', kind: 'leeward', markIndex: 4 },
+  ],
+  finalLapLegs: 2,
+}
+
+const trapezoidReachMark: CourseMarkDefinition = {
+  id: 'reach',
+  label: 'Reach',
+  position: { x: -330, y: -560 },
+}
+
+const trapezoidReachLeg: CourseLegDefinition = {
+  id: 'reach',
+  label: 'Reach',
+  kind: 'reach',
+  markIndex: 3,
+  radials: [
+    { axis: 'y', direction: -1 },
+    { axis: 'x', direction: -1 },
+  ],
+}
+
+const trapezoidInner: CourseDefinition = {
+  version: 1,
+  id: 'trapezoid-inner',
+  name: 'Trapezoid (inner)',
+  description: 'Beat, reach, then run down the inner loop to the gate.',
+  marks: [...startMarks, trapezoidReachMark, gateLeftMark, gateRightMark],
+  startLine: { committee: 1, pin: 2 },
+  legs: [
+    { id: 'windward', label: 'Windward', kind: 'windward', markIndex: 0 },
+    trapezoidReachLeg,
+    { id: 'inner-gate', label: 'Inner gate', kind: 'gate', gateMarkIndices: [4, 5] },
+  ],
+  finalLapLegs: 2,
+}
+
+const trapezoidOuter: CourseDefinition = {
+  version: 1,
+  id: 'trapezoid-outer',
+  name: 'Trapezoid (outer)',
+  description: 'Beat, reach, then run down the outer loop to a single leeward mark.',
+  marks: [
+    ...startMarks,
+    trapezoidReachMark,
+    { id: 'outer-leeward', label: 'Outer leeward', position: { x: -330, y: 0 } },
+  ],
+  startLine: { committee: 1, pin: 2 },
+  legs: [
+    { id: 'windward', label: 'Windward', kind: 'windward', markIndex: 0 },
+    trapezoidReachLeg,
+    { id: 'outer-leeward', label: 'Outer leeward', kind: 'leeward', markIndex: 4 },
+  ],
+  finalLapLegs: 2,
+}
+
+const reachingStart: CourseDefinition = {
+  version: 1,
+  id: 'reaching-start',
+  name: 'Reaching start',
+  description: 'Reach out to a mark off the committee end, then windward/leeward laps.',
+  marks: [
+    ...startMarks,
+    gateLeftMark,
+    gateRightMark,
+    { id: 'reach', label: 'Reach', position: { x: 480, y: -80 } },
+  ],
+  startLine: { committee: 1, pin: 2 },
+  openingLegs: [
+    {
+      id: 'reach',
+      label: 'Reach',
+      kind: 'reach',
+      markIndex: 5,
+      // Pass south of the mark, then head up along its east side.
+      radials: [
+        { axis: 'y', direction: 1 },
+        { axis: 'x', direction: 1 },
+      ],
+    },
+  ],
+  legs: [
+    { id: 'windward', label: 'Windward', kind: 'windward', markIndex: 0 },
+    { id: 'leeward-gate', label: 'Gate', kind: 'gate', gateMarkIndices: [3, 4] },
+  ],
+  finalLapLegs: 1,
+}
+
+export const courseLayouts: Record<CourseLayoutId, CourseDefinition> = {
+  'windward-leeward': windwardLeewardCourse,
+  'windward-leeward-offset': windwardOffset,
+  triangle,
+  'trapezoid-inner': trapezoidInner,
+  'trapezoid-outer': trapezoidOuter,
+  'reaching-start': reachingStart,
+}
+
+export const courseLayoutOptions = (Object.keys(courseLayouts) as CourseLayoutId[]).map(
+  (id) => ({ id, name: courseLayouts[id].name }),
+)
+
+export const isCourseLayoutId = (value: unknown): value is CourseLayoutId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(courseLayouts, value)
+
+export const getCourseLayout = (id?: string | null): CourseDefinition =>
+  isCourseLayoutId(id) ? courseLayouts[id] : courseLayouts[defaultCourseLayoutId]
@@ -73,6 +73,7 @@ export const appEnv = {
   raceTimeoutMinutes: toNumber(rawEnv.VITE_RACE_TIMEOUT_MINUTES, 25),
   windFieldEnabled: toBool(rawEnv.VITE_WIND_FIELD_ENABLED, true),
   windFieldIntensityKts: toNumber(rawEnv.VITE_WIND_FIELD_INTENSITY_KTS, 3),
+  windFieldShiftDeg: toNumber(rawEnv.VITE_WIND_FIELD_SHIFT_DEG, 6),
   windFieldCount: toNumber(rawEnv.VITE_WIND_FIELD_COUNT, 32),
   windFieldSizeWorld: toNumber(rawEnv.VITE_WIND_FIELD_SIZE_WORLD, 320),
   windFieldDomainLengthWorld: toNumber(rawEnv.VITE_WIND_FIELD_DOMAIN_LENGTH_WORLD, 1800),
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getWindScriptPreset,
+  parseWindScript,
+  validateWindScript,
+  windScriptPresets,
+} from './windScripts'
+
+describe('windScriptPresets', () => {
+  it.each(windScriptPresets.map((script) => script.id))('%s is a valid script', (id) => {
+    expect(validateWindScript(getWindScriptPreset(id))).toEqual([])
+  })
+})
+
+describe('validateWindScript', () => {
+  const base = {
+    version: 1,
+    id: 'custom',
+    name: 'Custom',
+    keyframes: [{ t: 0, shiftDeg: 0, speedKts: 10 }],
+  }
+
+  it('accepts a minimal script', () => {
+    expect(parseWindScript(base)).toEqual(base)
+  })
+
+  it('rejects keyframes out of order and malformed puffs', () => {
+    const errors = validateWindScript({
+      ...base,
+      keyframes: [
+        { t: 60, shiftDeg: 0, speedKts: 10 },
+        { t: 30, shiftDeg: 5, speedKts: 10 },
+      ],
+      puffs: [{ t: 0, cross: 2, deltaKts: 3, radiusWorld: 0, durationSeconds: 60 }],
+    })
+    expect(errors).toEqual([
+      'keyframes[1].t must not be earlier than the keyframe before it',
+      'puffs[0].cross must be a number between -1 and 1',
+      'puffs[0].radiusWorld must be a positive number',
+    ])
+    expect(parseWindScript('nope')).toBeNull()
+  })
+})
@@ -0,0 +1,151 @@
+import type { WindScript } from '@/types/race'
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0
+
+/** Returns human-readable problems with an untrusted wind script (empty when valid). */
+export const validateWindScript = (value: unknown): string[] => {
+  const errors: string[] = []
+  if (!isRecord(value)) {
+    return ['wind script must be an object']
+  }
+  if (value.version !== 1) errors.push('version must be 1')
+  if (!isNonEmptyString(value.id)) errors.push('id is required')
+  if (!isNonEmptyString(value.name)) errors.push('name is required')
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    errors.push('description must be a string')
+  }
+
+  const keyframes = value.keyframes
+  if (!Array.isArray(keyframes) || keyframes.length === 0) {
+    errors.push('keyframes must list at least one keyframe')
+  } else {
+    let previousT = -Infinity
+    keyframes.forEach((keyframe, index) => {
+      const path = `keyframes[${index}]`
+      if (!isRecord(keyframe)) {
+        errors.push(`${path} must be an object`)
+        return
+      }
+      if (!isFiniteNumber(keyframe.t)) {
+        errors.push(`${path}.t must be a number`)
+      } else if (keyframe.t < previousT) {
+        errors.push(`${path}.t must not be earlier than the keyframe before it`)
+      } else {
+        previousT = keyframe.t
+      }
+      if (!isFiniteNumber(keyframe.shiftDeg) || Math.abs(keyframe.shiftDeg) > 90) {
+        errors.push(`${path}.shiftDeg must be a number between -90 and 90`)
+      }
+      if (!isFiniteNumber(keyframe.speedKts) || keyframe.speedKts < 0) {
+        errors.push(`${path}.speedKts must be a number of at least 0`)
+      }
+    })
+  }
+
+  if (value.puffs !== undefined) {
+    if (!Array.isArray(value.puffs)) {
+      errors.push('puffs must be an array')
+    } else {
+      value.puffs.forEach((puff, index) => {
+        const path = `puffs[${index}]`
+        if (!isRecord(puff)) {
+          errors.push(`${path} must be an object`)
+          return
+        }
+        if (!isFiniteNumber(puff.t)) errors.push(`${path}.t must be a number`)
+        if (!isFiniteNumber(puff.cross) || Math.abs(puff.cross) > 1) {
+          errors.push(`${path}.cross must be a number between -1 and 1`)
+        }
+        if (!isFiniteNumber(puff.deltaKts)) {
+          errors.push(`${path}.deltaKts must be a number`)
+        }
+        if (
+          puff.shiftDeg !== undefined &&
+          (!isFiniteNumber(puff.shiftDeg) || Math.abs(puff.shiftDeg) > 45)
+        ) {
+          errors.push(`${path}.shiftDeg must be a number between -45 and 45`)
+        }
+        if (!isFiniteNumber(puff.radiusWorld) || puff.radiusWorld <= 0) {
+          errors.push(`${path}.radiusWorld must be a positive number`)
+        }
+        if (!isFiniteNumber(puff.durationSeconds) || puff.durationSeconds <= 0) {
+          errors.push(`${path}.durationSeconds must be a positive number`)
+        }
+      })
+    }
+  }
+  return errors
+}
+
+/** Parse an untrusted wind script, returning null when it is invalid. */
+export const parseWindScript = (value: unknown): WindScript | null =>
+  validateWindScript(value).length === 0 ? (value as WindScript) : null
+
+const rightShiftThenLeftPuff: WindScript = {
+  version: 1,
+  id: 'right-shift-left-puff',
+  name: 'Right shift, then left puff',
+  description:
+    'Steady 12 kts, a 10° right shift at 2:30 and a backed puff down the left at 4:00.',
+  keyframes: [
+    { t: 0, shiftDeg: 0, speedKts: 12 },
+    { t: 140, shiftDeg: 0, speedKts: 12 },
+    { t: 150, shiftDeg: 10, speedKts: 12 },
+  ],
+  puffs: [
+    {
+      t: 240,
+      cross: -0.6,
+      deltaKts: 4,
+      shiftDeg: -6,
+      radiusWorld: 260,
+      durationSeconds: 120,
+    },
+  ],
+}
+
+const scriptedOscillation: WindScript = {
+  version: 1,
+  id: 'oscillation-90s',
+  name: 'Oscillating ±8° (90 s)',
+  description: 'Regular 8° swings either side of the median every 90 seconds.',
+  keyframes: Array.from({ length: 21 }, (_, index) => ({
+    t: -120 + index * 45,
+    shiftDeg: [0, 8, 0, -8][index % 4],
+    speedKts: 12,
+  })),
+}
+
+const buildingSeaBreeze: WindScript = {
+  version: 1,
+  id: 'building-sea-breeze',
+  name: 'Building sea breeze',
+  description: 'Fills in from 7 to 16 kts over ten minutes, veering as it builds.',
+  keyframes: [
+    { t: -60, shiftDeg: -6, speedKts: 7 },
+    { t: 180, shiftDeg: -2, speedKts: 10 },
+    { t: 420, shiftDeg: 4, speedKts: 14 },
+    { t: 600, shiftDeg: 8, speedKts: 16 },
+  ],
+  puffs: [
+    { t: 60, cross: 0.7, deltaKts: 3, radiusWorld: 220, durationSeconds: 90 },
+    { t: 200, cross: 0.4, deltaKts: 3, radiusWorld: 260, durationSeconds: 100 },
+    { t: 330, cross: -0.2, deltaKts: -3, radiusWorld: 240, durationSeconds: 90 },
+  ],
+}
+
+export const windScriptPresets: WindScript[] = [
+  rightShiftThenLeftPuff,
+  scriptedOscillation,
+  buildingSeaBreeze,
+]
+
+export const getWindScriptPreset = (id: string): WindScript | null =>
+  windScriptPresets.find((script) => script.id === id) ?? null
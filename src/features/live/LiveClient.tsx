@@ -8,6 +8,7 @@ import {
 } from 'react'
 import { createPortal } from 'react-dom'
 import { appEnv } from '@/config/env'
+import { getCourseLegs } from '@/config/course'
 import { PixiStage } from '@/view/PixiStage'
 import { useInputTelemetry, useRaceEvents, useRaceState } from '@/state/hooks'
 import { GameNetwork } from '@/net/gameNetwork'
@@ -17,13 +18,31 @@ import { ChatPanel } from './ChatPanel'
 import { ReplaySaveButton } from './ReplaySaveButton'
 import { persistReplay } from '@/replay/manager'
 import { useTacticianControls } from './useTacticianControls'
+import { useStartHorns } from './useStartHorns'
 import { DebugPanel } from './DebugPanel'
 import { identity, setClientName } from '@/net/identity'
 import { useAuth } from '@/state/authStore'
 import { startRosterWatcher } from '@/state/rosterStore'
 import { TacticianPopout } from './TacticianPopout'
 import { ProgressStepper } from './ProgressStepper'
-import type { Protest, RaceRole } from '@/types/race'
+import type {
+  BoatClassId,
+  BoatState,
+  CurrentMode,
+  DnfMode,
+  HandicapSystem,
+  PenaltySystem,
+  Protest,
+  RaceFormat,
+  RaceRole,
+  RaceState,
+  SailTrimMode,
+  StartProcedure,
+  TeamId,
+  TleScoring,
+  WindScenario,
+  WindScript,
+} from '@/types/race'
 import { OnScreenControls } from './OnScreenControls'
 import { useRoster } from '@/state/rosterStore'
 import { RosterPanel } from './RosterPanel'
@@ -31,7 +50,74 @@ import type { CameraMode } from '@/view/scene/RaceScene'
 import { LobbyIcon, ZoomIcon, HandOffIcon, AdminIcon, LogOutIcon } from '@/view/icons'
 import { angleDiff } from '@/logic/physics'
 import { getTack } from '@/logic/rules'
-import { sampleWindSpeed } from '@/logic/windField'
+import {
+  describeSpin,
+  getPenaltyConfig,
+  isDisqualified,
+  owedFoulPenalties,
+  penalisedPoints,
+  penaltySystemOptions,
+  planPenaltySpin,
+  scoringPenaltyPlaces,
+} from '@/logic/penalties'
+import {
+  canGeneralRecall,
+  getStartProcedure,
+  isStartDisqualified,
+  startPenaltyCode,
+  startPenaltyPoints,
+  startProcedureOptions,
+} from '@/logic/startProcedures'
+import { sampleWindDirection, sampleWindSpeed } from '@/logic/windField'
+import { boatClassOptions, getBoatClass } from '@/logic/boatClasses'
+import { currentModeOptions } from '@/logic/currentField'
+import { getWindScenario, windScenarioOptions } from '@/logic/windScenarios'
+import { maneuverPhaseLabels } from '@/logic/maneuvers'
+import {
+  getRaceFormat,
+  isMatchRace,
+  matchEndLabels,
+  raceFormatOptions,
+} from '@/logic/matchRacing'
+import {
+  isTeamRace,
+  teamIds,
+  teamLabels,
+  teamRaceBoatPoints,
+  teamRaceResult,
+  teamsReady,
+} from '@/logic/teamRacing'
+import { getPursuitMinutes, isPursuitRace, pursuitMinutesOptions } from '@/logic/pursuit'
+import {
+  finishingWindowClosed,
+  finishingWindowMinutesOptions,
+  firstBoatMinutesOptions,
+  getTimeLimitConfig,
+  tlePlacesOptions,
+  tlePoints,
+  tleScoringOptions,
+} from '@/logic/timeLimits'
+import {
+  boatSheet,
+  getSailTrimMode,
+  isManualTrim,
+  optimalSheet,
+  sailTrimModeOptions,
+  SHEET_TOLERANCE,
+} from '@/logic/sailTrim'
+import {
+  getWindScriptPreset,
+  validateWindScript,
+  windScriptPresets,
+} from '@/config/windScripts'
+import {
+  boatRating,
+  getHandicapSystem,
+  handicapSystemOptions,
+  isHandicapRace,
+  rankByCorrectedTime,
+  scoredTime,
+} from '@/logic/handicap'
 import { useFrameDropStats } from '@/state/useFrameDropStats'
 import { usePatchRate } from '@/state/patchRateStore'
 
@@ -69,6 +155,7 @@ const WhatsAppIcon = () => (
 export const LiveClient = () => {
   const events = useRaceEvents()
   const race = useRaceState()
+  useStartHorns(events)
   const telemetry = useInputTelemetry()
   const { user: authUser, isAuthenticated, isAdmin, logout: authLogout } = useAuth()
 
@@ -359,6 +446,16 @@ export const LiveClient = () => {
     roster.entries.find((entry) => entry.clientId === roster.hostId)?.name
 
   const countdownLabel = formatCountdownLabel(appEnv.countdownSeconds)
+  const penaltyConfig = getPenaltyConfig(race)
+  const startProcedure = getStartProcedure(race)
+  const timeLimits = getTimeLimitConfig(race)
+  const fleetClassIds = new Set(
+    Object.values(race.boats).map((boat) => getBoatClass(boat.classId).id),
+  )
+  const fleetBoatClass =
+    fleetClassIds.size > 1
+      ? 'mixed'
+      : ([...fleetClassIds][0] ?? getBoatClass(race.boatClass).id)
   const showStartOverlay =
     role === 'host' && race.phase === 'prestart' && !race.countdownArmed
   const hostBoat = race.hostBoatId
@@ -382,10 +479,12 @@ export const LiveClient = () => {
     race.phase === 'running' &&
     Object.keys(race.boats).length > 0 &&
     Object.values(race.boats).every((b) => b.finished)
+  // A pursuit or an expired time limit stops the race with boats still racing.
+  const timeUp = race.phase === 'finished'
 
   const [editableLeaderboard, setEditableLeaderboard] = useState<string[]>([])
   const [rcScored, setRcScored] = useState(true)
-  const [rcDnfMode, setRcDnfMode] = useState<'dnf' | 'position'>('dnf')
+  const [rcDnfMode, setRcDnfMode] = useState<DnfMode>('dnf')
   const [editingPositionIdx, setEditingPositionIdx] = useState<number | null>(null)
   const [editingPositionValue, setEditingPositionValue] = useState('')
   const leaderboardDirty = useRef(false)
@@ -427,7 +526,13 @@ export const LiveClient = () => {
 
   useEffect(() => {
     if (showResultsOverlay && race.leaderboard.length > 0 && editableLeaderboard.length === 0) {
-      setEditableLeaderboard([...race.leaderboard])
+      setEditableLeaderboard(rankByCorrectedTime([...race.leaderboard], race))
+      // Boats still sailing when a pursuit ends are placed where they were.
+      if (isPursuitRace(race)) setRcDnfMode('position')
+      // Boats still racing when the finishing window closed are scored TLE,
+      // and a race abandoned for want of a finisher is not scored.
+      if (finishingWindowClosed(race)) setRcDnfMode('tle')
+      if (race.abandoned) setRcScored(false)
       leaderboardDirty.current = false
     }
     if (!showResultsOverlay && editableLeaderboard.length > 0) {
@@ -459,6 +564,21 @@ export const LiveClient = () => {
     })
   }, [editableLeaderboard, race.leaderboard, race.boats])
 
+  const loadWindScriptFile = async (file: File) => {
+    let errors: string[]
+    try {
+      const script = JSON.parse(await file.text()) as unknown
+      errors = validateWindScript(script)
+      if (!errors.length) {
+        network.setWindScript({ script: script as WindScript })
+        return
+      }
+    } catch {
+      errors = ['file is not valid JSON']
+    }
+    setStatsToast({ message: `Wind script not loaded: ${errors[0]}`, success: false })
+  }
+
   const applyPositionEdit = (fromIdx: number, toPosition: number) => {
     const lb = [...editableLeaderboard]
     const toIdx = Math.max(0, Math.min(lb.length - 1, toPosition - 1))
@@ -627,6 +747,40 @@ export const LiveClient = () => {
               Finish Race
             </button>
           )}
+          {role === 'host' && canGeneralRecall(race) && (
+            <button
+              type="button"
+              className="start-sequence"
+              onClick={() => network.generalRecall()}
+              title="Recall the whole fleet and restart the sequence (First Substitute)"
+            >
+              General Recall
+            </button>
+          )}
+          {role === 'host' && race.phase === 'running' && !race.shortenedFinish && (
+            <button
+              type="button"
+              className="start-sequence"
+              onClick={() => network.shortenCourse()}
+              title="Finish at the leading boat's next mark (S flag)"
+            >
+              Shorten Course
+            </button>
+          )}
+          {role === 'host' && (race.phase === 'running' || race.phase === 'finished') && (
+            <button
+              type="button"
+              className="start-sequence"
+              onClick={() => {
+                if (confirm('Abandon the race? It will not be scored.')) {
+                  network.abandonRace()
+                }
+              }}
+              title="Abandon and restart (N flag)"
+            >
+              Abandon
+            </button>
+          )}
           {(role === 'host' || role === 'god') && race.phase !== 'results' && (
             <button
               type="button"
@@ -837,7 +991,10 @@ export const LiveClient = () => {
 
                   {selectedProtest ? (
                     <div style={{ opacity: 0.9, fontSize: 12 }}>
-                      Protest: {selectedProtest.status}
+                      Protest:{' '}
+                      {selectedProtest.status === 'y_flag'
+                        ? 'Y flag, awaiting umpires'
+                        : selectedProtest.status}
                       {selectedProtest.protestorBoatId === identity.boatId
                         ? ' (filed by you)'
                         : ''}
@@ -860,7 +1017,7 @@ export const LiveClient = () => {
                             setSelectedBoatAnchor(null)
                           }}
                         >
-                          🚩 Protest
+                          {isMatchRace(race) ? '🟨 Y flag' : '🚩 Protest'}
                         </button>
                       )}
                     {(role === 'player' || role === 'host') &&
@@ -878,19 +1035,61 @@ export const LiveClient = () => {
                           Revoke protest
                         </button>
                       )}
-                    {role === 'judge' && selectedBoatId && selectedProtest && (
-                      <button
-                        type="button"
-                        className="start-sequence"
-                        onClick={() => {
-                          network.judgeClearProtest(selectedBoatId)
-                          setSelectedBoatId(null)
-                          setSelectedBoatAnchor(null)
-                        }}
-                      >
-                        Clear protest (judge)
-                      </button>
-                    )}
+                    {role === 'judge' &&
+                      selectedBoatId &&
+                      selectedProtest?.status === 'y_flag' && (
+                        <>
+                          <button
+                            type="button"
+                            className="start-sequence"
+                            onClick={() => {
+                              network.umpireCall(selectedBoatId, 'penalty')
+                              setSelectedBoatId(null)
+                              setSelectedBoatAnchor(null)
+                            }}
+                          >
+                            Penalty on {selectedBoat.name}
+                          </button>
+                          <button
+                            type="button"
+                            className="start-sequence"
+                            onClick={() => {
+                              network.umpireCall(selectedBoatId, 'no_penalty')
+                              setSelectedBoatId(null)
+                              setSelectedBoatAnchor(null)
+                            }}
+                          >
+                            No penalty
+                          </button>
+                          <button
+                            type="button"
+                            className="start-sequence"
+                            onClick={() => {
+                              network.umpireCall(selectedBoatId, 'penalty_protestor')
+                              setSelectedBoatId(null)
+                              setSelectedBoatAnchor(null)
+                            }}
+                          >
+                            Penalty on {race.boats[selectedProtest.protestorBoatId]?.name}
+                          </button>
+                        </>
+                      )}
+                    {role === 'judge' &&
+                      selectedBoatId &&
+                      selectedProtest &&
+                      selectedProtest.status !== 'y_flag' && (
+                        <button
+                          type="button"
+                          className="start-sequence"
+                          onClick={() => {
+                            network.judgeClearProtest(selectedBoatId)
+                            setSelectedBoatId(null)
+                            setSelectedBoatAnchor(null)
+                          }}
+                        >
+                          Clear protest (judge)
+                        </button>
+                      )}
 
                     {(role === 'spectator' || role === 'judge' || role === 'god') &&
                       selectedBoatId && (
@@ -916,9 +1115,503 @@ export const LiveClient = () => {
               <div className="start-sequence-card">
                 <h2>🛥️ Yay! You are the Race Comittee!</h2>
                 <p> Click to start the race with a {countdownLabel} sequence.</p>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Format</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={getRaceFormat(race)}
+                      onChange={(event) =>
+                        network.setRaceFormat(event.target.value as RaceFormat)
+                      }
+                      aria-label="Select race format"
+                      className="user-menu-select"
+                    >
+                      {raceFormatOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                {isPursuitRace(race) && (
+                  <div className="user-menu-row">
+                    <span className="user-menu-label">Length</span>
+                    <span className="user-menu-field">
+                      <select
+                        value={getPursuitMinutes(race)}
+                        onChange={(event) =>
+                          network.setPursuitMinutes(Number(event.target.value))
+                        }
+                        aria-label="Select pursuit length"
+                        className="user-menu-select"
+                      >
+                        {pursuitMinutesOptions.map((minutes) => (
+                          <option key={minutes} value={minutes}>
+                            {minutes} minutes
+                          </option>
+                        ))}
+                      </select>
+                      <span className="user-menu-chevron" aria-hidden="true">
+                        ▾
+                      </span>
+                    </span>
+                  </div>
+                )}
+                {!isPursuitRace(race) && (
+                  <>
+                    <div className="user-menu-row">
+                      <span className="user-menu-label">Time limit</span>
+                      <span className="user-menu-field">
+                        <select
+                          value={timeLimits.firstBoatMinutes}
+                          onChange={(event) =>
+                            network.setTimeLimits({
+                              firstBoatMinutes: Number(event.target.value),
+                            })
+                          }
+                          aria-label="Select time limit for the first boat"
+                          className="user-menu-select"
+                        >
+                          {firstBoatMinutesOptions.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {minutes ? `${minutes} minutes` : 'None'}
+                            </option>
+                          ))}
+                        </select>
+                        <span className="user-menu-chevron" aria-hidden="true">
+                          ▾
+                        </span>
+                      </span>
+                    </div>
+                    <div className="user-menu-row">
+                      <span className="user-menu-label">Finish window</span>
+                      <span className="user-menu-field">
+                        <select
+                          value={timeLimits.windowMinutes}
+                          onChange={(event) =>
+                            network.setTimeLimits({
+                              windowMinutes: Number(event.target.value),
+                            })
+                          }
+                          aria-label="Select finishing window"
+                          className="user-menu-select"
+                        >
+                          {finishingWindowMinutesOptions.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {minutes ? `${minutes} minutes` : 'None'}
+                            </option>
+                          ))}
+                        </select>
+                        <span className="user-menu-chevron" aria-hidden="true">
+                          ▾
+                        </span>
+                      </span>
+                    </div>
+                    <div className="user-menu-row">
+                      <span className="user-menu-label">TLE score</span>
+                      <span className="user-menu-field">
+                        <select
+                          value={timeLimits.tleScoring}
+                          onChange={(event) =>
+                            network.setTimeLimits({
+                              tleScoring: event.target.value as TleScoring,
+                            })
+                          }
+                          aria-label="Select TLE scoring"
+                          className="user-menu-select"
+                        >
+                          {tleScoringOptions.map((option) => (
+                            <option key={option.id} value={option.id}>
+                              {option.name}
+                            </option>
+                          ))}
+                        </select>
+                        <span className="user-menu-chevron" aria-hidden="true">
+                          ▾
+                        </span>
+                      </span>
+                    </div>
+                    {timeLimits.tleScoring === 'last-finisher' && (
+                      <div className="user-menu-row">
+                        <span className="user-menu-label">TLE places</span>
+                        <span className="user-menu-field">
+                          <select
+                            value={timeLimits.tlePlaces}
+                            onChange={(event) =>
+                              network.setTimeLimits({
+                                tlePlaces: Number(event.target.value),
+                              })
+                            }
+                            aria-label="Select places added for TLE"
+                            className="user-menu-select"
+                          >
+                            {tlePlacesOptions.map((places) => (
+                              <option key={places} value={places}>
+                                +{places}
+                              </option>
+                            ))}
+                          </select>
+                          <span className="user-menu-chevron" aria-hidden="true">
+                            ▾
+                          </span>
+                        </span>
+                      </div>
+                    )}
+                  </>
+                )}
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Penalties</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={penaltyConfig.system}
+                      onChange={(event) =>
+                        network.setPenaltySystem(event.target.value as PenaltySystem)
+                      }
+                      aria-label="Select penalty system"
+                      className="user-menu-select"
+                    >
+                      {penaltySystemOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Start</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={startProcedure}
+                      onChange={(event) =>
+                        network.setStartProcedure(event.target.value as StartProcedure)
+                      }
+                      aria-label="Select start procedure"
+                      className="user-menu-select"
+                    >
+                      {startProcedureOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Class</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={fleetBoatClass}
+                      onChange={(event) =>
+                        network.setBoatClass(event.target.value as BoatClassId)
+                      }
+                      aria-label="Select boat class"
+                      className="user-menu-select"
+                    >
+                      {boatClassOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                      {fleetBoatClass === 'mixed' && (
+                        <option value="mixed" disabled>
+                          Mixed fleet
+                        </option>
+                      )}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Handicap</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={getHandicapSystem(race)}
+                      onChange={(event) =>
+                        network.setHandicapSystem(event.target.value as HandicapSystem)
+                      }
+                      aria-label="Select handicap system"
+                      className="user-menu-select"
+                    >
+                      {handicapSystemOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Trim</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={getSailTrimMode(race)}
+                      onChange={(event) =>
+                        network.setSailTrimMode(event.target.value as SailTrimMode)
+                      }
+                      aria-label="Select sail trim mode"
+                      className="user-menu-select"
+                    >
+                      {sailTrimModeOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Wind</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={getWindScenario(race)}
+                      onChange={(event) =>
+                        network.setWindScenario(event.target.value as WindScenario)
+                      }
+                      aria-label="Select wind scenario"
+                      className="user-menu-select"
+                    >
+                      {windScenarioOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Script</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={race.windScript?.id ?? ''}
+                      onChange={(event) =>
+                        network.setWindScript({
+                          scriptId: event.target.value || undefined,
+                        })
+                      }
+                      aria-label="Select wind script"
+                      className="user-menu-select"
+                    >
+                      <option value="">Live wind</option>
+                      {windScriptPresets.map((script) => (
+                        <option key={script.id} value={script.id}>
+                          {script.name}
+                        </option>
+                      ))}
+                      {race.windScript && !getWindScriptPreset(race.windScript.id) && (
+                        <option value={race.windScript.id} disabled>
+                          {race.windScript.name}
+                        </option>
+                      )}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                  <label className="wind-script-upload" title="Load a wind script (JSON)">
+                    Load…
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0]
+                        event.target.value = ''
+                        if (file) void loadWindScriptFile(file)
+                      }}
+                    />
+                  </label>
+                </div>
+                <div className="user-menu-row">
+                  <span className="user-menu-label">Current</span>
+                  <span className="user-menu-field">
+                    <select
+                      value={race.currentField?.enabled ? race.currentField.mode : 'off'}
+                      onChange={(event) =>
+                        network.setCurrentField(
+                          event.target.value === 'off'
+                            ? { enabled: false }
+                            : { enabled: true, mode: event.target.value as CurrentMode },
+                        )
+                      }
+                      aria-label="Select tidal current"
+                      className="user-menu-select"
+                    >
+                      <option value="off">Slack water</option>
+                      {currentModeOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="user-menu-chevron" aria-hidden="true">
+                      ▾
+                    </span>
+                  </span>
+                </div>
+                {race.currentField?.enabled && (
+                  <div className="user-menu-row">
+                    <span className="user-menu-label">Set / drift</span>
+                    <span className="user-menu-field">
+                      <input
+                        key={`set:${race.currentField.setDeg}`}
+                        className="current-field-input"
+                        type="number"
+                        min={0}
+                        max={359}
+                        defaultValue={race.currentField.setDeg}
+                        onBlur={(event) =>
+                          network.setCurrentField({ setDeg: Number(event.target.value) })
+                        }
+                        aria-label="Current set in degrees"
+                        title="Direction the current flows towards (°)"
+                      />
+                      <input
+                        key={`drift:${race.currentField.driftKts}`}
+                        className="current-field-input"
+                        type="number"
+                        min={0}
+                        max={6}
+                        step={0.1}
+                        defaultValue={race.currentField.driftKts}
+                        onBlur={(event) =>
+                          network.setCurrentField({
+                            driftKts: Number(event.target.value),
+                          })
+                        }
+                        aria-label="Current drift in knots"
+                        title="Current speed (kts)"
+                      />
+                    </span>
+                  </div>
+                )}
+                <details className="fleet-classes">
+                  <summary>
+                    {isHandicapRace(race)
+                      ? "Set each boat's class and rating"
+                      : "Mixed fleet: set each boat's class"}
+                  </summary>
+                  {race.leaderboard.map((boatId) => {
+                    const boat = race.boats[boatId]
+                    if (!boat) return null
+                    return (
+                      <div key={boatId} className="user-menu-row">
+                        <span className="fleet-classes-name">{boat.name}</span>
+                        <span className="user-menu-field">
+                          <select
+                            value={getBoatClass(boat.classId).id}
+                            onChange={(event) =>
+                              network.setBoatClass(
+                                event.target.value as BoatClassId,
+                                boatId,
+                              )
+                            }
+                            aria-label={`Select boat class for ${boat.name}`}
+                            className="user-menu-select"
+                          >
+                            {boatClassOptions.map((option) => (
+                              <option key={option.id} value={option.id}>
+                                {option.name}
+                              </option>
+                            ))}
+                          </select>
+                          <span className="user-menu-chevron" aria-hidden="true">
+                            ▾
+                          </span>
+                        </span>
+                        {isHandicapRace(race) && (
+                          <input
+                            key={`${boatId}:${boat.rating ?? ''}`}
+                            className="fleet-rating-input"
+                            type="number"
+                            defaultValue={boat.rating ?? ''}
+                            placeholder={String(
+                              boatRating(
+                                { classId: boat.classId },
+                                getHandicapSystem(race),
+                              ),
+                            )}
+                            onBlur={(event) => {
+                              const value = event.target.value.trim()
+                              network.setBoatRating(
+                                boatId,
+                                value === '' ? undefined : Number(value),
+                              )
+                            }}
+                            aria-label={`Handicap rating for ${boat.name}`}
+                            title="Leave blank to use the class rating"
+                          />
+                        )}
+                      </div>
+                    )
+                  })}
+                </details>
+                {isTeamRace(race) && (
+                  <div className="fleet-classes team-assignment">
+                    <span>Teams</span>
+                    {race.leaderboard.map((boatId) => {
+                      const boat = race.boats[boatId]
+                      if (!boat) return null
+                      return (
+                        <div key={boatId} className="user-menu-row">
+                          <span
+                            className={`team-swatch team-swatch-${boat.team ?? ''}`}
+                          />
+                          <span className="fleet-classes-name">{boat.name}</span>
+                          <span className="user-menu-field">
+                            <select
+                              value={boat.team || ''}
+                              onChange={(event) =>
+                                network.setBoatTeam(boatId, event.target.value as TeamId)
+                              }
+                              aria-label={`Select team for ${boat.name}`}
+                              className="user-menu-select"
+                            >
+                              {!boat.team && <option value="">No team</option>}
+                              {teamIds.map((team) => (
+                                <option key={team} value={team}>
+                                  {teamLabels[team]}
+                                </option>
+                              ))}
+                            </select>
+                            <span className="user-menu-chevron" aria-hidden="true">
+                              ▾
+                            </span>
+                          </span>
+                        </div>
+                      )
+                    })}
+                    {!teamsReady(race) && (
+                      <p className="team-assignment-hint">
+                        Two even teams of two to four boats are needed to start.
+                      </p>
+                    )}
+                  </div>
+                )}
                 <button
                   type="button"
                   className="start-sequence"
+                  disabled={isTeamRace(race) && !teamsReady(race)}
                   onClick={() => network.armCountdown(appEnv.countdownSeconds)}
                 >
                   Start {countdownLabel} Sequence
@@ -934,9 +1627,14 @@ export const LiveClient = () => {
               </div>
             </div>
           )}
-          {allBoatsFinished && role === 'host' && (
+          {(allBoatsFinished || timeUp) && role === 'host' && (
             <div className="finish-prompt">
-              All boats finished &mdash;{' '}
+              {allBoatsFinished
+                ? 'All boats finished'
+                : isPursuitRace(race)
+                  ? 'Pursuit over'
+                  : 'Time limit reached'}{' '}
+              &mdash;{' '}
               <button
                 type="button"
                 className="start-sequence"
@@ -952,10 +1650,25 @@ export const LiveClient = () => {
             const firstFinishTime = (() => {
               for (const id of displayLeaderboard) {
                 const b = race.boats[id]
-                if (b && typeof b.finishTime === 'number' && b.finishTime > 0) return b.finishTime
+                if (b && typeof b.finishTime === 'number' && b.finishTime > 0) {
+                  return scoredTime(b, race) ?? b.finishTime
+                }
               }
               return null
             })()
+            // Team races score each boat on its place and each team on the total (D3).
+            const teamResult = isTeamRace(race)
+              ? teamRaceResult(race, displayLeaderboard)
+              : null
+            const teamBoatPoints = teamResult
+              ? teamRaceBoatPoints(race, displayLeaderboard)
+              : null
+            const finisherCount = displayLeaderboard.filter((id) => {
+              const finishTime = race.boats[id]?.finishTime
+              return typeof finishTime === 'number' && finishTime > 0
+            }).length
+            // Finishers head the leaderboard, so the last one's place is their count.
+            const tleScore = tlePoints(timeLimits, finisherCount, finisherCount, fleetSize)
 
             return (
             <div className="start-sequence-overlay results-overlay">
@@ -973,8 +1686,26 @@ export const LiveClient = () => {
                     const hasTime =
                       typeof boat.finishTime === 'number' && boat.finishTime > 0
                     const isDnf = !hasTime
+                    // Recalled boats that never returned are scored OCS.
+                    const isOcs = Boolean(boat.recalled)
                     const usePosition = rcDnfMode === 'position'
-                    const points = (isDnf && !usePosition) ? fleetSize + 1 : index + 1
+                    const isTle = isDnf && !isOcs && rcDnfMode === 'tle'
+                    const points =
+                      teamBoatPoints?.[boatId] ??
+                      penalisedPoints(
+                        startPenaltyPoints(
+                          isTle
+                            ? tleScore
+                            : isOcs || (isDnf && !usePosition)
+                              ? fleetSize + 1
+                              : index + 1,
+                          boat,
+                          fleetSize,
+                        ),
+                        boat,
+                        fleetSize,
+                        penaltyConfig,
+                      )
                     const medal =
                       !isDnf && index === 0
                         ? '🥇'
@@ -983,8 +1714,9 @@ export const LiveClient = () => {
                           : !isDnf && index === 2
                             ? '🥉'
                             : ''
-                    const timeBehind = hasTime && firstFinishTime !== null
-                      ? boat.finishTime! - firstFinishTime
+                    const raceTime = hasTime ? (scoredTime(boat, race) ?? boat.finishTime!) : null
+                    const timeBehind = raceTime !== null && firstFinishTime !== null
+                      ? raceTime - firstFinishTime
                       : null
 
                     return (
@@ -1030,11 +1762,31 @@ export const LiveClient = () => {
                           </span>
                         )}
                         <span className="results-medal">{medal}</span>
-                        <span className="results-name">{boat.name}</span>
-                        <span className="results-time">
-                          {isDnf
-                            ? (usePosition ? 'OCF' : 'DNF')
-                            : formatRaceTime(boat.finishTime!)}
+                        <span className="results-name">
+                          {teamResult && boat.team && (
+                            <span className={`team-swatch team-swatch-${boat.team}`} />
+                          )}
+                          {boat.name}
+                        </span>
+                        <span
+                          className="results-time"
+                          title={
+                            hasTime && isHandicapRace(race)
+                              ? `Elapsed ${formatRaceTime(boat.finishTime!)}`
+                              : undefined
+                          }
+                        >
+                          {boat.startPenalty && isStartDisqualified(boat)
+                            ? startPenaltyCode(boat.startPenalty)
+                            : isDisqualified(boat, penaltyConfig)
+                              ? 'DSQ'
+                              : isOcs
+                                ? 'OCS'
+                                : isTle
+                                  ? 'TLE'
+                                  : isDnf
+                                    ? (usePosition ? 'OCF' : 'DNF')
+                                    : formatRaceTime(raceTime!)}
                         </span>
                         <span className="results-split">
                           {hasTime && timeBehind !== null && timeBehind > 0.005
@@ -1048,6 +1800,17 @@ export const LiveClient = () => {
                     )
                   })}
                 </ol>
+                {teamResult && (
+                  <p className="results-team-score">
+                    {teamIds
+                      .map((team) => `${teamLabels[team]} ${teamResult.totals[team]}`)
+                      .join(' – ')}
+                    {' · '}
+                    {teamResult.winner
+                      ? `${teamLabels[teamResult.winner]} wins`
+                      : 'No team has finished'}
+                  </p>
+                )}
                 {role === 'host' ? (
                   <div className="results-options">
                     <label className="results-option-row">
@@ -1085,6 +1848,16 @@ export const LiveClient = () => {
                           />
                           On-Course Finish
                         </label>
+                        <label>
+                          <input
+                            type="radio"
+                            name="dnfMode"
+                            value="tle"
+                            checked={rcDnfMode === 'tle'}
+                            onChange={() => setRcDnfMode('tle')}
+                          />
+                          TLE
+                        </label>
                       </div>
                     )}
                     {!rcScored && (
@@ -1338,41 +2111,104 @@ export const LiveClient = () => {
                 enabled={race.windField?.enabled}
                 intensityKts={race.windField?.intensityKts}
               />
+              {canShowBoatInfo && playerBoat && isManualTrim(race) && (
+                <SailTrimIndicator race={race} boat={playerBoat} network={network} />
+              )}
               {canShowBoatInfo && playerBoat?.collisionWarning && (
                 <div className="collision-warning-banner">
                   <span className="collision-warning-icon">⚠</span>
                   <span>{playerBoat.collisionWarning}</span>
                 </div>
               )}
-              {canShowBoatInfo && playerBoat && playerBoat.penalties > 0 && (
-                <div className="spin-under-hud">
-                  <button
-                    type="button"
-                    className="spin-button"
-                    onClick={() => network.requestSpin()}
-                    title="Perform a 360° spin (also clears one penalty if you have any)"
-                  >
-                    <span className="spin-button-title">Do your 360</span>
-                    <span className="spin-button-subtitle">
-                      Press <span className="kbd">S</span> or click this button to
-                      spin.{' '}
-                      Press <span className="kbd">P</span> to protest if you
-                      disagree with the call.
+              {canShowBoatInfo &&
+                playerBoat?.matchEnd &&
+                !playerBoat.matchEntered &&
+                race.phase === 'prestart' && (
+                  <div className="match-entry-banner">
+                    <span aria-hidden="true">🟨</span>
+                    <span>
+                      Wait outside the {matchEndLabels[playerBoat.matchEnd]}, then enter
+                      the start box from above the line after the preparatory signal
                     </span>
-                  </button>
-                </div>
-              )}
+                  </div>
+                )}
+              {canShowBoatInfo &&
+                playerBoat &&
+                playerBoat.penalties > 0 &&
+                (() => {
+                  const plan = planPenaltySpin(playerBoat, penaltyConfig)
+                  if (!plan.clears) {
+                    // Fouls under the scoring/DSQ systems are settled at scoring time.
+                    const fouls = owedFoulPenalties(playerBoat)
+                    const places =
+                      fouls *
+                      scoringPenaltyPlaces(
+                        Object.keys(race.boats).length,
+                        penaltyConfig.scoringPercent,
+                      )
+                    return (
+                      <div className="spin-under-hud">
+                        <button type="button" className="spin-button" disabled>
+                          <span className="spin-button-title">
+                            {penaltyConfig.system === 'dsq'
+                              ? 'Disqualified'
+                              : `Scoring penalty +${places}`}
+                          </span>
+                          <span className="spin-button-subtitle">
+                            Press <span className="kbd">P</span> to protest if you
+                            disagree with the call.
+                          </span>
+                        </button>
+                      </div>
+                    )
+                  }
+                  return (
+                    <div className="spin-under-hud">
+                      <button
+                        type="button"
+                        className="spin-button"
+                        onClick={() => network.requestSpin()}
+                        title={`Perform ${describeSpin(plan.turns)} to clear one penalty`}
+                      >
+                        <span className="spin-button-title">
+                          Do your {plan.turns * 360}
+                        </span>
+                        <span className="spin-button-subtitle">
+                          Press <span className="kbd">S</span> or click this button to
+                          spin.{' '}
+                          {isMatchRace(race) ? (
+                            'Take it any time before you finish.'
+                          ) : (
+                            <>
+                              Press <span className="kbd">P</span> to protest if you
+                              disagree with the call.
+                            </>
+                          )}
+                        </span>
+                      </button>
+                    </div>
+                  )
+                })()}
             </div>
             {(() => {
               const boat = canShowBoatInfo ? playerBoat : undefined
               const showSailStatus = Boolean(
                 boat && (boat.blowSails || boat.stallTimer > 0.05),
               )
-              const shouldShow = canShowBoatInfo && (wakeActive || showSailStatus)
+              const showManeuver = Boolean(boat?.maneuver && boat.maneuverPhase)
+              const shouldShow =
+                canShowBoatInfo && (wakeActive || showSailStatus || showManeuver)
               if (!shouldShow) return null
 
               const parts: string[] = []
               if (wakeActive) parts.push(`Wind Shadow -${wakeSlowPercent}%`)
+              if (boat?.maneuver && boat.maneuverPhase) {
+                const kind = boat.maneuver === 'tack' ? 'Tack' : 'Gybe'
+                const roll = boat.maneuverRoll
+                  ? ` (roll ${Math.round(boat.maneuverRoll * 100)}%)`
+                  : ''
+                parts.push(`${kind}: ${maneuverPhaseLabels[boat.maneuverPhase]}${roll}`)
+              }
               if (boat?.blowSails) parts.push('Blowing Sails')
               else if (boat && boat.stallTimer > 0.05) parts.push('Luffing')
 
@@ -1454,8 +2290,10 @@ export const LiveClient = () => {
                           boatId === race.hostBoatId
                         const internalLap = Math.min(boat.lap ?? 0, race.lapsToFinish)
                         const finished = boat.finished || internalLap >= race.lapsToFinish
-                        const atLine =
-                          boat.nextMarkIndex === 1 || boat.nextMarkIndex === 2
+                        const legs = getCourseLegs(race)
+                        const legKind =
+                          legs[Math.min(boat.legIndex ?? 0, legs.length - 1)]?.kind
+                        const atLine = legKind === 'start' || legKind === 'finish'
                         const onFinalLap = internalLap >= race.lapsToFinish - 1
                         const displayLap = internalLap + 1
                         const medal =
@@ -1643,6 +2481,7 @@ export const LiveClient = () => {
               onToggleCamera={() =>
                 setCameraMode((mode) => (mode === 'follow' ? 'birdseye' : 'follow'))
               }
+              manualTrim={isManualTrim(race)}
             />
           )}
           {appEnv.chatEnabled && <ChatPanel network={network} />}
@@ -1881,6 +2720,55 @@ const BottomLeftOverlays = ({ rttText }: { rttText: string }) => {
   )
 }
 
+/** Sheet against the optimum for the boat's wind angle, with a slider to trim. */
+const SailTrimIndicator = ({
+  race,
+  boat,
+  network,
+}: {
+  race: RaceState
+  boat: BoatState
+  network: GameNetwork
+}) => {
+  const [dragging, setDragging] = useState<number | null>(null)
+  const twa = angleDiff(boat.headingDeg, sampleWindDirection(race, boat.pos))
+  const optimum = optimalSheet(twa)
+  const sheet = dragging ?? boatSheet(boat)
+  const error = sheet - optimum
+  const hint =
+    error > SHEET_TOLERANCE ? 'Ease' : error < -SHEET_TOLERANCE ? 'Trim in' : 'Trimmed'
+
+  return (
+    <div className="sail-trim-indicator" aria-label="Sail trim">
+      <div className="sail-trim-header">
+        <span>Sheet {Math.round(sheet * 100)}%</span>
+        <span className={`sail-trim-hint${hint === 'Trimmed' ? ' good' : ''}`}>
+          {hint}
+        </span>
+      </div>
+      <div className="sail-trim-track" aria-hidden="true">
+        <span className="sail-trim-optimum" style={{ left: `${optimum * 100}%` }} />
+        <span className="sail-trim-marker" style={{ left: `${sheet * 100}%` }} />
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={1}
+        value={Math.round(sheet * 100)}
+        aria-label="Sheet: left eases, right trims in"
+        onChange={(event) => {
+          const value = Number(event.target.value) / 100
+          setDragging(value)
+          network.setSheet(value, 0)
+        }}
+        onPointerUp={() => setDragging(null)}
+        onBlur={() => setDragging(null)}
+      />
+    </div>
+  )
+}
+
 const WindIntensityLegend = ({
   enabled,
   intensityKts,
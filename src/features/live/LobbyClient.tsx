@@ -4,6 +4,12 @@ import { regattaService, type Regatta, type RegattaDetail } from '@/net/regattaS
 import { identity } from '@/net/identity'
 import { removeKey } from '@/utils/storage'
 import { appEnv } from '@/config/env'
+import {
+  courseLayoutOptions,
+  defaultCourseLayoutId,
+  getCourseLayout,
+  type CourseLayoutId,
+} from '@/config/courseLayouts'
 import { useAuth } from '@/state/authStore'
 import { TrophyIcon, ReplayIcon } from '@/view/icons'
 
@@ -36,6 +42,7 @@ export const LobbyClient = () => {
   const [roomEmoji, setRoomEmoji] = useState('⛵')
   const [roomName, setRoomName] = useState('')
   const [roomDescription, setRoomDescription] = useState('')
+  const [courseLayout, setCourseLayout] = useState<CourseLayoutId>(defaultCourseLayoutId)
   const [creating, setCreating] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [copiedRoomId, setCopiedRoomId] = useState<string | null>(null)
@@ -237,6 +244,7 @@ export const LobbyClient = () => {
         description: roomDescription.trim() || undefined,
         createdBy: identity.clientId,
         regattaId: selectedRegattaId || undefined,
+        courseLayout,
       }
       const response = await roomService.createRoom(request)
       // Navigate to the new room
@@ -518,6 +526,29 @@ export const LobbyClient = () => {
                   fontFamily: 'inherit',
                 }}
               />
+              <div>
+                <label style={{ fontSize: '0.85rem', opacity: 0.8, marginBottom: '0.25rem', display: 'block' }}>
+                  Course
+                </label>
+                <select
+                  value={courseLayout}
+                  onChange={(event) => setCourseLayout(event.target.value as CourseLayoutId)}
+                  disabled={creating}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    border: '1px solid var(--border-hover)',
+                    backgroundColor: 'var(--bg-hover)',
+                    color: 'inherit',
+                    borderRadius: '4px',
+                    fontFamily: 'inherit',
+                  }}
+                >
+                  {courseLayoutOptions.map((option) => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
               {regattas.length > 0 && (
                 <div>
                   <label style={{ fontSize: '0.85rem', opacity: 0.8, marginBottom: '0.25rem', display: 'block' }}>
@@ -553,6 +584,7 @@ export const LobbyClient = () => {
                     setRoomEmoji('⛵')
                     setRoomName('')
                     setRoomDescription('')
+                    setCourseLayout(defaultCourseLayoutId)
                     setSelectedRegattaId('')
                     setError(null)
                   }}
@@ -926,6 +958,19 @@ export const LobbyClient = () => {
                   >
                     {getStatusLabel(room.status)}
                   </span>
+                  {room.courseLayout && (
+                    <span
+                      style={{
+                        fontSize: 12,
+                        padding: '0.2rem 0.5rem',
+                        borderRadius: 999,
+                        border: '1px solid var(--border-hover)',
+                        opacity: 0.8,
+                      }}
+                    >
+                      {getCourseLayout(room.courseLayout).name}
+                    </span>
+                  )}
                 </div>
                 {room.description && (
                   <p style={{ margin: 0, opacity: 0.8, fontSize: '0.9rem' }}>
@@ -1,6 +1,7 @@
-import { courseLegs } from '@/config/course'
+import { getCourseLegs, type CourseLeg } from '@/config/course'
 import type { BoatState } from '@/types/race'
 import { useMemo } from 'react'
+import { useRaceState } from '@/state/hooks'
 
 type ChecklistEntry = {
   sequence: number
@@ -8,9 +9,9 @@ type ChecklistEntry = {
   kind?: string
 }
 
-const buildChecklist = () => {
+const buildChecklist = (legs: CourseLeg[]) => {
   const map = new Map<number, ChecklistEntry>()
-  courseLegs.forEach((leg) => {
+  legs.forEach((leg) => {
     const existing = map.get(leg.sequence)
     if (existing) {
       existing.labels = Array.from(new Set([...existing.labels, leg.label]))
@@ -30,14 +31,16 @@ type Props = {
 }
 
 export const MarkChecklist = ({ boat }: Props) => {
-  const entries = useMemo(() => buildChecklist(), [])
-  const currentLeg = courseLegs.find((leg) =>
-    leg.markIndices.includes(boat?.nextMarkIndex ?? -1),
-  )
-  const currentSequence = currentLeg?.sequence ?? entries[0]?.sequence
+  const race = useRaceState()
+  const legs = getCourseLegs(race)
+  const entries = useMemo(() => buildChecklist(legs), [legs])
+  const currentLeg = legs[Math.min(boat?.legIndex ?? 0, legs.length - 1)]
+  const currentSequence = boat?.finished
+    ? legs.length
+    : (currentLeg?.sequence ?? entries[0]?.sequence)
 
   const statusForSequence = (sequence: number) => {
-    if (!currentSequence) return 'pending'
+    if (currentSequence === undefined) return 'pending'
     if (!boat) return sequence === currentSequence ? 'active' : 'pending'
     if (sequence < currentSequence) return 'done'
     if (sequence === currentSequence) return 'active'
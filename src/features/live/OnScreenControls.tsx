@@ -65,9 +65,11 @@ type TouchButton = {
 type Props = {
   cameraMode: CameraMode
   onToggleCamera: () => void
+  /** Show ease/trim buttons when the race is sailed with manual trim. */
+  manualTrim?: boolean
 }
 
-export const OnScreenControls = ({ cameraMode, onToggleCamera }: Props) => {
+export const OnScreenControls = ({ cameraMode, onToggleCamera, manualTrim }: Props) => {
   const [open, setOpen] = useState(() => {
     if (typeof window === 'undefined') return false
     const stored = window.localStorage.getItem(STORAGE_KEY)
@@ -217,6 +219,33 @@ export const OnScreenControls = ({ cameraMode, onToggleCamera }: Props) => {
     },
   ]
 
+  if (manualTrim) {
+    portExtraCluster.push(
+      {
+        id: 'ease',
+        label: 'Ease',
+        subLabel: 'Q',
+        title: 'Ease the sheet (Q)',
+        onClick: (modifiers) =>
+          handleKeyButtonWithModifiers(
+            { label: 'Ease', subLabel: 'Q', code: 'KeyQ', key: 'q' },
+            modifiers,
+          ),
+      },
+      {
+        id: 'trimIn',
+        label: 'Trim',
+        subLabel: 'W',
+        title: 'Trim the sheet in (W)',
+        onClick: (modifiers) =>
+          handleKeyButtonWithModifiers(
+            { label: 'Trim', subLabel: 'W', code: 'KeyW', key: 'w' },
+            modifiers,
+          ),
+      },
+    )
+  }
+
   const starboardExtraCluster: TouchButton[] = [
     {
       id: 'camera',
@@ -274,6 +303,18 @@ export const OnScreenControls = ({ cameraMode, onToggleCamera }: Props) => {
           modifiers,
         ),
     },
+    {
+      id: 'roll',
+      label: 'Roll',
+      subLabel: 'R',
+      classes: 'wide',
+      title: 'Roll the boat as it swings through the wind (R)',
+      onClick: (modifiers) =>
+        handleKeyButtonWithModifiers(
+          { label: 'Roll', subLabel: 'R', code: 'KeyR', key: 'r', classes: 'wide' },
+          modifiers,
+        ),
+    },
     {
       id: 'headUp',
       label: 'Head Up',
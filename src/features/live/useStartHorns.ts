@@ -0,0 +1,86 @@
+import { useEffect, useRef } from 'react'
+import type { RaceEvent, StartSignal } from '@/types/race'
+
+type Horn = 'short' | 'long'
+
+/**
+ * Sound signals per RRS 26: one sound for the warning, preparatory and start
+ * signals and one long sound for the one-minute signal.  Recalls follow 29.1
+ * (one sound) and 29.2 (two sounds); shortening course is two sounds and
+ * abandoning three (Race Signals S and N).
+ */
+const SIGNAL_HORNS: Record<StartSignal, Horn[]> = {
+  warning: ['short'],
+  preparatory: ['short'],
+  one_minute: ['long'],
+  start: ['short'],
+}
+
+const HORN_SECONDS: Record<Horn, number> = { short: 0.7, long: 2 }
+const HORN_GAP_SECONDS = 0.35
+
+const hornsForEvent = (event: RaceEvent): Horn[] => {
+  if (event.signal) return SIGNAL_HORNS[event.signal]
+  if (event.kind === 'individual_recall') return ['short']
+  if (event.kind === 'general_recall') return ['short', 'short']
+  if (event.kind === 'shorten_course') return ['short', 'short']
+  if (event.kind === 'abandon') return ['short', 'short', 'short']
+  return []
+}
+
+let audioContext: AudioContext | null = null
+
+const getAudioContext = () => {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') {
+    return null
+  }
+  audioContext = audioContext ?? new window.AudioContext()
+  // Browsers start the context suspended until the page has seen a gesture.
+  if (audioContext.state === 'suspended') void audioContext.resume().catch(() => {})
+  return audioContext
+}
+
+/** A committee-boat air horn: two detuned sawtooth tones through a soft envelope. */
+const playHorns = (horns: Horn[]) => {
+  const ctx = getAudioContext()
+  if (!ctx || !horns.length) return
+  let start = ctx.currentTime + 0.05
+  horns.forEach((horn) => {
+    const duration = HORN_SECONDS[horn]
+    const gain = ctx.createGain()
+    gain.gain.setValueAtTime(0, start)
+    gain.gain.linearRampToValueAtTime(0.18, start + 0.04)
+    gain.gain.setValueAtTime(0.18, start + duration - 0.08)
+    gain.gain.linearRampToValueAtTime(0, start + duration)
+    gain.connect(ctx.destination)
+    ;[233, 349].forEach((frequency) => {
+      const osc = ctx.createOscillator()
+      osc.type = 'sawtooth'
+      osc.frequency.setValueAtTime(frequency, start)
+      osc.connect(gain)
+      osc.start(start)
+      osc.stop(start + duration)
+    })
+    start += duration + HORN_GAP_SECONDS
+  })
+}
+
+/**
+ * Sound the horn for each new signal or recall event.  Events already there
+ * when the hook mounts (joining mid-sequence, or remounting) stay silent.
+ */
+export const useStartHorns = (events: RaceEvent[], enabled = true) => {
+  const heardRef = useRef<Set<string> | null>(null)
+  useEffect(() => {
+    if (!heardRef.current) {
+      heardRef.current = new Set(events.map((event) => event.eventId))
+      return
+    }
+    const heard = heardRef.current
+    events.forEach((event) => {
+      if (heard.has(event.eventId)) return
+      heard.add(event.eventId)
+      if (enabled) playHorns(hornsForEvent(event))
+    })
+  }, [events, enabled])
+}
@@ -8,18 +8,28 @@ import { raceStore } from '@/state/raceStore'
 import {
   angleDiff,
   apparentWindAngleSigned,
+  clamp,
   computeVmgAngles,
   headingFromAwa,
   quantizeHeading,
 } from '@/logic/physics'
 import {
+  HARD_SHEET_STEP,
   HARD_TURN_STEP_DEG,
   HEADING_STEP_DEG,
   MAX_DOWNWIND_ANGLE_DEG,
+  SHEET_STEP,
   TACK_LOCK_ENABLED,
   TACK_MIN_TIME_SECONDS,
-  TURN_RATE_DEG,
 } from '@/logic/constants'
+import { boatClassFor } from '@/logic/boatClasses'
+import { sampleWindDirection, sampleWindSpeed } from '@/logic/windField'
+import { canSpinOffPenalty, getPenaltyConfig } from '@/logic/penalties'
+import { boatSheet, isManualTrim } from '@/logic/sailTrim'
+import { isMatchRace, matchOpponent } from '@/logic/matchRacing'
+
+/** Sheet presses closer together than this build on each other, not on the last ack. */
+const SHEET_SETTLE_MS = 500
 
 const isInteractiveElement = (target: EventTarget | null) => {
   if (!(target instanceof HTMLElement)) return false
@@ -47,6 +57,7 @@ export const useTacticianControls = (
   const vmgModeRef = useRef(false)
   const blowSailsHeldRef = useRef(false)
   const blowSailsByLHeldRef = useRef(false)
+  const sheetRef = useRef({ value: 0, sentAt: 0 })
 
   useEffect(() => {
     raceRef.current = raceState
@@ -55,6 +66,10 @@ export const useTacticianControls = (
     if (boat?.vmgMode !== undefined) {
       vmgModeRef.current = boat.vmgMode
     }
+    // Follow the server's sheet (including slider changes) once presses settle
+    if (boat && performance.now() - sheetRef.current.sentAt > SHEET_SETTLE_MS) {
+      sheetRef.current.value = boatSheet(boat)
+    }
   }, [raceState])
 
   useEffect(() => {
@@ -118,7 +133,7 @@ export const useTacticianControls = (
         raw: { code: event.code, key: event.key, location: event.location },
         meta: { shiftKey: event.shiftKey, altKey: event.altKey, repeat: event.repeat },
       })
-      const allowed = ['Space', 'Enter', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'KeyS', 'KeyP', 'KeyL']
+      const allowed = ['Space', 'Enter', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'KeyS', 'KeyP', 'KeyL', 'KeyR', 'KeyQ', 'KeyW', 'KeyY']
       if (appEnv.debugHud) allowed.push('KeyJ')
       if (!allowed.includes(key)) {
         debugInputLog('keydown:ignored', { key })
@@ -151,10 +166,12 @@ export const useTacticianControls = (
       const lastHeadingRef = raceRef.current.boats[identity.boatId]?.desiredHeadingDeg
       const lastHeading = lastHeadingRef ?? boat.desiredHeadingDeg ?? boat.headingDeg
 
-      const awa = apparentWindAngleSigned(boat.headingDeg, state.wind.directionDeg)
+      const windDir = sampleWindDirection(state, boat.pos)
+      const awa = apparentWindAngleSigned(boat.headingDeg, windDir)
       const tackSign = awa >= 0 ? 1 : -1
       const absAwa = Math.abs(awa)
-      const vmgAngles = computeVmgAngles(state.wind.speed)
+      const boatClass = boatClassFor(boat)
+      const vmgAngles = computeVmgAngles(sampleWindSpeed(state, boat.pos), boatClass)
 
       const sendHeading = (heading: number) => {
         const rounded = quantizeHeading(heading)
@@ -180,7 +197,7 @@ export const useTacticianControls = (
         if (!TACK_LOCK_ENABLED) return
         const diff = Math.abs(angleDiff(target, boat.headingDeg))
         // Calculate time based on turn rate, but enforce minimum tack time
-        const calculatedSeconds = diff / TURN_RATE_DEG + 0.5
+        const calculatedSeconds = diff / boatClass.turnRateDeg + 0.5
         const seconds = Math.max(calculatedSeconds, TACK_MIN_TIME_SECONDS)
         lockUntilRef.current = now + seconds * 1000
       }
@@ -208,7 +225,7 @@ export const useTacticianControls = (
           const isUpwind = absAwa < 90
           const nextSign = -tackSign || 1
           const targetAwa = isUpwind ? vmgAngles.upwindAwa : vmgAngles.downwindAwa
-          const heading = headingFromAwa(state.wind.directionDeg, nextSign * targetAwa)
+          const heading = headingFromAwa(windDir, nextSign * targetAwa)
           setLockForHeading(heading)
           sendHeading(heading)
           break
@@ -219,7 +236,7 @@ export const useTacticianControls = (
           debugInputLog('arrowUp', { hardModifier })
           const step = hardModifier ? HARD_TURN_STEP_DEG : HEADING_STEP_DEG
           const desiredAbs = Math.max(absAwa - step, 0)
-          const heading = headingFromAwa(state.wind.directionDeg, tackSign * desiredAbs)
+          const heading = headingFromAwa(windDir, tackSign * desiredAbs)
           sendHeading(heading)
           break
         }
@@ -229,7 +246,7 @@ export const useTacticianControls = (
           debugInputLog('arrowDown', { hardModifier })
           const step = hardModifier ? HARD_TURN_STEP_DEG : HEADING_STEP_DEG
           const desiredAbs = Math.min(absAwa + step, MAX_DOWNWIND_ANGLE_DEG)
-          const heading = headingFromAwa(state.wind.directionDeg, tackSign * desiredAbs)
+          const heading = headingFromAwa(windDir, tackSign * desiredAbs)
           sendHeading(heading)
           break
         }
@@ -253,8 +270,34 @@ export const useTacticianControls = (
           sendHeading(heading)
           break
         }
+        case 'KeyR': {
+          // Roll tack/gybe: scored on how close to the wind the boat is right now.
+          const seq = (seqRef.current += 1)
+          pendingRef.current.set(seq, performance.now())
+          networkRef.current?.rollBoat(seq)
+          break
+        }
+        case 'KeyQ':
+        case 'KeyW': {
+          // Manual trim: Q eases the sheet, W trims it in.
+          if (!isManualTrim(state)) {
+            debugInputLog('sheet:ignored', { reason: 'auto-trim' })
+            break
+          }
+          const hardModifier = event.shiftKey || event.altKey
+          const step = hardModifier ? HARD_SHEET_STEP : SHEET_STEP
+          const direction = key === 'KeyW' ? 1 : -1
+          const raw = sheetRef.current.value + direction * step
+          const sheet = clamp(Math.round(raw * 100) / 100, 0, 1)
+          if (sheet === sheetRef.current.value) break
+          sheetRef.current = { value: sheet, sentAt: performance.now() }
+          const seq = (seqRef.current += 1)
+          pendingRef.current.set(seq, performance.now())
+          networkRef.current?.setSheet(sheet, seq)
+          break
+        }
         case 'KeyS': {
-          if (!boat.penalties || boat.penalties <= 0) {
+          if (!canSpinOffPenalty(boat, getPenaltyConfig(state))) {
             debugInputLog('keyS:ignored', { reason: 'no-penalties' })
             break
           }
@@ -268,6 +311,15 @@ export const useTacticianControls = (
           networkRef.current?.clearOnePenalty()
           break
         }
+        case 'KeyY': {
+          // Match racing: fly the Y flag against the other boat for the umpires.
+          if (!isMatchRace(state)) break
+          const opponentId = matchOpponent(state, boat.id)
+          if (opponentId && !state.protests?.[opponentId]) {
+            networkRef.current?.fileProtest(opponentId)
+          }
+          break
+        }
         case 'KeyJ': {
           if (!appEnv.debugHud) break
           // Debug: Jump to next mark
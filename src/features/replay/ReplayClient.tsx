@@ -7,10 +7,34 @@ import {
   refreshReplayIndex,
   type ReplayIndexEntry,
 } from '@/replay/storage'
-import type { ReplayFrame, ReplayRecording } from '@/types/race'
+import type {
+  RaceEvent,
+  RaceEventKind,
+  ReplayFrame,
+  ReplayRecording,
+  StartSignal,
+} from '@/types/race'
 import { raceStore } from '@/state/raceStore'
 import { cloneRaceState } from '@/state/factories'
 
+/** Event kinds that get a marker on the scrubber, labelled with their flag. */
+const TIMELINE_MARKERS: Partial<Record<RaceEventKind, string>> = {
+  individual_recall: 'X',
+  general_recall: '1st',
+  shorten_course: 'S',
+  abandon: 'N',
+}
+
+const SIGNAL_MARKERS: Record<StartSignal, string> = {
+  warning: 'W',
+  preparatory: 'P',
+  one_minute: '1',
+  start: 'Go',
+}
+
+const timelineMarkerLabel = (event: RaceEvent) =>
+  event.signal ? SIGNAL_MARKERS[event.signal] : TIMELINE_MARKERS[event.kind]
+
 const findFrame = (frames: ReplayFrame[], t: number) => {
   let candidate = frames[0]
   for (const frame of frames) {
@@ -172,6 +196,20 @@ export const ReplayClient = ({ initialRaceId }: { initialRaceId?: string }) => {
     return future?.t ?? null
   }, [recording, time])
 
+  const timelineMarkers = useMemo(() => {
+    if (!recording) return []
+    return recording.frames.flatMap((frame) =>
+      frame.events
+        .filter((event) => timelineMarkerLabel(event))
+        .map((event) => ({
+          id: event.eventId,
+          t: frame.t,
+          label: timelineMarkerLabel(event),
+          message: event.message,
+        })),
+    )
+  }, [recording])
+
   const currentFrame = useMemo(() => {
     if (!recording) return null
     return findFrame(recording.frames, time)
@@ -274,19 +312,41 @@ export const ReplayClient = ({ initialRaceId }: { initialRaceId?: string }) => {
                   ? '🔍 Birdseye'
                   : '🚤 Follow'}
             </button>
-            <input
-              type="range"
-              className="playback-scrubber"
-              min={recording?.frames[0]?.t ?? 0}
-              max={duration || 1}
-              step={0.5}
-              value={time}
-              onChange={(event) => {
-                setPlaying(false)
-                setTime(Number(event.target.value))
-              }}
-              disabled={!recording}
-            />
+            <div className="playback-timeline">
+              <input
+                type="range"
+                className="playback-scrubber"
+                min={recording?.frames[0]?.t ?? 0}
+                max={duration || 1}
+                step={0.5}
+                value={time}
+                onChange={(event) => {
+                  setPlaying(false)
+                  setTime(Number(event.target.value))
+                }}
+                disabled={!recording}
+              />
+              {timelineMarkers.map((marker) => {
+                const start = recording?.frames[0]?.t ?? 0
+                const span = (duration || 1) - start
+                const percent = span > 0 ? ((marker.t - start) / span) * 100 : 0
+                return (
+                  <button
+                    key={marker.id}
+                    type="button"
+                    className="playback-marker"
+                    style={{ left: `${percent}%` }}
+                    title={marker.message}
+                    onClick={() => {
+                      setPlaying(false)
+                      setTime(marker.t)
+                    }}
+                  >
+                    {marker.label}
+                  </button>
+                )
+              })}
+            </div>
             <span className="playback-time">
               {time.toFixed(1)}s / {duration.toFixed(1)}s
             </span>
@@ -1,23 +1,71 @@
 import { stepRaceState, clamp as physicsClamp, normalizeDeg } from '@/logic/physics'
 import { RulesEngine } from '@/logic/rules'
+import {
+  clearSpinPenalty,
+  describeSpin,
+  getPenaltyConfig,
+  owedFoulPenalties,
+  planPenaltySpin,
+  spinHeadings,
+  type SpinPlan,
+} from '@/logic/penalties'
 import { resolveBoatBoatCollisions } from '@/logic/collision/boatBoat'
 import { cloneRaceState } from '@/state/factories'
 import { raceStore, RaceStore } from '@/state/raceStore'
-import type { BoatState, RaceEvent, RaceState } from '@/types/race'
+import type {
+  BoatState,
+  RaceEvent,
+  RaceState,
+  StartSignal,
+  WindScript,
+} from '@/types/race'
 import { createSeededRandom } from '@/utils/rng'
 import { appEnv } from '@/config/env'
 import { createId } from '@/utils/ids'
 import { identity } from '@/net/identity'
 import {
+  FOULED_FLASH_SECONDS,
   SPIN_HOLD_SECONDS,
   WIND_SPEED_MAX_KTS,
   WIND_SPEED_MIN_KTS,
   WAKE_GRID_ENABLED,
 } from '@/logic/constants'
 import { boatCapsuleCircles } from '@/logic/boatGeometry'
-import { courseLegs, radialSets, gateRadials } from '@/config/course'
+import { getCourseLegs, radialSets, gateRadials, type CourseLeg } from '@/config/course'
 import { distanceBetween } from '@/utils/geometry'
 import { assignLeaderboard } from '@/logic/leaderboard'
+import {
+  START_RULE_WINDOW_SECONDS,
+  X_FLAG_MAX_SECONDS,
+  getStartProcedure,
+  insideTriangle,
+  isStartDisqualified,
+  isXFlagFlying,
+  startPenaltyCode,
+  startTriangleMark,
+  triangleStartPenalty,
+} from '@/logic/startProcedures'
+import { correctedTime } from '@/logic/handicap'
+import {
+  isMatchRace,
+  matchEndLabels,
+  matchEntryWindow,
+  outsideMatchEnd,
+} from '@/logic/matchRacing'
+import { boatStartTime, isPursuitRace, pursuitEndTime } from '@/logic/pursuit'
+import { finishingWindowEnd, firstBoatLimitExpired } from '@/logic/timeLimits'
+import { finishesAtShortenedLine } from '@/logic/shortenCourse'
+import {
+  getWindScenario,
+  RANDOM_WALK_RANGE_DEG,
+  RANDOM_WALK_STEP_DEG,
+} from '@/logic/windScenarios'
+import { windScriptAt } from '@/logic/windScripts'
+import {
+  describeSignal,
+  startSignalSchedule,
+  type ScheduledSignal,
+} from '@/logic/startSignals'
 import { createShadowStampAtlas, type ShadowStampAtlas } from '@/logic/shadowStamps'
 import {
   createWindShadowGrid,
@@ -218,6 +266,12 @@ export class HostLoop {
   private windRandom
 
   private startSignalSent = false
+  private signalSchedule?: ScheduledSignal[]
+  private signalsSent = new Set<StartSignal>()
+  /** Match racing: whether the boats were checked against their ends yet. */
+  private matchEndsChecked = false
+  /** Pursuit boats whose own start signal has been made. */
+  private pursuitStartsSent = new Set<string>()
 
   private ocsBoats = new Set<string>()
   /** Tracks whether each boat was over the start line at the moment of the gun.
@@ -230,7 +284,7 @@ export class HostLoop {
   private raceStartWallClockMs: number | null = null
   private spinTimers = new Map<string, Array<ReturnType<typeof setTimeout>>>()
   private spinningBoats = new Set<string>()
-  private pendingSpinClears = new Set<string>()
+  private pendingSpinClears = new Map<string, SpinPlan>()
   private spinSeq = 0
 
   private tickErrorCount = 0
@@ -280,13 +334,10 @@ export class HostLoop {
     this.windTimer = 0
     this.windShift = 0
     this.windTargetShift = 0
-    this.startSignalSent = false
-    this.ocsBoats.clear()
-    this.startLineBaseState.clear()
+    this.restartSequence()
     this.courseSideSign = undefined
     this.raceStartWallClockMs = state.clockStartMs
     this.cancelSpinSequences()
-    this.roundingProgress.clear()
 
     // Reinitialize grid if course bounds might have changed
     if (WAKE_GRID_ENABLED) {
@@ -295,6 +346,24 @@ export class HostLoop {
     }
   }
 
+  /**
+   * Forget the start, each boat's course progress and the rules' history
+   * after a general recall, so the new sequence makes its signals and judges
+   * the start afresh.  The wind carries on as it was.
+   */
+  restartSequence() {
+    this.startSignalSent = false
+    this.signalSchedule = undefined
+    this.signalsSent.clear()
+    this.matchEndsChecked = false
+    this.pursuitStartsSent.clear()
+    this.ocsBoats.clear()
+    this.startLineBaseState.clear()
+    this.raceStartWallClockMs = null
+    this.roundingProgress.clear()
+    this.rules.reset()
+  }
+
   isRunning = () => Boolean(this.timer)
 
   private tick() {
@@ -307,7 +376,12 @@ export class HostLoop {
     }
 
     const next = cloneRaceState(this.store.getState())
-    if (this.paused || next.paused || next.phase === 'results') {
+    if (
+      this.paused ||
+      next.paused ||
+      next.phase === 'results' ||
+      next.phase === 'finished'
+    ) {
       return
     }
     const inputs = this.store.consumeInputs()
@@ -353,25 +427,59 @@ export class HostLoop {
     if (this.checkRaceTimeout(next)) {
       return
     }
+    if (this.checkPursuitEnd(next)) {
+      return
+    }
+    if (this.checkTimeLimits(next)) {
+      return
+    }
     const lapEvents = this.updateLapProgress(next)
 
     this.applySpinLocks(next)
-    const startEvents = this.updateStartLine(next)
+    const startEvents = [
+      ...this.updateSequenceSignals(next),
+      ...this.updateMatchEntry(next),
+      ...this.updateStartLine(next),
+      ...this.updatePursuitStarts(next),
+    ]
 
     const warnings = this.rules.computeWarnings(next)
     Object.values(next.boats).forEach((boat) => {
       boat.collisionWarning = warnings.get(boat.id) ?? ''
     })
 
-    const resolutions = this.rules.evaluate(next)
+    // In a match the umpires call fouls between the boats (on a Y flag), so
+    // only touching a mark is penalised automatically.
+    const detected = this.rules.evaluate(next)
+    const matchRace = isMatchRace(next)
+    const resolutions = matchRace
+      ? detected.filter((violation) => violation.ruleId === '31')
+      : detected
+    const umpireEvents: RaceEvent[] = matchRace
+      ? detected
+          .filter((violation) => violation.ruleId !== '31')
+          .map((violation) => ({
+            eventId: createId('event'),
+            t: next.t,
+            kind: 'rule_hint',
+            ruleId: violation.ruleId,
+            boats: violation.boats,
+            message: `For the umpires: ${violation.message.replace(/^PENALTY:\s*/, '')}`,
+          }))
+      : []
     resolutions.forEach((violation) => {
       const offender = next.boats[violation.offenderId]
-      if (offender) offender.penalties += 1
+      if (!offender) return
+      offender.penalties += 1
+      if (violation.ruleId === '31') {
+        offender.markPenalties = (offender.markPenalties ?? 0) + 1
+      }
     })
     const spinEvents = this.resolveSpinCompletions(next)
     const events = [
       ...startEvents,
       ...this.rules.toEvents(next, resolutions),
+      ...umpireEvents,
       ...spinEvents,
       ...lapEvents,
     ]
@@ -394,7 +502,7 @@ export class HostLoop {
       const offender = next.boats[violation.offenderId]
       if (offender) {
         offender.fouled = true
-        offender.fouledUntil = next.t + 2
+        offender.fouledUntil = next.t + FOULED_FLASH_SECONDS
       }
     })
 
@@ -405,6 +513,10 @@ export class HostLoop {
   }
 
   private applyWindOscillation(state: RaceState, dt: number) {
+    if (state.windScript) {
+      this.applyWindScript(state, state.windScript)
+      return
+    }
     if (appEnv.fixedWind) {
       state.wind.directionDeg = state.baselineWindDeg
       return
@@ -419,8 +531,18 @@ export class HostLoop {
     this.windTimer += dt
     if (this.windTimer >= cycleSeconds) {
       this.windTimer = 0
-      const randomShift = (this.windRandom() - 0.5) * 2 * shiftRange
-      this.windTargetShift = physicsClamp(randomShift, -shiftRange, shiftRange)
+      if (getWindScenario(state) === 'random-walk') {
+        // Step from the last target instead of the baseline so the shift wanders.
+        const step = (this.windRandom() - 0.5) * 2 * RANDOM_WALK_STEP_DEG
+        this.windTargetShift = physicsClamp(
+          this.windTargetShift + step,
+          -RANDOM_WALK_RANGE_DEG,
+          RANDOM_WALK_RANGE_DEG,
+        )
+      } else {
+        const randomShift = (this.windRandom() - 0.5) * 2 * shiftRange
+        this.windTargetShift = physicsClamp(randomShift, -shiftRange, shiftRange)
+      }
       const speedDelta = (this.windRandom() - 0.5) * 2
       this.windSpeedTarget = physicsClamp(
         this.windSpeedTarget + speedDelta,
@@ -435,16 +557,31 @@ export class HostLoop {
     state.wind.speed += (this.windSpeedTarget - state.wind.speed) * lerpFactor
   }
 
+  /**
+   * Scripted wind depends only on race time, so every heat sailed with the
+   * script sees the same shifts.  The live-wind targets follow it so unloading
+   * the script mid-session carries on from the scripted wind.
+   */
+  private applyWindScript(state: RaceState, script: WindScript) {
+    const { shiftDeg, speedKts } = windScriptAt(script, state.t)
+    state.wind.directionDeg = state.baselineWindDeg + shiftDeg
+    state.wind.speed = speedKts
+    this.windShift = shiftDeg
+    this.windTargetShift = shiftDeg
+    this.windSpeedTarget = speedKts
+  }
+
   private updateLapProgress(state: RaceState): RaceEvent[] {
     const lapEvents: RaceEvent[] = []
-    const lapTarget = Math.max(1, state.lapsToFinish || 1)
+    const legs = getCourseLegs(state)
     Object.values(state.boats).forEach((boat) => {
       if (boat.lap === undefined) boat.lap = 0
       if (boat.finished) {
         boat.distanceToNextMark = 0
         return
       }
-      const events = this.advanceBoatLeg(boat, state, lapTarget)
+      const events = this.advanceBoatLeg(boat, state, legs)
+      boat.legIndex = this.getOrCreateProgress(boat.id).legIndex
       if (events.length) {
         lapEvents.push(...events)
       }
@@ -453,24 +590,41 @@ export class HostLoop {
     return lapEvents
   }
 
-  private advanceBoatLeg(boat: BoatState, state: RaceState, lapTarget: number) {
+  private advanceBoatLeg(boat: BoatState, state: RaceState, legs: CourseLeg[]) {
     const events: RaceEvent[] = []
     const marks = state.marks
-    const legCount = courseLegs.length
-    if (!legCount) return events
+    if (!legs.length) return events
     const progress = this.getOrCreateProgress(boat.id)
-    const currentLeg = courseLegs[progress.legIndex % legCount]
+    // Lap count can shrink mid-race; never index past the finish.
+    progress.legIndex = Math.min(progress.legIndex, legs.length - 1)
+    const currentLeg = legs[progress.legIndex]
 
     // Handle START line specially
     if (currentLeg.kind === 'start' && currentLeg.finishLineIndices) {
-      const startEvents = this.advanceStartLeg(boat, state, progress, currentLeg)
+      const startEvents = this.advanceStartLeg(boat, state, progress, legs)
       events.push(...startEvents)
       return events
     }
 
+    // A shortened course finishes at the line laid at that leg's mark.
+    const shortened = state.shortenedFinish
+    if (shortened && finishesAtShortenedLine(legs, progress.legIndex, shortened)) {
+      boat.nextMarkIndex = legs[shortened.legIndex].markIndices[0]
+      events.push(
+        ...this.crossFinishLine(
+          boat,
+          state,
+          shortened.committee,
+          shortened.pin,
+          shortened.headingDeg,
+        ),
+      )
+      return events
+    }
+
     // Handle GATE legs specially
     if (currentLeg.kind === 'gate' && currentLeg.gateMarkIndices) {
-      const gateEvents = this.advanceGateLeg(boat, state, progress, currentLeg, lapTarget)
+      const gateEvents = this.advanceGateLeg(boat, state, progress, legs)
       events.push(...gateEvents)
       return events
     }
@@ -527,13 +681,13 @@ export class HostLoop {
     if (completed || sweepCompleted) {
       progress.sweepAngle = undefined
       progress.prevAngle = undefined
-      this.advanceToNextSequence(boat, state, progress, currentLeg, lapTarget)
+      this.advanceToNextSequence(boat, state, progress, legs)
       events.push({
         eventId: createId('mark'),
         kind: 'mark_rounding',
         t: state.t,
         boats: [boat.id],
-        message: `${boat.name} rounded the ${currentLeg.id} mark`,
+        message: `${boat.name} rounded the ${currentLeg.label.toLowerCase()} mark`,
       })
     }
     return events
@@ -548,9 +702,10 @@ export class HostLoop {
     boat: BoatState,
     state: RaceState,
     progress: RoundingProgress,
-    leg: (typeof courseLegs)[number],
+    legs: CourseLeg[],
   ): RaceEvent[] {
     const events: RaceEvent[] = []
+    const leg = legs[progress.legIndex]
     const marks = state.marks
     const [committeeIdx, pinIdx] = leg.finishLineIndices!
     const committeeMark = marks[committeeIdx] ?? state.startLine.committee
@@ -570,9 +725,9 @@ export class HostLoop {
 
     const courseSide = this.courseSideSign ?? 1
 
-    // During prestart, snapshot each boat's side of the line so we have a
-    // reliable baseline for the transition check after the gun fires.
-    if (state.t < 0) {
+    // Before its start, snapshot each boat's side of the line so we have a
+    // reliable baseline for the transition check after its gun fires.
+    if (state.t < boatStartTime(boat)) {
       const over = boatOverStartLine(boat, boat.pos, committee, pin, courseSide)
       this.startLineBaseState.set(boat.id, over)
       return events
@@ -592,6 +747,12 @@ export class HostLoop {
 
     const crossed = !wasOver && isOver
 
+    // I flag: a boat that must round an end cannot start through the line.
+    if (crossed && boat.roundTheEnds) {
+      this.startLineBaseState.set(boat.id, true)
+      return events
+    }
+
     if (crossed) {
       this.startLineBaseState.delete(boat.id)
       lapDebug('boat_started', {
@@ -599,12 +760,11 @@ export class HostLoop {
         startTime: state.t.toFixed(2),
       })
 
-      // Advance to next sequence (windward mark)
-      progress.legIndex += 1
+      // Advance to the first rounding
+      progress.legIndex = Math.min(progress.legIndex + 1, legs.length - 1)
       progress.stage = 0
 
-      // Update next mark to windward
-      const nextLeg = courseLegs[progress.legIndex % courseLegs.length]
+      const nextLeg = legs[progress.legIndex]
       boat.nextMarkIndex = nextLeg.markIndices[0]
       const nextMark = state.marks[boat.nextMarkIndex]
       boat.distanceToNextMark = nextMark ? distanceBetween(boat.pos, nextMark) : 0
@@ -628,9 +788,8 @@ export class HostLoop {
   private advanceFinishLeg(
     boat: BoatState,
     state: RaceState,
-    leg: (typeof courseLegs)[number],
+    leg: CourseLeg,
   ): RaceEvent[] {
-    const events: RaceEvent[] = []
     const marks = state.marks
     const [committeeIdx, pinIdx] = leg.finishLineIndices!
     const committeeMark = marks[committeeIdx] ?? state.startLine.committee
@@ -640,21 +799,52 @@ export class HostLoop {
     const committee = committeeMark ?? state.startLine.committee
     const pin = pinMark ?? state.startLine.pin
 
+    boat.nextMarkIndex = committeeIdx
+    return this.crossFinishLine(boat, state, committee, pin)
+  }
+
+  /**
+   * Finish a boat that crosses the line between `committee` and `pin` on
+   * `crossingDeg`; the course's own finish line is crossed heading upwind.
+   */
+  private crossFinishLine(
+    boat: BoatState,
+    state: RaceState,
+    committee: { x: number; y: number },
+    pin: { x: number; y: number },
+    crossingDeg = state.baselineWindDeg,
+  ): RaceEvent[] {
+    const events: RaceEvent[] = []
+
     // Calculate midpoint for distance display
     const midpoint = {
       x: (committee.x + pin.x) / 2,
       y: (committee.y + pin.y) / 2,
     }
-    const distance = distanceBetween(boat.pos, midpoint)
-    boat.nextMarkIndex = committeeIdx
-    boat.distanceToNextMark = distance
+    boat.distanceToNextMark = distanceBetween(boat.pos, midpoint)
 
     // Check if boat crossed the finish line
-    const crossed = this.checkFinishLineCrossing(boat, state, committee, pin)
+    const crossed = this.checkFinishLineCrossing(boat, committee, pin, crossingDeg)
+
+    // Match racing: a penalty must be taken before the boat can finish.
+    if (crossed && isMatchRace(state) && owedFoulPenalties(boat) > 0) {
+      events.push({
+        eventId: createId('event'),
+        kind: 'rule_hint',
+        t: state.t,
+        boats: [boat.id],
+        message: `${boat.name} has not finished — take the penalty, then cross the line again`,
+      })
+      return events
+    }
 
     if (crossed) {
       boat.finished = true
       boat.finishTime = state.t
+      // A pursuit handicaps the start, so the finish order stands as it is.
+      if (!isPursuitRace(state)) {
+        boat.correctedTime = correctedTime(state.t, boat, state)
+      }
       boat.distanceToNextMark = 0
 
       lapDebug('boat_finished', {
@@ -680,9 +870,9 @@ export class HostLoop {
    */
   private checkFinishLineCrossing(
     boat: BoatState,
-    state: RaceState,
     committee: { x: number; y: number },
     pin: { x: number; y: number },
+    crossingDeg: number,
   ): boolean {
     const prevPos = boat.prevPos ?? boat.pos
 
@@ -690,10 +880,10 @@ export class HostLoop {
     const lineVec = { x: pin.x - committee.x, y: pin.y - committee.y }
 
     // Check which side of the line we need to cross FROM
-    // (based on wind direction - we want to cross from the course side)
-    const windRad = (state.baselineWindDeg * Math.PI) / 180
-    const windVec = { x: Math.sin(windRad), y: -Math.cos(windRad) }
-    const cross = lineVec.x * windVec.y - lineVec.y * windVec.x
+    // (the side behind a boat sailing on `crossingDeg`)
+    const crossingRad = (crossingDeg * Math.PI) / 180
+    const crossingVec = { x: Math.sin(crossingRad), y: -Math.cos(crossingRad) }
+    const cross = lineVec.x * crossingVec.y - lineVec.y * crossingVec.x
     const courseSideSign = cross >= 0 ? 1 : -1
 
     const prevOver = boatOverFinishSide(boat, prevPos, committee, pin, courseSideSign)
@@ -710,11 +900,11 @@ export class HostLoop {
     boat: BoatState,
     state: RaceState,
     progress: RoundingProgress,
-    leg: (typeof courseLegs)[number],
-    lapTarget: number,
+    legs: CourseLeg[],
   ): RaceEvent[] {
     const events: RaceEvent[] = []
     const marks = state.marks
+    const leg = legs[progress.legIndex]
     const [leftIdx, rightIdx] = leg.gateMarkIndices!
     const leftMark = marks[leftIdx]
     const rightMark = marks[rightIdx]
@@ -844,7 +1034,7 @@ export class HostLoop {
       progress.stage = 0
       progress.gateSide = undefined
       progress.activeMarkIndex = undefined
-      this.advanceToNextSequence(boat, state, progress, leg, lapTarget)
+      this.advanceToNextSequence(boat, state, progress, legs)
       events.push({
         eventId: createId('mark'),
         kind: 'mark_rounding',
@@ -884,7 +1074,7 @@ export class HostLoop {
         progress.stage = 0
         progress.gateSide = undefined
         progress.activeMarkIndex = undefined
-        this.advanceToNextSequence(boat, state, progress, leg, lapTarget)
+        this.advanceToNextSequence(boat, state, progress, legs)
         events.push({
           eventId: createId('mark'),
           kind: 'mark_rounding',
@@ -980,104 +1170,30 @@ export class HostLoop {
   }
 
   /**
-   * Advance to next sequence after completing a leg
+   * Advance to the next leg after completing the current one.
+   * Legs are pre-expanded per lap, so this is a straight step forward;
+   * the lap counter ticks over on legs flagged `endsLap`.  A shortened
+   * course ends at its finish leg, so nobody is sent past it.
    */
   private advanceToNextSequence(
     boat: BoatState,
     state: RaceState,
     progress: RoundingProgress,
-    completedLeg: (typeof courseLegs)[number],
-    lapTarget: number,
+    legs: CourseLeg[],
   ) {
-    const legCount = courseLegs.length
-    const completedSequence = completedLeg.sequence
-    const completedMarkIndices = new Set(completedLeg.markIndices)
-
-    // Increment lap after completing the gate (kind='gate')
-    if (completedLeg.kind === 'gate') {
+    const completedLeg = legs[progress.legIndex]
+    if (completedLeg?.endsLap) {
       boat.lap += 1
-      if (boat.lap >= lapTarget) {
-        boat.finished = true
-        boat.finishTime = state.t
-        boat.distanceToNextMark = 0
-        return
-      }
     }
 
-    // After completing windward-return, check if this is the final lap
-    // If NOT final lap, skip finish and go back to gate
-    const isFinalLap = boat.lap >= lapTarget - 1
-    const completedWindwardReturn =
-      completedLeg.kind === 'windward' && completedLeg.id === 'windward-return'
-
-    if (completedWindwardReturn && !isFinalLap) {
-      // Go directly to gate (seq 2), skipping finish
-      const gateLeg = courseLegs.find((leg) => leg.kind === 'gate')
-      if (gateLeg) {
-        progress.legIndex = courseLegs.indexOf(gateLeg)
-        // Reset gate progress for the new gate rounding
-        progress.stage = 0
-        progress.gateSide = undefined
-        progress.activeMarkIndex = undefined
+    const lastLegIndex = state.shortenedFinish?.legIndex ?? legs.length - 1
+    progress.legIndex = Math.min(progress.legIndex + 1, lastLegIndex)
+    progress.stage = 0
+    progress.gateSide = undefined
+    progress.activeMarkIndex = undefined
 
-        boat.nextMarkIndex = gateLeg.markIndices[0]
-        const nextMark = state.marks[boat.nextMarkIndex]
-        boat.distanceToNextMark = nextMark ? distanceBetween(boat.pos, nextMark) : 0
-
-        lapDebug('advanced_to_gate_for_next_lap', {
-          boatId: boat.id,
-          lap: boat.lap,
-          lapTarget,
-        })
-        return
-      }
-    }
-
-    // Advance past all legs with the completed sequence
-    let safety = 0
-    do {
-      progress.legIndex = (progress.legIndex + 1) % legCount
-      safety += 1
-      if (safety > legCount) break
-    } while (courseLegs[progress.legIndex % legCount].sequence === completedSequence)
-
-    // Check if we wrapped around to a leg that uses the same mark we just completed
-    // This happens when going from seq 3 (windward-return) back to seq 1 (windward-entry)
-    // Since we're already AT the windward mark, skip seq 1 and go to seq 2 (gate)
-    const nextLeg = courseLegs[progress.legIndex % legCount]
-    const nextMarkIndices = new Set(nextLeg.markIndices)
-    const sameMarkAsBefore = [...completedMarkIndices].some((idx) =>
-      nextMarkIndices.has(idx),
-    )
-
-    if (sameMarkAsBefore) {
-      lapDebug('skip_same_mark_sequence', {
-        boatId: boat.id,
-        completedSequence,
-        nextSequence: nextLeg.sequence,
-        sharedMarks: [...completedMarkIndices].filter((idx) => nextMarkIndices.has(idx)),
-      })
-
-      // Skip to the sequence after this one
-      const skipSequence = nextLeg.sequence
-      do {
-        progress.legIndex = (progress.legIndex + 1) % legCount
-        safety += 1
-        if (safety > legCount * 2) break
-      } while (courseLegs[progress.legIndex % legCount].sequence === skipSequence)
-    }
-
-    // Update boat's next mark
-    const finalNextLeg = courseLegs[progress.legIndex % legCount]
-
-    // If entering gate, reset gate-specific progress
-    if (finalNextLeg.kind === 'gate') {
-      progress.stage = 0
-      progress.gateSide = undefined
-      progress.activeMarkIndex = undefined
-    }
-
-    const nextMarkIndex = finalNextLeg.markIndices[0]
+    const nextLeg = legs[progress.legIndex]
+    const nextMarkIndex = nextLeg.markIndices[0]
     boat.nextMarkIndex = nextMarkIndex
     const nextMark = state.marks[nextMarkIndex]
     boat.distanceToNextMark = nextMark ? distanceBetween(boat.pos, nextMark) : 0
@@ -1085,7 +1201,7 @@ export class HostLoop {
     lapDebug('advanced_to_sequence', {
       boatId: boat.id,
       newLegIndex: progress.legIndex,
-      newSequence: finalNextLeg.sequence,
+      newSequence: nextLeg.sequence,
       newMarkIndex: nextMarkIndex,
       lap: boat.lap,
     })
@@ -1107,11 +1223,11 @@ export class HostLoop {
     boat: BoatState,
     progress: RoundingProgress,
     mark: { x: number; y: number },
-    leg: (typeof courseLegs)[number],
+    leg: CourseLeg,
   ) {
     const kind: 'windward' | 'leeward' = leg.kind === 'leeward' ? 'leeward' : 'windward'
     const rounding: 'port' | 'starboard' = leg.rounding === 'port' ? 'port' : 'starboard'
-    const radialTargets = radialSets[kind][rounding]
+    const radialTargets = leg.radials ?? radialSets[kind][rounding]
     const totalStages = radialTargets.length
     const stage = progress.stage
     const step = radialTargets[stage]
@@ -1211,7 +1327,7 @@ export class HostLoop {
     boat: BoatState,
     progress: RoundingProgress,
     mark: { x: number; y: number },
-    leg: (typeof courseLegs)[number],
+    leg: CourseLeg,
   ): boolean {
     const dx = boat.pos.x - mark.x
     const dy = boat.pos.y - mark.y
@@ -1240,6 +1356,103 @@ export class HostLoop {
     return completed
   }
 
+  /**
+   * Emit the warning, preparatory and one-minute signals as the countdown
+   * passes them.  The schedule is fixed from the countdown length at arming;
+   * the start signal itself comes from `updateStartLine`.
+   */
+  private updateSequenceSignals(state: RaceState): RaceEvent[] {
+    if (state.phase !== 'prestart' || !state.countdownArmed) {
+      this.signalSchedule = undefined
+      this.signalsSent.clear()
+      return []
+    }
+    this.signalSchedule ??= startSignalSchedule(Math.round(-state.t))
+    const procedure = getStartProcedure(state)
+    const events: RaceEvent[] = []
+    this.signalSchedule.forEach((scheduled) => {
+      if (scheduled.signal === 'start') return
+      if (state.t < scheduled.t || this.signalsSent.has(scheduled.signal)) return
+      this.signalsSent.add(scheduled.signal)
+      events.push({
+        eventId: createId('event'),
+        kind: 'sequence_signal',
+        t: state.t,
+        message: describeSignal(scheduled, procedure),
+        signal: scheduled.signal,
+      })
+    })
+    return events
+  }
+
+  /**
+   * Match racing entry (C3.2): at the preparatory signal each boat must be
+   * outside the line at right angles to the starting line through the mark
+   * at its end, and within the entry window it must cross the line from the
+   * course side into the start box.  Each failure costs a penalty.
+   */
+  private updateMatchEntry(state: RaceState): RaceEvent[] {
+    if (!isMatchRace(state) || state.phase !== 'prestart' || !this.signalSchedule) {
+      this.matchEndsChecked = false
+      return []
+    }
+    const window = matchEntryWindow(this.signalSchedule)
+    if (!window) {
+      // A sequence too short for a preparatory signal has no entry, so the
+      // boats are judged at the start like any other.
+      Object.values(state.boats).forEach((boat) => {
+        if (boat.matchEnd) boat.matchEntered = true
+      })
+      return []
+    }
+    if (state.t < window.opensAt) return []
+    const { committee, pin } = state.startLine
+    const courseSide = this.courseSideSign ?? 1
+    const events: RaceEvent[] = []
+    const penalise = (boat: BoatState, reason: string) => {
+      boat.penalties += 1
+      events.push({
+        eventId: createId('event'),
+        kind: 'penalty',
+        t: state.t,
+        boats: [boat.id],
+        message: `Umpires: penalty on ${boat.name} — ${reason}`,
+      })
+    }
+    const checkEnds = !this.matchEndsChecked
+    this.matchEndsChecked = true
+    Object.values(state.boats).forEach((boat) => {
+      const end = boat.matchEnd
+      if (!end) return
+      if (checkEnds && !outsideMatchEnd(state, end, boat.pos)) {
+        penalise(boat, `not outside the ${matchEndLabels[end]} at the preparatory signal`)
+      }
+      if (boat.matchEntered) return
+      const wasOver = boatOverStartLine(
+        boat,
+        boat.prevPos ?? boat.pos,
+        committee,
+        pin,
+        courseSide,
+      )
+      const over = boatOverStartLine(boat, boat.pos, committee, pin, courseSide)
+      if (wasOver && !over) {
+        boat.matchEntered = true
+        events.push({
+          eventId: createId('event'),
+          kind: 'rule_hint',
+          t: state.t,
+          boats: [boat.id],
+          message: `${boat.name} entered the start box`,
+        })
+      } else if (state.t >= window.closesAt) {
+        boat.matchEntered = true
+        penalise(boat, 'did not enter the start box in time')
+      }
+    })
+    return events
+  }
+
   private updateStartLine(state: RaceState): RaceEvent[] {
     const events: RaceEvent[] = []
     state.hostId = state.hostId ?? identity.clientId
@@ -1259,12 +1472,22 @@ export class HostLoop {
     }
 
     const beforeStart = state.t < 0
+    const procedure = getStartProcedure(state)
+    const trianglePenalty = triangleStartPenalty(procedure)
+    const firstMark = trianglePenalty ? startTriangleMark(state) : null
 
     if (state.boats) {
       Object.values(state.boats).forEach((boat) => {
-        // Performance: once the race has started, only boats that are currently OCS
-        // need start-line evaluation (to detect when they clear and can start properly).
-        if (!beforeStart && !boat.overEarly) return
+        // Pursuit boats each have their own start; everyone else starts at the gun.
+        const startAt = boatStartTime(boat)
+        const boatBeforeStart = state.t < startAt
+        const inFinalMinute =
+          boatBeforeStart && state.t >= startAt - START_RULE_WINDOW_SECONDS
+        // Performance: once the boat has started, only boats that are currently OCS
+        // (or still owe an I flag rounding) need start-line evaluation.
+        if (!boatBeforeStart && !boat.overEarly && !boat.roundTheEnds) return
+        // A black flag disqualification stands through a general recall (30.4).
+        if (boat.startPenalty === 'bfd') return
 
         const over = boatOverStartLine(
           boat,
@@ -1274,6 +1497,63 @@ export class HostLoop {
           this.courseSideSign ?? 1,
         )
 
+        if (boat.roundTheEnds && !over) {
+          const wasOver = boatOverStartLine(
+            boat,
+            boat.prevPos ?? boat.pos,
+            committee,
+            pin,
+            this.courseSideSign ?? 1,
+          )
+          const { t } = circleSignedDistanceToLine(
+            boat.pos,
+            committee,
+            pin,
+            this.courseSideSign ?? 1,
+          )
+          if (wasOver && (t < 0 || t > 1)) {
+            boat.roundTheEnds = false
+            events.push({
+              eventId: createId('event'),
+              kind: 'rule_hint',
+              t: state.t,
+              message: `${boat.name} returned around an end of the line`,
+              boats: [boat.id],
+              ruleId: '30',
+            })
+          }
+        }
+
+        if (inFinalMinute && procedure === 'i-flag' && over && !boat.roundTheEnds) {
+          boat.roundTheEnds = true
+          events.push({
+            eventId: createId('event'),
+            kind: 'penalty',
+            t: state.t,
+            message: `${boat.name} over the line in the last minute — Rule 30.1: return around an end before starting`,
+            boats: [boat.id],
+            ruleId: '30',
+          })
+        }
+
+        if (
+          inFinalMinute &&
+          trianglePenalty &&
+          firstMark &&
+          !boat.startPenalty &&
+          insideTriangle(boat.pos, committee, pin, firstMark)
+        ) {
+          boat.startPenalty = trianglePenalty
+          events.push({
+            eventId: createId('event'),
+            kind: 'penalty',
+            t: state.t,
+            message: `${boat.name} in the start triangle in the last minute — ${startPenaltyCode(trianglePenalty)}`,
+            boats: [boat.id],
+            ruleId: '30',
+          })
+        }
+
         if (boat.overEarly && !over) {
           boat.overEarly = false
           this.ocsBoats.delete(boat.id)
@@ -1281,13 +1561,18 @@ export class HostLoop {
             eventId: createId('event'),
             kind: 'rule_hint',
             t: state.t,
-            message: `${boat.name} cleared OCS`,
+            message: boat.recalled
+              ? `${boat.name} returned below the line and may now start`
+              : `${boat.name} cleared OCS`,
             boats: [boat.id],
             ruleId: '29',
           })
+          boat.recalled = false
         }
 
-        if (beforeStart && over) {
+        // Match boats start above the line and only join the start box on entry.
+        const awaitingEntry = isMatchRace(state) && boat.matchEnd && !boat.matchEntered
+        if (boatBeforeStart && over && !awaitingEntry) {
           if (!boat.overEarly) {
             boat.overEarly = true
             this.ocsBoats.add(boat.id)
@@ -1306,28 +1591,161 @@ export class HostLoop {
 
     if (!beforeStart && !this.startSignalSent) {
       this.startSignalSent = true
-      if (this.ocsBoats.size === 0) {
+      events.push({
+        eventId: createId('event'),
+        kind: 'start_signal',
+        t: state.t,
+        message: this.ocsBoats.size === 0 ? 'Start! All clear.' : 'Start!',
+        signal: 'start',
+      })
+      // Boats already disqualified by a U or black flag are not recalled (30.3, 30.4),
+      // and pursuit boats with a later start are dealt with at their own signal.
+      const recalled = Array.from(this.ocsBoats)
+        .map((boatId) => state.boats[boatId])
+        .filter(
+          (boat): boat is BoatState =>
+            Boolean(boat) && !isStartDisqualified(boat) && boatStartTime(boat) <= 0,
+        )
+      if (recalled.length) {
+        recalled.forEach((boat) => {
+          boat.recalled = true
+        })
+        state.xFlagUntil = X_FLAG_MAX_SECONDS
         events.push({
           eventId: createId('event'),
-          kind: 'start_signal',
+          kind: 'individual_recall',
           t: state.t,
-          message: 'Start! All clear.',
+          message: `X flag: individual recall — ${recalled.map((boat) => boat.name).join(', ')}`,
+          boats: recalled.map((boat) => boat.id),
+          ruleId: '29',
         })
-      } else {
+      }
+      const excluded = Object.values(state.boats).filter(
+        (boat) => boat.startPenalty === 'bfd',
+      )
+      if (excluded.length) {
         events.push({
           eventId: createId('event'),
-          kind: 'general_recall',
+          kind: 'rule_hint',
           t: state.t,
-          message: `Start: ${this.ocsBoats.size} boat(s) OCS`,
-          boats: Array.from(this.ocsBoats),
+          message: `Black flag: ${excluded.map((boat) => boat.name).join(', ')} disqualified (BFD)`,
+          boats: excluded.map((boat) => boat.id),
+          ruleId: '30',
         })
       }
       this.ocsBoats.clear()
     }
 
+    // Lower the X flag once every recalled boat has returned.
+    if (isXFlagFlying(state) && !Object.values(state.boats).some((boat) => boat.recalled)) {
+      state.xFlagUntil = state.t
+    }
+
+    return events
+  }
+
+  /**
+   * Pursuit starts: make each later boat's own start signal as its time comes
+   * up, recalling it (29.1) if it is still on the course side.  Boats starting
+   * at the gun are handled by `updateStartLine`.
+   */
+  private updatePursuitStarts(state: RaceState): RaceEvent[] {
+    if (!isPursuitRace(state) || state.t < 0) return []
+    const events: RaceEvent[] = []
+    Object.values(state.boats).forEach((boat) => {
+      const startAt = boatStartTime(boat)
+      if (startAt <= 0 || state.t < startAt || this.pursuitStartsSent.has(boat.id)) return
+      this.pursuitStartsSent.add(boat.id)
+      events.push({
+        eventId: createId('event'),
+        kind: 'start_signal',
+        t: state.t,
+        boats: [boat.id],
+        message: `Start for ${boat.name}`,
+        signal: 'start',
+      })
+      if (!boat.overEarly || isStartDisqualified(boat)) return
+      boat.recalled = true
+      events.push({
+        eventId: createId('event'),
+        kind: 'individual_recall',
+        t: state.t,
+        boats: [boat.id],
+        message: `Individual recall — ${boat.name}`,
+        ruleId: '29',
+      })
+    })
     return events
   }
 
+  /**
+   * End a pursuit at its fixed time.  Boats that have finished keep their
+   * places and the rest are placed in the order they are sailing, so the
+   * boat in front when time runs out wins if nobody has finished.
+   */
+  private checkPursuitEnd(state: RaceState) {
+    if (!isPursuitRace(state) || state.phase !== 'running') return false
+    if (state.t < pursuitEndTime(state)) return false
+    assignLeaderboard(state)
+    state.phase = 'finished'
+    const winner = state.boats[state.leaderboard[0]]
+    const events: RaceEvent[] = [
+      {
+        eventId: createId('event'),
+        t: state.t,
+        kind: 'finish',
+        boats: winner ? [winner.id] : undefined,
+        message: winner
+          ? `Pursuit over: time is up — ${winner.name} wins`
+          : 'Pursuit over: time is up',
+      },
+    ]
+    this.stopRacing(state, events)
+    return true
+  }
+
+  /**
+   * Time limits (RRS 35).  The race is abandoned when no boat finishes within
+   * the first-boat limit, and once the finishing window after the first
+   * finisher closes the boats still racing are stopped to be scored TLE.  A
+   * pursuit has its own end time instead.
+   */
+  private checkTimeLimits(state: RaceState) {
+    if (isPursuitRace(state) || state.phase !== 'running') return false
+    const windowEnd = finishingWindowEnd(state)
+    let message: string
+    if (windowEnd !== null) {
+      if (state.t < windowEnd) return false
+      const unfinished = Object.values(state.boats).filter((boat) => !boat.finished)
+      if (!unfinished.length) return false
+      message = `Finishing window closed: ${unfinished.map((boat) => boat.name).join(', ')} TLE`
+    } else if (firstBoatLimitExpired(state)) {
+      message = 'Time limit expired: no boat finished, race abandoned'
+      // Nobody finished, so there is nothing to score.
+      state.abandoned = true
+    } else {
+      return false
+    }
+    assignLeaderboard(state)
+    state.phase = 'finished'
+    this.stopRacing(state, [
+      {
+        eventId: createId('event'),
+        t: state.t,
+        kind: 'finish',
+        message,
+      },
+    ])
+    return true
+  }
+
+  /** Publish the tick that stops the race; the host then moves on to results. */
+  private stopRacing(state: RaceState, events: RaceEvent[]) {
+    this.store.setState(state)
+    this.store.appendEvents(events)
+    this.options.onEvents?.(events)
+    this.options.onTick?.(state, events)
+  }
 
   private checkRaceTimeout(state: RaceState) {
     if (state.phase !== 'running') return
@@ -1364,15 +1782,16 @@ export class HostLoop {
     const boat = state.boats[boatId]
     if (!boat) return
     this.spinningBoats.add(boatId)
+    const plan = planPenaltySpin(boat, getPenaltyConfig(state))
     const origin = boat.desiredHeadingDeg ?? boat.headingDeg ?? 0
-    const headings = [origin + 120, origin + 240, origin].map((deg) => normalizeDeg(deg))
+    const headings = spinHeadings(origin, plan.turns)
     const timers: Array<ReturnType<typeof setTimeout>> = []
     let delay = 0
     headings.forEach((heading, index) => {
       const timer = setTimeout(() => {
         this.injectSpinHeading(boatId, heading)
         if (index === headings.length - 1) {
-          this.pendingSpinClears.add(boatId)
+          this.pendingSpinClears.set(boatId, plan)
           this.spinTimers.delete(boatId)
         }
       }, delay)
@@ -1402,24 +1821,23 @@ export class HostLoop {
 
   private resolveSpinCompletions(state: RaceState) {
     const events: RaceEvent[] = []
-    this.pendingSpinClears.forEach((boatId) => {
+    this.pendingSpinClears.forEach((plan, boatId) => {
       const boat = state.boats[boatId]
       if (!boat) return
       this.spinningBoats.delete(boatId)
       boat.rightsSuspended = false
-      if (boat.penalties > 0) {
-        boat.penalties -= 1
+      if (clearSpinPenalty(boat, plan.clears)) {
         boat.fouled = boat.penalties > 0
         events.push({
           eventId: createId('event'),
           kind: 'rule_hint',
-          ruleId: 'other',
+          ruleId: plan.clears === 'mark' ? '31' : 'other',
           boats: [boatId],
           t: state.t,
-          message: `${boat.name} completed a 360° spin and cleared a penalty (${boat.penalties} remaining)`,
+          message: `${boat.name} completed ${describeSpin(plan.turns)} and cleared a penalty (${boat.penalties} remaining)`,
         })
       } else {
-        boat.fouled = false
+        boat.fouled = boat.penalties > 0
       }
     })
     this.pendingSpinClears.clear()
@@ -15,6 +15,7 @@ const makeBoat = (overrides: Partial<BoatState> & { id: string }): BoatState =>
   finished: false,
   penalties: 0,
   protestPenalties: 0,
+  markPenalties: 0,
   stallTimer: 0,
   tackTimer: 0,
   overEarly: false,
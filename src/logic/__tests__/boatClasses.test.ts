@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import {
+  boatClasses,
+  getBoatClass,
+  isBoatClassId,
+  polarSpeedKts,
+  type PolarGrid,
+} from '@/logic/boatClasses'
+import { computeVmgAngles } from '@/logic/physics'
+
+describe('polarSpeedKts', () => {
+  const polar: PolarGrid = {
+    twsKts: [0, 10, 20],
+    twaDeg: [0, 90, 180],
+    speedKts: [
+      [0, 0, 0],
+      [0, 6, 4],
+      [0, 10, 8],
+    ],
+  }
+
+  it('returns grid values at grid points for either tack', () => {
+    expect(polarSpeedKts(polar, 90, 10)).toBe(6)
+    expect(polarSpeedKts(polar, -90, 20)).toBe(10)
+  })
+
+  it('interpolates bilinearly between grid points', () => {
+    expect(polarSpeedKts(polar, 135, 15)).toBeCloseTo(7)
+  })
+
+  it('uses the nearest row outside the wind range', () => {
+    expect(polarSpeedKts(polar, 90, 30)).toBe(10)
+  })
+})
+
+describe('boat classes', () => {
+  it('scales generic dinghy speed with wind at each grid row', () => {
+    const { polar } = boatClasses.generic
+    expect(polarSpeedKts(polar, 45, 12)).toBeCloseTo(7.8)
+    expect(polarSpeedKts(polar, 45, 4)).toBeCloseTo(2.2)
+  })
+
+  it('falls back to the generic dinghy for unknown ids', () => {
+    expect(isBoatClassId('j70')).toBe(true)
+    expect(isBoatClassId('toString')).toBe(false)
+    expect(getBoatClass().id).toBe('generic')
+  })
+
+  it('finds VMG angles from the class polar', () => {
+    const j70 = computeVmgAngles(18, boatClasses.j70)
+    expect(j70.upwindAwa).toBeGreaterThanOrEqual(35)
+    expect(j70.upwindAwa).toBeLessThanOrEqual(55)
+    expect(j70.downwindAwa).toBeGreaterThanOrEqual(130)
+  })
+})
@@ -1,9 +1,11 @@
 import { describe, it, expect } from 'vitest'
 import { boatCapsuleCircles, headingForward } from '@/logic/boatGeometry'
+import { boatClasses } from '@/logic/boatClasses'
 import type { BoatState } from '@/types/race'
 import {
   BOAT_BOW_OFFSET,
   BOAT_BOW_RADIUS,
+  BOAT_LENGTH,
   BOAT_STERN_OFFSET,
   BOAT_STERN_RADIUS,
 } from '@/logic/constants'
@@ -21,6 +23,7 @@ const makeBoat = (overrides: Partial<BoatState> & { id: string }): BoatState =>
   finished: false,
   penalties: 0,
   protestPenalties: 0,
+  markPenalties: 0,
   stallTimer: 0,
   tackTimer: 0,
   overEarly: false,
@@ -90,4 +93,14 @@ describe('boatCapsuleCircles', () => {
     expect(bow.x).toBeCloseTo(50, 5)
     expect(bow.y).toBeCloseTo(60 - BOAT_BOW_OFFSET, 5)
   })
+
+  it('scales the capsule with the boat class hull length', () => {
+    const boat = makeBoat({ id: 'a', pos: { x: 0, y: 0 }, headingDeg: 0, classId: 'j70' })
+    const scale = boatClasses.j70.hullLength / BOAT_LENGTH
+    const [bow, stern] = boatCapsuleCircles(boat)
+
+    expect(scale).toBeGreaterThan(1)
+    expect(bow.y).toBeCloseTo(-BOAT_BOW_OFFSET * scale, 5)
+    expect(stern.r).toBeCloseTo(BOAT_STERN_RADIUS * scale, 5)
+  })
 })
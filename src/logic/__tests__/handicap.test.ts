@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import type { BoatState, RaceState } from '@/types/race'
+import { createInitialRaceState } from '@/state/factories'
+import {
+  boatRating,
+  correctedTime,
+  courseDistanceNm,
+  isValidRating,
+  rankByCorrectedTime,
+} from '@/logic/handicap'
+
+const raceWith = (handicapSystem: RaceState['handicapSystem']) => ({
+  ...createInitialRaceState('handicap-test'),
+  handicapSystem,
+})
+
+describe('boatRating', () => {
+  it('uses the class rating unless the boat has its own', () => {
+    expect(boatRating({ classId: 'laser' }, 'phrf-tot')).toBe(216)
+    expect(boatRating({ classId: 'laser' }, 'portsmouth')).toBe(1100)
+    expect(boatRating({ classId: 'laser', rating: 200 }, 'phrf-tot')).toBe(200)
+    expect(boatRating({ classId: 'laser', rating: 0 }, 'phrf-tot')).toBe(0)
+  })
+})
+
+describe('isValidRating', () => {
+  it('accepts PHRF ratings around zero but not ones that break time-on-time', () => {
+    expect(isValidRating(0, 'phrf-tot')).toBe(true)
+    expect(isValidRating(-60, 'phrf-tod')).toBe(true)
+    expect(isValidRating(-550, 'phrf-tot')).toBe(false)
+    expect(isValidRating(Number.NaN, 'phrf-tot')).toBe(false)
+  })
+
+  it('needs a positive Portsmouth Number', () => {
+    expect(isValidRating(1100, 'portsmouth')).toBe(true)
+    expect(isValidRating(0, 'portsmouth')).toBe(false)
+    expect(isValidRating(-100, 'none')).toBe(false)
+  })
+})
+
+describe('correctedTime', () => {
+  const boat = { classId: 'j70' as const, rating: 100 }
+
+  it('returns elapsed time when racing scratch', () => {
+    expect(correctedTime(600, boat, raceWith('none'))).toBe(600)
+  })
+
+  it('applies PHRF time-on-time', () => {
+    expect(correctedTime(600, boat, raceWith('phrf-tot'))).toBeCloseTo(600)
+  })
+
+  it('applies PHRF time-on-distance over the course length', () => {
+    const state = raceWith('phrf-tod')
+    const nm = courseDistanceNm(state)
+    expect(nm).toBeGreaterThan(0)
+    expect(correctedTime(600, boat, state)).toBeCloseTo(600 - 100 * nm)
+  })
+
+  it('applies Portsmouth Yardstick', () => {
+    expect(correctedTime(600, { rating: 1200 }, raceWith('portsmouth'))).toBeCloseTo(500)
+  })
+})
+
+describe('rankByCorrectedTime', () => {
+  it('orders finishers by corrected time and keeps unfinished boats last', () => {
+    const boat = (overrides: Partial<BoatState>) => overrides as BoatState
+    const state = {
+      handicapSystem: 'phrf-tot' as const,
+      boats: {
+        a: boat({ finished: true, finishTime: 500, correctedTime: 520 }),
+        b: boat({ finished: true, finishTime: 510, correctedTime: 480 }),
+        c: boat({ finished: false }),
+      },
+    }
+    expect(rankByCorrectedTime(['a', 'c', 'b'], state)).toEqual(['b', 'a', 'c'])
+    expect(
+      rankByCorrectedTime(['a', 'c', 'b'], { ...state, handicapSystem: 'none' }),
+    ).toEqual(['a', 'c', 'b'])
+  })
+})
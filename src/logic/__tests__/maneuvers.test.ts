@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import { boatClasses } from '@/logic/boatClasses'
+import {
+  advanceManeuver,
+  attemptRoll,
+  maneuverForTurn,
+  maneuverRecoverySeconds,
+  maneuverSpeedFactor,
+  maneuverSpeedFloor,
+} from '@/logic/maneuvers'
+import type { BoatState } from '@/types/race'
+
+const laser = boatClasses.laser
+
+const makeBoat = (): BoatState =>
+  ({
+    id: 'b',
+    headingDeg: 45,
+    desiredHeadingDeg: 45,
+    tackTimer: 0,
+  }) as BoatState
+
+/** Turn `boat` from `fromTwa` to `toTwa` in `stepDeg` steps with the wind at 0°. */
+const sailTurn = (boat: BoatState, fromTwa: number, toTwa: number, stepDeg: number) => {
+  const phases: string[] = []
+  const record = () => {
+    const phase = boat.maneuverPhase ?? 'none'
+    if (phases[phases.length - 1] !== phase) phases.push(phase)
+  }
+  let twa = fromTwa
+  const direction = Math.sign(toTwa - fromTwa)
+  while (twa !== toTwa) {
+    const next =
+      direction > 0 ? Math.min(toTwa, twa + stepDeg) : Math.max(toTwa, twa - stepDeg)
+    const wrap = (value: number) => ((((value + 180) % 360) + 360) % 360) - 180
+    advanceManeuver(boat, wrap(twa), wrap(next), toTwa - next, 12, laser, 0.1)
+    record()
+    twa = next
+  }
+  return phases
+}
+
+describe('maneuverForTurn', () => {
+  it('tells tacks from gybes by which end goes through the wind', () => {
+    expect(maneuverForTurn(45, -90)).toBe('tack')
+    expect(maneuverForTurn(-150, -60)).toBe('gybe')
+    expect(maneuverForTurn(150, 60)).toBe('gybe')
+    expect(maneuverForTurn(45, 60)).toBeNull()
+    expect(maneuverForTurn(100, -180)).toBe('tack')
+  })
+})
+
+describe('maneuver loss curves', () => {
+  it('costs a tack more in light air and a gybe more in a breeze', () => {
+    expect(maneuverSpeedFloor('tack', 4, laser)).toBeLessThan(
+      maneuverSpeedFloor('tack', 12, laser),
+    )
+    expect(maneuverSpeedFloor('gybe', 22, laser)).toBeLessThan(
+      maneuverSpeedFloor('gybe', 12, laser),
+    )
+    expect(maneuverSpeedFloor('tack', 12, laser)).toBeCloseTo(laser.tackSpeedPenalty)
+  })
+
+  it('depends on the boat class', () => {
+    expect(maneuverSpeedFloor('tack', 12, boatClasses.j70)).toBeGreaterThan(
+      maneuverSpeedFloor('tack', 12, laser),
+    )
+    expect(maneuverRecoverySeconds(12, boatClasses.j70)).toBeGreaterThan(
+      maneuverRecoverySeconds(12, laser),
+    )
+  })
+
+  it('eases the loss off through the acceleration phase', () => {
+    const boat = makeBoat()
+    boat.maneuver = 'tack'
+    boat.maneuverPhase = 'accelerate'
+    boat.maneuverPhaseTime = 0
+    const start = maneuverSpeedFactor(boat, 12, laser)
+    boat.maneuverPhaseTime = maneuverRecoverySeconds(12, laser) / 2
+    const middle = maneuverSpeedFactor(boat, 12, laser)
+    boat.maneuverPhaseTime = maneuverRecoverySeconds(12, laser)
+    expect(start).toBeCloseTo(laser.tackSpeedPenalty)
+    expect(middle).toBeGreaterThan(start)
+    expect(maneuverSpeedFactor(boat, 12, laser)).toBeCloseTo(1)
+  })
+})
+
+describe('advanceManeuver', () => {
+  it('steps a tack through luff, exit and acceleration', () => {
+    const boat = makeBoat()
+    expect(sailTurn(boat, 45, -45, 10)).toEqual(['luff', 'exit', 'accelerate'])
+    expect(boat.maneuver).toBe('tack')
+  })
+
+  it('recognises gybes', () => {
+    const boat = makeBoat()
+    sailTurn(boat, 150, 210, 10)
+    expect(boat.maneuver).toBe('gybe')
+  })
+
+  it('drops to acceleration when the turn is aborted before the wind', () => {
+    const boat = makeBoat()
+    advanceManeuver(boat, 45, 35, -80, 12, laser, 0.1)
+    expect(boat.maneuverPhase).toBe('luff')
+    advanceManeuver(boat, 35, 35, 0, 12, laser, 0.1)
+    expect(boat.maneuverPhase).toBe('accelerate')
+  })
+
+  it('clears once the boat is back up to speed', () => {
+    const boat = makeBoat()
+    sailTurn(boat, 45, -45, 10)
+    const ticks = Math.ceil(maneuverRecoverySeconds(12, laser) / 0.1) + 1
+    for (let i = 0; i < ticks; i += 1) {
+      advanceManeuver(boat, -45, -45, 0, 12, laser, 0.1)
+    }
+    expect(boat.maneuver).toBeUndefined()
+    expect(maneuverSpeedFactor(boat, 12, laser)).toBe(1)
+  })
+
+  it('restarts the loss when tacking again while still accelerating', () => {
+    const boat = makeBoat()
+    sailTurn(boat, 45, -45, 10)
+    advanceManeuver(boat, -45, -45, 0, 12, laser, 1)
+    const recovering = maneuverSpeedFactor(boat, 12, laser)
+    advanceManeuver(boat, -45, -35, 80, 12, laser, 0.1)
+    expect(boat.maneuverPhase).toBe('luff')
+    expect(maneuverSpeedFactor(boat, 12, laser)).toBeLessThan(recovering)
+  })
+})
+
+describe('attemptRoll', () => {
+  const startTack = () => {
+    const boat = makeBoat()
+    advanceManeuver(boat, 45, 35, -80, 12, laser, 0.1)
+    return boat
+  }
+
+  it('saves part of the loss when timed head to wind', () => {
+    const rolled = startTack()
+    const unrolled = startTack()
+    expect(attemptRoll(rolled, 2)).toBeCloseTo(0.9)
+    expect(maneuverSpeedFactor(rolled, 12, laser)).toBeGreaterThan(
+      maneuverSpeedFactor(unrolled, 12, laser),
+    )
+  })
+
+  it('scores nothing outside the window and only counts the first try', () => {
+    const boat = startTack()
+    expect(attemptRoll(boat, 35)).toBe(0)
+    expect(attemptRoll(boat, 0)).toBeNull()
+    expect(maneuverSpeedFactor(boat, 12, laser)).toBeCloseTo(laser.tackSpeedPenalty)
+  })
+
+  it('judges gybes by the stern crossing the wind', () => {
+    const boat = makeBoat()
+    advanceManeuver(boat, 160, 170, 40, 12, laser, 0.1)
+    expect(boat.maneuver).toBe('gybe')
+    expect(attemptRoll(boat, 178)).toBeGreaterThan(0.8)
+  })
+
+  it('does nothing without a maneuver under way', () => {
+    const boat = makeBoat()
+    expect(attemptRoll(boat, 0)).toBeNull()
+    expect(boat.maneuverRoll).toBeUndefined()
+  })
+
+  it('resets for the next maneuver', () => {
+    const boat = startTack()
+    attemptRoll(boat, 0)
+    sailTurn(boat, 35, -45, 10)
+    advanceManeuver(boat, -45, -35, 80, 12, laser, 0.1)
+    expect(boat.maneuverPhase).toBe('luff')
+    expect(boat.maneuverRoll).toBeUndefined()
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  matchEntryStation,
+  matchEntryWindow,
+  matchOpponent,
+  matchPoints,
+  matchWinner,
+  outsideMatchEnd,
+} from '@/logic/matchRacing'
+import { startSignalSchedule } from '@/logic/startSignals'
+import { createBoatState } from '@/state/factories'
+import type { BoatState } from '@/types/race'
+
+const makeBoat = (id: string, overrides: Partial<BoatState> = {}): BoatState => ({
+  ...createBoatState(id, 0, id),
+  ...overrides,
+})
+
+const line = {
+  startLine: { committee: { x: 100, y: 0 }, pin: { x: -100, y: 0 } },
+  baselineWindDeg: 0,
+}
+
+describe('matchEntryWindow', () => {
+  it('opens at the 4-minute signal and closes two minutes later', () => {
+    expect(matchEntryWindow(startSignalSchedule(300))).toEqual({
+      opensAt: -240,
+      closesAt: -120,
+    })
+  })
+
+  it('closes by the one-minute signal on a short sequence', () => {
+    expect(matchEntryWindow(startSignalSchedule(180))).toEqual({
+      opensAt: -120,
+      closesAt: -60,
+    })
+  })
+
+  it('has no window without a preparatory signal', () => {
+    expect(matchEntryWindow(startSignalSchedule(45))).toBeNull()
+  })
+})
+
+describe('match entry ends', () => {
+  it('tells which side of the right-angle line through each end a boat is on', () => {
+    expect(outsideMatchEnd(line, 'port', { x: -130, y: -20 })).toBe(true)
+    expect(outsideMatchEnd(line, 'port', { x: -60, y: -20 })).toBe(false)
+    expect(outsideMatchEnd(line, 'starboard', { x: 120, y: 30 })).toBe(true)
+    expect(outsideMatchEnd(line, 'starboard', { x: 80, y: 30 })).toBe(false)
+  })
+
+  it('stations each boat outside its end on the course side, head to wind', () => {
+    const port = matchEntryStation(line, 'port')
+    expect(outsideMatchEnd(line, 'port', port.pos)).toBe(true)
+    expect(port.pos.y).toBeLessThan(0)
+    expect(port.headingDeg).toBe(0)
+    const starboard = matchEntryStation(line, 'starboard')
+    expect(outsideMatchEnd(line, 'starboard', starboard.pos)).toBe(true)
+  })
+})
+
+describe('match scoring', () => {
+  it('gives the first boat home the point', () => {
+    const boats = {
+      a: makeBoat('a', { finished: true, finishTime: 412 }),
+      b: makeBoat('b', { finished: true, finishTime: 398 }),
+    }
+    expect(matchWinner({ boats })).toBe('b')
+    expect(matchPoints({ boats }, 'b')).toBe(1)
+    expect(matchPoints({ boats }, 'a')).toBe(0)
+  })
+
+  it('has no winner until a boat finishes', () => {
+    const boats = { a: makeBoat('a'), b: makeBoat('b', { finished: true }) }
+    expect(matchWinner({ boats })).toBeNull()
+    expect(matchOpponent({ boats }, 'a')).toBe('b')
+  })
+})
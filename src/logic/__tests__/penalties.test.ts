@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import {
+  clearSpinPenalty,
+  isDisqualified,
+  penalisedPoints,
+  placesOnPoints,
+  planPenaltySpin,
+  scoringPenaltyPlaces,
+  spinHeadings,
+} from '@/logic/penalties'
+import { createBoatState } from '@/state/factories'
+import type { BoatState, PenaltyConfig } from '@/types/race'
+
+const makeBoat = (overrides: Partial<BoatState> = {}): BoatState => ({
+  ...createBoatState('Test', 0, 'test'),
+  ...overrides,
+})
+
+describe('planPenaltySpin', () => {
+  it('takes two turns for a foul', () => {
+    expect(planPenaltySpin(makeBoat({ penalties: 1 }))).toEqual({
+      turns: 2,
+      clears: 'foul',
+    })
+  })
+
+  it('takes one turn for touching a mark', () => {
+    expect(planPenaltySpin(makeBoat({ penalties: 1, markPenalties: 1 }))).toEqual({
+      turns: 1,
+      clears: 'mark',
+    })
+  })
+
+  it('pays off fouls before mark touches', () => {
+    expect(planPenaltySpin(makeBoat({ penalties: 2, markPenalties: 1 })).clears).toBe(
+      'foul',
+    )
+  })
+
+  it('is a single voluntary turn when nothing is owed', () => {
+    expect(planPenaltySpin(makeBoat())).toEqual({ turns: 1, clears: null })
+  })
+
+  it('takes one turn for a foul under the one-turn system', () => {
+    const config: PenaltyConfig = { system: 'one-turn', scoringPercent: 20 }
+    expect(planPenaltySpin(makeBoat({ penalties: 1 }), config)).toEqual({
+      turns: 1,
+      clears: 'foul',
+    })
+  })
+
+  it('cannot spin off a foul under the scoring or DSQ systems', () => {
+    const boat = makeBoat({ penalties: 2, markPenalties: 1 })
+    for (const system of ['scoring', 'dsq'] as const) {
+      expect(planPenaltySpin(boat, { system, scoringPercent: 20 })).toEqual({
+        turns: 1,
+        clears: 'mark',
+      })
+      expect(
+        planPenaltySpin(makeBoat({ penalties: 1 }), { system, scoringPercent: 20 })
+          .clears,
+      ).toBeNull()
+    }
+  })
+})
+
+describe('scoring penalties', () => {
+  const scoring: PenaltyConfig = { system: 'scoring', scoringPercent: 20 }
+  const dsq: PenaltyConfig = { system: 'dsq', scoringPercent: 20 }
+
+  it('rounds the places added to the nearest whole number, at least one', () => {
+    expect(scoringPenaltyPlaces(10, 20)).toBe(2)
+    expect(scoringPenaltyPlaces(8, 20)).toBe(2)
+    expect(scoringPenaltyPlaces(5, 30)).toBe(2)
+    expect(scoringPenaltyPlaces(3, 10)).toBe(1)
+  })
+
+  it('adds places per foul, capped at the DNF score', () => {
+    const boat = makeBoat({ penalties: 1 })
+    expect(penalisedPoints(2, boat, 10, scoring)).toBe(4)
+    expect(penalisedPoints(8, makeBoat({ penalties: 2 }), 10, scoring)).toBe(11)
+  })
+
+  it('ignores mark penalties and spin-based systems', () => {
+    expect(
+      penalisedPoints(2, makeBoat({ penalties: 1, markPenalties: 1 }), 10, scoring),
+    ).toBe(2)
+    expect(penalisedPoints(2, makeBoat({ penalties: 1 }), 10)).toBe(2)
+  })
+
+  it('scores a disqualified boat as a DNF', () => {
+    const boat = makeBoat({ penalties: 1 })
+    expect(isDisqualified(boat, dsq)).toBe(true)
+    expect(isDisqualified(boat, scoring)).toBe(false)
+    expect(penalisedPoints(1, boat, 10, dsq)).toBe(11)
+  })
+
+  it('ranks a penalised boat behind those scoring better', () => {
+    const places = placesOnPoints([
+      { place: 1, points: 3 },
+      { place: 2, points: 2 },
+      { place: 3, points: 3 },
+      { place: null, points: 11 },
+    ])
+    expect(places).toEqual([2, 1, 3, null])
+  })
+})
+
+describe('spinHeadings', () => {
+  it('steps 120° per heading and ends back on the origin', () => {
+    expect(spinHeadings(30, 1)).toEqual([150, 270, 30])
+    expect(spinHeadings(30, 2)).toEqual([150, 270, 30, 150, 270, 30])
+  })
+})
+
+describe('clearSpinPenalty', () => {
+  it('clears a mark penalty', () => {
+    const boat = makeBoat({ penalties: 2, markPenalties: 1 })
+    expect(clearSpinPenalty(boat, 'mark')).toBe(true)
+    expect(boat.penalties).toBe(1)
+    expect(boat.markPenalties).toBe(0)
+  })
+
+  it('clears a protest-derived foul first', () => {
+    const boat = makeBoat({ penalties: 2, protestPenalties: 1, markPenalties: 1 })
+    expect(clearSpinPenalty(boat, 'foul')).toBe(true)
+    expect(boat.penalties).toBe(1)
+    expect(boat.protestPenalties).toBe(0)
+    expect(boat.markPenalties).toBe(1)
+  })
+
+  it('does nothing once the owed penalty is gone', () => {
+    const boat = makeBoat({ penalties: 1, markPenalties: 1 })
+    expect(clearSpinPenalty(boat, 'foul')).toBe(false)
+    expect(boat.penalties).toBe(1)
+  })
+})
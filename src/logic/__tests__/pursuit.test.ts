@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import type { BoatState, HandicapSystem } from '@/types/race'
+import { createBoatState, createInitialRaceState } from '@/state/factories'
+import { correctedTime } from '@/logic/handicap'
+import {
+  boatStartTime,
+  pursuitCountdown,
+  pursuitEndTime,
+  pursuitStartTimes,
+} from '@/logic/pursuit'
+
+const boat = (id: string, overrides: Partial<BoatState>): BoatState => ({
+  ...createBoatState(id, 0, id),
+  ...overrides,
+})
+
+const pursuitWith = (handicapSystem: HandicapSystem) => ({
+  ...createInitialRaceState('pursuit-test'),
+  raceFormat: 'pursuit' as const,
+  pursuitMinutes: 20,
+  handicapSystem,
+  boats: {
+    laser: boat('laser', { classId: 'laser' }),
+    j70: boat('j70', { classId: 'j70' }),
+    fast: boat('fast', { classId: 'generic' }),
+  },
+})
+
+describe('pursuitStartTimes', () => {
+  it('sends the slowest boat off at the gun and the faster boats later', () => {
+    const starts = pursuitStartTimes(pursuitWith('none'))
+    expect(starts.laser).toBe(0)
+    expect(starts.j70).toBe(Math.round(1200 * (1 - 925 / 1100)))
+    expect(starts.fast).toBeGreaterThan(starts.j70)
+  })
+
+  it.each<HandicapSystem>(['phrf-tot', 'phrf-tod', 'portsmouth'])(
+    'brings boats sailing to their %s ratings home together',
+    (system) => {
+      const state = pursuitWith(system)
+      const starts = pursuitStartTimes(state)
+      const end = pursuitEndTime(state)
+      const corrected = Object.values(state.boats).map((b) =>
+        correctedTime(end - starts[b.id], b, state),
+      )
+      corrected.forEach((value) => expect(value).toBeCloseTo(corrected[0], -1))
+    },
+  )
+
+  it('never starts a boat after the race has ended', () => {
+    const state = pursuitWith('phrf-tod')
+    state.boats.fast.rating = -5000
+    expect(pursuitStartTimes(state).fast).toBe(pursuitEndTime(state) - 1)
+  })
+})
+
+describe('pursuitCountdown', () => {
+  it('counts down to the boat’s own start', () => {
+    expect(pursuitCountdown({ startTime: 90 }, 30)).toBe(60)
+    expect(pursuitCountdown({ startTime: 90 }, 90)).toBeNull()
+    expect(pursuitCountdown({}, 5)).toBeNull()
+    expect(boatStartTime({})).toBe(0)
+  })
+})
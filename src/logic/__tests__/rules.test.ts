@@ -29,6 +29,7 @@ const makeBoat = (overrides: Partial<BoatState> & { id: string }): BoatState =>
   finished: false,
   penalties: 0,
   protestPenalties: 0,
+  markPenalties: 0,
   stallTimer: 0,
   tackTimer: 0,
   overEarly: false,
@@ -349,7 +350,7 @@ describe('RulesEngine – Rule 11', () => {
     expect(results[0].offenderId).toBe('windward')
   })
 
-  it('stern rammer overrides windward as offender', () => {
+  it('stern rammer is penalised under Rule 12 instead of the windward boat', () => {
     const engine = new RulesEngine(0)
     // Both heading north at 10° (port tack, TWA=10). B directly behind A.
     // heading 10°: forward ≈ {0.17, -0.98}
@@ -361,9 +362,10 @@ describe('RulesEngine – Rule 11', () => {
 
     const results = engine.evaluate(state)
     expect(results).toHaveLength(1)
-    expect(results[0].ruleId).toBe('11')
+    expect(results[0].ruleId).toBe('12')
     // B's bow hits A's stern, so B is the stern rammer → offender
     expect(results[0].offenderId).toBe('b')
+    expect(results[0].message).toContain('clear astern')
   })
 
   it('no penalty when stand-on boat has rights suspended', () => {
@@ -398,6 +400,339 @@ describe('RulesEngine – Rule 11', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// RulesEngine – Rule 13 (while tacking)
+// ---------------------------------------------------------------------------
+
+describe('RulesEngine – Rule 13', () => {
+  const makeTacker = () =>
+    makeBoat({ id: 'tacker', pos: { x: 0, y: 100 }, headingDeg: 340, tackTimer: 1 })
+
+  it('boat past head-to-wind but not yet close-hauled must keep clear', () => {
+    const engine = new RulesEngine(0)
+    // Tacker starts on starboard, away from the other boat.
+    const tacker = makeTacker()
+    const far = makeBoat({ id: 'other', pos: { x: 500, y: 0 } })
+    engine.evaluate(makeState([tacker, far], 0, 10))
+
+    // Tacker passes head-to-wind onto port, to leeward of a port-tack boat that
+    // would otherwise have to keep clear under Rule 11.
+    tacker.headingDeg = 15
+    const other = makeBoat({ id: 'other', pos: { x: -4, y: 96 }, headingDeg: 40 })
+    const results = engine.evaluate(makeState([tacker, other], 0, 10.1))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('13')
+    expect(results[0].offenderId).toBe('tacker')
+  })
+
+  it('no longer applies once the boat is close-hauled', () => {
+    const engine = new RulesEngine(0)
+    const tacker = makeTacker()
+    const far = makeBoat({ id: 'other', pos: { x: 500, y: 0 } })
+    engine.evaluate(makeState([tacker, far], 0, 10))
+
+    tacker.headingDeg = 15
+    engine.evaluate(makeState([tacker, far], 0, 10.1))
+
+    tacker.headingDeg = 45
+    const other = makeBoat({ id: 'other', pos: { x: -4, y: 96 }, headingDeg: 40 })
+    const results = engine.evaluate(makeState([tacker, other], 0, 10.2))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('11')
+    expect(results[0].offenderId).toBe('other')
+  })
+
+  it('judges close-hauled in the wind at the boat, not the race wind', () => {
+    const engine = new RulesEngine(0)
+    // On the right of a persistent-right course the wind is veered 14°.
+    const local = (boats: BoatState[], t: number): RaceState => ({
+      ...makeState(boats, 0, t),
+      windScenario: 'persistent-right',
+    })
+    const tacker = makeBoat({
+      id: 'tacker',
+      pos: { x: 600, y: 100 },
+      headingDeg: 340,
+      tackTimer: 1,
+    })
+    const far = makeBoat({ id: 'other', pos: { x: 1100, y: 0 } })
+    engine.evaluate(local([tacker, far], 10))
+
+    tacker.headingDeg = 20
+    engine.evaluate(local([tacker, far], 10.1))
+
+    // Close-hauled in the race wind, but still inside it in the local veer.
+    tacker.headingDeg = 45
+    const other = makeBoat({ id: 'other', pos: { x: 596, y: 96 }, headingDeg: 40 })
+    const results = engine.evaluate(local([tacker, other], 10.2))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('13')
+    expect(results[0].offenderId).toBe('tacker')
+  })
+
+  it('bearing away through head-to-wind without a tack timer is not tacking', () => {
+    const engine = new RulesEngine(0)
+    const boat = makeBoat({ id: 'boat', pos: { x: 0, y: 100 }, headingDeg: 355 })
+    const far = makeBoat({ id: 'other', pos: { x: 500, y: 0 } })
+    engine.evaluate(makeState([boat, far], 0, 10))
+
+    boat.headingDeg = 5
+    const other = makeBoat({ id: 'other', pos: { x: -4, y: 96 }, headingDeg: 40 })
+    const results = engine.evaluate(makeState([boat, other], 0, 10.1))
+    expect(results.every((r) => r.ruleId !== '13')).toBe(true)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// RulesEngine – Rules 15/16 (acquiring right of way, changing course)
+// ---------------------------------------------------------------------------
+
+describe('RulesEngine – Rules 15 and 16', () => {
+  // B starts overlapped to windward of A (both port), then tacks onto starboard.
+  const tackOntoStarboard = (engine: RulesEngine) => {
+    const a = makeBoat({ id: 'a', pos: { x: 0, y: 0 }, headingDeg: 45 })
+    const b = makeBoat({ id: 'b', pos: { x: 0, y: -32 }, headingDeg: 45 })
+    expect(engine.evaluate(makeState([a, b], 0, 10))).toHaveLength(0)
+    b.headingDeg = 315
+    const state = makeState([a, b], 0, 10.5)
+    expect(engine.evaluate(state)).toHaveLength(0)
+    return { a, b, state }
+  }
+
+  it('hints when a boat acquires right of way through its own action', () => {
+    const engine = new RulesEngine(0)
+    const { state } = tackOntoStarboard(engine)
+    const hints = engine.toEvents(state, []).filter((e) => e.kind === 'rule_hint')
+    expect(hints).toHaveLength(1)
+    expect(hints[0].ruleId).toBe('15')
+    expect(hints[0].boats).toEqual(['b', 'a'])
+  })
+
+  it('penalises the boat that just acquired right of way instead of the give-way boat', () => {
+    const engine = new RulesEngine(0)
+    const { a, b } = tackOntoStarboard(engine)
+    b.pos = { x: 5, y: 0 }
+    const state = makeState([a, b], 0, 11)
+    const results = engine.evaluate(state)
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('15')
+    expect(results[0].offenderId).toBe('b')
+
+    const events = engine.toEvents(state, results)
+    expect(events.map((e) => e.kind)).toEqual(['penalty', 'rule_hint'])
+    expect(events[1].message).toContain('a not penalised')
+  })
+
+  it('normal right of way applies once the grace period has passed', () => {
+    const engine = new RulesEngine(0)
+    const { a, b } = tackOntoStarboard(engine)
+    b.pos = { x: 5, y: 0 }
+    const results = engine.evaluate(makeState([a, b], 0, 14))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('10')
+    expect(results[0].offenderId).toBe('a')
+  })
+
+  it('right-of-way boat that bears away into the give-way boat breaks Rule 16', () => {
+    const engine = new RulesEngine(0)
+    const port = makeBoat({ id: 'port', pos: { x: 0, y: 0 }, headingDeg: 45 })
+    const stbd = makeBoat({ id: 'stbd', pos: { x: 40, y: 0 }, headingDeg: 315 })
+    expect(engine.evaluate(makeState([port, stbd], 0, 10))).toHaveLength(0)
+
+    stbd.pos = { x: 5, y: 0 }
+    stbd.headingDeg = 285
+    const results = engine.evaluate(makeState([port, stbd], 0, 11))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('16')
+    expect(results[0].offenderId).toBe('stbd')
+  })
+
+  it('forgets the grace period when the engine is reset for the next race', () => {
+    const engine = new RulesEngine(0)
+    const { a, b } = tackOntoStarboard(engine)
+    engine.reset()
+    b.pos = { x: 5, y: 0 }
+    const results = engine.evaluate(makeState([a, b], 0, -100))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('10')
+    expect(results[0].offenderId).toBe('a')
+  })
+
+  it('holding a steady course keeps Rule 10 with the port tack boat', () => {
+    const engine = new RulesEngine(0)
+    const port = makeBoat({ id: 'port', pos: { x: 0, y: 0 }, headingDeg: 45 })
+    const stbd = makeBoat({ id: 'stbd', pos: { x: 40, y: 0 }, headingDeg: 315 })
+    engine.evaluate(makeState([port, stbd], 0, 10))
+
+    stbd.pos = { x: 5, y: 0 }
+    const results = engine.evaluate(makeState([port, stbd], 0, 11))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('10')
+    expect(results[0].offenderId).toBe('port')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// RulesEngine – Rule 18 (mark-room)
+// ---------------------------------------------------------------------------
+
+describe('RulesEngine – Rule 18', () => {
+  // Windward leg of the default course (leg 1) rounding mark 0, placed north of the boats.
+  const mark = { x: 0, y: -50 }
+  const makeZoneBoat = (overrides: Partial<BoatState> & { id: string }) =>
+    makeBoat({ legIndex: 1, nextMarkIndex: 0, headingDeg: 315, ...overrides })
+  const makeZoneState = (boats: BoatState[], t: number) => ({
+    ...makeState(boats, 0, t),
+    marks: [mark, { x: 50, y: 200 }, { x: -50, y: 200 }],
+  })
+
+  it('sets inMarkZone only within the zone of the next rounding mark', () => {
+    const engine = new RulesEngine(0)
+    const near = makeZoneBoat({ id: 'near', pos: { x: 0, y: 40 } })
+    const far = makeZoneBoat({ id: 'far', pos: { x: 0, y: 200 } })
+    const starting = makeZoneBoat({ id: 'starting', pos: { x: 0, y: 40 }, legIndex: 0 })
+    engine.evaluate(makeZoneState([near, far, starting], 10))
+    expect(near.inMarkZone).toBe(true)
+    expect(far.inMarkZone).toBe(false)
+    expect(starting.inMarkZone).toBe(false)
+  })
+
+  it('outside boat must give room to an inside boat overlapped at the zone', () => {
+    const engine = new RulesEngine(0)
+    // Same tack: without the mark, the inside (windward) boat would be the offender.
+    const inside = makeZoneBoat({ id: 'inside', pos: { x: 0, y: 60 } })
+    const outside = makeZoneBoat({ id: 'outside', pos: { x: 0, y: 83 } })
+    expect(engine.evaluate(makeZoneState([inside, outside], 10))).toHaveLength(0)
+
+    inside.pos = { x: 0, y: 40 }
+    outside.pos = { x: 0, y: 63 }
+    expect(engine.evaluate(makeZoneState([inside, outside], 11))).toHaveLength(0)
+
+    inside.pos = { x: 0, y: 30 }
+    outside.pos = { x: 0, y: 36 }
+    const results = engine.evaluate(makeZoneState([inside, outside], 12))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('18')
+    expect(results[0].offenderId).toBe('outside')
+    expect(results[0].message).toContain('failed to give mark-room')
+  })
+
+  it('boat clear astern at the zone is not entitled to room inside', () => {
+    const engine = new RulesEngine(0)
+    const ahead = makeZoneBoat({ id: 'ahead', pos: { x: 0, y: 60 } })
+    const astern = makeZoneBoat({ id: 'astern', pos: { x: 28, y: 88 } })
+    engine.evaluate(makeZoneState([ahead, astern], 10))
+
+    ahead.pos = { x: 0, y: 40 }
+    astern.pos = { x: 28, y: 68 }
+    engine.evaluate(makeZoneState([ahead, astern], 11))
+
+    ahead.pos = { x: 0, y: 20 }
+    astern.pos = { x: -6, y: 14 }
+    const results = engine.evaluate(makeZoneState([ahead, astern], 12))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('18')
+    expect(results[0].offenderId).toBe('astern')
+    expect(results[0].message).toContain('not entitled')
+  })
+
+  it('does not apply between boats on opposite tacks on a beat', () => {
+    const engine = new RulesEngine(0)
+    const stbd = makeZoneBoat({ id: 'stbd', pos: { x: 0, y: 60 } })
+    const port = makeZoneBoat({ id: 'port', pos: { x: 0, y: 83 } })
+    engine.evaluate(makeZoneState([stbd, port], 10))
+
+    stbd.pos = { x: 0, y: 40 }
+    port.pos = { x: 0, y: 63 }
+    engine.evaluate(makeZoneState([stbd, port], 11))
+
+    stbd.pos = { x: 0, y: 30 }
+    port.pos = { x: 5, y: 30 }
+    port.headingDeg = 45
+    const results = engine.evaluate(makeZoneState([stbd, port], 12))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('10')
+    expect(results[0].offenderId).toBe('port')
+  })
+
+  it('warns the boat that owes mark-room', () => {
+    const engine = new RulesEngine(0)
+    const inside = makeZoneBoat({ id: 'inside', pos: { x: 0, y: 60 } })
+    const outside = makeZoneBoat({ id: 'outside', pos: { x: 0, y: 83 } })
+    engine.evaluate(makeZoneState([inside, outside], 10))
+
+    inside.pos = { x: 0, y: 40 }
+    outside.pos = { x: 0, y: 63 }
+    const state = makeZoneState([inside, outside], 11)
+    engine.evaluate(state)
+
+    const warnings = engine.computeWarnings(state)
+    expect(warnings.get('outside')).toContain('Mark-room')
+    expect(warnings.has('inside')).toBe(false)
+  })
+
+  it('releases the obligation once the entitled boat leaves the zone', () => {
+    const engine = new RulesEngine(0)
+    const inside = makeZoneBoat({ id: 'inside', pos: { x: 0, y: 60 } })
+    const outside = makeZoneBoat({ id: 'outside', pos: { x: 0, y: 83 } })
+    engine.evaluate(makeZoneState([inside, outside], 10))
+
+    inside.pos = { x: 0, y: 40 }
+    outside.pos = { x: 0, y: 63 }
+    engine.evaluate(makeZoneState([inside, outside], 11))
+
+    inside.pos = { x: 0, y: 200 }
+    outside.pos = { x: 0, y: 206 }
+    const results = engine.evaluate(makeZoneState([inside, outside], 12))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('11')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// RulesEngine – Rule 31 (touching a mark)
+// ---------------------------------------------------------------------------
+
+describe('RulesEngine – Rule 31', () => {
+  const withMarks = (boats: BoatState[], t = 10) => ({
+    ...makeState(boats, 0, t),
+    marks: [
+      { x: 0, y: -500 },
+      { x: 100, y: 0 },
+    ],
+  })
+
+  it('penalises a boat whose hull touches the committee boat', () => {
+    const engine = new RulesEngine(5)
+    // Bow circle sits 12 ahead of centre: touching the committee boat at (100, 0).
+    const boat = makeBoat({ id: 'a', pos: { x: 100, y: 15 }, headingDeg: 0 })
+    const results = engine.evaluate(withMarks([boat]))
+    expect(results).toHaveLength(1)
+    expect(results[0].ruleId).toBe('31')
+    expect(results[0].boats).toEqual(['a'])
+    expect(results[0].message).toContain('committee boat')
+  })
+
+  it('does not penalise again until the boat has separated from the mark', () => {
+    const engine = new RulesEngine(5)
+    const boat = makeBoat({ id: 'a', pos: { x: 100, y: 15 }, headingDeg: 0 })
+    expect(engine.evaluate(withMarks([boat], 10))).toHaveLength(1)
+    expect(engine.evaluate(withMarks([boat], 20))).toHaveLength(0)
+
+    boat.pos = { x: 100, y: 80 }
+    expect(engine.evaluate(withMarks([boat], 21))).toHaveLength(0)
+
+    boat.pos = { x: 100, y: 15 }
+    expect(engine.evaluate(withMarks([boat], 22))).toHaveLength(1)
+  })
+
+  it('ignores boats clear of every mark', () => {
+    const engine = new RulesEngine(0)
+    const boat = makeBoat({ id: 'a', pos: { x: 100, y: 40 }, headingDeg: 0 })
+    expect(engine.evaluate(withMarks([boat]))).toHaveLength(0)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // RulesEngine – Cooldown (recordOnce)
 // ---------------------------------------------------------------------------
@@ -452,6 +787,49 @@ describe('RulesEngine – Cooldown', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// RulesEngine – Team racing
+// ---------------------------------------------------------------------------
+
+describe('RulesEngine – Team racing', () => {
+  const portStarboard = (portTeam: 'a' | 'b', stbdTeam: 'a' | 'b') => {
+    const portBoat = makeBoat({
+      id: 'port',
+      pos: { x: 0, y: 0 },
+      headingDeg: 45,
+      team: portTeam,
+    })
+    const stbdBoat = makeBoat({
+      id: 'stbd',
+      pos: { x: 5, y: 0 },
+      headingDeg: 315,
+      team: stbdTeam,
+    })
+    return { ...makeState([portBoat, stbdBoat], 0), raceFormat: 'team' as const }
+  }
+
+  it('does not penalise contact between teammates', () => {
+    const engine = new RulesEngine(0)
+    const state = portStarboard('a', 'a')
+    expect(engine.evaluate(state)).toHaveLength(0)
+    expect(engine.computeCollisionOutcomes(state).faults).toEqual({})
+    expect(engine.computeWarnings(state).size).toBe(0)
+  })
+
+  it('still penalises a foul on the other team', () => {
+    const engine = new RulesEngine(0)
+    const results = engine.evaluate(portStarboard('a', 'b'))
+    expect(results).toHaveLength(1)
+    expect(results[0].offenderId).toBe('port')
+  })
+
+  it('ignores teams outside a team race', () => {
+    const engine = new RulesEngine(0)
+    const state = { ...portStarboard('a', 'a'), raceFormat: 'fleet' as const }
+    expect(engine.evaluate(state)).toHaveLength(1)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // RulesEngine – computeCollisionOutcomes
 // ---------------------------------------------------------------------------
@@ -530,7 +908,8 @@ describe('Deep downwind dead-zone', () => {
     // Wind from north. Both running dead downwind.
     // Windward = more north = lower y.
     const windward = makeBoat({ id: 'windward', pos: { x: 0, y: 0 }, headingDeg: 179 })
-    const leeward = makeBoat({ id: 'leeward', pos: { x: 5, y: 10 }, headingDeg: 181 })
+    // Abeam rather than astern, so this stays a windward/leeward (not Rule 12) case.
+    const leeward = makeBoat({ id: 'leeward', pos: { x: 8, y: 4 }, headingDeg: 181 })
     const state = makeState([windward, leeward], 0)
 
     const results = engine.evaluate(state)
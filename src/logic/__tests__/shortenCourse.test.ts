@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SHORTENED_FINISH_LINE_LENGTH,
+  finishesAtShortenedLine,
+  shortenedFinishLegIndex,
+  shortenedFinishLine,
+} from '@/logic/shortenCourse'
+import { courseDistanceNm } from '@/logic/handicap'
+import { getCourseLegs } from '@/config/course'
+import { createBoatState, createInitialRaceState } from '@/state/factories'
+import type { BoatState } from '@/types/race'
+
+const makeBoat = (id: string, overrides: Partial<BoatState> = {}): BoatState => ({
+  ...createBoatState(id, 0, id),
+  ...overrides,
+})
+
+// Start, windward, gate, windward, finish.
+const state = createInitialRaceState('shorten-test')
+const legs = getCourseLegs(state)
+
+describe('shortenedFinishLegIndex', () => {
+  it('finishes at the mark the leading boat is sailing to', () => {
+    const boats = {
+      a: makeBoat('a', { legIndex: 2 }),
+      b: makeBoat('b', { legIndex: 1 }),
+      c: makeBoat('c', { legIndex: 4, finished: true }),
+    }
+    expect(shortenedFinishLegIndex({ boats }, legs)).toBe(2)
+  })
+
+  it('cannot shorten before the start or on the way to the finish', () => {
+    expect(shortenedFinishLegIndex({ boats: { a: makeBoat('a') } }, legs)).toBeNull()
+    const last = { a: makeBoat('a', { legIndex: legs.length - 1 }) }
+    expect(shortenedFinishLegIndex({ boats: last }, legs)).toBeNull()
+  })
+})
+
+describe('shortenedFinishLine', () => {
+  it('lays the line from a mark to a committee boat on the side it is left', () => {
+    const finish = shortenedFinishLine(state, legs, 1)!
+    const mark = state.marks[legs[1].markIndices[0]]
+    expect(finish.pin).toEqual(mark)
+    expect(finish.headingDeg).toBeCloseTo(0)
+    // Left to port while sailing north, so the committee boat is to the east.
+    expect(finish.committee.x).toBeCloseTo(mark.x + SHORTENED_FINISH_LINE_LENGTH)
+    expect(finish.committee.y).toBeCloseTo(mark.y)
+  })
+
+  it('finishes across a gate between its marks', () => {
+    const finish = shortenedFinishLine(state, legs, 2)!
+    const [left, right] = legs[2].gateMarkIndices!
+    expect(finish.pin).toEqual(state.marks[left])
+    expect(finish.committee).toEqual(state.marks[right])
+    expect(Math.abs(finish.headingDeg - 180)).toBeLessThan(10)
+  })
+
+  it('shortens the course distance used for time-on-distance handicaps', () => {
+    const shortened = { ...state, shortenedFinish: shortenedFinishLine(state, legs, 1)! }
+    expect(courseDistanceNm(shortened)).toBeLessThan(courseDistanceNm(state))
+  })
+})
+
+describe('finishesAtShortenedLine', () => {
+  it('finishes boats on the shortened leg and past it', () => {
+    expect(finishesAtShortenedLine(legs, 3, { legIndex: 3 })).toBe(true)
+    expect(finishesAtShortenedLine(legs, 4, { legIndex: 3 })).toBe(true)
+    expect(finishesAtShortenedLine(legs, 2, { legIndex: 3 })).toBe(false)
+  })
+
+  it('finishes a lapped boat at the same mark a lap earlier', () => {
+    expect(legs[1].markIndices).toEqual(legs[3].markIndices)
+    expect(finishesAtShortenedLine(legs, 1, { legIndex: 3 })).toBe(true)
+    expect(finishesAtShortenedLine(legs, 0, { legIndex: 3 })).toBe(false)
+  })
+})
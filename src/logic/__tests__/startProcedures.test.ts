@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyGeneralRecall,
+  canGeneralRecall,
+  insideTriangle,
+  isStartDisqualified,
+  isXFlagFlying,
+  startPenaltyPoints,
+  startTriangleMark,
+  triangleStartPenalty,
+} from '@/logic/startProcedures'
+import { createBoatState, createInitialRaceState } from '@/state/factories'
+import type { BoatState } from '@/types/race'
+
+const makeBoat = (overrides: Partial<BoatState> = {}): BoatState => ({
+  ...createBoatState('Test', 0, 'test'),
+  ...overrides,
+})
+
+describe('start triangle', () => {
+  const committee = { x: 100, y: 0 }
+  const pin = { x: -100, y: 0 }
+  const mark = { x: 0, y: -400 }
+
+  it('contains points between the line and the first mark', () => {
+    expect(insideTriangle({ x: 0, y: -50 }, committee, pin, mark)).toBe(true)
+    expect(insideTriangle({ x: 90, y: -5 }, committee, pin, mark)).toBe(true)
+  })
+
+  it('excludes points below the line or outside the ends', () => {
+    expect(insideTriangle({ x: 0, y: 10 }, committee, pin, mark)).toBe(false)
+    expect(insideTriangle({ x: 150, y: -20 }, committee, pin, mark)).toBe(false)
+  })
+
+  it('uses the windward mark of the default course', () => {
+    const state = createInitialRaceState('race-test')
+    expect(startTriangleMark(state)).toEqual(state.marks[0])
+  })
+})
+
+describe('start penalties', () => {
+  it('maps each triangle flag to its scoring code', () => {
+    expect(triangleStartPenalty('standard')).toBeNull()
+    expect(triangleStartPenalty('i-flag')).toBeNull()
+    expect(triangleStartPenalty('z-flag')).toBe('zfp')
+    expect(triangleStartPenalty('u-flag')).toBe('ufd')
+    expect(triangleStartPenalty('black-flag')).toBe('bfd')
+  })
+
+  it('adds 20% of the fleet for a Z flag penalty, capped at DNF', () => {
+    const boat = makeBoat({ startPenalty: 'zfp' })
+    expect(startPenaltyPoints(1, boat, 10)).toBe(3)
+    expect(startPenaltyPoints(10, boat, 10)).toBe(11)
+  })
+
+  it('scores UFD and BFD as a DNF', () => {
+    for (const startPenalty of ['ufd', 'bfd'] as const) {
+      const boat = makeBoat({ startPenalty })
+      expect(isStartDisqualified(boat)).toBe(true)
+      expect(startPenaltyPoints(1, boat, 10)).toBe(11)
+    }
+    expect(startPenaltyPoints(4, makeBoat(), 10)).toBe(4)
+  })
+})
+
+describe('individual recall', () => {
+  it('flies the X flag from the start until it is lowered', () => {
+    expect(isXFlagFlying({ t: -1, xFlagUntil: 240 })).toBe(false)
+    expect(isXFlagFlying({ t: 10, xFlagUntil: 240 })).toBe(true)
+    expect(isXFlagFlying({ t: 240, xFlagUntil: 240 })).toBe(false)
+    expect(isXFlagFlying({ t: 10 })).toBe(false)
+  })
+})
+
+describe('general recall', () => {
+  it('may only be called promptly after the start of a fleet race', () => {
+    expect(canGeneralRecall({ t: 30, phase: 'running' })).toBe(true)
+    expect(canGeneralRecall({ t: -30, phase: 'prestart' })).toBe(false)
+    expect(canGeneralRecall({ t: 300, phase: 'running' })).toBe(false)
+    expect(canGeneralRecall({ t: 30, phase: 'running', raceFormat: 'match' })).toBe(false)
+  })
+
+  it('sends every boat back to the start with its recall cleared', () => {
+    const boat = makeBoat({
+      legIndex: 1,
+      overEarly: true,
+      recalled: true,
+      roundTheEnds: true,
+    })
+    applyGeneralRecall({ boats: { [boat.id]: boat } })
+    expect(boat).toMatchObject({
+      legIndex: 0,
+      overEarly: false,
+      recalled: false,
+      roundTheEnds: false,
+    })
+  })
+
+  it('keeps black flag boats disqualified and out of the restart', () => {
+    const bfd = makeBoat({ id: 'bfd', startPenalty: 'bfd' })
+    const ufd = makeBoat({ id: 'ufd', startPenalty: 'ufd' })
+    const zfp = makeBoat({ id: 'zfp', startPenalty: 'zfp' })
+    const excluded = applyGeneralRecall({ boats: { bfd, ufd, zfp } })
+    expect(excluded).toEqual([bfd])
+    expect(isStartDisqualified(bfd)).toBe(true)
+    expect(ufd.startPenalty).toBeUndefined()
+    expect(zfp.startPenalty).toBe('zfp')
+  })
+})
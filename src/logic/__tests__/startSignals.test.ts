@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeSignal,
+  signalFlagsFlying,
+  startSignalSchedule,
+} from '@/logic/startSignals'
+
+describe('startSignalSchedule', () => {
+  it('runs 5-4-1-go for a five minute countdown', () => {
+    expect(startSignalSchedule(300)).toEqual([
+      { signal: 'warning', t: -300 },
+      { signal: 'preparatory', t: -240 },
+      { signal: 'one_minute', t: -60 },
+      { signal: 'start', t: 0 },
+    ])
+  })
+
+  it('caps the warning signal at five minutes', () => {
+    expect(startSignalSchedule(600)[0]).toEqual({ signal: 'warning', t: -300 })
+  })
+
+  it('squeezes short countdowns', () => {
+    expect(startSignalSchedule(180).map((entry) => entry.t)).toEqual([-180, -120, -60, 0])
+    expect(startSignalSchedule(120).map((entry) => entry.t)).toEqual([-120, -90, -60, 0])
+    expect(startSignalSchedule(60)).toEqual([
+      { signal: 'warning', t: -60 },
+      { signal: 'start', t: 0 },
+    ])
+  })
+})
+
+describe('signalFlagsFlying', () => {
+  const schedule = startSignalSchedule(300)
+
+  it('flies the class flag from the warning and the prep flag until one minute', () => {
+    expect(signalFlagsFlying(schedule, -301, 'standard')).toEqual([])
+    expect(signalFlagsFlying(schedule, -280, 'standard')).toEqual(['class'])
+    expect(signalFlagsFlying(schedule, -200, 'z-flag')).toEqual(['class', 'Z'])
+    expect(signalFlagsFlying(schedule, -30, 'z-flag')).toEqual(['class'])
+    expect(signalFlagsFlying(schedule, 0, 'standard')).toEqual([])
+  })
+
+  it('describes each signal', () => {
+    expect(describeSignal(schedule[1], 'i-flag')).toBe(
+      'Preparatory signal: I flag up (4 minutes)',
+    )
+    expect(describeSignal(schedule[2], 'standard')).toBe('One-minute signal: P flag down')
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  balanceTeams,
+  nextTeam,
+  sameTeam,
+  teamRaceBoatPoints,
+  teamRaceResult,
+  teamsReady,
+} from '@/logic/teamRacing'
+import { createBoatState } from '@/state/factories'
+import type { BoatState, TeamId } from '@/types/race'
+
+const makeBoat = (id: string, team: TeamId, finishTime?: number): BoatState => ({
+  ...createBoatState(id, 0, id),
+  team,
+  finished: finishTime !== undefined,
+  finishTime,
+})
+
+/** Four boats finishing in `order`, with a1/a2 on one team and b1/b2 on the other. */
+const race = (order: string[], unfinished: string[] = []) => {
+  const boats: Record<string, BoatState> = {}
+  order.forEach((id, index) => {
+    const finishTime = unfinished.includes(id) ? undefined : 300 + index
+    boats[id] = makeBoat(id, id.startsWith('a') ? 'a' : 'b', finishTime)
+  })
+  return { boats, leaderboard: order }
+}
+
+describe('team assignment', () => {
+  it('alternates boats between the teams', () => {
+    expect(balanceTeams(['p', 'q', 'r', 's'])).toEqual({ p: 'a', q: 'b', r: 'a', s: 'b' })
+  })
+
+  it('puts a new boat on the smaller team', () => {
+    expect(nextTeam([{ team: 'a' }, { team: 'b' }, { team: 'a' }])).toBe('b')
+    expect(nextTeam([{ team: 'a' }, { team: 'b' }])).toBe('a')
+  })
+
+  it('needs two even teams of two to four', () => {
+    expect(teamsReady(race(['a1', 'b1', 'a2', 'b2']))).toBe(true)
+    expect(teamsReady(race(['a1', 'b1', 'a2']))).toBe(false)
+    expect(teamsReady(race(['a1', 'b1']))).toBe(false)
+    const unassigned = race(['a1', 'b1', 'a2', 'b2'])
+    delete unassigned.boats.b2.team
+    expect(teamsReady(unassigned)).toBe(false)
+  })
+
+  it('only treats assigned boats as teammates', () => {
+    expect(sameTeam({ team: 'a' }, { team: 'a' })).toBe(true)
+    expect(sameTeam({ team: 'a' }, { team: 'b' })).toBe(false)
+    expect(sameTeam({}, {})).toBe(false)
+  })
+})
+
+describe('combination scoring', () => {
+  it('wins with a 1-2', () => {
+    const result = teamRaceResult(race(['a1', 'a2', 'b1', 'b2']))
+    expect(result.totals).toEqual({ a: 3, b: 7 })
+    expect(result.winner).toBe('a')
+  })
+
+  it('gives a tie to the team without first place', () => {
+    const result = teamRaceResult(race(['a1', 'b1', 'b2', 'a2']))
+    expect(result.totals).toEqual({ a: 5, b: 5 })
+    expect(result.winner).toBe('b')
+  })
+
+  it('scores boats that did not finish as the number of boats', () => {
+    const state = race(['a1', 'b1', 'b2', 'a2'], ['a2'])
+    expect(teamRaceBoatPoints(state)).toEqual({ a1: 1, b1: 2, b2: 3, a2: 4 })
+  })
+
+  it('has no winner before anyone finishes', () => {
+    const state = race(['a1', 'b1', 'a2', 'b2'], ['a1', 'b1', 'a2', 'b2'])
+    expect(teamRaceResult(state).winner).toBeNull()
+  })
+
+  it('scores an edited finishing order', () => {
+    const state = race(['a1', 'b1', 'a2', 'b2'])
+    expect(teamRaceResult(state, ['b1', 'b2', 'a1', 'a2']).winner).toBe('b')
+  })
+})
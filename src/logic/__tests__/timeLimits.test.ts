@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  defaultTimeLimitConfig,
+  finishingWindowClosed,
+  finishingWindowEnd,
+  firstBoatLimitExpired,
+  mergeTimeLimits,
+  tlePoints,
+} from '@/logic/timeLimits'
+import { createBoatState } from '@/state/factories'
+import type { BoatState, TimeLimitConfig } from '@/types/race'
+
+const makeBoat = (id: string, finishTime?: number): BoatState => ({
+  ...createBoatState(id, 0, id),
+  finished: finishTime !== undefined,
+  finishTime,
+})
+
+const limits = (overrides: Partial<TimeLimitConfig> = {}): TimeLimitConfig => ({
+  ...defaultTimeLimitConfig,
+  ...overrides,
+})
+
+describe('finishing window', () => {
+  it('opens when the first boat finishes', () => {
+    const boats = { a: makeBoat('a', 600), b: makeBoat('b', 540), c: makeBoat('c') }
+    const timeLimits = limits({ windowMinutes: 5 })
+    expect(finishingWindowEnd({ boats, timeLimits })).toBe(840)
+    expect(finishingWindowClosed({ t: 839, boats, timeLimits })).toBe(false)
+    expect(finishingWindowClosed({ t: 840, boats, timeLimits })).toBe(true)
+  })
+
+  it('stays shut until someone finishes or when there is no window', () => {
+    const unfinished = { a: makeBoat('a') }
+    expect(finishingWindowEnd({ boats: unfinished })).toBeNull()
+    const finished = { a: makeBoat('a', 300) }
+    const timeLimits = limits({ windowMinutes: 0 })
+    expect(finishingWindowEnd({ boats: finished, timeLimits })).toBeNull()
+  })
+})
+
+describe('first-boat time limit', () => {
+  it('expires only when nobody has finished', () => {
+    const timeLimits = limits({ firstBoatMinutes: 20 })
+    expect(
+      firstBoatLimitExpired({ t: 1200, boats: { a: makeBoat('a') }, timeLimits }),
+    ).toBe(true)
+    expect(
+      firstBoatLimitExpired({ t: 1200, boats: { a: makeBoat('a', 1190) }, timeLimits }),
+    ).toBe(false)
+    expect(firstBoatLimitExpired({ t: 5000, boats: { a: makeBoat('a') } })).toBe(false)
+  })
+})
+
+describe('tlePoints', () => {
+  it('adds places to the last finisher', () => {
+    expect(tlePoints(limits({ tlePlaces: 2 }), 4, 4, 10)).toBe(6)
+  })
+
+  it('scores the number of finishers plus two', () => {
+    expect(tlePoints(limits({ tleScoring: 'finishers' }), 3, 4, 10)).toBe(6)
+  })
+
+  it('is never worse than a DNF', () => {
+    expect(tlePoints(limits({ tlePlaces: 3 }), 5, 5, 6)).toBe(7)
+  })
+
+  it('scores a DNF when nobody finished', () => {
+    expect(tlePoints(limits(), 0, 0, 10)).toBe(11)
+    expect(tlePoints(limits({ tleScoring: 'finishers' }), 0, 0, 10)).toBe(11)
+  })
+})
+
+describe('mergeTimeLimits', () => {
+  it('keeps the current settings for anything not offered', () => {
+    const merged = mergeTimeLimits(defaultTimeLimitConfig, {
+      firstBoatMinutes: 30,
+      windowMinutes: 7,
+      tleScoring: 'bogus' as TimeLimitConfig['tleScoring'],
+    })
+    expect(merged).toEqual({ ...defaultTimeLimitConfig, firstBoatMinutes: 30 })
+  })
+})
@@ -0,0 +1,247 @@
+import type { BoatClassId, BoatState } from '@/types/race'
+import {
+  ACCELERATION_RATE,
+  BOAT_LENGTH,
+  DECELERATION_RATE,
+  MANEUVER_RECOVERY_SECONDS,
+  MAX_SPEED_KTS,
+  TACK_SPEED_PENALTY,
+  TURN_RATE_DEG,
+} from '@/logic/constants'
+
+/**
+ * Boat speed (kts, sails trimmed perfectly) on a grid of true wind speed rows
+ * by true wind angle columns.  Values between grid points are interpolated;
+ * wind outside the grid uses the nearest row.
+ */
+export type PolarGrid = {
+  twsKts: number[]
+  twaDeg: number[]
+  speedKts: number[][]
+}
+
+export type BoatClass = {
+  id: BoatClassId
+  name: string
+  polar: PolarGrid
+  maxSpeedKts: number
+  /** Degrees per second for large turns (tacks, gybes, spins). */
+  turnRateDeg: number
+  /** Speed smoothing rates, as fractions of the speed gap closed per second. */
+  accelerationRate: number
+  decelerationRate: number
+  /** Target speed multipliers through a tack or gybe in medium air (1 = no loss). */
+  tackSpeedPenalty: number
+  gybeSpeedPenalty: number
+  /** Seconds to rebuild full speed after a tack or gybe in medium air. */
+  maneuverRecoverySeconds: number
+  /** Hull length in scene units; the collision capsule scales with it. */
+  hullLength: number
+  /** Default handicap ratings: PHRF seconds per mile and Portsmouth Number. */
+  phrfRating: number
+  portsmouthNumber: number
+}
+
+/**
+ * The game dinghy, as speed/wind-speed ratios per TWS row.  Light air wants a
+ * fuller upwind angle (~50°) and a hotter downwind angle (~140°); in a breeze
+ * the boat points higher (~38°), runs deeper (~160°) and stops gaining speed
+ * as fast as the wind builds.
+ */
+const GENERIC_TWA = [
+  0, 20, 30, 35, 40, 45, 50, 60, 75, 90, 110, 135, 140, 150, 160, 170, 180,
+]
+
+const genericRatios: [number, number[]][] = [
+  [
+    4,
+    [
+      0, 0.1, 0.3, 0.38, 0.46, 0.55, 0.63, 0.76, 0.9, 0.98, 1.08, 1.16, 1.08, 0.88, 0.74,
+      0.6, 0.42,
+    ],
+  ],
+  [
+    8,
+    [
+      0, 0.15, 0.38, 0.45, 0.52, 0.6, 0.67, 0.78, 0.9, 0.965, 1.065, 1.13, 1.13, 0.99,
+      0.86, 0.7, 0.47,
+    ],
+  ],
+  [
+    12,
+    [
+      0, 0.2, 0.45, 0.517, 0.583, 0.65, 0.7, 0.8, 0.9, 0.95, 1.05, 1.1, 1.15, 1.0, 0.9,
+      0.75, 0.5,
+    ],
+  ],
+  [
+    16,
+    [
+      0, 0.22, 0.5, 0.57, 0.62, 0.66, 0.69, 0.76, 0.85, 0.9, 1.0, 1.06, 1.1, 1.04, 0.96,
+      0.83, 0.6,
+    ],
+  ],
+  [
+    20,
+    [
+      0, 0.22, 0.5, 0.56, 0.6, 0.63, 0.655, 0.71, 0.79, 0.84, 0.93, 0.99, 1.02, 1.0, 0.95,
+      0.86, 0.66,
+    ],
+  ],
+  [
+    25,
+    [
+      0, 0.2, 0.45, 0.5, 0.54, 0.565, 0.585, 0.635, 0.7, 0.745, 0.825, 0.88, 0.905, 0.89,
+      0.85, 0.77, 0.6,
+    ],
+  ],
+]
+
+const genericPolar: PolarGrid = {
+  twsKts: [0, ...genericRatios.map(([tws]) => tws)],
+  twaDeg: GENERIC_TWA,
+  speedKts: [
+    GENERIC_TWA.map(() => 0),
+    ...genericRatios.map(([tws, ratios]) => ratios.map((ratio) => ratio * tws)),
+  ],
+}
+
+const CLASS_POLAR_TWS = [0, 6, 10, 14, 18, 22]
+const CLASS_POLAR_TWA = [0, 25, 35, 45, 60, 75, 90, 110, 135, 150, 165, 180]
+
+/** Polar for a real class, one row per `CLASS_POLAR_TWS` entry above zero. */
+const classPolar = (rows: number[][]): PolarGrid => ({
+  twsKts: CLASS_POLAR_TWS,
+  twaDeg: CLASS_POLAR_TWA,
+  speedKts: [CLASS_POLAR_TWA.map(() => 0), ...rows],
+})
+
+/** Real hulls in metres, scaled against the generic dinghy (a Laser-sized hull). */
+const hullLengthForMetres = (metres: number) => BOAT_LENGTH * (metres / 4.2)
+
+export const boatClasses: Record<BoatClassId, BoatClass> = {
+  generic: {
+    id: 'generic',
+    name: 'Generic dinghy',
+    polar: genericPolar,
+    maxSpeedKts: MAX_SPEED_KTS,
+    turnRateDeg: TURN_RATE_DEG,
+    accelerationRate: ACCELERATION_RATE,
+    decelerationRate: DECELERATION_RATE,
+    tackSpeedPenalty: TACK_SPEED_PENALTY,
+    gybeSpeedPenalty: TACK_SPEED_PENALTY,
+    maneuverRecoverySeconds: MANEUVER_RECOVERY_SECONDS,
+    hullLength: BOAT_LENGTH,
+    phrfRating: 60,
+    portsmouthNumber: 800,
+  },
+  laser: {
+    id: 'laser',
+    name: 'Laser (ILCA 7)',
+    polar: classPolar([
+      [0, 1.0, 3.1, 3.9, 4.6, 5.0, 5.1, 5.0, 4.4, 3.9, 3.5, 3.3],
+      [0, 1.3, 4.0, 4.8, 5.6, 6.1, 6.5, 6.8, 6.0, 5.3, 4.8, 4.6],
+      [0, 1.5, 4.4, 5.2, 6.1, 7.0, 8.0, 8.8, 7.8, 6.6, 5.9, 5.6],
+      [0, 1.6, 4.6, 5.4, 6.4, 7.6, 9.0, 10.4, 9.8, 8.0, 7.0, 6.6],
+      [0, 1.6, 4.6, 5.4, 6.5, 7.9, 9.6, 11.4, 11.4, 9.4, 8.0, 7.5],
+    ]),
+    maxSpeedKts: 16,
+    turnRateDeg: 100,
+    accelerationRate: 0.7,
+    decelerationRate: 0.45,
+    tackSpeedPenalty: 0.7,
+    gybeSpeedPenalty: 0.75,
+    maneuverRecoverySeconds: 2.5,
+    hullLength: hullLengthForMetres(4.2),
+    phrfRating: 216,
+    portsmouthNumber: 1100,
+  },
+  '420': {
+    id: '420',
+    name: '420',
+    polar: classPolar([
+      [0, 1.0, 3.2, 4.0, 4.8, 5.3, 5.5, 5.6, 5.2, 4.6, 4.0, 3.7],
+      [0, 1.3, 4.2, 5.0, 5.9, 6.6, 7.0, 7.6, 7.2, 6.2, 5.4, 5.0],
+      [0, 1.5, 4.6, 5.5, 6.5, 7.5, 8.4, 9.6, 9.2, 7.8, 6.6, 6.1],
+      [0, 1.6, 4.8, 5.7, 6.9, 8.2, 9.4, 11.2, 11.0, 9.2, 7.8, 7.2],
+      [0, 1.6, 4.8, 5.8, 7.0, 8.6, 10.0, 12.2, 12.4, 10.4, 8.8, 8.0],
+    ]),
+    maxSpeedKts: 18,
+    turnRateDeg: 95,
+    accelerationRate: 0.65,
+    decelerationRate: 0.45,
+    tackSpeedPenalty: 0.72,
+    gybeSpeedPenalty: 0.72,
+    maneuverRecoverySeconds: 2.5,
+    hullLength: hullLengthForMetres(4.2),
+    phrfRating: 222,
+    portsmouthNumber: 1105,
+  },
+  j70: {
+    id: 'j70',
+    name: 'J/70',
+    polar: classPolar([
+      [0, 1.2, 4.0, 5.2, 6.0, 6.4, 6.5, 6.6, 6.2, 5.4, 4.4, 3.9],
+      [0, 1.5, 5.0, 6.2, 6.9, 7.3, 7.5, 7.9, 7.8, 7.0, 5.8, 5.2],
+      [0, 1.7, 5.4, 6.5, 7.2, 7.7, 8.2, 9.6, 10.4, 9.4, 7.2, 6.4],
+      [0, 1.8, 5.6, 6.7, 7.4, 8.0, 8.8, 11.6, 13.6, 12.2, 8.8, 7.6],
+      [0, 1.8, 5.6, 6.8, 7.5, 8.2, 9.3, 13.2, 16.0, 14.6, 10.2, 8.6],
+    ]),
+    maxSpeedKts: 20,
+    turnRateDeg: 55,
+    accelerationRate: 0.35,
+    decelerationRate: 0.25,
+    tackSpeedPenalty: 0.8,
+    gybeSpeedPenalty: 0.85,
+    maneuverRecoverySeconds: 4.5,
+    hullLength: hullLengthForMetres(6.94),
+    phrfRating: 117,
+    portsmouthNumber: 925,
+  },
+}
+
+export const defaultBoatClassId: BoatClassId = 'generic'
+
+export const boatClassOptions = Object.values(boatClasses).map(({ id, name }) => ({
+  id,
+  name,
+}))
+
+export const isBoatClassId = (value: unknown): value is BoatClassId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(boatClasses, value)
+
+export const getBoatClass = (classId?: BoatClassId) =>
+  boatClasses[classId ?? defaultBoatClassId] ?? boatClasses[defaultBoatClassId]
+
+export const boatClassFor = (boat: Pick<BoatState, 'classId'>) =>
+  getBoatClass(boat.classId)
+
+/** Scale of a class's hull relative to the generic collision capsule. */
+export const hullScale = (boatClass: BoatClass) => boatClass.hullLength / BOAT_LENGTH
+
+/** Index of the grid cell containing `value`, and how far across it `value` lies. */
+const gridCell = (axis: number[], value: number) => {
+  if (value <= axis[0]) return { index: 0, t: 0 }
+  const last = axis.length - 1
+  if (value >= axis[last]) return { index: Math.max(0, last - 1), t: last > 0 ? 1 : 0 }
+  let index = 0
+  while (index < last - 1 && value > axis[index + 1]) index += 1
+  const span = axis[index + 1] - axis[index] || 1
+  return { index, t: (value - axis[index]) / span }
+}
+
+/**
+ * Bilinear lookup of boat speed (kts) from a polar grid.  The TWA sign is
+ * ignored so both tacks share one table.
+ */
+export const polarSpeedKts = (polar: PolarGrid, twaDeg: number, twsKts: number) => {
+  const row = gridCell(polar.twsKts, twsKts)
+  const col = gridCell(polar.twaDeg, Math.min(180, Math.abs(twaDeg)))
+  const at = (r: number, c: number) =>
+    polar.speedKts[Math.min(r, polar.speedKts.length - 1)]?.[c] ?? 0
+  const lower =
+    at(row.index, col.index) * (1 - col.t) + at(row.index, col.index + 1) * col.t
+  const upper =
+    at(row.index + 1, col.index) * (1 - col.t) + at(row.index + 1, col.index + 1) * col.t
+  return lower * (1 - row.t) + upper * row.t
+}
@@ -5,6 +5,7 @@ import {
   BOAT_STERN_OFFSET,
   BOAT_STERN_RADIUS,
 } from '@/logic/constants'
+import { boatClassFor, hullScale } from '@/logic/boatClasses'
 
 export type BoatCircle = { x: number; y: number; r: number }
 
@@ -20,15 +21,17 @@ export const boatCapsuleCircles = (
   pos: Vec2 = boat.pos,
 ): BoatCircle[] => {
   const dir = headingForward(boat.headingDeg)
+  // Longer classes get a proportionally larger capsule.
+  const scale = hullScale(boatClassFor(boat))
   const bow: BoatCircle = {
-    x: pos.x + dir.x * BOAT_BOW_OFFSET,
-    y: pos.y + dir.y * BOAT_BOW_OFFSET,
-    r: BOAT_BOW_RADIUS,
+    x: pos.x + dir.x * BOAT_BOW_OFFSET * scale,
+    y: pos.y + dir.y * BOAT_BOW_OFFSET * scale,
+    r: BOAT_BOW_RADIUS * scale,
   }
   const stern: BoatCircle = {
-    x: pos.x + dir.x * BOAT_STERN_OFFSET,
-    y: pos.y + dir.y * BOAT_STERN_OFFSET,
-    r: BOAT_STERN_RADIUS,
+    x: pos.x + dir.x * BOAT_STERN_OFFSET * scale,
+    y: pos.y + dir.y * BOAT_STERN_OFFSET * scale,
+    r: BOAT_STERN_RADIUS * scale,
   }
   return [bow, stern]
 }
@@ -9,7 +9,7 @@ import {
   GATE_COLLIDER_RADIUS,
   MARK_COLLIDER_RADIUS,
 } from '@/logic/constants'
-import { courseLegs } from '@/config/course'
+import { courseGateMarkIndices, getCourseDefinition } from '@/config/course'
 
 type CollisionResult = {
   correctedPositions: Map<string, Vec2>
@@ -31,14 +31,6 @@ const boatBodies = new Map<string, any>()
 const boatColliders = new Map<string, Array<unknown>>()
 let markColliders: MarkCollider[] = []
 
-const gateMarkIndices = new Set<number>()
-courseLegs.forEach((leg) => {
-  if (leg.kind === 'gate' && leg.gateMarkIndices) {
-    gateMarkIndices.add(leg.gateMarkIndices[0])
-    gateMarkIndices.add(leg.gateMarkIndices[1])
-  }
-})
-
 const degToRad = (deg: number) => (deg * Math.PI) / 180
 
 const ensureRapier = () => {
@@ -56,7 +48,10 @@ const ensureRapier = () => {
 }
 
 const buildMarksKey = (state: RaceState) =>
-  state.marks.map((mark) => `${mark.x.toFixed(3)},${mark.y.toFixed(3)}`).join('|')
+  [
+    getCourseDefinition(state).id,
+    ...state.marks.map((mark) => `${mark.x.toFixed(3)},${mark.y.toFixed(3)}`),
+  ].join('|')
 
 const rebuildWorld = (state: RaceState) => {
   if (!rapier) return
@@ -65,6 +60,7 @@ const rebuildWorld = (state: RaceState) => {
   boatColliders.clear()
   markColliders = []
   marksKey = buildMarksKey(state)
+  const gateMarkIndices = courseGateMarkIndices(getCourseDefinition(state))
 
   state.marks.forEach((mark, index) => {
     const radius = gateMarkIndices.has(index)
@@ -6,18 +6,27 @@ export const TURN_RATE_DEG = 90 //How fast a boat turns in degrees per second
 export const ACCELERATION_RATE = 0.6 //How fast a boat accelerates in meters per second per second
 export const DECELERATION_RATE = 0.4 //How fast a boat decelerates in meters per second per second
 export const PORT_STARBOARD_DISTANCE = 19 //How far apart the ports and starboards are in meters
-export const NO_GO_ANGLE_DEG = 25 //How far a boat can go before it stalls (we block this angle)
+export const NO_GO_ANGLE_DEG = 25 //Narrowest no-go half-angle; the zone widens in light air
+export const NO_GO_MARGIN_DEG = 20 //How far inside the best upwind VMG angle the no-go zone starts
 export const MAX_DOWNWIND_ANGLE_DEG = 177 // Maximum allowed downwind angle (TWA). Set to 180 to allow sailing as deep downwind as desired.
 export const HEADING_STEP_DEG = 5 //How much a boat can turn in one step
 export const HARD_TURN_STEP_DEG = 20 //How much a boat can turn in one step when holding Shift
 export const STALL_DURATION_S = 3 //How long a boat stalls in seconds
 export const STALL_SPEED_FACTOR = 0.35 //How much a boat slows down when it stalls
 export const DEFAULT_SHEET = 0.75 //How much sheet a boat has when it starts
+export const SHEET_STEP = 0.05 //How far one ease/trim key press moves the sheet under manual trim
+export const HARD_SHEET_STEP = 0.2 //Sheet step with the hard-turn modifier held
 export const SPIN_HOLD_SECONDS = 2 //How long a boat holds when it spins
+export const FOULED_FLASH_SECONDS = 2 //How long a penalised boat flashes as fouled
+export const PENALTY_TURNS = 2 //Turns needed to clear a foul (Appendix 44.1 two-turns penalty)
+export const MARK_PENALTY_TURNS = 1 //Turns needed to clear touching a mark (Rule 31, Appendix 44.2)
 export const TACK_LOCK_ENABLED = false //Whether a boat can tack while it is locked
 export const TACK_MIN_TIME_SECONDS = 1.0 //Minimum tack time in seconds
 export const TACK_SPEED_PENALTY = 0.7 //Speed Multiplier:lower = slower, 1.0 = no penalty
 export const TACK_MIN_ANGLE_DEG = 30 //Minimum turn angle (degrees) to be considered a tack and apply speed penalty
+export const MANEUVER_RECOVERY_SECONDS = 2.5 //Seconds to rebuild speed after a tack or gybe in medium air
+export const ROLL_WINDOW_DEG = 20 //A roll counts while the bow (tack) or stern (gybe) is within this many degrees of the wind
+export const ROLL_LOSS_REDUCTION = 0.6 //Share of a tack or gybe's speed loss a perfectly timed roll saves
 export const MAX_REVERSE_SPEED_KTS = 0 //Max reverse speed when blowing sails (L key)
 export const LEEWARD_DRIFT_SPEED_KTS = 1.3 //Leeward drift when speed is zero or less
 export const LEEWARD_DRIFT_THRESHOLD_KTS = 0.8 //Leeward drift below this speed
@@ -34,6 +43,11 @@ export const BOAT_STERN_OFFSET = -6 // aft offset from boat center
 export const BOAT_LENGTH = BOAT_BOW_OFFSET - BOAT_STERN_OFFSET // total boat length (scene units)
 export const WAKE_FORWARD_OFFSET_MAX = BOAT_LENGTH * 0.6 // Forward shift when deep downwind
 
+// Rule 18 zone: three hull lengths around a rounding mark. The drawn hull is
+// ~2× `BOAT_LENGTH` (which spans the collision circle centres), so measure in
+// drawn lengths to match what players see.
+export const MARK_ZONE_RADIUS = 3 * 2 * BOAT_LENGTH
+
 // Mark collision radii (aligned with RaceScene drawing sizes)
 export const MARK_COLLIDER_RADIUS = 6
 export const GATE_COLLIDER_RADIUS = 7
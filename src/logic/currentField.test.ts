@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  courseOverGround,
+  getCurrentFieldConfig,
+  laylineBearings,
+  sampleCurrentKts,
+} from './currentField'
+import type { CurrentFieldConfig, RaceState } from '@/types/race'
+
+const makeState = (overrides: Partial<CurrentFieldConfig> = {}, t = 0): RaceState =>
+  ({
+    t,
+    currentField: {
+      enabled: true,
+      mode: 'uniform',
+      setDeg: 90,
+      driftKts: 2,
+      gradientWidthWorld: 1000,
+      periodSeconds: 600,
+      phase: 0,
+      ...overrides,
+    },
+  }) as RaceState
+
+describe('getCurrentFieldConfig', () => {
+  it('returns null when disabled or slack', () => {
+    expect(getCurrentFieldConfig(makeState({ enabled: false }))).toBeNull()
+    expect(getCurrentFieldConfig(makeState({ driftKts: 0 }))).toBeNull()
+  })
+})
+
+describe('sampleCurrentKts', () => {
+  it('flows along the set everywhere when uniform', () => {
+    const current = sampleCurrentKts(makeState(), { x: 300, y: -800 })
+    expect(current.x).toBeCloseTo(2)
+    expect(current.y).toBeCloseTo(0)
+  })
+
+  it('ramps drift across the set in a gradient', () => {
+    // Set east: the right-hand side looking down-current is south (+y).
+    const state = makeState({ mode: 'gradient' })
+    expect(sampleCurrentKts(state, { x: 0, y: 500 }).x).toBeCloseTo(2)
+    expect(sampleCurrentKts(state, { x: 0, y: 0 }).x).toBeCloseTo(1)
+    expect(sampleCurrentKts(state, { x: 0, y: -500 }).x).toBeCloseTo(0)
+  })
+
+  it('floods and ebbs over the tidal cycle', () => {
+    const at = (t: number) =>
+      sampleCurrentKts(makeState({ mode: 'tidal' }, t), { x: 0, y: 0 })
+    expect(at(0).x).toBeCloseTo(0)
+    expect(at(150).x).toBeCloseTo(2)
+    expect(at(450).x).toBeCloseTo(-2)
+  })
+})
+
+describe('laylineBearings', () => {
+  it('matches still-water tacking angles without current', () => {
+    const [starboard, port] = laylineBearings(0, 45, 5, { x: 0, y: 0 })
+    expect(starboard).toBeCloseTo(225)
+    expect(port).toBeCloseTo(135)
+  })
+
+  it('bends both laylines down-current', () => {
+    const [starboard, port] = laylineBearings(0, 45, 5, { x: 2, y: 0 })
+    // Current setting east pushes both ground tracks east, so the lines back
+    // from the mark swing west.
+    expect(starboard).toBeGreaterThan(225)
+    expect(port).toBeGreaterThan(135)
+    expect(courseOverGround(45, 5, { x: 2, y: 0 }).sogKts).toBeGreaterThan(5)
+  })
+})
@@ -0,0 +1,115 @@
+import type { CurrentFieldConfig, CurrentMode, RaceState, Vec2 } from '@/types/race'
+import { KNOTS_TO_MS } from '@/logic/constants'
+import { appEnv } from '@/config/env'
+
+const degToRad = (deg: number) => (deg * Math.PI) / 180
+
+const radToDeg = (rad: number) => (rad * 180) / Math.PI
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value))
+
+export const currentModeOptions: { id: CurrentMode; name: string }[] = [
+  { id: 'uniform', name: 'Uniform' },
+  { id: 'gradient', name: 'Gradient across course' },
+  { id: 'tidal', name: 'Tidal cycle' },
+]
+
+export const isCurrentMode = (value: unknown): value is CurrentMode =>
+  currentModeOptions.some((option) => option.id === value)
+
+/** Slack water: a one-knot flood running up the course, switched off. */
+export const defaultCurrentField: CurrentFieldConfig = {
+  enabled: false,
+  mode: 'uniform',
+  setDeg: 0,
+  driftKts: 1,
+  gradientWidthWorld: 1200,
+  periodSeconds: 1200,
+  phase: 0.25,
+}
+
+export const getCurrentFieldConfig = (
+  state: Pick<RaceState, 'currentField'>,
+): CurrentFieldConfig | null => {
+  const cfg = state.currentField
+  if (!cfg?.enabled) return null
+  if (!Number.isFinite(cfg.driftKts) || cfg.driftKts <= 0) return null
+  if (!Number.isFinite(cfg.setDeg)) return null
+  return cfg
+}
+
+/** Unit vector the current flows along, in world coordinates (+Y = south). */
+const setVector = (setDeg: number): Vec2 => {
+  const rad = degToRad(setDeg)
+  return { x: Math.sin(rad), y: -Math.cos(rad) }
+}
+
+/** Fraction of `driftKts` running at `pos` and time `t` (negative on the ebb). */
+const driftFactor = (cfg: CurrentFieldConfig, pos: Vec2, t: number) => {
+  if (cfg.mode === 'gradient') {
+    const set = setVector(cfg.setDeg)
+    // Distance to the right of the set direction, looking down-current.
+    const cross = pos.x * -set.y + pos.y * set.x
+    const width = Math.max(1, cfg.gradientWidthWorld)
+    return clamp(0.5 + cross / width, 0, 1)
+  }
+  if (cfg.mode === 'tidal') {
+    const period = Math.max(1, cfg.periodSeconds)
+    return Math.sin(2 * Math.PI * (t / period + (cfg.phase ?? 0)))
+  }
+  return 1
+}
+
+/**
+ * Current at a world position as a velocity in knots along world axes.
+ * Deterministic for a given (cfg, t).
+ */
+export const sampleCurrentKts = (state: RaceState, pos: Vec2): Vec2 => {
+  const cfg = getCurrentFieldConfig(state)
+  if (!cfg) return { x: 0, y: 0 }
+  const set = setVector(cfg.setDeg)
+  const drift = cfg.driftKts * driftFactor(cfg, pos, state.t)
+  return { x: set.x * drift, y: set.y * drift }
+}
+
+/** Current at a world position in world units per second, ready to add to boat motion. */
+export const sampleCurrentVelocity = (state: RaceState, pos: Vec2): Vec2 => {
+  const current = sampleCurrentKts(state, pos)
+  const scale = KNOTS_TO_MS * appEnv.speedMultiplier
+  return { x: current.x * scale, y: current.y * scale }
+}
+
+/**
+ * Course and speed over ground for a boat sailing `headingDeg` at `speedKts`
+ * through water moving at `currentKts`.
+ */
+export const courseOverGround = (
+  headingDeg: number,
+  speedKts: number,
+  currentKts: Vec2,
+) => {
+  const rad = degToRad(headingDeg)
+  const x = Math.sin(rad) * speedKts + currentKts.x
+  const y = -Math.cos(rad) * speedKts + currentKts.y
+  const cogDeg = (radToDeg(Math.atan2(x, -y)) + 360) % 360
+  return { cogDeg, sogKts: Math.hypot(x, y) }
+}
+
+/**
+ * Bearings (deg) pointing back from a mark along each tack's course over
+ * ground, at true wind angle `twaDeg`.  A boat on either line fetches the
+ * mark without another tack or gybe, so cross-current bends both lines.
+ */
+export const laylineBearings = (
+  windDirDeg: number,
+  twaDeg: number,
+  speedKts: number,
+  currentKts: Vec2,
+): [number, number] => {
+  const back = (sign: number) => {
+    const { cogDeg } = courseOverGround(windDirDeg + sign * twaDeg, speedKts, currentKts)
+    return (cogDeg + 180) % 360
+  }
+  return [back(1), back(-1)]
+}
@@ -0,0 +1,131 @@
+import type { BoatState, HandicapSystem, RaceState, Vec2 } from '@/types/race'
+import { getCourseLegs } from '@/config/course'
+import { boatClassFor } from '@/logic/boatClasses'
+import { KNOTS_TO_MS } from '@/logic/constants'
+
+/** PHRF time-on-time coefficients: corrected = elapsed × A / (B + rating). */
+export const PHRF_TOT_A = 650
+export const PHRF_TOT_B = 550
+
+/** Bounds for a boat's own PHRF rating; time-on-time needs more than -B. */
+export const PHRF_RATING_MIN = -300
+export const PHRF_RATING_MAX = 600
+
+/** Upper bound for a boat's own Portsmouth Number, which must be positive. */
+export const PORTSMOUTH_NUMBER_MAX = 3000
+
+/** Scene units sailed in an hour at one knot, i.e. one nautical mile. */
+const UNITS_PER_NM = KNOTS_TO_MS * 3600
+
+export const defaultHandicapSystem: HandicapSystem = 'none'
+
+export const handicapSystemOptions: { id: HandicapSystem; name: string }[] = [
+  { id: 'none', name: 'Scratch (elapsed time)' },
+  { id: 'phrf-tot', name: 'PHRF time-on-time' },
+  { id: 'phrf-tod', name: 'PHRF time-on-distance' },
+  { id: 'portsmouth', name: 'Portsmouth Yardstick' },
+]
+
+export const isHandicapSystem = (value: unknown): value is HandicapSystem =>
+  handicapSystemOptions.some((option) => option.id === value)
+
+export const getHandicapSystem = (state: Pick<RaceState, 'handicapSystem'>) =>
+  state.handicapSystem ?? defaultHandicapSystem
+
+export const isHandicapRace = (state: Pick<RaceState, 'handicapSystem'>) =>
+  getHandicapSystem(state) !== 'none'
+
+/**
+ * PHRF ratings serve both PHRF systems; everything else, including a pursuit
+ * sailed without a system, rates boats by Portsmouth Number.
+ */
+export const usesPhrfRatings = (system: HandicapSystem) =>
+  system === 'phrf-tot' || system === 'phrf-tod'
+
+/** Whether `rating` can be used as a boat's own rating under `system`. */
+export const isValidRating = (rating: number, system: HandicapSystem) => {
+  if (!Number.isFinite(rating)) return false
+  return usesPhrfRatings(system)
+    ? rating >= PHRF_RATING_MIN && rating <= PHRF_RATING_MAX
+    : rating > 0 && rating <= PORTSMOUTH_NUMBER_MAX
+}
+
+/** The boat's own rating if set, otherwise its class rating for `system`. */
+export const boatRating = (
+  boat: Pick<BoatState, 'classId' | 'rating'>,
+  system: HandicapSystem,
+) => {
+  if (boat.rating !== undefined) return boat.rating
+  const boatClass = boatClassFor(boat)
+  return system === 'portsmouth' ? boatClass.portsmouthNumber : boatClass.phrfRating
+}
+
+const midpoint = (points: Vec2[]): Vec2 => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+})
+
+/**
+ * Course length in nautical miles, measured through the middle of each leg's
+ * marks (gate and line midpoints) from the start line to the finish, or to
+ * the mark where course was shortened.
+ */
+export const courseDistanceNm = (
+  state: Pick<RaceState, 'course' | 'lapsToFinish' | 'marks' | 'shortenedFinish'>,
+) => {
+  const legs = getCourseLegs(state)
+  const lastLegIndex = state.shortenedFinish?.legIndex ?? legs.length - 1
+  const waypoints = legs
+    .slice(0, lastLegIndex + 1)
+    .map((leg) => leg.markIndices.map((index) => state.marks[index]).filter(Boolean))
+    .filter((marks) => marks.length > 0)
+    .map(midpoint)
+  let distance = 0
+  for (let i = 1; i < waypoints.length; i += 1) {
+    distance += Math.hypot(
+      waypoints[i].x - waypoints[i - 1].x,
+      waypoints[i].y - waypoints[i - 1].y,
+    )
+  }
+  return distance / UNITS_PER_NM
+}
+
+/** Corrected time for an elapsed time, or the elapsed time when racing scratch. */
+export const correctedTime = (
+  elapsed: number,
+  boat: Pick<BoatState, 'classId' | 'rating'>,
+  state: Pick<RaceState, 'handicapSystem' | 'course' | 'lapsToFinish' | 'marks'>,
+) => {
+  const system = getHandicapSystem(state)
+  if (system === 'none') return elapsed
+  const rating = boatRating(boat, system)
+  if (system === 'phrf-tot') return (elapsed * PHRF_TOT_A) / (PHRF_TOT_B + rating)
+  if (system === 'phrf-tod') return elapsed - rating * courseDistanceNm(state)
+  return (elapsed * 1000) / rating
+}
+
+/** Time a boat is scored on: corrected under a handicap, otherwise elapsed. */
+export const scoredTime = (
+  boat: Pick<BoatState, 'finishTime' | 'correctedTime'>,
+  state: Pick<RaceState, 'handicapSystem'>,
+) => (isHandicapRace(state) ? (boat.correctedTime ?? boat.finishTime) : boat.finishTime)
+
+/**
+ * Reorder `leaderboard` so finished boats rank by corrected time.  Boats
+ * without a finish time keep their places behind them, in their current order.
+ */
+export const rankByCorrectedTime = (
+  leaderboard: string[],
+  state: Pick<RaceState, 'boats' | 'handicapSystem'>,
+) => {
+  if (!isHandicapRace(state)) return leaderboard
+  const timeOf = (boatId: string) => {
+    const boat = state.boats[boatId]
+    if (!boat?.finished || !boat.finishTime) return null
+    return scoredTime(boat, state) ?? null
+  }
+  const finished = leaderboard.filter((boatId) => timeOf(boatId) !== null)
+  const unfinished = leaderboard.filter((boatId) => timeOf(boatId) === null)
+  finished.sort((a, b) => timeOf(a)! - timeOf(b)!)
+  return [...finished, ...unfinished]
+}
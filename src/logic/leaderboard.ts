@@ -23,6 +23,10 @@ export const compareBoats = (a: BoatState, b: BoatState) => {
     return (b.lap ?? 0) - (a.lap ?? 0)
   }
 
+  if ((b.legIndex ?? 0) !== (a.legIndex ?? 0)) {
+    return (b.legIndex ?? 0) - (a.legIndex ?? 0)
+  }
+
   if ((b.nextMarkIndex ?? 0) !== (a.nextMarkIndex ?? 0)) {
     return (b.nextMarkIndex ?? 0) - (a.nextMarkIndex ?? 0)
   }
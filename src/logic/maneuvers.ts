@@ -0,0 +1,196 @@
+import type { BoatState, ManeuverKind, ManeuverPhase } from '@/types/race'
+import { HEADING_STEP_DEG, ROLL_LOSS_REDUCTION, ROLL_WINDOW_DEG } from '@/logic/constants'
+import type { BoatClass } from '@/logic/boatClasses'
+
+/**
+ * How a maneuver's cost scales with true wind speed, relative to the class
+ * figures (which describe medium air).  Tacks bleed more in light air, where
+ * there is little pressure to rebuild with; gybes get harder as it blows up.
+ * Recovery takes longer in light air and less once the boat is powered up.
+ */
+const MANEUVER_WIND_SCALING: {
+  twsKts: number
+  tackLoss: number
+  gybeLoss: number
+  recovery: number
+}[] = [
+  { twsKts: 4, tackLoss: 1.3, gybeLoss: 0.7, recovery: 1.6 },
+  { twsKts: 8, tackLoss: 1.1, gybeLoss: 0.85, recovery: 1.25 },
+  { twsKts: 12, tackLoss: 1, gybeLoss: 1, recovery: 1 },
+  { twsKts: 18, tackLoss: 0.9, gybeLoss: 1.3, recovery: 0.85 },
+  { twsKts: 25, tackLoss: 1, gybeLoss: 1.6, recovery: 0.85 },
+]
+
+export const maneuverPhaseLabels: Record<ManeuverPhase, string> = {
+  luff: 'through the wind',
+  exit: 'trimming on',
+  accelerate: 'accelerating',
+}
+
+/** Largest share of target speed a maneuver can take away. */
+const MAX_MANEUVER_LOSS = 0.9
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value))
+
+const smooth01 = (x: number) => x * x * (3 - 2 * x)
+
+const windScaling = (windSpeedKts: number) => {
+  const rows = MANEUVER_WIND_SCALING
+  if (windSpeedKts <= rows[0].twsKts) return rows[0]
+  for (let i = 1; i < rows.length; i += 1) {
+    const next = rows[i]
+    if (windSpeedKts > next.twsKts) continue
+    const prev = rows[i - 1]
+    const f = (windSpeedKts - prev.twsKts) / (next.twsKts - prev.twsKts)
+    return {
+      twsKts: windSpeedKts,
+      tackLoss: prev.tackLoss + (next.tackLoss - prev.tackLoss) * f,
+      gybeLoss: prev.gybeLoss + (next.gybeLoss - prev.gybeLoss) * f,
+      recovery: prev.recovery + (next.recovery - prev.recovery) * f,
+    }
+  }
+  return rows[rows.length - 1]
+}
+
+/** Target speed multiplier through the luff and exit of a maneuver. */
+export const maneuverSpeedFloor = (
+  kind: ManeuverKind,
+  windSpeedKts: number,
+  boatClass: BoatClass,
+) => {
+  const scaling = windScaling(windSpeedKts)
+  const baseLoss =
+    1 - (kind === 'tack' ? boatClass.tackSpeedPenalty : boatClass.gybeSpeedPenalty)
+  const loss = baseLoss * (kind === 'tack' ? scaling.tackLoss : scaling.gybeLoss)
+  return 1 - clamp(loss, 0, MAX_MANEUVER_LOSS)
+}
+
+/** Seconds the acceleration phase lasts. */
+export const maneuverRecoverySeconds = (windSpeedKts: number, boatClass: BoatClass) =>
+  boatClass.maneuverRecoverySeconds * windScaling(windSpeedKts).recovery
+
+/**
+ * Which way a turn of `turnDeg` from true wind angle `twaDeg` passes through
+ * the wind: over the bow (tack), over the stern (gybe) or not at all.
+ */
+export const maneuverForTurn = (twaDeg: number, turnDeg: number): ManeuverKind | null => {
+  const end = twaDeg + turnDeg
+  if (Math.abs(end) > 180) return 'gybe'
+  if (twaDeg !== 0 && end !== 0 && Math.sign(end) !== Math.sign(twaDeg)) return 'tack'
+  return null
+}
+
+const setPhase = (boat: BoatState, kind: ManeuverKind, phase: ManeuverPhase) => {
+  boat.maneuver = kind
+  boat.maneuverPhase = phase
+  boat.maneuverPhaseTime = 0
+}
+
+const startManeuver = (boat: BoatState, kind: ManeuverKind, phase: ManeuverPhase) => {
+  setPhase(boat, kind, phase)
+  delete boat.maneuverRoll
+}
+
+const clearManeuver = (boat: BoatState) => {
+  delete boat.maneuver
+  delete boat.maneuverPhase
+  delete boat.maneuverPhaseTime
+  delete boat.maneuverRoll
+}
+
+/**
+ * Advance the boat's tack/gybe phases after it has steered this tick.
+ *
+ * A maneuver starts (in `luff`) once the turn still to make would carry the
+ * boat through the wind, moves to `exit` when the wind crosses to the other
+ * side, and to `accelerate` once the boat is on its new course.  Turning back
+ * before crossing aborts straight to `accelerate`.  Small turns that snap
+ * through the wind in one tick skip `luff`.
+ *
+ * @param twaBefore - Signed TWA before steering this tick
+ * @param twaAfter - Signed TWA after steering this tick
+ * @param turnRemainingDeg - Signed heading error left after steering
+ */
+export const advanceManeuver = (
+  boat: BoatState,
+  twaBefore: number,
+  twaAfter: number,
+  turnRemainingDeg: number,
+  windSpeedKts: number,
+  boatClass: BoatClass,
+  dt: number,
+) => {
+  const crossed =
+    twaBefore !== 0 && twaAfter !== 0 && Math.sign(twaBefore) !== Math.sign(twaAfter)
+  const crossedKind: ManeuverKind = Math.abs(twaAfter) > 90 ? 'gybe' : 'tack'
+  const settled = Math.abs(turnRemainingDeg) <= HEADING_STEP_DEG + 0.2
+  const pending = settled ? null : maneuverForTurn(twaAfter, turnRemainingDeg)
+
+  if (boat.maneuver && boat.maneuverPhase) {
+    boat.maneuverPhaseTime = (boat.maneuverPhaseTime ?? 0) + dt
+  }
+
+  // Starting a new maneuver is allowed while still rebuilding from the last one.
+  if (!boat.maneuver || boat.maneuverPhase === 'accelerate') {
+    if (crossed) {
+      startManeuver(boat, crossedKind, settled ? 'accelerate' : 'exit')
+    } else if (pending) {
+      startManeuver(boat, pending, 'luff')
+    } else if (
+      boat.maneuver &&
+      (boat.maneuverPhaseTime ?? 0) >= maneuverRecoverySeconds(windSpeedKts, boatClass)
+    ) {
+      clearManeuver(boat)
+    }
+    return
+  }
+
+  if (boat.maneuverPhase === 'luff') {
+    if (crossed) {
+      setPhase(boat, boat.maneuver, settled ? 'accelerate' : 'exit')
+    } else if (twaAfter !== 0 && pending !== boat.maneuver) {
+      setPhase(boat, boat.maneuver, 'accelerate')
+    }
+    return
+  }
+
+  if (settled) {
+    setPhase(boat, boat.maneuver, 'accelerate')
+  }
+}
+
+/**
+ * Roll the boat through its tack or gybe.  Timing is judged on how close the
+ * bow (tack) or stern (gybe) is to the wind: full marks dead head-to-wind,
+ * nothing outside `ROLL_WINDOW_DEG`.  Only the first try of each maneuver
+ * counts, so rolling early wastes it.
+ *
+ * @returns The timing score (0-1), or null when there is nothing to roll
+ */
+export const attemptRoll = (boat: BoatState, twaDeg: number): number | null => {
+  if (!boat.maneuver || boat.maneuverPhase === 'accelerate') return null
+  if (boat.maneuverRoll !== undefined) return null
+  const absTwa = Math.abs(twaDeg)
+  const offWind = boat.maneuver === 'tack' ? absTwa : 180 - absTwa
+  boat.maneuverRoll = clamp(1 - offWind / ROLL_WINDOW_DEG, 0, 1)
+  return boat.maneuverRoll
+}
+
+/** Target speed multiplier for the boat's current maneuver phase (1 = no loss). */
+export const maneuverSpeedFactor = (
+  boat: BoatState,
+  windSpeedKts: number,
+  boatClass: BoatClass,
+) => {
+  if (!boat.maneuver || !boat.maneuverPhase) return 1
+  const baseFloor = maneuverSpeedFloor(boat.maneuver, windSpeedKts, boatClass)
+  // A good roll gives back part of the loss for the rest of the maneuver.
+  const rollSaving = ROLL_LOSS_REDUCTION * (boat.maneuverRoll ?? 0)
+  const floor = baseFloor + (1 - baseFloor) * rollSaving
+  if (boat.maneuverPhase !== 'accelerate') return floor
+  const recovery = maneuverRecoverySeconds(windSpeedKts, boatClass)
+  const progress =
+    recovery > 0 ? clamp((boat.maneuverPhaseTime ?? 0) / recovery, 0, 1) : 1
+  return floor + (1 - floor) * smooth01(progress)
+}
@@ -0,0 +1,117 @@
+import type { BoatState, MatchEnd, RaceFormat, RaceState, Vec2 } from '@/types/race'
+import type { ScheduledSignal } from '@/logic/startSignals'
+
+/** Boats in a match. */
+export const MATCH_RACE_BOATS = 2
+/** Seconds after the preparatory signal a boat has to enter the start box (C3.2(b)). */
+export const MATCH_ENTRY_WINDOW_SECONDS = 120
+/** How far outside its end, and above the line, a boat waits to enter (world units). */
+const ENTRY_STATION_OFFSET_WORLD = 60
+
+export const defaultRaceFormat: RaceFormat = 'fleet'
+
+export const raceFormatOptions: { id: RaceFormat; name: string }[] = [
+  { id: 'fleet', name: 'Fleet racing' },
+  { id: 'match', name: 'Match racing (2 boats, umpired)' },
+  { id: 'team', name: 'Team racing (2v2 to 4v4)' },
+  { id: 'pursuit', name: 'Pursuit race (staggered starts)' },
+]
+
+export const isRaceFormat = (value: unknown): value is RaceFormat =>
+  raceFormatOptions.some((option) => option.id === value)
+
+export const getRaceFormat = (state: Pick<RaceState, 'raceFormat'>) =>
+  state.raceFormat ?? defaultRaceFormat
+
+export const isMatchRace = (state: Pick<RaceState, 'raceFormat'>) =>
+  getRaceFormat(state) === 'match'
+
+export const matchEndLabels: Record<MatchEnd, string> = {
+  port: 'port (pin) end',
+  starboard: 'starboard (committee) end',
+}
+
+/** The first boat of the pairing enters at the port end, the second at the starboard end. */
+export const matchEndForIndex = (index: number): MatchEnd =>
+  index === 0 ? 'port' : 'starboard'
+
+/** The other boat in the match, if there is one. */
+export const matchOpponent = (state: Pick<RaceState, 'boats'>, boatId: string) =>
+  Object.keys(state.boats).find((id) => id !== boatId)
+
+/**
+ * Race times the start box is open for entry: from the preparatory signal
+ * until two minutes later, or the one-minute signal if a short sequence
+ * reaches it first.  Null when the sequence has no preparatory signal.
+ */
+export const matchEntryWindow = (schedule: ScheduledSignal[]) => {
+  const preparatory = schedule.find((entry) => entry.signal === 'preparatory')
+  if (!preparatory) return null
+  const oneMinute = schedule.find((entry) => entry.signal === 'one_minute')?.t ?? 0
+  return {
+    opensAt: preparatory.t,
+    closesAt: Math.min(preparatory.t + MATCH_ENTRY_WINDOW_SECONDS, oneMinute),
+  }
+}
+
+const endMark = (state: Pick<RaceState, 'startLine'>, end: MatchEnd) =>
+  end === 'port' ? state.startLine.pin : state.startLine.committee
+
+/** Unit vector along the line pointing out past the boat's end. */
+const outwardAlongLine = (state: Pick<RaceState, 'startLine'>, end: MatchEnd) => {
+  const { committee, pin } = state.startLine
+  const len = Math.hypot(pin.x - committee.x, pin.y - committee.y) || 1
+  const sign = end === 'port' ? 1 : -1
+  return {
+    x: (sign * (pin.x - committee.x)) / len,
+    y: (sign * (pin.y - committee.y)) / len,
+  }
+}
+
+/**
+ * True when `pos` is beyond the line through the boat's end mark at right
+ * angles to the starting line, where it must be at the preparatory signal
+ * (C3.2(a)).
+ */
+export const outsideMatchEnd = (
+  state: Pick<RaceState, 'startLine'>,
+  end: MatchEnd,
+  pos: Vec2,
+) => {
+  const mark = endMark(state, end)
+  const out = outwardAlongLine(state, end)
+  return (pos.x - mark.x) * out.x + (pos.y - mark.y) * out.y > 0
+}
+
+/** Where a boat waits to enter: outside its end, above the line, head to wind. */
+export const matchEntryStation = (
+  state: Pick<RaceState, 'startLine' | 'baselineWindDeg'>,
+  end: MatchEnd,
+) => {
+  const mark = endMark(state, end)
+  const out = outwardAlongLine(state, end)
+  const rad = (state.baselineWindDeg * Math.PI) / 180
+  const upwind = { x: Math.sin(rad), y: -Math.cos(rad) }
+  return {
+    pos: {
+      x: mark.x + (out.x + upwind.x) * ENTRY_STATION_OFFSET_WORLD,
+      y: mark.y + (out.y + upwind.y) * ENTRY_STATION_OFFSET_WORLD,
+    },
+    headingDeg: state.baselineWindDeg,
+  }
+}
+
+const hasFinishTime = (boat: BoatState) =>
+  boat.finished && typeof boat.finishTime === 'number'
+
+/** The boat that won the match by finishing first; null while neither has finished. */
+export const matchWinner = (state: Pick<RaceState, 'boats'>) => {
+  const finishers = Object.values(state.boats)
+    .filter(hasFinishTime)
+    .sort((a, b) => (a.finishTime as number) - (b.finishTime as number))
+  return finishers[0]?.id ?? null
+}
+
+/** Match score: one point for the winner and none for the loser. */
+export const matchPoints = (state: Pick<RaceState, 'boats'>, boatId: string) =>
+  matchWinner(state) === boatId ? 1 : 0
@@ -0,0 +1,147 @@
+import type { BoatState, PenaltyConfig, PenaltySystem, RaceState } from '@/types/race'
+import { MARK_PENALTY_TURNS, PENALTY_TURNS } from '@/logic/constants'
+import { normalizeDeg } from '@/logic/physics'
+
+/** Which kind of owed penalty a completed spin pays off (null = nothing owed). */
+export type SpinClears = 'foul' | 'mark' | null
+
+export type SpinPlan = {
+  turns: number
+  clears: SpinClears
+}
+
+export const defaultPenaltyConfig: PenaltyConfig = {
+  system: 'two-turns',
+  scoringPercent: 20,
+}
+
+export const penaltySystemOptions: { id: PenaltySystem; name: string }[] = [
+  { id: 'two-turns', name: 'Two-turns penalty' },
+  { id: 'one-turn', name: 'One-turn penalty' },
+  { id: 'scoring', name: 'Scoring penalty' },
+  { id: 'dsq', name: 'Disqualification' },
+]
+
+export const isPenaltySystem = (value: unknown): value is PenaltySystem =>
+  penaltySystemOptions.some((option) => option.id === value)
+
+export const getPenaltyConfig = (state: Pick<RaceState, 'penaltyConfig'>) =>
+  state.penaltyConfig ?? defaultPenaltyConfig
+
+const owedMarkPenalties = (boat: BoatState) =>
+  Math.min(boat.markPenalties ?? 0, boat.penalties ?? 0)
+
+/** Penalties from fouling another boat, i.e. everything except Rule 31. */
+export const owedFoulPenalties = (boat: BoatState) =>
+  (boat.penalties ?? 0) - owedMarkPenalties(boat)
+
+/** Turns that pay off a foul; zero when fouls are settled at scoring time. */
+const foulTurns = (system: PenaltySystem) => {
+  if (system === 'two-turns') return PENALTY_TURNS
+  if (system === 'one-turn') return 1
+  return 0
+}
+
+/**
+ * Decide how many turns the next spin takes.  Fouls are paid first, with the
+ * number of turns set by the race's penalty system; touching a mark (Rule 31)
+ * always needs only one turn.  Under the scoring and DSQ systems a spin cannot
+ * pay off a foul.
+ */
+export const planPenaltySpin = (
+  boat: BoatState,
+  config: PenaltyConfig = defaultPenaltyConfig,
+): SpinPlan => {
+  const turns = foulTurns(config.system)
+  if (turns > 0 && owedFoulPenalties(boat) > 0) return { turns, clears: 'foul' }
+  if (owedMarkPenalties(boat) > 0) return { turns: MARK_PENALTY_TURNS, clears: 'mark' }
+  return { turns: 1, clears: null }
+}
+
+/** True when the boat owes a penalty it can still pay off by spinning. */
+export const canSpinOffPenalty = (
+  boat: BoatState,
+  config: PenaltyConfig = defaultPenaltyConfig,
+) => planPenaltySpin(boat, config).clears !== null
+
+/** Headings for `turns` full circles in 120° steps, finishing back on `origin`. */
+export const spinHeadings = (origin: number, turns: number) =>
+  Array.from({ length: turns * 3 }, (_, index) =>
+    normalizeDeg(origin + 120 * (index + 1)),
+  )
+
+/**
+ * Remove the penalty a completed spin paid for.  Returns false when the boat
+ * no longer owes that kind of penalty (e.g. a judge cleared it mid-spin).
+ */
+export const clearSpinPenalty = (boat: BoatState, clears: SpinClears) => {
+  const marks = owedMarkPenalties(boat)
+  if (clears === 'mark' && marks > 0) {
+    boat.markPenalties = marks - 1
+    boat.penalties -= 1
+    return true
+  }
+  if (clears === 'foul' && boat.penalties - marks > 0) {
+    if ((boat.protestPenalties ?? 0) > 0) {
+      boat.protestPenalties = Math.max(0, boat.protestPenalties - 1)
+    }
+    boat.penalties -= 1
+    return true
+  }
+  return false
+}
+
+export const describeSpin = (turns: number) =>
+  turns === 1 ? 'a 360° spin' : `${turns} turns (${turns * 360}°)`
+
+/**
+ * Places added for each scoring penalty: `percent` of the fleet size,
+ * rounded to the nearest whole number (0.5 upward) and never less than one.
+ */
+export const scoringPenaltyPlaces = (fleetSize: number, percent: number) =>
+  Math.max(1, Math.round((fleetSize * percent) / 100))
+
+export const isDisqualified = (
+  boat: BoatState,
+  config: PenaltyConfig = defaultPenaltyConfig,
+) => config.system === 'dsq' && owedFoulPenalties(boat) > 0
+
+/**
+ * Apply the race's penalty system to a boat's low-point score.  A DSQ scores
+ * as a DNF (fleet size + 1); a scoring penalty never makes a score worse than
+ * that (44.3(c)).  Spin-based systems leave the score untouched.
+ */
+export const penalisedPoints = (
+  points: number,
+  boat: BoatState,
+  fleetSize: number,
+  config: PenaltyConfig = defaultPenaltyConfig,
+) => {
+  const dnfPoints = fleetSize + 1
+  const fouls = owedFoulPenalties(boat)
+  if (fouls <= 0) return points
+  if (config.system === 'dsq') return dnfPoints
+  if (config.system === 'scoring') {
+    const places = scoringPenaltyPlaces(fleetSize, config.scoringPercent)
+    return Math.min(dnfPoints, points + fouls * places)
+  }
+  return points
+}
+
+/**
+ * Finishing places once points are known.  A scoring penalty leaves the
+ * other boats' scores alone (44.3(c)), so a penalised boat drops behind those
+ * now scoring better than her; ties keep their finishing order.  Entries
+ * without a place (DNF, DSQ) keep none.
+ */
+export const placesOnPoints = (entries: { place: number | null; points: number }[]) => {
+  const places: (number | null)[] = entries.map(() => null)
+  entries
+    .map((entry, index) => ({ ...entry, index }))
+    .filter((entry) => entry.place !== null)
+    .sort((a, b) => a.points - b.points || a.place! - b.place!)
+    .forEach((entry, rank) => {
+      places[entry.index] = rank + 1
+    })
+  return places
+}
@@ -66,4 +66,18 @@ describe('computeVmgAngles', () => {
     expect(v.downwindAwa).toBeGreaterThanOrEqual(100)
     expect(v.downwindAwa).toBeLessThanOrEqual(180)
   })
+
+  it('points higher and runs deeper as the wind builds', () => {
+    const light = computeVmgAngles(5)
+    const heavy = computeVmgAngles(20)
+    expect(light.upwindAwa).toBeGreaterThan(heavy.upwindAwa + 5)
+    expect(light.downwindAwa).toBeLessThan(heavy.downwindAwa - 10)
+    expect(light.noGoAwa).toBeGreaterThan(heavy.noGoAwa)
+  })
+
+  it('refines the optimum below whole degrees', () => {
+    const { upwindAwa } = computeVmgAngles(14)
+    expect(Math.round(upwindAwa * 10)).toBe(upwindAwa * 10)
+    expect(computeVmgAngles(14)).toBe(computeVmgAngles(14.01))
+  })
 })
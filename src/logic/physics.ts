@@ -15,51 +15,50 @@
  * - Polar diagrams: Show boat speed as a function of TWA and wind speed
  * - VMG (Velocity Made Good): Component of boat speed toward/away from wind
  * - No-go zone: Angles too close to wind where boat cannot sail
- * - Tacking: Turning through the no-go zone with speed penalty
+ * - Tacking and gybing: Turning through the wind, losing speed through each maneuver phase
  *
  * Main Physics Loop (stepRaceState):
  * 1. Process VMG mode (autopilot)
- *    - computeVmgAngles() - Find optimal upwind/downwind angles
+ *    - computeVmgAngles() - Find optimal angles and no-go zone for the local wind
  *    - headingFromAwa() - Convert wind angle to compass heading
  *
  * 2. Determine desired heading (from input or VMG autopilot)
  *    - clampDesiredHeading() - Enforce no-go zone and downwind limits
  *
  * 3. Update boat heading
- *    - steerTowardsDesired() - Turn boat at TURN_RATE_DEG per second
+ *    - steerTowardsDesired() - Turn boat at its class turn rate
  *    - applyStallDecay() - Decay stall timer from entering no-go zone
- *    - applyTackTimer() - Decay tack penalty timer
+ *    - applyTackTimer() - Decay tack timer (rules use it to tell a boat is tacking)
+ *    - advanceManeuver() - Step the tack/gybe phases (luff, exit, accelerate)
+ *    - attemptRoll() - Score a roll input against the boat's angle to the wind
  *
  * 4. Calculate target speed from polars
  *    - apparentWindAngle() - Calculate TWA (boat heading vs wind direction)
- *    - lookupPolarRatio() - Interpolate speed ratio from polar table
- *    - polarTargetSpeed() - Compute target speed with wind speed and trim
+ *    - polarTargetSpeed() - Look up the boat class polar and apply trim
+ *    - effectiveSheet() - Fixed auto trim, or the player's sheet against the optimum
  *
  * 5. Apply speed penalties
  *    - Stall penalty (STALL_SPEED_FACTOR) when in no-go zone
- *    - Tack penalty (TACK_SPEED_PENALTY) during significant turns
+ *    - maneuverSpeedFactor() - Tack/gybe loss curve for the class and wind speed
  *
  * 6. Update boat speed and position
- *    - smoothSpeed() - Interpolate toward target speed
+ *    - smoothSpeed() - Interpolate toward target speed at the class rates
  *    - Update position based on heading vector and speed
+ *    - sampleCurrentVelocity() - Add the tidal current to get motion over ground
  */
 
 import type { BoatState, PlayerInput, RaceState } from '@/types/race'
 import {
-  ACCELERATION_RATE,
   DEFAULT_SHEET,
-  DECELERATION_RATE,
   HEADING_STEP_DEG,
   KNOTS_TO_MS,
-  MAX_SPEED_KTS,
   MAX_DOWNWIND_ANGLE_DEG,
   NO_GO_ANGLE_DEG,
+  NO_GO_MARGIN_DEG,
   STALL_DURATION_S,
   TACK_MIN_ANGLE_DEG,
   TACK_MIN_TIME_SECONDS,
-  TACK_SPEED_PENALTY,
   WAKE_FORWARD_OFFSET_MAX,
-  TURN_RATE_DEG,
   MAX_REVERSE_SPEED_KTS,
   LEEWARD_DRIFT_SPEED_KTS,
   LEEWARD_DRIFT_THRESHOLD_KTS,
@@ -67,8 +66,17 @@ import {
   WAKE_GRID_ENABLED,
 } from './constants'
 import { getEffectiveWakeTuning } from '@/logic/wakeTuning'
+import {
+  boatClassFor,
+  getBoatClass,
+  polarSpeedKts,
+  type BoatClass,
+} from '@/logic/boatClasses'
 import { appEnv } from '@/config/env'
-import { sampleWindSpeed } from '@/logic/windField'
+import { sampleWindDirection, sampleWindSpeed } from '@/logic/windField'
+import { sampleCurrentVelocity } from '@/logic/currentField'
+import { advanceManeuver, attemptRoll, maneuverSpeedFactor } from '@/logic/maneuvers'
+import { effectiveSheet } from '@/logic/sailTrim'
 import { resolveBoatMarkCollisions } from '@/logic/collision/rapier'
 import type { CollisionOutcome } from '@/logic/rules'
 
@@ -146,78 +154,38 @@ export const headingFromAwa = (windDirDeg: number, awaDeg: number) =>
 const apparentWindAngle = (boatHeadingDeg: number, windDirDeg: number) =>
   angleDiff(boatHeadingDeg, windDirDeg)
 
-/**
- * Polar diagram: defines boat speed as ratio of wind speed at different TWA
- * Based on typical dinghy performance (e.g., Laser, 420)
- *
- * Key features:
- * - 0° (head to wind): No speed
- * - 30-45°: Close-hauled, moderate speed
- * - 90°: Beam reach, near optimal
- * - 135°: Broad reach, fastest point of sail (ratio > 1.0 means faster than wind!)
- * - 180°: Running downwind, slower due to reduced apparent wind
- */
-const polarTable = [
-  { awa: 0, ratio: 0 }, // Dead into wind - no speed
-  { awa: 20, ratio: 0.2 }, // Luffing hard
-  { awa: 30, ratio: 0.45 }, // Close-hauled lower limit
-  { awa: 45, ratio: 0.65 }, // Typical close-hauled angle
-  { awa: 60, ratio: 0.8 }, // Close reach
-  { awa: 75, ratio: 0.9 }, // Reaching
-  { awa: 90, ratio: 0.95 }, // Beam reach
-  { awa: 110, ratio: 1.05 }, // Broad reach - getting fast
-  // Downwind shaping:
-  // - We want best downwind VMG to be near ~140° (broad reach), not 160-180°.
-  // - And we want dead-downwind (180°) to be ~30% slower than the VMG-optimal point.
-  { awa: 135, ratio: 1.1 }, // Broad reach (fast)
-  { awa: 140, ratio: 1.15 }, // Target VMG-optimal region
-  { awa: 150, ratio: 1.0 }, // Getting deeper: slower enough that VMG doesn't keep increasing
-  { awa: 160, ratio: 0.9 }, // Deep downwind
-  { awa: 170, ratio: 0.75 }, // Very deep downwind
-  { awa: 180, ratio: 0.5 }, // Dead downwind (~30% slower than 1.15 peak)
-]
-
-/**
- * Look up speed ratio from polar table with linear interpolation
- * @param awa - True wind angle (absolute value used, works for both tacks)
- * @returns Speed ratio: boat speed = wind speed × ratio
- */
-const lookupPolarRatio = (awa: number) => {
-  const absAwa = clamp(Math.abs(awa), 0, 180)
-  for (let i = 0; i < polarTable.length - 1; i += 1) {
-    const current = polarTable[i]
-    const next = polarTable[i + 1]
-    if (absAwa >= current.awa && absAwa <= next.awa) {
-      const span = next.awa - current.awa || 1
-      const t = (absAwa - current.awa) / span
-      // Linear interpolation between table points
-      return current.ratio + (next.ratio - current.ratio) * t
-    }
-  }
-  return polarTable[polarTable.length - 1].ratio
-}
-
 /**
  * Calculate target boat speed based on wind and sail trim
  * @param awaDeg - True wind angle (despite parameter name)
  * @param windSpeed - Wind speed in knots
  * @param sheet - Sail trim (0 = fully out, 1 = fully in)
+ * @param boatClass - Class whose polar and speed cap apply
  * @returns Target speed in knots
  */
-const polarTargetSpeed = (awaDeg: number, windSpeed: number, sheet: number) => {
-  const ratio = lookupPolarRatio(awaDeg)
+const polarTargetSpeed = (
+  awaDeg: number,
+  windSpeed: number,
+  sheet: number,
+  boatClass: BoatClass,
+) => {
+  const polarSpeed = polarSpeedKts(boatClass.polar, awaDeg, windSpeed)
   // Sheet effect: poor trim = 60% speed, optimal trim = 100% speed
   const sheetEffect = 0.6 + 0.4 * clamp(sheet, 0, 1)
-  const target = windSpeed * ratio * sheetEffect
-  return clamp(target, 0, MAX_SPEED_KTS)
+  const target = polarSpeed * sheetEffect
+  return clamp(target, 0, boatClass.maxSpeedKts)
 }
 
 /**
  * Smoothly interpolate boat speed toward target
  * Uses different rates for acceleration vs deceleration (boats slow down faster)
  */
-const smoothSpeed = (current: number, target: number, dt: number) => {
-  const rate = target > current ? ACCELERATION_RATE : DECELERATION_RATE
+const smoothSpeed = (
+  current: number,
+  target: number,
+  dt: number,
+  boatClass: BoatClass,
+) => {
+  const rate = target > current ? boatClass.accelerationRate : boatClass.decelerationRate
   const mix = clamp(rate * dt, 0, 1)
   return current + (target - current) * mix
 }
@@ -229,7 +197,8 @@ const smoothSpeed = (current: number, target: number, dt: number) => {
 /**
  * Enforce sailing constraints on desired heading
  *
- * Boats cannot sail directly into the wind (no-go zone).
+ * Boats cannot sail directly into the wind (no-go zone, which is wider in
+ * light air - see computeVmgAngles).
  * Downwind is allowed up to MAX_DOWNWIND_ANGLE_DEG (typically 180 = dead downwind).
  *
  * @returns The clamped heading that was actually set
@@ -238,15 +207,16 @@ const clampDesiredHeading = (
   boat: BoatState,
   desiredHeadingDeg: number,
   windDirDeg: number,
+  noGoAwa: number,
 ) => {
   const diff = angleDiff(desiredHeadingDeg, windDirDeg)
   const absDiff = Math.abs(diff)
 
   // No-go zone: too close to wind, boat stalls
-  if (absDiff < NO_GO_ANGLE_DEG) {
+  if (absDiff < noGoAwa) {
     boat.stallTimer = STALL_DURATION_S
     const sign = diff >= 0 ? 1 : -1
-    const clamped = headingFromAwa(windDirDeg, sign * NO_GO_ANGLE_DEG)
+    const clamped = headingFromAwa(windDirDeg, sign * noGoAwa)
     boat.desiredHeadingDeg = clamped
     return clamped
   }
@@ -269,9 +239,9 @@ const clampDesiredHeading = (
  * Gradually turn boat toward desired heading at maximum turn rate
  *
  * Small heading errors (< ~5°) snap instantly for responsive control.
- * Larger turns (tacks, gybes) happen at TURN_RATE_DEG per second.
+ * Larger turns (tacks, gybes) happen at the class turn rate.
  */
-const steerTowardsDesired = (boat: BoatState, dt: number) => {
+const steerTowardsDesired = (boat: BoatState, dt: number, turnRateDeg: number) => {
   const error = angleDiff(boat.desiredHeadingDeg, boat.headingDeg)
 
   // Snap to target for small adjustments (feels more responsive)
@@ -281,7 +251,7 @@ const steerTowardsDesired = (boat: BoatState, dt: number) => {
   }
 
   // Gradual turn at maximum turn rate
-  const maxTurn = TURN_RATE_DEG * dt
+  const maxTurn = turnRateDeg * dt
   const applied = clamp(error, -maxTurn, maxTurn)
   boat.headingDeg = normalizeDeg(boat.headingDeg + applied)
 }
@@ -467,6 +437,11 @@ export const stepRaceState = (
   // Update each boat
   Object.values(state.boats).forEach((boat) => {
     const input = inputs[boat.id]
+    const boatClass = boatClassFor(boat)
+    // Optimum angles and the no-go zone depend on the wind the boat is sailing in
+    const localWindSpeed = sampleWindSpeed(state, boat.pos)
+    const localWindDir = sampleWindDirection(state, boat.pos)
+    const vmgAngles = computeVmgAngles(localWindSpeed, boatClass)
 
     // ========================================================================
     // STEP 1: Process VMG Mode (Velocity Made Good autopilot)
@@ -483,6 +458,11 @@ export const stepRaceState = (
       boat.blowSails = input.blowSails
     }
 
+    // Sheet setting for manual trim; auto-trim races ignore it.
+    if (input?.sheet !== undefined && Number.isFinite(input.sheet)) {
+      boat.sheet = clamp(input.sheet, 0, 1)
+    }
+
     // If there's a heading input, exit VMG mode (user is taking manual control)
     // But skip this check during spins (rightsSuspended) since spins inject headings
     const hasHeadingInput =
@@ -505,20 +485,14 @@ export const stepRaceState = (
       // Use current desired heading or actual heading to determine tack
       // This ensures we maintain the current tack even as the boat turns
       const currentHeading = boat.desiredHeadingDeg ?? boat.headingDeg
-      const headingDiff = angleDiff(currentHeading, state.wind.directionDeg)
+      const headingDiff = angleDiff(currentHeading, localWindDir)
       const tackSign = headingDiff >= 0 ? 1 : -1 // Starboard (+1) or port (-1) tack
       const absAwa = Math.abs(headingDiff)
 
-      // Compute optimal VMG angles for current wind speed
-      const vmgAngles = computeVmgAngles(state.wind.speed)
-
       // Choose upwind or downwind angle based on which side of beam reach we're on
       const isUpwind = absAwa <= 90
       const targetAwa = isUpwind ? vmgAngles.upwindAwa : vmgAngles.downwindAwa
-      const calculatedHeading = headingFromAwa(
-        state.wind.directionDeg,
-        tackSign * targetAwa,
-      )
+      const calculatedHeading = headingFromAwa(localWindDir, tackSign * targetAwa)
 
       // Quantize to ensure heading updates even with small wind changes
       desiredHeading = quantizeHeading(calculatedHeading)
@@ -532,8 +506,9 @@ export const stepRaceState = (
     // STEP 3: Update boat heading (constrained by sailing limits)
     // ========================================================================
 
-    clampDesiredHeading(boat, desiredHeading, state.wind.directionDeg)
-    steerTowardsDesired(boat, dt)
+    clampDesiredHeading(boat, desiredHeading, localWindDir, vmgAngles.noGoAwa)
+    const awaBeforeTurn = apparentWindAngle(boat.headingDeg, localWindDir)
+    steerTowardsDesired(boat, dt, boatClass.turnRateDeg)
     applyStallDecay(boat, dt)
     applyTackTimer(boat, dt)
 
@@ -542,13 +517,25 @@ export const stepRaceState = (
     // ========================================================================
 
     // Calculate TWA (despite variable name "awa")
-    const awa = apparentWindAngle(boat.headingDeg, state.wind.directionDeg)
+    const awa = apparentWindAngle(boat.headingDeg, localWindDir)
+    advanceManeuver(
+      boat,
+      awaBeforeTurn,
+      awa,
+      angleDiff(boat.desiredHeadingDeg, boat.headingDeg),
+      localWindSpeed,
+      boatClass,
+      dt,
+    )
+    if (input?.roll) {
+      attemptRoll(boat, awa)
+    }
     const wakeFactor = wakeFactors[boat.id] ?? 1
     boat.wakeFactor = wakeFactor
 
-    const localWindSpeed = sampleWindSpeed(state, boat.pos)
     let targetSpeed =
-      polarTargetSpeed(awa, localWindSpeed, DEFAULT_SHEET) * appEnv.speedMultiplier
+      polarTargetSpeed(awa, localWindSpeed, effectiveSheet(state, boat, awa), boatClass) *
+      appEnv.speedMultiplier
 
     // Slow-down / depower handling:
     // - Blowing sails (held control) allows reversing down to -0.2 kts.
@@ -557,7 +544,7 @@ export const stepRaceState = (
     const absAwa = Math.abs(awa)
     const slowCap = localWindSpeed * 0.1 * appEnv.speedMultiplier
     const reverseSpeedKts = MAX_REVERSE_SPEED_KTS * appEnv.speedMultiplier
-    const nearMaxUpwind = absAwa <= NO_GO_ANGLE_DEG + 1
+    const nearMaxUpwind = absAwa <= vmgAngles.noGoAwa + 1
     if (boat.blowSails) {
       targetSpeed = Math.min(targetSpeed, reverseSpeedKts)
     } else if (boat.stallTimer > 0 || nearMaxUpwind) {
@@ -577,10 +564,9 @@ export const stepRaceState = (
       }
     }
 
-    // Apply speed penalty while tack timer is active
-    if (boat.tackTimer > 0) {
-      targetSpeed *= TACK_SPEED_PENALTY
-    }
+    // Speed loss through the tack or gybe: flat through the luff and exit,
+    // then easing off while the boat accelerates on its new course
+    targetSpeed *= maneuverSpeedFactor(boat, localWindSpeed, boatClass)
 
     // Apply wind shadow / wake slowdown
     targetSpeed *= wakeFactor
@@ -593,7 +579,7 @@ export const stepRaceState = (
     // ========================================================================
 
     // Smoothly interpolate toward target speed
-    boat.speed = smoothSpeed(boat.speed, targetSpeed, dt)
+    boat.speed = smoothSpeed(boat.speed, targetSpeed, dt, boatClass)
 
     const fault = collisionOutcome?.faults[boat.id]
     const hasBoatCollision = collisionOutcome?.collidedBoatIds.has(boat.id)
@@ -621,6 +607,11 @@ export const stepRaceState = (
       boat.pos.x += leewardVec.x * driftMs * dt
       boat.pos.y += leewardVec.y * driftMs * dt
     }
+
+    // The current carries the boat over the ground whatever its speed through the water.
+    const current = sampleCurrentVelocity(state, boat.pos)
+    boat.pos.x += current.x * dt
+    boat.pos.y += current.y * dt
   })
 
   const { correctedPositions: markCorrected } = resolveBoatMarkCollisions(state)
@@ -640,53 +631,97 @@ export const stepRaceState = (
 // TACTICAL CALCULATIONS
 // ============================================================================
 
+export type VmgAngles = {
+  /** Best upwind TWA (close-hauled) */
+  upwindAwa: number
+  /** Best downwind TWA (broad reach or run) */
+  downwindAwa: number
+  /** Half-angle of the no-go zone: NO_GO_MARGIN_DEG inside the upwind angle */
+  noGoAwa: number
+}
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2
+
+/** Golden-section search for the argmax of a unimodal `f` on [lo, hi]. */
+const goldenSectionMax = (f: (x: number) => number, lo: number, hi: number) => {
+  let a = lo
+  let b = hi
+  for (let i = 0; i < 20; i += 1) {
+    const c = b - GOLDEN_RATIO * (b - a)
+    const d = a + GOLDEN_RATIO * (b - a)
+    if (f(c) >= f(d)) {
+      b = d
+    } else {
+      a = c
+    }
+  }
+  return (a + b) / 2
+}
+
+const vmgCache = new Map<string, VmgAngles>()
+
 /**
  * Compute optimal VMG (Velocity Made Good) angles for current wind speed
  *
  * VMG is the component of boat speed directly toward/away from wind.
- * This searches the polar diagram to find angles that maximize VMG.
+ * A 1° sweep of the polar finds the best angle, then a golden-section
+ * search refines it to 0.1°.  Because the polar varies with wind speed,
+ * so do the results: fuller upwind and hotter downwind in light air,
+ * higher and deeper in a breeze.
  *
  * Typical results:
- * - Upwind: ~40-50° (close-hauled)
+ * - Upwind: ~38-50° (close-hauled)
  * - Downwind: ~140-160° (broad reach, NOT dead downwind!)
  *
  * Note: Best downwind VMG is usually NOT at 180° because boats go faster
  * on a broad reach, and the extra speed more than compensates for the
  * less direct course.
  *
- * @param windSpeed - Current wind speed in knots
- * @returns Optimal upwind and downwind TWA angles
+ * @param windSpeed - Current wind speed in knots (rounded to 0.1 kt)
+ * @param boatClass - Class whose polar is searched (defaults to the generic dinghy)
+ * @returns Optimal upwind and downwind TWA angles, and the no-go half-angle
  */
-export const computeVmgAngles = (windSpeed: number) => {
+export const computeVmgAngles = (
+  windSpeed: number,
+  boatClass = getBoatClass(),
+): VmgAngles => {
+  const tws = Math.round(Math.max(0, windSpeed) * 10) / 10
+  const cacheKey = `${boatClass.id}:${tws}`
+  const cached = vmgCache.get(cacheKey)
+  if (cached) return cached
+
+  const upwindVmg = (angle: number) =>
+    polarTargetSpeed(angle, tws, DEFAULT_SHEET, boatClass) * Math.cos(degToRad(angle))
+  const downwindVmg = (angle: number) => -upwindVmg(angle)
+
   let bestUpAngle = NO_GO_ANGLE_DEG
-  let bestUpValue = -Infinity
   let bestDownAngle = MAX_DOWNWIND_ANGLE_DEG
-  let bestDownValue = -Infinity
 
-  // Search all valid sailing angles
+  // Coarse sweep of all valid sailing angles
   for (let angle = NO_GO_ANGLE_DEG; angle <= MAX_DOWNWIND_ANGLE_DEG; angle += 1) {
-    const speed = polarTargetSpeed(angle, windSpeed, DEFAULT_SHEET)
-    const rad = degToRad(angle)
-
-    // Upwind VMG: component of speed toward wind (cos of angle from wind)
-    const upwindVmg = speed * Math.cos(rad)
-    if (angle <= 90 && upwindVmg > bestUpValue) {
-      bestUpValue = upwindVmg
+    if (angle <= 90 && upwindVmg(angle) > upwindVmg(bestUpAngle)) {
       bestUpAngle = angle
     }
-
-    // Downwind VMG: component of speed away from wind
-    const downwindVmg = speed * Math.cos(Math.PI - rad)
-    if (angle >= 60 && downwindVmg > bestDownValue) {
-      bestDownValue = downwindVmg
+    if (angle >= 60 && downwindVmg(angle) > downwindVmg(bestDownAngle)) {
       bestDownAngle = angle
     }
   }
 
-  return {
-    upwindAwa: bestUpAngle, // Typically ~45° (close-hauled)
-    downwindAwa: bestDownAngle, // Typically ~135° (broad reach, NOT running!)
+  // Refine within a degree either side of the sweep's best
+  const refine = (f: (angle: number) => number, best: number, min: number, max: number) =>
+    Math.round(
+      goldenSectionMax(f, Math.max(min, best - 1), Math.min(max, best + 1)) * 10,
+    ) / 10
+  const upwindAwa = refine(upwindVmg, bestUpAngle, NO_GO_ANGLE_DEG, 90)
+  const downwindAwa = refine(downwindVmg, bestDownAngle, 60, MAX_DOWNWIND_ANGLE_DEG)
+
+  const angles: VmgAngles = {
+    upwindAwa,
+    downwindAwa,
+    noGoAwa: Math.max(NO_GO_ANGLE_DEG, upwindAwa - NO_GO_MARGIN_DEG),
   }
+  vmgCache.set(cacheKey, angles)
+  return angles
 }
 
 /**
@@ -0,0 +1,82 @@
+import type { BoatState, HandicapSystem, RaceState } from '@/types/race'
+import {
+  boatRating,
+  courseDistanceNm,
+  getHandicapSystem,
+  PHRF_TOT_B,
+} from '@/logic/handicap'
+import { getRaceFormat } from '@/logic/matchRacing'
+
+export const defaultPursuitMinutes = 15
+
+export const pursuitMinutesOptions = [10, 15, 20, 30]
+
+export const isPursuitRace = (state: Pick<RaceState, 'raceFormat'>) =>
+  getRaceFormat(state) === 'pursuit'
+
+export const isPursuitMinutes = (value: unknown): value is number =>
+  pursuitMinutesOptions.includes(value as number)
+
+export const getPursuitMinutes = (state: Pick<RaceState, 'pursuitMinutes'>) =>
+  state.pursuitMinutes ?? defaultPursuitMinutes
+
+/** Race time at which a pursuit ends and boats still racing are placed where they are. */
+export const pursuitEndTime = (state: Pick<RaceState, 'pursuitMinutes'>) =>
+  getPursuitMinutes(state) * 60
+
+/**
+ * Handicap the start times are worked out from.  A scratch fleet is spread
+ * out by the Portsmouth Numbers of its classes.
+ */
+export const pursuitHandicapSystem = (
+  state: Pick<RaceState, 'handicapSystem'>,
+): HandicapSystem => {
+  const system = getHandicapSystem(state)
+  return system === 'none' ? 'portsmouth' : system
+}
+
+/** When a boat may start: its own start time, or the gun for everyone else. */
+export const boatStartTime = (boat: Pick<BoatState, 'startTime'>) => boat.startTime ?? 0
+
+/**
+ * Individual start times (race seconds, rounded) for a pursuit.  The slowest
+ * boat starts at the gun and would need the whole race to get round; each
+ * faster boat starts later by the time its rating says it would gain, so all
+ * boats would finish together if they sailed to their handicaps.
+ */
+export const pursuitStartTimes = (
+  state: Pick<
+    RaceState,
+    'boats' | 'handicapSystem' | 'pursuitMinutes' | 'course' | 'lapsToFinish' | 'marks'
+  >,
+) => {
+  const system = pursuitHandicapSystem(state)
+  const duration = pursuitEndTime(state)
+  const boats = Object.values(state.boats)
+  const ratings = new Map(boats.map((boat) => [boat.id, boatRating(boat, system)]))
+  const starts: Record<string, number> = {}
+  if (!boats.length) return starts
+
+  // Time-on-distance ratings are seconds per mile, so the gaps come straight
+  // from the course length.  The other systems scale the expected elapsed time.
+  const distanceNm = system === 'phrf-tod' ? courseDistanceNm(state) : 0
+  const expected = (rating: number) =>
+    system === 'phrf-tot' ? PHRF_TOT_B + rating : rating
+  const slowest = Math.max(...boats.map((boat) => ratings.get(boat.id) ?? 0))
+
+  boats.forEach((boat) => {
+    const rating = ratings.get(boat.id) ?? slowest
+    const delay =
+      system === 'phrf-tod'
+        ? (slowest - rating) * distanceNm
+        : duration * (1 - expected(rating) / expected(slowest))
+    starts[boat.id] = Math.round(Math.min(Math.max(0, delay), duration - 1))
+  })
+  return starts
+}
+
+/** Seconds until the boat's own start, or null once it may start. */
+export const pursuitCountdown = (boat: Pick<BoatState, 'startTime'>, t: number) => {
+  const remaining = boatStartTime(boat) - t
+  return remaining > 0 ? remaining : null
+}
@@ -65,7 +65,7 @@ export const ruleScenarios: RuleScenario[] = [
   {
     id: 'stern-rammer',
     name: 'Stern Rammer',
-    description: 'Boat B trailing directly behind Boat A on the same tack. B (overtaking) must keep clear.',
+    description: 'Boat B trailing directly behind Boat A on the same tack. Rule 12: B (clear astern) must keep clear.',
     windDirDeg: 0,
     boats: [
       { offsetX: 0, offsetY: -15, headingDeg: 45 },
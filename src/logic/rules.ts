@@ -1,6 +1,20 @@
 import type { BoatState, RaceState, RuleId } from '@/types/race'
 import { boatCapsuleCircles, headingForward } from '@/logic/boatGeometry'
+import {
+  GATE_COLLIDER_RADIUS,
+  MARK_COLLIDER_RADIUS,
+  MARK_ZONE_RADIUS,
+} from '@/logic/constants'
+import {
+  courseGateMarkIndices,
+  getCourseDefinition,
+  getCourseLegs,
+} from '@/config/course'
 import { createId } from '@/utils/ids'
+import { isTeamRace, sameTeam } from '@/logic/teamRacing'
+import { boatClassFor } from '@/logic/boatClasses'
+import { computeVmgAngles } from '@/logic/physics'
+import { sampleWindDirection, sampleWindSpeed } from '@/logic/windField'
 import type { RaceEvent } from '@/types/race'
 
 export type RuleResolution = {
@@ -8,6 +22,14 @@ export type RuleResolution = {
   boats: string[]
   offenderId: string
   message: string
+  /** Explains why the penalty went to this boat rather than the usual give-way boat. */
+  hint?: string
+}
+
+type RuleHint = {
+  ruleId: RuleId
+  boats: string[]
+  message: string
 }
 
 export type CollisionFault = 'at_fault' | 'stand_on'
@@ -80,6 +102,25 @@ export const sternRammer = (a: BoatState, b: BoatState) => {
   return null
 }
 
+/**
+ * True when `a` is clear astern of `b`: a's hull is entirely behind a line
+ * abeam from b's aftermost point.  Boats are overlapped when neither is
+ * clear astern of the other.
+ */
+export const isClearAstern = (a: BoatState, b: BoatState) => {
+  const fwd = headingForward(b.headingDeg)
+  const along = (p: { x: number; y: number }) =>
+    (p.x - b.pos.x) * fwd.x + (p.y - b.pos.y) * fwd.y
+  const aEnds = boatEnds(a)
+  const bEnds = boatEnds(b)
+  const aForemost = Math.max(
+    along(aEnds.bow) + aEnds.bow.r,
+    along(aEnds.stern) + aEnds.stern.r,
+  )
+  const bAftmost = along(bEnds.stern) - bEnds.stern.r
+  return aForemost < bAftmost
+}
+
 export const boatsTooClose = (a: BoatState, b: BoatState) => {
   const ca = boatCircles(a)
   const cb = boatCircles(b)
@@ -149,6 +190,55 @@ const isDeepDownwind = (boat: BoatState, windDir: number): boolean => {
   return Math.abs(relative) >= DOWNWIND_DEAD_ZONE_DEG
 }
 
+/**
+ * TWA at which a boat coming out of a tack counts as close-hauled again: her
+ * class's best upwind angle in the wind at her position, as sailed by the
+ * physics. Between head-to-wind and this angle the boat is tacking (Rule 13).
+ */
+const closeHauledTwa = (state: RaceState, boat: BoatState) =>
+  computeVmgAngles(sampleWindSpeed(state, boat.pos), boatClassFor(boat)).upwindAwa
+
+/** True wind angle (0-180) of a boat in the wind at her position. */
+const localTwa = (state: RaceState, boat: BoatState) =>
+  Math.abs(clampAngle180(boat.headingDeg - sampleWindDirection(state, boat.pos)))
+
+/** True when `b` is on `a`'s port (left-hand) side. */
+const isOnPortSide = (a: BoatState, b: BoatState) => {
+  const fwd = headingForward(a.headingDeg)
+  const dx = b.pos.x - a.pos.x
+  const dy = b.pos.y - a.pos.y
+  return dx * fwd.y - dy * fwd.x > 0
+}
+
+/** Splits two boats by a line perpendicular to the wind. */
+const windwardLeeward = (windDir: number, a: BoatState, b: BoatState) => {
+  const perpAngle = degToRad(windDir + 90)
+  const lineNormal = {
+    x: Math.cos(perpAngle),
+    y: Math.sin(perpAngle),
+  }
+  const project = (boat: BoatState) =>
+    boat.pos.x * lineNormal.x + boat.pos.y * lineNormal.y
+
+  const windward = project(a) < project(b) ? a : b
+  const leeward = windward === a ? b : a
+  return { windward, leeward }
+}
+
+/** Compass bearing from `from` to `to`, in the same convention as headings. */
+const bearingDeg = (from: BoatState, to: BoatState) =>
+  (Math.atan2(to.pos.x - from.pos.x, -(to.pos.y - from.pos.y)) * 180) / Math.PI
+
+/**
+ * How long a boat that acquired right of way through its own action must
+ * leave the other boat room to keep clear (Rule 15).
+ */
+export const RULE15_GRACE_SECONDS = 3
+
+/** Window and minimum course change for a right-of-way boat to answer to Rule 16. */
+export const RULE16_WINDOW_SECONDS = 2
+export const RULE16_COURSE_CHANGE_DEG = 20
+
 const boatPairKey = (rule: RuleId, a: string, b: string) =>
   `${rule}:${[a, b].sort().join(':')}`
 
@@ -158,6 +248,59 @@ const incidentPairKey = (a: string, b: string) => [a, b].sort().join(':')
 
 type IncidentState = { expiry: number; separated: boolean }
 
+/** Which boat of a nearby pair holds right of way, and since when. */
+type RightOfWayState = {
+  holderId: string
+  acquiredAt: number
+  /** The holder gained right of way through its own action (tack, overlap). */
+  byOwnAction: boolean
+  tacks: Record<string, Tack>
+}
+
+type HeadingSample = { t: number; headingDeg: number }
+
+/**
+ * Mark-room obligation fixed when the first of two boats reached the zone
+ * (Rule 18.2(b)).  Lasts until the entitled boat has left the zone again or
+ * either boat stops heading for the mark.
+ */
+type MarkRoomState = {
+  markIndex: number
+  entitledId: string
+  otherId: string
+  entitledEntered: boolean
+}
+
+/**
+ * Slack when testing hull/mark contact: physics pushes a hull back onto the
+ * mark's surface before the rules run, so touching reads as distance ≈ radii.
+ */
+const MARK_CONTACT_TOLERANCE = 0.5
+
+/** Boats farther than this from the mark when another enters are not yet involved. */
+const MARK_ROOM_INVOLVED_RADIUS = 2 * MARK_ZONE_RADIUS
+
+const distanceTo = (boat: BoatState, point: { x: number; y: number }) =>
+  Math.hypot(boat.pos.x - point.x, boat.pos.y - point.y)
+
+/** Index of the rounding mark whose zone applies to `boat`, or null on start/finish legs. */
+const zoneMarkIndex = (state: RaceState, boat: BoatState): number | null => {
+  if (boat.finished || boat.legIndex === undefined) return null
+  const leg = getCourseLegs(state)[boat.legIndex]
+  if (!leg || leg.kind === 'start' || leg.kind === 'finish') return null
+  return state.marks[boat.nextMarkIndex] ? boat.nextMarkIndex : null
+}
+
+const isBeating = (boat: BoatState, windDir: number) =>
+  Math.abs(clampAngle180(boat.headingDeg - windDir)) < 90
+
+/**
+ * Team racing (D1.1): incidents between boats on the same team are not
+ * penalised, so teammates can sail as close as they like.
+ */
+const teammates = (state: RaceState, a: BoatState, b: BoatState) =>
+  isTeamRace(state) && sameTeam(a, b)
+
 export class RulesEngine {
   private pairCooldowns = new Map<string, number>()
   private offenderCooldowns = new Map<string, number>()
@@ -171,10 +314,41 @@ export class RulesEngine {
    * to escape (e.g. tacking away) and its stern swings into the other boat.
    */
   private incidentCooldowns = new Map<string, IncidentState>()
+  private markRoom = new Map<string, MarkRoomState>()
+  /** Tack each boat was on last evaluation, to spot it passing head-to-wind. */
+  private lastTack = new Map<string, Tack>()
+  private tacking = new Set<string>()
+  private rightOfWay = new Map<string, RightOfWayState>()
+  private headingHistory = new Map<string, HeadingSample[]>()
+  private pendingHints: RuleHint[] = []
+  /** Per boat+mark contact cooldown, released like `incidentCooldowns`. */
+  private markContacts = new Map<string, IncidentState>()
 
   constructor(private cooldownSeconds = 5) {}
 
+  /**
+   * Forget everything tracked between boats.  Cooldowns and right-of-way
+   * grace are stamped with race time, which starts again with each race.
+   */
+  reset() {
+    this.pairCooldowns.clear()
+    this.offenderCooldowns.clear()
+    this.incidentCooldowns.clear()
+    this.markRoom.clear()
+    this.lastTack.clear()
+    this.tacking.clear()
+    this.rightOfWay.clear()
+    this.headingHistory.clear()
+    this.pendingHints = []
+    this.markContacts.clear()
+  }
+
   evaluate(state: RaceState): RuleResolution[] {
+    // Hints belong to the tick that raised them; `toEvents` drains them.
+    this.pendingHints = []
+    this.trackMarkZones(state)
+    this.trackTacks(state)
+    this.trackRightOfWay(state)
     const boats = Object.values(state.boats)
     const results: RaceResolution[] = []
     const phase = state.phase
@@ -182,6 +356,7 @@ export class RulesEngine {
       for (let j = i + 1; j < boats.length; j += 1) {
         const a = boats[i]
         const b = boats[j]
+        if (teammates(state, a, b)) continue
 
         const ipk = incidentPairKey(a.id, b.id)
         const incident = this.incidentCooldowns.get(ipk)
@@ -195,7 +370,22 @@ export class RulesEngine {
           this.incidentCooldowns.delete(ipk)
         }
 
-        const pairs = [...this.checkRule10(state, a, b), ...this.checkRule11(state, a, b)]
+        // Mark-room overrides the right-of-way rules for the boats it binds,
+        // and a boat in the middle of a tack has no tack to claim rights from.
+        let pairs: RuleResolution[]
+        if (this.rule18Fault(state, a, b)) {
+          pairs = this.checkRule18(state, a, b)
+        } else if (this.rule13Fault(state, a, b)) {
+          pairs = this.checkRule13(state, a, b)
+        } else if (this.rightOfWayException(state, a, b)) {
+          pairs = this.checkRightOfWayException(state, a, b)
+        } else {
+          pairs = [
+            ...this.checkRule10(state, a, b),
+            ...this.checkRule12(state, a, b),
+            ...this.checkRule11(state, a, b),
+          ]
+        }
         if (pairs.length && state.t < 0) {
           console.debug('[rules] prestart violation', {
             phase,
@@ -207,13 +397,15 @@ export class RulesEngine {
         results.push(...pairs)
       }
     }
+    results.push(...this.checkRule31(state))
     return results
   }
 
   /**
    * Detect boats that are about to collide and identify who would be at fault.
    * Port/starboard (Rule 10) uses a larger warning radius because closing
-   * speeds are roughly double those of same-tack situations.
+   * speeds are roughly double those of same-tack situations.  Mark-room
+   * obligations come from the previous `evaluate` pass.
    */
   computeWarnings(state: RaceState): Map<string, string> {
     const boats = Object.values(state.boats)
@@ -222,11 +414,21 @@ export class RulesEngine {
       for (let j = i + 1; j < boats.length; j += 1) {
         const a = boats[i]
         const b = boats[j]
+        if (teammates(state, a, b)) continue
 
         const ipk = incidentPairKey(a.id, b.id)
         if (this.incidentCooldowns.has(ipk)) continue
         if (boatsTooClose(a, b)) continue
 
+        if (boatsNearby(a, b, WARNING_RADIUS_RULE11)) {
+          const overriding =
+            this.warningRule18(state, a, b) ?? this.warningRule13(state, a, b)
+          if (overriding && !warnings.has(overriding.offender.id)) {
+            warnings.set(overriding.offender.id, overriding.message)
+            continue
+          }
+        }
+
         // Try Rule 10 first with the larger radius (opposite tacks converge fast).
         // Skip if boats are diverging — no collision risk (e.g. ducking behind).
         if (boatsNearby(a, b, WARNING_RADIUS_RULE10) && boatsClosing(a, b)) {
@@ -237,7 +439,7 @@ export class RulesEngine {
           }
         }
 
-        // Rule 11 with the tighter radius (same tack, slower closing)
+        // Rules 12/11 with the tighter radius (same tack, slower closing)
         if (boatsNearby(a, b, WARNING_RADIUS_RULE11)) {
           const r11 = this.warningRule11(state, a, b)
           if (r11 && !warnings.has(r11.offender.id)) {
@@ -265,9 +467,14 @@ export class RulesEngine {
           collidedBoatIds.add(a.id)
           collidedBoatIds.add(b.id)
         }
-        const rule10 = this.rule10Fault(state, a, b)
-        const rule11 = rule10 ? null : this.rule11Fault(state, a, b)
-        const fault = rule10 ?? rule11
+        if (teammates(state, a, b)) continue
+        const fault =
+          this.rule18Fault(state, a, b) ??
+          this.rule13Fault(state, a, b) ??
+          this.rightOfWayException(state, a, b) ??
+          this.rule10Fault(state, a, b) ??
+          this.rule12Fault(state, a, b) ??
+          this.rule11Fault(state, a, b)
         if (!fault) continue
         const { offender, standOn } = fault
         faults[offender.id] = 'at_fault'
@@ -280,15 +487,38 @@ export class RulesEngine {
   }
 
   toEvents(state: RaceState, resolutions: RaceResolution[]): RaceEvent[] {
-    if (!resolutions.length) return []
-    return resolutions.map((violation) => ({
-      eventId: createId('event'),
-      t: state.t,
-      kind: 'penalty',
-      ruleId: violation.ruleId,
-      boats: violation.boats,
-      message: violation.message,
-    }))
+    const hints = this.pendingHints
+    this.pendingHints = []
+    if (!resolutions.length && !hints.length) return []
+    const events: RaceEvent[] = []
+    resolutions.forEach((violation) => {
+      events.push({
+        eventId: createId('event'),
+        t: state.t,
+        kind: 'penalty',
+        ruleId: violation.ruleId,
+        boats: violation.boats,
+        message: violation.message,
+      })
+      if (violation.hint) {
+        hints.push({
+          ruleId: violation.ruleId,
+          boats: violation.boats,
+          message: violation.hint,
+        })
+      }
+    })
+    hints.forEach((hint) => {
+      events.push({
+        eventId: createId('event'),
+        t: state.t,
+        kind: 'rule_hint',
+        ruleId: hint.ruleId,
+        boats: hint.boats,
+        message: hint.message,
+      })
+    })
+    return events
   }
 
   private checkRule10(state: RaceState, a: BoatState, b: BoatState): RuleResolution[] {
@@ -306,19 +536,405 @@ export class RulesEngine {
   private checkRule11(state: RaceState, a: BoatState, b: BoatState): RuleResolution[] {
     const fault = this.rule11Fault(state, a, b)
     if (!fault) return []
-    const { offender, standOn, rammer, windward, leeward } = fault
+    const { offender, standOn, windward, leeward } = fault
 
     return this.recordOnce(state, '11', offender.id, standOn.id, {
       ruleId: '11',
       offenderId: offender.id,
       boats: [offender.id, standOn.id],
+      message: `PENALTY: ${windward.name} (windward) fouled ${leeward.name} (leeward) — Rule 11: windward boat must keep clear`,
+    })
+  }
+
+  private checkRightOfWayException(
+    state: RaceState,
+    a: BoatState,
+    b: BoatState,
+  ): RuleResolution[] {
+    const exception = this.rightOfWayException(state, a, b)
+    if (!exception) return []
+    const { ruleId, offender, standOn } = exception
+    return this.recordOnce(state, ruleId, offender.id, standOn.id, {
+      ruleId,
+      offenderId: offender.id,
+      boats: [offender.id, standOn.id],
       message:
-        rammer !== null
-          ? `PENALTY: ${offender.name} (overtaking from astern) fouled ${standOn.name} — Rule 11: a boat clear astern must keep clear`
-          : `PENALTY: ${windward.name} (windward) fouled ${leeward.name} (leeward) — Rule 11: windward boat must keep clear`,
+        ruleId === '15'
+          ? `PENALTY: ${offender.name} fouled ${standOn.name} — Rule 15: a boat acquiring right of way must initially give room to keep clear`
+          : `PENALTY: ${offender.name} changed course into ${standOn.name} — Rule 16: a right-of-way boat changing course must give room to keep clear`,
+      hint:
+        ruleId === '15'
+          ? `${standOn.name} not penalised: ${offender.name} had only just acquired right of way (Rule 15)`
+          : `${standOn.name} not penalised: ${offender.name} altered course without giving room (Rule 16)`,
+    })
+  }
+
+  /**
+   * Basic right of way between two boats, ignoring contact: Rule 13, then
+   * Rule 10, then Rule 12, then Rule 11.
+   */
+  private rightOfWayHolder(state: RaceState, a: BoatState, b: BoatState) {
+    const tacking = this.tackingGiveWay(state, a, b)
+    if (tacking) return tacking.standOn
+    const windDir = state.wind.directionDeg
+    if (!this.sameTack(state, a, b)) {
+      return getTack(a, windDir) === 'starboard' ? a : b
+    }
+    if (isClearAstern(a, b)) return b
+    if (isClearAstern(b, a)) return a
+    return windwardLeeward(windDir, a, b).leeward
+  }
+
+  /**
+   * Follow right of way between nearby boats so a fault can be weighed against
+   * how recently (and why) the stand-on boat got its rights.
+   */
+  private trackRightOfWay(state: RaceState) {
+    const boats = Object.values(state.boats)
+    const windDir = state.wind.directionDeg
+
+    boats.forEach((boat) => {
+      const samples = this.headingHistory.get(boat.id) ?? []
+      samples.push({ t: state.t, headingDeg: boat.headingDeg })
+      while (samples.length > 1 && samples[0].t < state.t - RULE16_WINDOW_SECONDS) {
+        samples.shift()
+      }
+      this.headingHistory.set(boat.id, samples)
+    })
+
+    const seen = new Set<string>()
+    for (let i = 0; i < boats.length; i += 1) {
+      for (let j = i + 1; j < boats.length; j += 1) {
+        const a = boats[i]
+        const b = boats[j]
+        if (!boatsNearby(a, b, WARNING_RADIUS_RULE10)) continue
+        const key = incidentPairKey(a.id, b.id)
+        seen.add(key)
+
+        const holder = this.rightOfWayHolder(state, a, b)
+        const other = holder === a ? b : a
+        const tacks = { [a.id]: getTack(a, windDir), [b.id]: getTack(b, windDir) }
+        const previous = this.rightOfWay.get(key)
+        if (!previous) {
+          // First seen already holding rights: nothing was just acquired.
+          this.rightOfWay.set(key, {
+            holderId: holder.id,
+            acquiredAt: -Infinity,
+            byOwnAction: false,
+            tacks,
+          })
+          continue
+        }
+        if (previous.holderId !== holder.id) {
+          const holderTacked = previous.tacks[holder.id] !== tacks[holder.id]
+          const otherTacked = previous.tacks[other.id] !== tacks[other.id]
+          previous.holderId = holder.id
+          previous.acquiredAt = state.t
+          previous.byOwnAction = holderTacked || !otherTacked
+          if (previous.byOwnAction && boatsNearby(a, b, WARNING_RADIUS_RULE11)) {
+            this.pendingHints.push({
+              ruleId: '15',
+              boats: [holder.id, other.id],
+              message: `${holder.name} now has right of way over ${other.name} — Rule 15: must initially give room to keep clear`,
+            })
+          }
+        }
+        previous.tacks = tacks
+      }
+    }
+    this.rightOfWay.forEach((_, key) => {
+      if (!seen.has(key)) this.rightOfWay.delete(key)
+    })
+  }
+
+  /**
+   * Rules 15 and 16 shift the blame for a Rule 10/11/12 fault onto the
+   * right-of-way boat when it only just acquired its rights, or when it
+   * altered course towards the give-way boat.
+   */
+  private rightOfWayException(state: RaceState, a: BoatState, b: BoatState) {
+    const fault =
+      this.rule10Fault(state, a, b) ??
+      this.rule12Fault(state, a, b) ??
+      this.rule11Fault(state, a, b)
+    if (!fault) return null
+    const holder = fault.standOn
+    const giveWay = fault.offender
+    const row = this.rightOfWay.get(incidentPairKey(a.id, b.id))
+    if (!row || row.holderId !== holder.id) return null
+
+    if (row.byOwnAction && state.t - row.acquiredAt < RULE15_GRACE_SECONDS) {
+      return { ruleId: '15' as const, offender: holder, standOn: giveWay }
+    }
+
+    const samples = this.headingHistory.get(holder.id)
+    const earlier = samples?.[0]
+    if (!earlier) return null
+    const courseChange = Math.abs(clampAngle180(holder.headingDeg - earlier.headingDeg))
+    if (courseChange < RULE16_COURSE_CHANGE_DEG) return null
+    const bearing = bearingDeg(holder, giveWay)
+    const offBowNow = Math.abs(clampAngle180(bearing - holder.headingDeg))
+    const offBowBefore = Math.abs(clampAngle180(bearing - earlier.headingDeg))
+    if (offBowNow >= offBowBefore) return null
+    return { ruleId: '16' as const, offender: holder, standOn: giveWay }
+  }
+
+  /** Rule 31: a boat shall not touch a mark (committee boat and pin included). */
+  private checkRule31(state: RaceState): RuleResolution[] {
+    const course = getCourseDefinition(state)
+    const gateMarkIndices = courseGateMarkIndices(course)
+    const results: RuleResolution[] = []
+    Object.values(state.boats).forEach((boat) => {
+      if (boat.finished) return
+      const circles = boatCircles(boat)
+      state.marks.forEach((mark, index) => {
+        const radius =
+          (gateMarkIndices.has(index) ? GATE_COLLIDER_RADIUS : MARK_COLLIDER_RADIUS) +
+          MARK_CONTACT_TOLERANCE
+        const touching = circles.some((circle) =>
+          circlesOverlap(circle, { x: mark.x, y: mark.y, r: radius }),
+        )
+        const key = `${boat.id}:${index}`
+        const contact = this.markContacts.get(key)
+        if (contact) {
+          if (!contact.separated) contact.separated = !touching
+          if (!contact.separated || state.t < contact.expiry) return
+          this.markContacts.delete(key)
+        }
+        if (!touching) return
+
+        this.markContacts.set(key, {
+          expiry: state.t + this.cooldownSeconds,
+          separated: false,
+        })
+        const label = course.marks[index]?.label.toLowerCase() ?? 'mark'
+        const what = label === 'committee' ? 'the committee boat' : `the ${label} mark`
+        results.push({
+          ruleId: '31',
+          offenderId: boat.id,
+          boats: [boat.id],
+          message: `PENALTY: ${boat.name} touched ${what} — Rule 31: a boat shall not touch a mark (one-turn penalty)`,
+        })
+      })
+    })
+    return results
+  }
+
+  private checkRule12(state: RaceState, a: BoatState, b: BoatState): RuleResolution[] {
+    const fault = this.rule12Fault(state, a, b)
+    if (!fault) return []
+    const { offender, standOn } = fault
+    return this.recordOnce(state, '12', offender.id, standOn.id, {
+      ruleId: '12',
+      offenderId: offender.id,
+      boats: [offender.id, standOn.id],
+      message: `PENALTY: ${offender.name} (clear astern) fouled ${standOn.name} (clear ahead) — Rule 12: a boat clear astern must keep clear`,
+    })
+  }
+
+  private checkRule13(state: RaceState, a: BoatState, b: BoatState): RuleResolution[] {
+    const fault = this.rule13Fault(state, a, b)
+    if (!fault) return []
+    const { offender, standOn } = fault
+    return this.recordOnce(state, '13', offender.id, standOn.id, {
+      ruleId: '13',
+      offenderId: offender.id,
+      boats: [offender.id, standOn.id],
+      message: `PENALTY: ${offender.name} (tacking) fouled ${standOn.name} — Rule 13: a boat tacking must keep clear until close-hauled`,
     })
   }
 
+  /**
+   * A boat starts tacking when it passes head-to-wind and stays tacking until
+   * it bears away to close-hauled or its tack timer runs out.
+   */
+  private trackTacks(state: RaceState) {
+    Object.values(state.boats).forEach((boat) => {
+      const tack = getTack(boat, sampleWindDirection(state, boat.pos))
+      const twa = localTwa(state, boat)
+      const previous = this.lastTack.get(boat.id)
+      if (previous && previous !== tack && twa < 90 && boat.tackTimer > 0) {
+        this.tacking.add(boat.id)
+      }
+      if (twa >= closeHauledTwa(state, boat) || boat.tackTimer <= 0) {
+        this.tacking.delete(boat.id)
+      }
+      this.lastTack.set(boat.id, tack)
+    })
+  }
+
+  private isTacking(state: RaceState, boat: BoatState) {
+    if (!this.tacking.has(boat.id) || boat.tackTimer <= 0) return false
+    return localTwa(state, boat) < closeHauledTwa(state, boat)
+  }
+
+  private rule13Fault(state: RaceState, a: BoatState, b: BoatState) {
+    if (!boatsTooClose(a, b)) return null
+    return this.tackingGiveWay(state, a, b)
+  }
+
+  /**
+   * Tacking boat keeps clear of one that isn't.  If both are tacking, the one
+   * on the other's port side keeps clear (Rule 13).
+   */
+  private tackingGiveWay(state: RaceState, a: BoatState, b: BoatState) {
+    const aTacking = this.isTacking(state, a)
+    const bTacking = this.isTacking(state, b)
+    if (!aTacking && !bTacking) return null
+    let offender: BoatState
+    if (aTacking && bTacking) {
+      offender = isOnPortSide(b, a) ? a : b
+    } else {
+      offender = aTacking ? a : b
+    }
+    const standOn = offender === a ? b : a
+    if (isRightsSuspended(standOn) && !isRightsSuspended(offender)) {
+      return null
+    }
+    return { offender, standOn }
+  }
+
+  private rule12Fault(state: RaceState, a: BoatState, b: BoatState) {
+    if (!boatsTooClose(a, b)) return null
+    if (!this.sameTack(state, a, b)) return null
+    const rammer = sternRammer(a, b)
+    if (!rammer) return null
+    const offender = rammer
+    const standOn = offender === a ? b : a
+    if (isRightsSuspended(standOn) && !isRightsSuspended(offender)) {
+      return null
+    }
+    return { offender, standOn }
+  }
+
+  /** Same tack for Rules 11/12; boats both deep downwind count as same tack. */
+  private sameTack(state: RaceState, a: BoatState, b: BoatState) {
+    const tackA = getTack(a, state.wind.directionDeg)
+    const tackB = getTack(b, state.wind.directionDeg)
+    const bothDeep =
+      isDeepDownwind(a, state.wind.directionDeg) &&
+      isDeepDownwind(b, state.wind.directionDeg)
+    return tackA === tackB || bothDeep
+  }
+
+  private checkRule18(state: RaceState, a: BoatState, b: BoatState): RuleResolution[] {
+    const fault = this.rule18Fault(state, a, b)
+    if (!fault) return []
+    const { offender, standOn, offenderInside } = fault
+    return this.recordOnce(state, '18', offender.id, standOn.id, {
+      ruleId: '18',
+      offenderId: offender.id,
+      boats: [offender.id, standOn.id],
+      message: offenderInside
+        ? `PENALTY: ${offender.name} took mark-room it was not entitled to from ${standOn.name} — Rule 18.2: only the boat entitled at the zone gets mark-room`
+        : `PENALTY: ${offender.name} failed to give mark-room to ${standOn.name} — Rule 18.2: give room to the boat entitled at the zone`,
+    })
+  }
+
+  /**
+   * Keep `inMarkZone` current and fix mark-room entitlement for each pair when
+   * the first of them reaches the zone: the inside boat if overlapped,
+   * otherwise the boat clear ahead.
+   */
+  private trackMarkZones(state: RaceState) {
+    const entered: BoatState[] = []
+    Object.values(state.boats).forEach((boat) => {
+      const markIndex = zoneMarkIndex(state, boat)
+      const inZone =
+        markIndex !== null && distanceTo(boat, state.marks[markIndex]) <= MARK_ZONE_RADIUS
+      if (inZone && !boat.inMarkZone) entered.push(boat)
+      boat.inMarkZone = inZone
+    })
+
+    this.markRoom.forEach((room, key) => {
+      const entitled = state.boats[room.entitledId]
+      const other = state.boats[room.otherId]
+      const stillBound =
+        entitled &&
+        other &&
+        (entitled.inMarkZone || other.inMarkZone) &&
+        !(room.entitledEntered && !entitled.inMarkZone) &&
+        zoneMarkIndex(state, entitled) === room.markIndex &&
+        zoneMarkIndex(state, other) === room.markIndex
+      if (!stillBound) {
+        this.markRoom.delete(key)
+        return
+      }
+      room.entitledEntered = room.entitledEntered || entitled.inMarkZone
+    })
+
+    entered.forEach((boat) => {
+      const markIndex = boat.nextMarkIndex
+      const mark = state.marks[markIndex]
+      Object.values(state.boats).forEach((other) => {
+        if (other.id === boat.id) return
+        if (zoneMarkIndex(state, other) !== markIndex) return
+        const key = incidentPairKey(boat.id, other.id)
+        if (this.markRoom.has(key)) return
+        // Already in the zone without an obligation: it got there first, clear ahead.
+        if (other.inMarkZone && !entered.includes(other)) {
+          this.markRoom.set(key, {
+            markIndex,
+            entitledId: other.id,
+            otherId: boat.id,
+            entitledEntered: true,
+          })
+          return
+        }
+        if (distanceTo(other, mark) > MARK_ROOM_INVOLVED_RADIUS) return
+
+        let entitled: BoatState
+        if (isClearAstern(other, boat)) {
+          entitled = boat
+        } else if (isClearAstern(boat, other)) {
+          entitled = other
+        } else {
+          entitled = distanceTo(boat, mark) <= distanceTo(other, mark) ? boat : other
+        }
+        const bound = entitled === boat ? other : boat
+        this.markRoom.set(key, {
+          markIndex,
+          entitledId: entitled.id,
+          otherId: bound.id,
+          entitledEntered: entitled.inMarkZone,
+        })
+      })
+    })
+  }
+
+  private markRoomFor(state: RaceState, a: BoatState, b: BoatState) {
+    const room = this.markRoom.get(incidentPairKey(a.id, b.id))
+    if (!room) return null
+    if (!a.inMarkZone && !b.inMarkZone) return null
+    // Rule 18.1(a): does not apply between boats on opposite tacks on a beat.
+    const windDir = state.wind.directionDeg
+    if (
+      getTack(a, windDir) !== getTack(b, windDir) &&
+      isBeating(a, windDir) &&
+      isBeating(b, windDir)
+    ) {
+      return null
+    }
+    const standOn = room.entitledId === a.id ? a : b
+    const offender = standOn === a ? b : a
+    const mark = state.marks[room.markIndex]
+    return {
+      offender,
+      standOn,
+      offenderInside: distanceTo(offender, mark) < distanceTo(standOn, mark),
+    }
+  }
+
+  private rule18Fault(state: RaceState, a: BoatState, b: BoatState) {
+    if (!boatsTooClose(a, b)) return null
+    const room = this.markRoomFor(state, a, b)
+    if (!room) return null
+    if (isRightsSuspended(room.standOn) && !isRightsSuspended(room.offender)) {
+      return null
+    }
+    return room
+  }
+
   private rule10Fault(state: RaceState, a: BoatState, b: BoatState) {
     if (!boatsTooClose(a, b)) return null
 
@@ -341,33 +957,18 @@ export class RulesEngine {
 
   private rule11Fault(state: RaceState, a: BoatState, b: BoatState) {
     if (!boatsTooClose(a, b)) return null
-    const tackA = getTack(a, state.wind.directionDeg)
-    const tackB = getTack(b, state.wind.directionDeg)
-    const bothDeep =
-      isDeepDownwind(a, state.wind.directionDeg) &&
-      isDeepDownwind(b, state.wind.directionDeg)
-    if (tackA !== tackB && !bothDeep) return null
-
-    const perpAngle = degToRad(state.wind.directionDeg + 90)
-    const lineNormal = {
-      x: Math.cos(perpAngle),
-      y: Math.sin(perpAngle),
-    }
-    const project = (boat: BoatState) =>
-      boat.pos.x * lineNormal.x + boat.pos.y * lineNormal.y
+    if (!this.sameTack(state, a, b)) return null
+    // Contact from clear astern is Rule 12's business.
+    if (sternRammer(a, b)) return null
 
-    const aScore = project(a)
-    const bScore = project(b)
-    const windward = aScore < bScore ? a : b
-    const leeward = windward === a ? b : a
+    const { windward, leeward } = windwardLeeward(state.wind.directionDeg, a, b)
 
-    const rammer = sternRammer(a, b)
-    const offender = rammer ?? windward
-    const standOn = offender === a ? b : a
+    const offender = windward
+    const standOn = leeward
     if (isRightsSuspended(standOn) && !isRightsSuspended(offender)) {
       return null
     }
-    return { offender, standOn, rammer, windward, leeward }
+    return { offender, standOn, windward, leeward }
   }
 
   private recordOnce(
@@ -397,6 +998,14 @@ export class RulesEngine {
     return [resolution]
   }
 
+  private warningRule18(state: RaceState, a: BoatState, b: BoatState) {
+    const room = this.markRoomFor(state, a, b)
+    if (!room) return null
+    const { offender, standOn } = room
+    if (isRightsSuspended(standOn) && !isRightsSuspended(offender)) return null
+    return { offender, message: `Mark-room! Give ${standOn.name} room at the mark` }
+  }
+
   private warningRule10(state: RaceState, a: BoatState, b: BoatState) {
     const tackA = getTack(a, state.wind.directionDeg)
     const tackB = getTack(b, state.wind.directionDeg)
@@ -413,26 +1022,27 @@ export class RulesEngine {
     return { offender, message: `Starboard! Keep clear of ${standOn.name}` }
   }
 
+  private warningRule13(state: RaceState, a: BoatState, b: BoatState) {
+    const giveWay = this.tackingGiveWay(state, a, b)
+    if (!giveWay) return null
+    return {
+      offender: giveWay.offender,
+      message: `Tacking! Keep clear of ${giveWay.standOn.name}`,
+    }
+  }
+
   private warningRule11(state: RaceState, a: BoatState, b: BoatState) {
-    const tackA = getTack(a, state.wind.directionDeg)
-    const tackB = getTack(b, state.wind.directionDeg)
-    const bothDeep =
-      isDeepDownwind(a, state.wind.directionDeg) &&
-      isDeepDownwind(b, state.wind.directionDeg)
-    if (tackA !== tackB && !bothDeep) return null
+    if (!this.sameTack(state, a, b)) return null
 
-    const perpAngle = degToRad(state.wind.directionDeg + 90)
-    const lineNormal = {
-      x: Math.cos(perpAngle),
-      y: Math.sin(perpAngle),
+    // Rule 12: a boat clear astern keeps clear of the one ahead.
+    const astern = isClearAstern(a, b) ? a : isClearAstern(b, a) ? b : null
+    if (astern) {
+      const ahead = astern === a ? b : a
+      if (isRightsSuspended(ahead) && !isRightsSuspended(astern)) return null
+      return { offender: astern, message: `Keep clear! You're astern of ${ahead.name}` }
     }
-    const project = (boat: BoatState) =>
-      boat.pos.x * lineNormal.x + boat.pos.y * lineNormal.y
 
-    const aScore = project(a)
-    const bScore = project(b)
-    const windward = aScore < bScore ? a : b
-    const leeward = windward === a ? b : a
+    const { windward, leeward } = windwardLeeward(state.wind.directionDeg, a, b)
 
     const offender = windward
     const standOn = leeward
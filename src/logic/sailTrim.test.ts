@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_SHEET } from '@/logic/constants'
+import { boatSheet, effectiveSheet, optimalSheet } from '@/logic/sailTrim'
+
+describe('optimalSheet', () => {
+  it('is hard in close-hauled and eases off downwind', () => {
+    expect(optimalSheet(40)).toBe(1)
+    expect(optimalSheet(-90)).toBeLessThan(optimalSheet(45))
+    expect(optimalSheet(170)).toBeLessThan(optimalSheet(90))
+    expect(optimalSheet(180)).toBeCloseTo(0.1)
+  })
+})
+
+describe('effectiveSheet', () => {
+  it('keeps the default trim in auto mode whatever the sheet', () => {
+    expect(effectiveSheet({}, { sheet: 0.2 }, 45)).toBe(DEFAULT_SHEET)
+    expect(effectiveSheet({ sailTrim: 'auto' }, {}, 150)).toBe(DEFAULT_SHEET)
+  })
+
+  it('scores the sheet against the optimum in manual mode', () => {
+    const state = { sailTrim: 'manual' as const }
+    const perfect = effectiveSheet(state, { sheet: optimalSheet(120) }, 120)
+    expect(perfect).toBeCloseTo(1)
+    expect(perfect).toBeGreaterThan(DEFAULT_SHEET)
+    expect(effectiveSheet(state, { sheet: 1 }, 150)).toBeLessThan(DEFAULT_SHEET)
+  })
+})
+
+describe('boatSheet', () => {
+  it('falls back to the default trim and clamps to 0-1', () => {
+    expect(boatSheet({})).toBe(DEFAULT_SHEET)
+    expect(boatSheet({ sheet: 1.4 })).toBe(1)
+    expect(boatSheet({ sheet: -0.2 })).toBe(0)
+  })
+})
@@ -0,0 +1,49 @@
+import type { BoatState, RaceState, SailTrimMode } from '@/types/race'
+import { DEFAULT_SHEET } from '@/logic/constants'
+
+/** How close (in sheet units) counts as well trimmed in the HUD. */
+export const SHEET_TOLERANCE = 0.05
+
+export const defaultSailTrimMode: SailTrimMode = 'auto'
+
+export const sailTrimModeOptions: { id: SailTrimMode; name: string }[] = [
+  { id: 'auto', name: 'Auto trim (tactics only)' },
+  { id: 'manual', name: 'Manual trim' },
+]
+
+export const isSailTrimMode = (value: unknown): value is SailTrimMode =>
+  sailTrimModeOptions.some((option) => option.id === value)
+
+export const getSailTrimMode = (state: Pick<RaceState, 'sailTrim'>) =>
+  state.sailTrim ?? defaultSailTrimMode
+
+export const isManualTrim = (state: Pick<RaceState, 'sailTrim'>) =>
+  getSailTrimMode(state) === 'manual'
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value))
+
+/** The boat's sheet setting, starting from the default trim. */
+export const boatSheet = (boat: Pick<BoatState, 'sheet'>) =>
+  Number.isFinite(boat.sheet) ? clamp(boat.sheet as number, 0, 1) : DEFAULT_SHEET
+
+/**
+ * Sheet that gives full speed at a true wind angle: hard in close-hauled,
+ * easing steadily to almost all the way out on a run.
+ */
+export const optimalSheet = (twaDeg: number) =>
+  clamp(1 - ((Math.abs(twaDeg) - 40) / 140) * 0.9, 0.1, 1)
+
+/**
+ * Trim fed to the polar (1 = perfect).  Auto trim is the fixed default every
+ * boat has always sailed with; manual trim scores the sheet against the
+ * optimum, so a good trimmer beats auto and a poor one falls behind it.
+ */
+export const effectiveSheet = (
+  state: Pick<RaceState, 'sailTrim'>,
+  boat: Pick<BoatState, 'sheet'>,
+  twaDeg: number,
+) => {
+  if (!isManualTrim(state)) return DEFAULT_SHEET
+  return 1 - Math.abs(boatSheet(boat) - optimalSheet(twaDeg))
+}
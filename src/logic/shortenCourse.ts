@@ -0,0 +1,101 @@
+import type { RaceState, ShortenedFinish, Vec2 } from '@/types/race'
+import type { CourseLeg } from '@/config/course'
+import { MARK_ZONE_RADIUS } from '@/logic/constants'
+import { normalizeDeg } from '@/logic/physics'
+
+/** Distance from the mark to the committee boat on a shortened finish line. */
+export const SHORTENED_FINISH_LINE_LENGTH = MARK_ZONE_RADIUS * 2
+
+const midpoint = (a: Vec2, b: Vec2) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+
+/** Where a leg is sailed to: the middle of a line or gate, or its mark. */
+const legTarget = (leg: CourseLeg, marks: Vec2[]): Vec2 | undefined => {
+  const pair = leg.finishLineIndices ?? leg.gateMarkIndices
+  if (pair) {
+    const [a, b] = [marks[pair[0]], marks[pair[1]]]
+    return a && b ? midpoint(a, b) : undefined
+  }
+  return marks[leg.markIndices[0]]
+}
+
+/**
+ * The leg to finish on when course is shortened now: the one the leading boat
+ * is sailing, so the finish is at the next mark.  Null before anyone has
+ * started or once the leader is already heading for the finish.
+ */
+export const shortenedFinishLegIndex = (
+  state: Pick<RaceState, 'boats'>,
+  legs: CourseLeg[],
+) => {
+  const racing = Object.values(state.boats).filter((boat) => !boat.finished)
+  if (!racing.length) return null
+  const legIndex = Math.max(...racing.map((boat) => boat.legIndex ?? 0))
+  const leg = legs[legIndex]
+  if (!leg || leg.kind === 'start' || leg.kind === 'finish') return null
+  return legIndex
+}
+
+/**
+ * Whether a boat sailing `legIndex` finishes at the shortened line: she is on
+ * the shortened leg, or a lap behind on the same leg of the course and so
+ * next reaching the same mark, where the whole fleet finishes.
+ */
+export const finishesAtShortenedLine = (
+  legs: CourseLeg[],
+  legIndex: number,
+  shortened: Pick<ShortenedFinish, 'legIndex'>,
+) => {
+  if (legIndex >= shortened.legIndex) return true
+  const leg = legs[legIndex]
+  const finishLeg = legs[shortened.legIndex]
+  if (!leg || !finishLeg) return false
+  return (
+    leg.kind === finishLeg.kind && leg.markIndices.join() === finishLeg.markIndices.join()
+  )
+}
+
+/**
+ * Lay the finish line at a leg's mark.  Boats cross it on the heading they
+ * sail to reach the mark, with the committee boat on the side they would
+ * have left the mark, so the mark is still passed on its rounding side.  A
+ * gate becomes the line between its two marks.
+ */
+export const shortenedFinishLine = (
+  state: Pick<RaceState, 'marks' | 'startLine'>,
+  legs: CourseLeg[],
+  legIndex: number,
+): ShortenedFinish | null => {
+  const leg = legs[legIndex]
+  const previous = legs[legIndex - 1]
+  const to = leg && legTarget(leg, state.marks)
+  const from = previous
+    ? legTarget(previous, state.marks)
+    : midpoint(state.startLine.committee, state.startLine.pin)
+  if (!to || !from) return null
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  const length = Math.hypot(dx, dy)
+  if (length === 0) return null
+  const headingDeg = normalizeDeg((Math.atan2(dx, -dy) * 180) / Math.PI)
+
+  if (leg.gateMarkIndices) {
+    const [leftIdx, rightIdx] = leg.gateMarkIndices
+    return {
+      legIndex,
+      headingDeg,
+      pin: { ...state.marks[leftIdx] },
+      committee: { ...state.marks[rightIdx] },
+    }
+  }
+
+  const mark = state.marks[leg.markIndices[0]]
+  // Starboard of the heading for a mark left to port, and port otherwise.
+  const side = leg.rounding === 'port' ? 1 : -1
+  const offset = (SHORTENED_FINISH_LINE_LENGTH * side) / length
+  return {
+    legIndex,
+    headingDeg,
+    pin: { ...mark },
+    committee: { x: mark.x - dy * offset, y: mark.y + dx * offset },
+  }
+}
@@ -0,0 +1,135 @@
+import type {
+  BoatState,
+  RaceState,
+  StartPenalty,
+  StartProcedure,
+  Vec2,
+} from '@/types/race'
+import { getCourseLegs } from '@/config/course'
+import { scoringPenaltyPlaces } from '@/logic/penalties'
+import { isMatchRace } from '@/logic/matchRacing'
+
+/** Rules 30.1–30.4 apply during the last minute before the starting signal. */
+export const START_RULE_WINDOW_SECONDS = 60
+
+/**
+ * The X flag stays up until every recalled boat has returned, but no later
+ * than four minutes after the starting signal (29.1).
+ */
+export const X_FLAG_MAX_SECONDS = 240
+
+/** Places added for a Z flag penalty, as a percentage of fleet size (30.2). */
+export const Z_FLAG_PERCENT = 20
+
+export const defaultStartProcedure: StartProcedure = 'standard'
+
+export const startProcedureOptions: { id: StartProcedure; name: string }[] = [
+  { id: 'standard', name: 'Standard (OCS only)' },
+  { id: 'i-flag', name: 'I flag (round the ends)' },
+  { id: 'z-flag', name: 'Z flag (20% penalty)' },
+  { id: 'u-flag', name: 'U flag (UFD)' },
+  { id: 'black-flag', name: 'Black flag (BFD)' },
+]
+
+export const isStartProcedure = (value: unknown): value is StartProcedure =>
+  startProcedureOptions.some((option) => option.id === value)
+
+export const getStartProcedure = (state: Pick<RaceState, 'startProcedure'>) =>
+  state.startProcedure ?? defaultStartProcedure
+
+/** Penalty for being in the start triangle during the last minute, if any. */
+export const triangleStartPenalty = (procedure: StartProcedure): StartPenalty | null => {
+  if (procedure === 'z-flag') return 'zfp'
+  if (procedure === 'u-flag') return 'ufd'
+  if (procedure === 'black-flag') return 'bfd'
+  return null
+}
+
+/**
+ * The first mark used for the start triangle.  Gates count from their
+ * midpoint.
+ */
+export const startTriangleMark = (
+  state: Pick<RaceState, 'course' | 'lapsToFinish' | 'marks'>,
+): Vec2 | null => {
+  const firstLeg = getCourseLegs(state).find((leg) => leg.kind !== 'start')
+  const marks = (firstLeg?.markIndices ?? [])
+    .map((index) => state.marks[index])
+    .filter(Boolean)
+  if (!marks.length) return null
+  return {
+    x: marks.reduce((sum, mark) => sum + mark.x, 0) / marks.length,
+    y: marks.reduce((sum, mark) => sum + mark.y, 0) / marks.length,
+  }
+}
+
+const cross = (o: Vec2, a: Vec2, b: Vec2) =>
+  (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+
+/** True when `pos` lies inside (or on) the triangle formed by `a`, `b` and `c`. */
+export const insideTriangle = (pos: Vec2, a: Vec2, b: Vec2, c: Vec2) => {
+  const d1 = cross(a, b, pos)
+  const d2 = cross(b, c, pos)
+  const d3 = cross(c, a, pos)
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0
+  return !(hasNegative && hasPositive)
+}
+
+export const isXFlagFlying = (state: Pick<RaceState, 't' | 'xFlagUntil'>) =>
+  state.t >= 0 && state.t < (state.xFlagUntil ?? 0)
+
+/**
+ * A general recall (29.2) is signalled promptly after the start, so the host
+ * may only call one while an X flag could still be flying.  A match has its
+ * own entry procedure and is never generally recalled.
+ */
+export const canGeneralRecall = (state: Pick<RaceState, 't' | 'phase' | 'raceFormat'>) =>
+  state.phase === 'running' && !isMatchRace(state) && state.t < X_FLAG_MAX_SECONDS
+
+/**
+ * Take every boat back to the start leg with its recall cleared, ready to sail
+ * a new starting sequence.  A U flag disqualification falls away with the
+ * recall (30.3) but a Z flag penalty stands (30.2), and a boat disqualified
+ * under the black flag stays disqualified and may not sail the restart
+ * (30.4).  Returns the boats excluded from the restart.
+ */
+export const applyGeneralRecall = (state: Pick<RaceState, 'boats'>) => {
+  const boats = Object.values(state.boats)
+  boats.forEach((boat) => {
+    boat.lap = 0
+    boat.nextMarkIndex = 0
+    boat.legIndex = 0
+    boat.inMarkZone = false
+    boat.finished = false
+    boat.finishTime = undefined
+    boat.distanceToNextMark = undefined
+    boat.overEarly = false
+    boat.recalled = false
+    boat.roundTheEnds = false
+    if (boat.startPenalty === 'ufd') boat.startPenalty = undefined
+  })
+  return boats.filter((boat) => boat.startPenalty === 'bfd')
+}
+
+export const isStartDisqualified = (boat: BoatState) =>
+  boat.startPenalty === 'ufd' || boat.startPenalty === 'bfd'
+
+/**
+ * Apply a start penalty to a boat's low-point score.  UFD and BFD score as a
+ * DNF; a Z flag penalty adds 20% of the fleet size, capped at the DNF score.
+ */
+export const startPenaltyPoints = (
+  points: number,
+  boat: BoatState,
+  fleetSize: number,
+) => {
+  const dnfPoints = fleetSize + 1
+  if (isStartDisqualified(boat)) return dnfPoints
+  if (boat.startPenalty === 'zfp') {
+    return Math.min(dnfPoints, points + scoringPenaltyPlaces(fleetSize, Z_FLAG_PERCENT))
+  }
+  return points
+}
+
+export const startPenaltyCode = (penalty: StartPenalty) => penalty.toUpperCase()
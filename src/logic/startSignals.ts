@@ -0,0 +1,109 @@
+import type { StartProcedure, StartSignal } from '@/types/race'
+
+/** RRS 26: warning at 5 minutes, preparatory at 4, one-minute at 1, then start. */
+export const WARNING_SIGNAL_SECONDS = 5 * 60
+export const ONE_MINUTE_SIGNAL_SECONDS = 60
+
+export type ScheduledSignal = {
+  signal: StartSignal
+  /** Race time (`t`, negative before the start) at which the signal is made. */
+  t: number
+}
+
+/**
+ * Flags the committee can fly during the sequence (`class` = class flag), and
+ * S once course has been shortened.
+ */
+export type SignalFlag = 'class' | 'P' | 'I' | 'Z' | 'U' | 'black' | 'X' | 'S'
+
+const preparatoryFlags: Record<StartProcedure, SignalFlag> = {
+  standard: 'P',
+  'i-flag': 'I',
+  'z-flag': 'Z',
+  'u-flag': 'U',
+  'black-flag': 'black',
+}
+
+export const preparatoryFlag = (procedure: StartProcedure) => preparatoryFlags[procedure]
+
+/**
+ * Signal times for a countdown of `countdownSeconds`.  Countdowns of five
+ * minutes or more run the standard 5-4-1-go; shorter ones keep the one-minute
+ * signal and squeeze the preparatory signal in after the warning (e.g. 3-2-1-go).
+ */
+export const startSignalSchedule = (countdownSeconds: number): ScheduledSignal[] => {
+  const warning = Math.min(Math.max(0, countdownSeconds), WARNING_SIGNAL_SECONDS)
+  const signals: ScheduledSignal[] = []
+  if (warning > 0) {
+    signals.push({ signal: 'warning', t: -warning })
+  }
+  if (warning > ONE_MINUTE_SIGNAL_SECONDS) {
+    const preparatory =
+      warning >= 3 * ONE_MINUTE_SIGNAL_SECONDS
+        ? warning - ONE_MINUTE_SIGNAL_SECONDS
+        : (warning + ONE_MINUTE_SIGNAL_SECONDS) / 2
+    signals.push(
+      { signal: 'preparatory', t: -preparatory },
+      { signal: 'one_minute', t: -ONE_MINUTE_SIGNAL_SECONDS },
+    )
+  }
+  signals.push({ signal: 'start', t: 0 })
+  return signals
+}
+
+const signalTime = (schedule: ScheduledSignal[], signal: StartSignal) =>
+  schedule.find((entry) => entry.signal === signal)?.t
+
+/**
+ * Flags flying at race time `t`: the class flag from the warning signal until
+ * the start, and the preparatory flag until the one-minute signal.
+ */
+export const signalFlagsFlying = (
+  schedule: ScheduledSignal[],
+  t: number,
+  procedure: StartProcedure,
+): SignalFlag[] => {
+  const flags: SignalFlag[] = []
+  const warning = signalTime(schedule, 'warning')
+  if (warning !== undefined && t >= warning && t < 0) {
+    flags.push('class')
+  }
+  const preparatory = signalTime(schedule, 'preparatory')
+  const oneMinute = signalTime(schedule, 'one_minute') ?? 0
+  if (preparatory !== undefined && t >= preparatory && t < oneMinute) {
+    flags.push(preparatoryFlag(procedure))
+  }
+  return flags
+}
+
+const flagNames: Record<SignalFlag, string> = {
+  class: 'class flag',
+  P: 'P flag',
+  I: 'I flag',
+  Z: 'Z flag',
+  U: 'U flag',
+  black: 'black flag',
+  X: 'X flag',
+  S: 'S flag',
+}
+
+const formatMinutes = (seconds: number) => {
+  const minutes = Math.round(seconds / 6) / 10
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`
+}
+
+/** Event message for a sequence signal, e.g. "Preparatory signal: P flag up (4 minutes)". */
+export const describeSignal = (scheduled: ScheduledSignal, procedure: StartProcedure) => {
+  const remaining = formatMinutes(-scheduled.t)
+  const prep = flagNames[preparatoryFlag(procedure)]
+  switch (scheduled.signal) {
+    case 'warning':
+      return `Warning signal: class flag up (${remaining})`
+    case 'preparatory':
+      return `Preparatory signal: ${prep} up (${remaining})`
+    case 'one_minute':
+      return `One-minute signal: ${prep} down`
+    case 'start':
+      return 'Start signal: class flag down'
+  }
+}
@@ -0,0 +1,124 @@
+import type { BoatState, RaceState, TeamId } from '@/types/race'
+import { getPenaltyConfig, isDisqualified } from '@/logic/penalties'
+import { isStartDisqualified } from '@/logic/startProcedures'
+import { getRaceFormat } from '@/logic/matchRacing'
+
+/** Smallest and largest team sizes: 2v2 up to 4v4. */
+export const TEAM_RACE_MIN_BOATS_PER_TEAM = 2
+export const TEAM_RACE_MAX_BOATS_PER_TEAM = 4
+export const TEAM_RACE_MAX_BOATS = TEAM_RACE_MAX_BOATS_PER_TEAM * 2
+
+export const teamIds: TeamId[] = ['a', 'b']
+
+export const teamLabels: Record<TeamId, string> = {
+  a: 'Blue',
+  b: 'Red',
+}
+
+export const isTeamId = (value: unknown): value is TeamId =>
+  teamIds.includes(value as TeamId)
+
+export const isTeamRace = (state: Pick<RaceState, 'raceFormat'>) =>
+  getRaceFormat(state) === 'team'
+
+/** Boats on the same team; unassigned boats are nobody's teammate. */
+export const sameTeam = (a: Pick<BoatState, 'team'>, b: Pick<BoatState, 'team'>) =>
+  Boolean(a.team) && a.team === b.team
+
+export const teamCounts = (boats: Pick<BoatState, 'team'>[]) => {
+  const counts: Record<TeamId, number> = { a: 0, b: 0 }
+  boats.forEach((boat) => {
+    if (boat.team && isTeamId(boat.team)) counts[boat.team] += 1
+  })
+  return counts
+}
+
+/** The team a newly joined boat should sail for: the smaller one. */
+export const nextTeam = (boats: Pick<BoatState, 'team'>[]): TeamId => {
+  const counts = teamCounts(boats)
+  return counts.b < counts.a ? 'b' : 'a'
+}
+
+/** Split boats into two teams, alternating in the given order. */
+export const balanceTeams = (boatIds: string[]): Record<string, TeamId> =>
+  Object.fromEntries(boatIds.map((id, index) => [id, teamIds[index % 2]]))
+
+/**
+ * Whether the boats make two teams of the same size, two to four boats each,
+ * with nobody left unassigned.
+ */
+export const teamsReady = (state: Pick<RaceState, 'boats'>) => {
+  const boats = Object.values(state.boats)
+  const counts = teamCounts(boats)
+  return (
+    counts.a + counts.b === boats.length &&
+    counts.a === counts.b &&
+    counts.a >= TEAM_RACE_MIN_BOATS_PER_TEAM &&
+    counts.a <= TEAM_RACE_MAX_BOATS_PER_TEAM
+  )
+}
+
+const scoresPlace = (boat: BoatState, state: Pick<RaceState, 'penaltyConfig'>) =>
+  boat.finished &&
+  typeof boat.finishTime === 'number' &&
+  !boat.recalled &&
+  !isDisqualified(boat, getPenaltyConfig(state)) &&
+  !isStartDisqualified(boat)
+
+/**
+ * Team racing points (D3.1): a finisher scores its finishing place, and a boat
+ * that did not start or finish, or was disqualified, scores the number of
+ * boats in the race.
+ *
+ * @param leaderboard - Finishing order; defaults to the race leaderboard
+ */
+export const teamRaceBoatPoints = (
+  state: Pick<RaceState, 'boats' | 'leaderboard' | 'penaltyConfig'>,
+  leaderboard: string[] = state.leaderboard,
+) => {
+  const fleetSize = Object.keys(state.boats).length
+  const points: Record<string, number> = {}
+  let place = 0
+  leaderboard.forEach((boatId) => {
+    const boat = state.boats[boatId]
+    if (!boat) return
+    if (scoresPlace(boat, state)) {
+      place += 1
+      points[boatId] = place
+    } else {
+      points[boatId] = fleetSize
+    }
+  })
+  return points
+}
+
+/**
+ * Combine each team's points; the lower total wins, and on a tie the team
+ * without the first place wins (D3.1(c)), so a 1-4 loses to a 2-3.  No
+ * winner until a boat has finished.
+ */
+export const teamRaceResult = (
+  state: Pick<RaceState, 'boats' | 'leaderboard' | 'penaltyConfig'>,
+  leaderboard: string[] = state.leaderboard,
+) => {
+  const boatPoints = teamRaceBoatPoints(state, leaderboard)
+  const totals: Record<TeamId, number> = { a: 0, b: 0 }
+  let firstPlaceTeam: TeamId | undefined
+  Object.entries(boatPoints).forEach(([boatId, points]) => {
+    const team = state.boats[boatId]?.team
+    if (!team || !isTeamId(team)) return
+    totals[team] += points
+    if (points === 1 && scoresPlace(state.boats[boatId], state)) {
+      firstPlaceTeam = team
+    }
+  })
+  let winner: TeamId | null = null
+  if (firstPlaceTeam) {
+    if (totals.a !== totals.b) {
+      winner = totals.a < totals.b ? 'a' : 'b'
+    } else {
+      winner = firstPlaceTeam === 'a' ? 'b' : 'a'
+    }
+  }
+  return { totals, winner }
+}
@@ -0,0 +1,106 @@
+import type { RaceState, TimeLimitConfig, TleScoring } from '@/types/race'
+
+export const defaultTimeLimitConfig: TimeLimitConfig = {
+  firstBoatMinutes: 0,
+  windowMinutes: 10,
+  tleScoring: 'last-finisher',
+  tlePlaces: 1,
+}
+
+export const firstBoatMinutesOptions = [0, 20, 30, 45]
+
+export const finishingWindowMinutesOptions = [0, 5, 10, 15]
+
+export const tlePlacesOptions = [1, 2, 3]
+
+export const tleScoringOptions: { id: TleScoring; name: string }[] = [
+  { id: 'last-finisher', name: 'Last finisher + places' },
+  { id: 'finishers', name: 'Finishers + 2' },
+]
+
+export const isTleScoring = (value: unknown): value is TleScoring =>
+  tleScoringOptions.some((option) => option.id === value)
+
+export const getTimeLimitConfig = (state: Pick<RaceState, 'timeLimits'>) =>
+  state.timeLimits ?? defaultTimeLimitConfig
+
+const pickOption = <T>(options: readonly T[], value: unknown, fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback
+
+/** Apply the valid settings in `limits` over `current`, ignoring the rest. */
+export const mergeTimeLimits = (
+  current: TimeLimitConfig,
+  limits: Partial<TimeLimitConfig>,
+): TimeLimitConfig => ({
+  firstBoatMinutes: pickOption(
+    firstBoatMinutesOptions,
+    limits.firstBoatMinutes,
+    current.firstBoatMinutes,
+  ),
+  windowMinutes: pickOption(
+    finishingWindowMinutesOptions,
+    limits.windowMinutes,
+    current.windowMinutes,
+  ),
+  tleScoring: isTleScoring(limits.tleScoring) ? limits.tleScoring : current.tleScoring,
+  tlePlaces: pickOption(tlePlacesOptions, limits.tlePlaces, current.tlePlaces),
+})
+
+/** Elapsed race time of the first boat to finish, or null before anyone has. */
+export const firstFinishTime = (state: Pick<RaceState, 'boats'>) => {
+  const times = Object.values(state.boats)
+    .filter((boat) => boat.finished && typeof boat.finishTime === 'number')
+    .map((boat) => boat.finishTime!)
+  return times.length ? Math.min(...times) : null
+}
+
+/** Race time by which the first boat must finish, or null when there is no limit. */
+export const firstBoatDeadline = (state: Pick<RaceState, 'timeLimits'>) => {
+  const { firstBoatMinutes } = getTimeLimitConfig(state)
+  return firstBoatMinutes > 0 ? firstBoatMinutes * 60 : null
+}
+
+/** True once the first-boat limit has passed with nobody finished (RRS 35). */
+export const firstBoatLimitExpired = (
+  state: Pick<RaceState, 't' | 'boats' | 'timeLimits'>,
+) => {
+  const deadline = firstBoatDeadline(state)
+  return deadline !== null && state.t >= deadline && firstFinishTime(state) === null
+}
+
+/**
+ * Race time at which the finishing window closes, or null when there is no
+ * window or no boat has finished yet.
+ */
+export const finishingWindowEnd = (state: Pick<RaceState, 'boats' | 'timeLimits'>) => {
+  const { windowMinutes } = getTimeLimitConfig(state)
+  const first = firstFinishTime(state)
+  if (windowMinutes <= 0 || first === null) return null
+  return first + windowMinutes * 60
+}
+
+export const finishingWindowClosed = (
+  state: Pick<RaceState, 't' | 'boats' | 'timeLimits'>,
+) => {
+  const end = finishingWindowEnd(state)
+  return end !== null && state.t >= end
+}
+
+/**
+ * Points for a boat scored TLE.  Never worse than a DNF, which scores one more
+ * than the fleet size, and the same as a DNF when nobody finished.
+ *
+ * @param lastPlace - Place of the last boat to finish
+ * @param finishers - Number of boats that finished
+ */
+export const tlePoints = (
+  config: TimeLimitConfig,
+  lastPlace: number,
+  finishers: number,
+  fleetSize: number,
+) => {
+  if (finishers <= 0) return fleetSize + 1
+  const points =
+    config.tleScoring === 'finishers' ? finishers + 2 : lastPlace + config.tlePlaces
+  return Math.min(points, fleetSize + 1)
+}
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { getWindFieldConfig, sampleWindDeltaKts, sampleWindSpeed } from './windField'
+import {
+  getWindFieldConfig,
+  sampleWindDeltaKts,
+  sampleWindDirection,
+  sampleWindShiftDeg,
+  sampleWindSpeed,
+} from './windField'
 import type { RaceState } from '@/types/race'
 
 const makeState = (overrides: Partial<RaceState['windField']> = {}): RaceState =>
@@ -12,6 +18,7 @@ const makeState = (overrides: Partial<RaceState['windField']> = {}): RaceState =
       enabled: true,
       count: 8,
       intensityKts: 2,
+      shiftDeg: 8,
       sizeWorld: 100,
       domainLengthWorld: 500,
       domainWidthWorld: 200,
@@ -88,3 +95,42 @@ describe('sampleWindSpeed', () => {
     }
   })
 })
+
+describe('sampleWindShiftDeg', () => {
+  const grid = () => {
+    const points = []
+    for (let x = -100; x <= 100; x += 25) {
+      for (let y = -250; y <= 250; y += 25) {
+        points.push({ x, y })
+      }
+    }
+    return points
+  }
+
+  it('returns 0 when blobs carry no shift', () => {
+    const state = makeState({ shiftDeg: 0 })
+    expect(grid().every((pos) => sampleWindShiftDeg(state, pos) === 0)).toBe(true)
+  })
+
+  it('bends the wind locally within the configured range', () => {
+    const state = makeState()
+    const shifts = grid().map((pos) => sampleWindShiftDeg(state, pos))
+    expect(shifts.some((shift) => Math.abs(shift) > 0)).toBe(true)
+    shifts.forEach((shift) => expect(Math.abs(shift)).toBeLessThanOrEqual(8))
+  })
+
+  it('feeds the local wind direction', () => {
+    const state = makeState()
+    const pos = grid().find((point) => Math.abs(sampleWindShiftDeg(state, point)) > 0.5)!
+    const expected = (sampleWindShiftDeg(state, pos) + 360) % 360
+    expect(sampleWindDirection(state, pos)).toBeCloseTo(expected)
+  })
+
+  it('keeps the speed field unchanged when shifts are added', () => {
+    const withShift = makeState()
+    const without = makeState({ shiftDeg: 0 })
+    grid().forEach((pos) =>
+      expect(sampleWindDeltaKts(withShift, pos)).toBe(sampleWindDeltaKts(without, pos)),
+    )
+  })
+})
@@ -1,6 +1,11 @@
 import type { RaceState, Vec2, WindFieldConfig } from '@/types/race'
 import { createSeededRandom } from '@/utils/rng'
 import { KNOTS_TO_MS } from '@/logic/constants'
+import {
+  sampleScenarioDirectionDelta,
+  sampleScenarioSpeedDelta,
+} from '@/logic/windScenarios'
+import { sampleScriptPuffDeltaKts, sampleScriptPuffShiftDeg } from '@/logic/windScripts'
 
 const degToRad = (deg: number) => (deg * Math.PI) / 180
 
@@ -29,6 +34,8 @@ type PuffBlob = {
   halfSizeAlong: number
   halfSizeCross: number
   amplitudeKts: number
+  /** Direction delta (deg, positive = veer) at the blob's centre. */
+  shiftDeg: number
 }
 
 type CachedField = {
@@ -38,12 +45,17 @@ type CachedField = {
 
 let cached: CachedField | null = null
 
+/** Configs from before blobs carried a shift have no `shiftDeg`; treat them as speed-only. */
+const fieldShiftDeg = (cfg: WindFieldConfig) =>
+  Number.isFinite(cfg.shiftDeg) ? Math.max(0, cfg.shiftDeg) : 0
+
 const makeKey = (seed: number, cfg: WindFieldConfig) =>
   [
     seed,
     cfg.enabled ? 1 : 0,
     cfg.count,
     cfg.intensityKts,
+    fieldShiftDeg(cfg),
     cfg.sizeWorld,
     cfg.domainLengthWorld,
     cfg.domainWidthWorld,
@@ -66,6 +78,9 @@ const getOrCreateBlobs = (seed: number, cfg: WindFieldConfig): PuffBlob[] => {
   if (cached?.key === key) return cached.blobs
 
   const rand = createSeededRandom(seed ^ 0x9e3779b9)
+  // Shifts come from their own stream so adding them leaves the puff layout as it was.
+  const shiftRand = createSeededRandom(seed ^ 0x85ebca6b)
+  const maxShiftDeg = fieldShiftDeg(cfg)
   const blobs: PuffBlob[] = []
   const count = Math.max(1, Math.floor(cfg.count))
   const halfW = cfg.domainWidthWorld / 2
@@ -85,12 +100,17 @@ const getOrCreateBlobs = (seed: number, cfg: WindFieldConfig): PuffBlob[] => {
     const strength = 0.5 + rand() * 0.5 // 0.5..1.0
     const amplitudeKts = sign * cfg.intensityKts * strength
 
+    // Each blob backs or veers independently of whether it is a puff or a lull.
+    const shiftSign = shiftRand() < 0.5 ? -1 : 1
+    const shiftDeg = shiftSign * maxShiftDeg * (0.5 + shiftRand() * 0.5)
+
     blobs.push({
       baseAlong,
       baseCross,
       halfSizeAlong,
       halfSizeCross,
       amplitudeKts,
+      shiftDeg,
     })
   }
 
@@ -110,14 +130,13 @@ const getAxes = (windDirDeg: number) => {
 
 const dot = (a: Vec2, b: Vec2) => a.x * b.x + a.y * b.y
 
+type FieldSample = { deltaKts: number; shiftDeg: number }
+
 /**
- * Sample local wind delta in knots at a world position.
+ * Sum the blobs covering a world position into a speed and direction delta.
  * Deterministic for a given (seed, cfg, t, windDirDeg, windSpeed).
  */
-export const sampleWindDeltaKts = (state: RaceState, pos: Vec2): number => {
-  const cfg = getWindFieldConfig(state)
-  if (!cfg) return 0
-
+const sampleBlobs = (state: RaceState, cfg: WindFieldConfig, pos: Vec2): FieldSample => {
   const { along: alongAxis, cross: crossAxis } = getAxes(state.wind.directionDeg)
 
   // Project world position into along/cross coordinates (world units).
@@ -130,7 +149,8 @@ export const sampleWindDeltaKts = (state: RaceState, pos: Vec2): number => {
   const alongAtTime = wrap(along - windSpeedWorld * state.t, cfg.domainLengthWorld)
 
   const blobs = getOrCreateBlobs(state.meta.seed, cfg)
-  let delta = 0
+  let deltaKts = 0
+  let shiftDeg = 0
 
   for (let i = 0; i < blobs.length; i += 1) {
     const blob = blobs[i]
@@ -147,16 +167,50 @@ export const sampleWindDeltaKts = (state: RaceState, pos: Vec2): number => {
     // Square-ish falloff: independent along/cross ramps, smoothed.
     const alongW = 1 - smooth01(ax)
     const crossW = 1 - smooth01(cx)
-    delta += blob.amplitudeKts * alongW * crossW
+    deltaKts += blob.amplitudeKts * alongW * crossW
+    shiftDeg += blob.shiftDeg * alongW * crossW
   }
 
   // Keep the resulting field bounded to a readable range.
-  const clampAbs = cfg.intensityKts
-  return clamp(delta, -clampAbs, clampAbs)
+  const clampKts = cfg.intensityKts
+  const clampDeg = fieldShiftDeg(cfg)
+  return {
+    deltaKts: clamp(deltaKts, -clampKts, clampKts),
+    shiftDeg: clamp(shiftDeg, -clampDeg, clampDeg),
+  }
+}
+
+/** Sample local wind delta in knots at a world position. */
+export const sampleWindDeltaKts = (state: RaceState, pos: Vec2): number => {
+  // A wind script brings its own puffs in place of the random field.
+  if (state.windScript) return sampleScriptPuffDeltaKts(state, pos)
+  const cfg = getWindFieldConfig(state)
+  if (!cfg) return 0
+  return sampleBlobs(state, cfg, pos).deltaKts
+}
+
+/** Sample the puffs' and lulls' local direction delta (deg, positive = veer). */
+export const sampleWindShiftDeg = (state: RaceState, pos: Vec2): number => {
+  if (state.windScript) return sampleScriptPuffShiftDeg(state, pos)
+  const cfg = getWindFieldConfig(state)
+  if (!cfg || fieldShiftDeg(cfg) <= 0) return 0
+  return sampleBlobs(state, cfg, pos).shiftDeg
 }
 
 /** Sample local wind speed (kts) at a world position. */
 export const sampleWindSpeed = (state: RaceState, pos: Vec2): number => {
-  const speed = state.wind.speed + sampleWindDeltaKts(state, pos)
+  const speed =
+    state.wind.speed +
+    sampleWindDeltaKts(state, pos) +
+    sampleScenarioSpeedDelta(state, pos)
   return Math.max(0, speed)
 }
+
+/** Sample local wind direction (deg, where it blows from) at a world position. */
+export const sampleWindDirection = (state: RaceState, pos: Vec2): number => {
+  const direction =
+    state.wind.directionDeg +
+    sampleWindShiftDeg(state, pos) +
+    sampleScenarioDirectionDelta(state, pos)
+  return ((direction % 360) + 360) % 360
+}
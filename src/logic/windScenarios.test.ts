@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CONVERGENCE_PRESSURE_KTS,
+  PERSISTENT_SHIFT_DEG,
+  SCENARIO_HALF_WIDTH_WORLD,
+  sampleScenarioDirectionDelta,
+  sampleScenarioSpeedDelta,
+} from './windScenarios'
+import { sampleWindDirection, sampleWindSpeed } from './windField'
+import type { RaceState, WindScenario } from '@/types/race'
+
+const makeState = (windScenario: WindScenario): RaceState =>
+  ({
+    t: 0,
+    meta: { raceId: 't', courseName: 't', createdAt: 0, seed: 123 },
+    wind: { directionDeg: 0, speed: 10 },
+    baselineWindDeg: 0,
+    windScenario,
+    marks: [
+      { x: 0, y: -400 },
+      { x: 0, y: 400 },
+    ],
+  }) as RaceState
+
+// Wind from the north: looking upwind, left is west (-x) and right is east (+x).
+const left = { x: -SCENARIO_HALF_WIDTH_WORLD, y: 0 }
+const right = { x: SCENARIO_HALF_WIDTH_WORLD, y: 0 }
+const middle = { x: 0, y: 0 }
+
+describe('sampleScenarioDirectionDelta', () => {
+  it('has no spatial shift for oscillating or random-walk wind', () => {
+    expect(sampleScenarioDirectionDelta(makeState('oscillating'), left)).toBe(0)
+    expect(sampleScenarioDirectionDelta(makeState('random-walk'), right)).toBe(0)
+  })
+
+  it('backs the wind on the left for a persistent left', () => {
+    const state = makeState('persistent-left')
+    expect(sampleScenarioDirectionDelta(state, left)).toBeCloseTo(-PERSISTENT_SHIFT_DEG)
+    expect(sampleScenarioDirectionDelta(state, right)).toBeCloseTo(0)
+    expect(sampleWindDirection(state, left)).toBeCloseTo(360 - PERSISTENT_SHIFT_DEG)
+  })
+
+  it('veers the wind on the right for a persistent right', () => {
+    const state = makeState('persistent-right')
+    expect(sampleScenarioDirectionDelta(state, right)).toBeCloseTo(PERSISTENT_SHIFT_DEG)
+    expect(sampleScenarioDirectionDelta(state, left)).toBeCloseTo(0)
+  })
+
+  it('bends the breeze towards the middle of a convergence zone', () => {
+    const state = makeState('convergence')
+    expect(sampleScenarioDirectionDelta(state, left)).toBeLessThan(0)
+    expect(sampleScenarioDirectionDelta(state, right)).toBeGreaterThan(0)
+    expect(sampleScenarioDirectionDelta(state, middle)).toBeCloseTo(0)
+  })
+})
+
+describe('sampleScenarioSpeedDelta', () => {
+  it('adds pressure down the middle of a convergence zone only', () => {
+    const state = makeState('convergence')
+    expect(sampleScenarioSpeedDelta(state, middle)).toBeCloseTo(CONVERGENCE_PRESSURE_KTS)
+    expect(sampleScenarioSpeedDelta(state, left)).toBeCloseTo(0)
+    expect(sampleWindSpeed(state, middle)).toBeCloseTo(10 + CONVERGENCE_PRESSURE_KTS)
+    expect(sampleScenarioSpeedDelta(makeState('persistent-left'), middle)).toBe(0)
+  })
+})
@@ -0,0 +1,89 @@
+import type { RaceState, Vec2, WindScenario } from '@/types/race'
+
+/** Shift (deg) on the paying side of a persistent scenario. */
+export const PERSISTENT_SHIFT_DEG = 14
+/** Shift (deg) at each edge of a convergence zone, bending towards the middle. */
+export const CONVERGENCE_SHIFT_DEG = 10
+/** Extra breeze (kts) along the middle of a convergence zone. */
+export const CONVERGENCE_PRESSURE_KTS = 2
+/** Cross-course distance (world units) from the centreline to full effect. */
+export const SCENARIO_HALF_WIDTH_WORLD = 600
+/** Largest random-walk step per wind cycle, and how far the walk may wander (deg). */
+export const RANDOM_WALK_STEP_DEG = 6
+export const RANDOM_WALK_RANGE_DEG = 30
+
+export const defaultWindScenario: WindScenario = 'oscillating'
+
+export const windScenarioOptions: { id: WindScenario; name: string }[] = [
+  { id: 'oscillating', name: 'Oscillating' },
+  { id: 'persistent-left', name: 'Persistent left (left pays)' },
+  { id: 'persistent-right', name: 'Persistent right (right pays)' },
+  { id: 'convergence', name: 'Convergence zone' },
+  { id: 'random-walk', name: 'Random walk' },
+]
+
+export const isWindScenario = (value: unknown): value is WindScenario =>
+  windScenarioOptions.some((option) => option.id === value)
+
+export const getWindScenario = (state: Pick<RaceState, 'windScenario'>) =>
+  state.windScenario ?? defaultWindScenario
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value))
+
+/**
+ * The course frame scenarios and scripted puffs are laid out in: the middle
+ * of the marks, with unit vectors pointing upwind along the baseline wind and
+ * to the right when facing it (+Y = south).
+ */
+export const courseWindFrame = (state: Pick<RaceState, 'baselineWindDeg' | 'marks'>) => {
+  const marks = state.marks ?? []
+  const center = marks.length
+    ? {
+        x: marks.reduce((sum, mark) => sum + mark.x, 0) / marks.length,
+        y: marks.reduce((sum, mark) => sum + mark.y, 0) / marks.length,
+      }
+    : { x: 0, y: 0 }
+  const rad = (state.baselineWindDeg * Math.PI) / 180
+  const upwind = { x: Math.sin(rad), y: -Math.cos(rad) }
+  const right = { x: Math.cos(rad), y: Math.sin(rad) }
+  return { center, upwind, right }
+}
+
+/**
+ * Distance of `pos` to the right of the course centreline, looking upwind,
+ * as a fraction of `SCENARIO_HALF_WIDTH_WORLD` clamped to -1..1.
+ */
+const crossCourse = (state: Pick<RaceState, 'baselineWindDeg' | 'marks'>, pos: Vec2) => {
+  const { center, right } = courseWindFrame(state)
+  const offset = (pos.x - center.x) * right.x + (pos.y - center.y) * right.y
+  return clamp(offset / SCENARIO_HALF_WIDTH_WORLD, -1, 1)
+}
+
+/**
+ * Persistent direction delta (deg, positive = veer) at a world position.
+ * Oscillating and random-walk scenarios vary in time only, so they return 0.
+ */
+export const sampleScenarioDirectionDelta = (
+  state: Pick<RaceState, 'windScenario' | 'baselineWindDeg' | 'marks'>,
+  pos: Vec2,
+) => {
+  const scenario = getWindScenario(state)
+  if (scenario === 'oscillating' || scenario === 'random-walk') return 0
+  const cross = crossCourse(state, pos)
+  // Ramp from nothing on the far side to the full shift on the paying side.
+  if (scenario === 'persistent-left') return -PERSISTENT_SHIFT_DEG * ((1 - cross) / 2)
+  if (scenario === 'persistent-right') return PERSISTENT_SHIFT_DEG * ((1 + cross) / 2)
+  // Convergence: backed on the left and veered on the right, so the flow
+  // squeezes together as it runs down the course.
+  return CONVERGENCE_SHIFT_DEG * cross
+}
+
+/** Persistent speed delta (kts) at a world position. */
+export const sampleScenarioSpeedDelta = (
+  state: Pick<RaceState, 'windScenario' | 'baselineWindDeg' | 'marks'>,
+  pos: Vec2,
+) => {
+  if (getWindScenario(state) !== 'convergence') return 0
+  return CONVERGENCE_PRESSURE_KTS * (1 - Math.abs(crossCourse(state, pos)))
+}
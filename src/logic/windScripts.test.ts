@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  sampleScriptPuffDeltaKts,
+  sampleScriptPuffShiftDeg,
+  windScriptAt,
+} from './windScripts'
+import { sampleWindDeltaKts, sampleWindDirection } from './windField'
+import type { RaceState, WindScript } from '@/types/race'
+
+const script: WindScript = {
+  version: 1,
+  id: 'test',
+  name: 'Test',
+  keyframes: [
+    { t: 0, shiftDeg: 0, speedKts: 10 },
+    { t: 100, shiftDeg: 10, speedKts: 14 },
+  ],
+  puffs: [{ t: 0, cross: 0, deltaKts: 4, radiusWorld: 200, durationSeconds: 100 }],
+}
+
+const makeState = (t: number): RaceState =>
+  ({
+    t,
+    meta: { raceId: 't', courseName: 't', createdAt: 0, seed: 1 },
+    wind: { directionDeg: 0, speed: 10 },
+    baselineWindDeg: 0,
+    windScript: script,
+    marks: [
+      { x: 0, y: -400 },
+      { x: 0, y: 400 },
+    ],
+  }) as RaceState
+
+describe('windScriptAt', () => {
+  it('holds the first and last keyframes outside the timeline', () => {
+    expect(windScriptAt(script, -30)).toEqual({ shiftDeg: 0, speedKts: 10 })
+    expect(windScriptAt(script, 500)).toEqual({ shiftDeg: 10, speedKts: 14 })
+  })
+
+  it('interpolates between keyframes', () => {
+    const wind = windScriptAt(script, 25)
+    expect(wind.shiftDeg).toBeCloseTo(2.5)
+    expect(wind.speedKts).toBeCloseTo(11)
+  })
+})
+
+describe('sampleScriptPuffDeltaKts', () => {
+  it('rolls each puff down the course from above the top mark', () => {
+    // The puff centre starts radius-upwind of the top mark and moves downwind.
+    const early = makeState(20)
+    const late = makeState(80)
+    const topMark = { x: 0, y: -400 }
+    const bottomMark = { x: 0, y: 400 }
+    expect(sampleScriptPuffDeltaKts(early, topMark)).toBeGreaterThan(0)
+    expect(sampleScriptPuffDeltaKts(early, bottomMark)).toBe(0)
+    expect(sampleScriptPuffDeltaKts(late, topMark)).toBeLessThan(
+      sampleScriptPuffDeltaKts(early, topMark),
+    )
+  })
+
+  it('replaces the random wind field while a script is loaded', () => {
+    const state = makeState(200)
+    expect(sampleWindDeltaKts(state, { x: 0, y: 0 })).toBe(0)
+  })
+})
+
+describe('sampleScriptPuffShiftDeg', () => {
+  it('leaves the direction alone for puffs without a shift', () => {
+    expect(sampleScriptPuffShiftDeg(makeState(20), { x: 0, y: -400 })).toBe(0)
+  })
+
+  it('backs or veers the breeze inside a shifted puff', () => {
+    const state = {
+      ...makeState(20),
+      windScript: {
+        ...script,
+        puffs: [{ ...script.puffs![0], shiftDeg: -8 }],
+      },
+    }
+    const topMark = { x: 0, y: -400 }
+    const shift = sampleScriptPuffShiftDeg(state, topMark)
+    expect(shift).toBeLessThan(0)
+    expect(shift).toBeGreaterThanOrEqual(-8)
+    expect(sampleWindDirection(state, topMark)).toBeCloseTo(360 + shift)
+    expect(sampleScriptPuffShiftDeg(state, { x: 0, y: 400 })).toBe(0)
+  })
+})
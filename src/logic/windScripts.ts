@@ -0,0 +1,89 @@
+import type { RaceState, Vec2, WindScript, WindScriptPuff } from '@/types/race'
+import { KNOTS_TO_MS } from '@/logic/constants'
+import { courseWindFrame, SCENARIO_HALF_WIDTH_WORLD } from '@/logic/windScenarios'
+
+/** Scripted puffs roll downwind at this fraction of the wind speed. */
+export const SCRIPT_PUFF_ADVECTION_FACTOR = 0.6
+
+const smooth01 = (x: number) => x * x * (3 - 2 * x)
+
+/** Scripted shift and speed at race time `t`, interpolated between keyframes. */
+export const windScriptAt = (script: WindScript, t: number) => {
+  const { keyframes } = script
+  const first = keyframes[0]
+  if (!first || t <= first.t) {
+    return { shiftDeg: first?.shiftDeg ?? 0, speedKts: first?.speedKts ?? 0 }
+  }
+  for (let i = 1; i < keyframes.length; i += 1) {
+    const next = keyframes[i]
+    if (t > next.t) continue
+    const prev = keyframes[i - 1]
+    const span = next.t - prev.t
+    const f = span > 0 ? (t - prev.t) / span : 1
+    return {
+      shiftDeg: prev.shiftDeg + (next.shiftDeg - prev.shiftDeg) * f,
+      speedKts: prev.speedKts + (next.speedKts - prev.speedKts) * f,
+    }
+  }
+  const last = keyframes[keyframes.length - 1]
+  return { shiftDeg: last.shiftDeg, speedKts: last.speedKts }
+}
+
+/** How far upwind of the course middle the top mark (or line) sits, in world units. */
+const courseReachUpwind = (state: Pick<RaceState, 'baselineWindDeg' | 'marks'>) => {
+  const { center, upwind } = courseWindFrame(state)
+  return (state.marks ?? []).reduce(
+    (max, mark) =>
+      Math.max(max, (mark.x - center.x) * upwind.x + (mark.y - center.y) * upwind.y),
+    0,
+  )
+}
+
+/**
+ * Visit each scripted puff covering a world position with its weight there.
+ * Each puff enters just above the top of the course at its `t`, rolls down it
+ * with the wind and swells then fades over `durationSeconds`.
+ */
+const forEachScriptPuff = (
+  state: RaceState,
+  pos: Vec2,
+  visit: (puff: WindScriptPuff, weight: number) => void,
+) => {
+  const puffs = state.windScript?.puffs
+  if (!puffs?.length) return
+  const { center, upwind, right } = courseWindFrame(state)
+  const top = courseReachUpwind(state)
+  const speedWorld = state.wind.speed * KNOTS_TO_MS * SCRIPT_PUFF_ADVECTION_FACTOR
+
+  for (let i = 0; i < puffs.length; i += 1) {
+    const puff = puffs[i]
+    const age = state.t - puff.t
+    if (age < 0 || age > puff.durationSeconds) continue
+    const along = top + puff.radiusWorld - speedWorld * age
+    const cross = puff.cross * SCENARIO_HALF_WIDTH_WORLD
+    const px = center.x + upwind.x * along + right.x * cross
+    const py = center.y + upwind.y * along + right.y * cross
+    const distance = Math.hypot(pos.x - px, pos.y - py) / puff.radiusWorld
+    if (distance >= 1) continue
+    const envelope = Math.sin((Math.PI * age) / puff.durationSeconds)
+    visit(puff, envelope * (1 - smooth01(distance)))
+  }
+}
+
+/** Sample the scripted puffs' speed delta (kts) at a world position. */
+export const sampleScriptPuffDeltaKts = (state: RaceState, pos: Vec2): number => {
+  let delta = 0
+  forEachScriptPuff(state, pos, (puff, weight) => {
+    delta += puff.deltaKts * weight
+  })
+  return delta
+}
+
+/** Sample the scripted puffs' direction delta (deg, positive = veer). */
+export const sampleScriptPuffShiftDeg = (state: RaceState, pos: Vec2): number => {
+  let shift = 0
+  forEachScriptPuff(state, pos, (puff, weight) => {
+    shift += (puff.shiftDeg ?? 0) * weight
+  })
+  return shift
+}
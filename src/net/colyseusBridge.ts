@@ -2,15 +2,32 @@ import { Client, type Room } from '@colyseus/sdk'
 import { raceStore } from '@/state/raceStore'
 import { rosterStore } from '@/state/rosterStore'
 import type {
+  BoatClassId,
+  BoatState,
   ChatMessage,
+  CurrentFieldConfig,
+  DnfMode,
+  HandicapSystem,
+  PenaltySystem,
   PlayerInput,
   RaceEvent,
+  RaceFormat,
   RaceRole,
   RaceState,
+  SailTrimMode,
+  StartProcedure,
+  TeamId,
+  TimeLimitConfig,
+  UmpireDecision,
+  WindScenario,
+  WindScript,
 } from '@/types/race'
 import { identity, setBoatId } from '@/net/identity'
 import { appEnv } from '@/config/env'
 import { cloneRaceState } from '@/state/factories'
+import { parseCourseDefinition } from '@/config/course'
+import { parseWindScript } from '@/config/windScripts'
+import type { CourseDefinition } from '@/types/course'
 import { patchRateStore } from '@/state/patchRateStore'
 import { replayRecorder } from '@/replay/manager'
 
@@ -26,10 +43,26 @@ export type StatsSavedPayload = {
 type HostCommand =
   | { kind: 'arm'; seconds?: number }
   | { kind: 'finish_race' }
-  | { kind: 'confirm_results'; scored: boolean; dnfMode: 'dnf' | 'position'; leaderboard?: string[] }
+  | { kind: 'general_recall' }
+  | { kind: 'shorten_course' }
+  | { kind: 'abandon' }
+  | { kind: 'confirm_results'; scored: boolean; dnfMode: DnfMode; leaderboard?: string[] }
   | { kind: 'reset' }
   | { kind: 'pause'; paused: boolean }
   | { kind: 'wind_field'; enabled: boolean }
+  | { kind: 'current_field'; config: Partial<CurrentFieldConfig> }
+  | { kind: 'wind_scenario'; scenario: WindScenario }
+  | { kind: 'wind_script'; scriptId?: string; script?: WindScript }
+  | { kind: 'penalty_system'; system: PenaltySystem; scoringPercent?: number }
+  | { kind: 'start_procedure'; procedure: StartProcedure }
+  | { kind: 'boat_class'; classId: BoatClassId; boatId?: string }
+  | { kind: 'handicap_system'; system: HandicapSystem }
+  | { kind: 'boat_rating'; boatId: string; rating?: number }
+  | { kind: 'sail_trim'; mode: SailTrimMode }
+  | { kind: 'race_format'; format: RaceFormat }
+  | { kind: 'boat_team'; boatId: string; team: TeamId }
+  | { kind: 'pursuit_minutes'; minutes: number }
+  | { kind: 'time_limits'; limits: Partial<TimeLimitConfig> }
   | { kind: 'debug_set_pos'; boatId: string; x: number; y: number; headingDeg?: number }
   | { kind: 'debug_lap'; boatId: string }
   | { kind: 'debug_finish'; boatId: string }
@@ -37,8 +70,50 @@ type HostCommand =
 
 type RaceRoomSchema = {
   race: {
-    toJSON: () => RaceState
+    toJSON: () => Omit<RaceState, 'boats'> & {
+      boats: Record<string, BoatState & { rated?: boolean; corrected?: boolean }>
+      courseJson?: string
+      windScriptJson?: string
+    }
+  }
+}
+
+let decodedCourse: { json: string; course?: CourseDefinition } = { json: '' }
+
+/** The schema carries the course as a JSON string; decode it once per change. */
+const decodeCourse = (json?: string): CourseDefinition | undefined => {
+  const next = json ?? ''
+  if (decodedCourse.json !== next) {
+    let course: CourseDefinition | undefined
+    if (next) {
+      try {
+        course = parseCourseDefinition(JSON.parse(next)) ?? undefined
+      } catch (error) {
+        console.warn('[ColyseusBridge] failed to decode course', error)
+      }
+    }
+    decodedCourse = { json: next, course }
   }
+  return decodedCourse.course
+}
+
+let decodedWindScript: { json: string; script?: WindScript } = { json: '' }
+
+/** Wind scripts travel the same way as the course: JSON, decoded once per change. */
+const decodeWindScript = (json?: string): WindScript | undefined => {
+  const next = json ?? ''
+  if (decodedWindScript.json !== next) {
+    let script: WindScript | undefined
+    if (next) {
+      try {
+        script = parseWindScript(JSON.parse(next)) ?? undefined
+      } catch (error) {
+        console.warn('[ColyseusBridge] failed to decode wind script', error)
+      }
+    }
+    decodedWindScript = { json: next, script }
+  }
+  return decodedWindScript.script
 }
 
 export class ColyseusBridge {
@@ -194,10 +269,11 @@ export class ColyseusBridge {
     this.room.send('relinquish_host', {})
   }
 
-  sendProtestCommand(command: {
-    kind: 'file' | 'revoke' | 'judge_clear'
-    targetBoatId: string
-  }) {
+  sendProtestCommand(
+    command:
+      | { kind: 'file' | 'revoke' | 'judge_clear'; targetBoatId: string }
+      | { kind: 'umpire_call'; targetBoatId: string; decision: UmpireDecision },
+  ) {
     if (!this.room) return
     this.room.send('protest_command', command)
   }
@@ -208,8 +284,28 @@ export class ColyseusBridge {
     const PATCH_LOG_INTERVAL_MS = 5000
 
     const pushState = () => {
-      const next = room.state?.race?.toJSON?.()
-      if (!next) return
+      const raw = room.state?.race?.toJSON?.()
+      if (!raw) return
+      const { courseJson, windScriptJson, shortenedFinish, boats, ...rest } = raw
+      const next: RaceState = {
+        ...rest,
+        // The schema carries a rating and corrected time for every boat; only
+        // `rated` boats have their own rating and only `corrected` boats a time.
+        boats: Object.fromEntries(
+          Object.entries(boats).map(([id, { rated, corrected, ...boat }]) => [
+            id,
+            {
+              ...boat,
+              rating: rated ? boat.rating : undefined,
+              correctedTime: corrected ? boat.correctedTime : undefined,
+            },
+          ]),
+        ),
+        course: decodeCourse(courseJson),
+        windScript: decodeWindScript(windScriptJson),
+        // The schema always carries a line; leg 0 (the start) means none is laid.
+        shortenedFinish: shortenedFinish?.legIndex ? shortenedFinish : undefined,
+      }
 
       patchCount++
       const now = performance.now()
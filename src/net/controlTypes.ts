@@ -5,4 +5,6 @@ export type ControlUpdate = {
   deltaHeadingDeg?: number
   vmgMode?: boolean
   spin?: 'full'
+  roll?: boolean
+  sheet?: number
 }
@@ -1,4 +1,20 @@
-import type { ChatMessage, RaceRole } from '@/types/race'
+import type {
+  BoatClassId,
+  ChatMessage,
+  CurrentFieldConfig,
+  DnfMode,
+  HandicapSystem,
+  PenaltySystem,
+  RaceFormat,
+  RaceRole,
+  SailTrimMode,
+  StartProcedure,
+  TeamId,
+  TimeLimitConfig,
+  UmpireDecision,
+  WindScenario,
+  WindScript,
+} from '@/types/race'
 import { quantizeHeading } from '@/logic/physics'
 import { identity } from '@/net/identity'
 import { appEnv } from '@/config/env'
@@ -155,6 +171,16 @@ export class GameNetwork {
     this.colyseusBridge?.sendProtestCommand({ kind: 'judge_clear', targetBoatId })
   }
 
+  /** Rule on a Y flag against `targetBoatId` (judges only). */
+  umpireCall(targetBoatId: string, decision: UmpireDecision) {
+    if (!targetBoatId) return
+    this.colyseusBridge?.sendProtestCommand({
+      kind: 'umpire_call',
+      targetBoatId,
+      decision,
+    })
+  }
+
   private emitChat(message: ChatMessage) {
     this.chatListeners.forEach((listener) => listener(message))
   }
@@ -198,6 +224,24 @@ export class GameNetwork {
     })
   }
 
+  rollBoat(seq: number) {
+    this.colyseusBridge?.sendInput({
+      boatId: identity.boatId,
+      seq,
+      roll: true,
+      tClient: Date.now(),
+    })
+  }
+
+  setSheet(sheet: number, seq: number) {
+    this.colyseusBridge?.sendInput({
+      boatId: identity.boatId,
+      seq,
+      sheet,
+      tClient: Date.now(),
+    })
+  }
+
   clearOnePenalty() {
     netLog('clearOnePenalty()')
     this.colyseusBridge?.sendInput({
@@ -244,7 +288,22 @@ export class GameNetwork {
     this.colyseusBridge?.sendHostCommand({ kind: 'finish_race' })
   }
 
-  confirmResults(options: { scored: boolean; dnfMode: 'dnf' | 'position'; leaderboard?: string[] }) {
+  generalRecall() {
+    netLog('send host command', { kind: 'general_recall' })
+    this.colyseusBridge?.sendHostCommand({ kind: 'general_recall' })
+  }
+
+  shortenCourse() {
+    netLog('send host command', { kind: 'shorten_course' })
+    this.colyseusBridge?.sendHostCommand({ kind: 'shorten_course' })
+  }
+
+  abandonRace() {
+    netLog('send host command', { kind: 'abandon' })
+    this.colyseusBridge?.sendHostCommand({ kind: 'abandon' })
+  }
+
+  confirmResults(options: { scored: boolean; dnfMode: DnfMode; leaderboard?: string[] }) {
     netLog('send host command', { kind: 'confirm_results', ...options })
     this.colyseusBridge?.sendHostCommand({ kind: 'confirm_results', ...options })
   }
@@ -267,6 +326,73 @@ export class GameNetwork {
     })
   }
 
+  setCurrentField(config: Partial<CurrentFieldConfig>) {
+    netLog('send host command', { kind: 'current_field', config })
+    this.colyseusBridge?.sendHostCommand({ kind: 'current_field', config })
+  }
+
+  setWindScenario(scenario: WindScenario) {
+    netLog('send host command', { kind: 'wind_scenario', scenario })
+    this.colyseusBridge?.sendHostCommand({ kind: 'wind_scenario', scenario })
+  }
+
+  /** Pick a preset script by id, send a custom one, or pass neither to clear. */
+  setWindScript(selection: { scriptId?: string; script?: WindScript }) {
+    netLog('send host command', { kind: 'wind_script', scriptId: selection.scriptId })
+    this.colyseusBridge?.sendHostCommand({ kind: 'wind_script', ...selection })
+  }
+
+  setPenaltySystem(system: PenaltySystem, scoringPercent?: number) {
+    netLog('send host command', { kind: 'penalty_system', system, scoringPercent })
+    this.colyseusBridge?.sendHostCommand({ kind: 'penalty_system', system, scoringPercent })
+  }
+
+  setStartProcedure(procedure: StartProcedure) {
+    netLog('send host command', { kind: 'start_procedure', procedure })
+    this.colyseusBridge?.sendHostCommand({ kind: 'start_procedure', procedure })
+  }
+
+  /** Set the class for one boat, or for the whole fleet when `boatId` is omitted. */
+  setBoatClass(classId: BoatClassId, boatId?: string) {
+    netLog('send host command', { kind: 'boat_class', classId, boatId })
+    this.colyseusBridge?.sendHostCommand({ kind: 'boat_class', classId, boatId })
+  }
+
+  setHandicapSystem(system: HandicapSystem) {
+    netLog('send host command', { kind: 'handicap_system', system })
+    this.colyseusBridge?.sendHostCommand({ kind: 'handicap_system', system })
+  }
+
+  setBoatRating(boatId: string, rating?: number) {
+    netLog('send host command', { kind: 'boat_rating', boatId, rating })
+    this.colyseusBridge?.sendHostCommand({ kind: 'boat_rating', boatId, rating })
+  }
+
+  setSailTrimMode(mode: SailTrimMode) {
+    netLog('send host command', { kind: 'sail_trim', mode })
+    this.colyseusBridge?.sendHostCommand({ kind: 'sail_trim', mode })
+  }
+
+  setRaceFormat(format: RaceFormat) {
+    netLog('send host command', { kind: 'race_format', format })
+    this.colyseusBridge?.sendHostCommand({ kind: 'race_format', format })
+  }
+
+  setBoatTeam(boatId: string, team: TeamId) {
+    netLog('send host command', { kind: 'boat_team', boatId, team })
+    this.colyseusBridge?.sendHostCommand({ kind: 'boat_team', boatId, team })
+  }
+
+  setPursuitMinutes(minutes: number) {
+    netLog('send host command', { kind: 'pursuit_minutes', minutes })
+    this.colyseusBridge?.sendHostCommand({ kind: 'pursuit_minutes', minutes })
+  }
+
+  setTimeLimits(limits: Partial<TimeLimitConfig>) {
+    netLog('send host command', { kind: 'time_limits', limits })
+    this.colyseusBridge?.sendHostCommand({ kind: 'time_limits', limits })
+  }
+
   debugSetBoatPosition(boatId: string, pos: { x: number; y: number }, headingDeg?: number) {
     netLog('send host command', { kind: 'debug_set_pos', boatId, pos, headingDeg })
     this.colyseusBridge?.sendHostCommand({
@@ -1,4 +1,5 @@
 import { appEnv } from '@/config/env'
+import type { CourseLayoutId } from '@/config/courseLayouts'
 
 export type RoomStatus = 'waiting' | 'in-progress' | 'finished'
 
@@ -15,6 +16,7 @@ export type RoomInfo = {
   phase?: 'prestart' | 'running' | 'finished' | 'results'
   regattaId?: string
   createdBy?: string
+  courseLayout?: CourseLayoutId
 }
 
 export type CreateRoomRequest = {
@@ -22,6 +24,7 @@ export type CreateRoomRequest = {
   description?: string
   createdBy?: string
   regattaId?: string
+  courseLayout?: CourseLayoutId
 }
 
 export type CreateRoomResponse = {
@@ -2,7 +2,15 @@ import { appEnv } from '@/config/env'
 import { createAiConfig } from '@/ai/profiles'
 import { createId } from '@/utils/ids'
 import { seedFromString } from '@/utils/rng'
-import type { BoatState, RaceMeta, RaceState, Vec2 } from '@/types/race'
+import {
+  courseLeewardGate,
+  courseMarkPositions,
+  courseStartLine,
+  defaultCourse,
+} from '@/config/course'
+import type { CourseDefinition } from '@/types/course'
+import { defaultCurrentField } from '@/logic/currentField'
+import type { BoatState, RaceMeta, RaceState } from '@/types/race'
 
 export const defaultBoatColors = [
   0xff9ecd, // pink
@@ -17,16 +25,7 @@ export const defaultBoatColors = [
   0xb5e48c, // lime pastel
 ]
 
-const defaultStartLine = {
-  pin: { x: -180, y: 85 },
-  committee: { x: 180, y: 125 },
-}
-
-const defaultLeewardGate = {
-  // M2.1 / M2.2 (leeward gate marks) - widened for better gate separation/visibility.
-  left: { x: -95, y: 73 },
-  right: { x: 95, y: 80 },
-}
+const defaultStartLine = courseStartLine(defaultCourse)
 
 const structuredCopy = <T>(value: T): T => {
   if (typeof structuredClone === 'function') {
@@ -88,6 +87,7 @@ export const createBoatState = (
     distanceToNextMark: undefined,
     penalties: 0,
     protestPenalties: 0,
+    markPenalties: 0,
     pos: { x: spawnX, y: spawnY },
     prevPos: { x: spawnX, y: spawnY },
     speed: 0,
@@ -106,28 +106,16 @@ export const createBoatState = (
 export const createInitialRaceState = (
   raceId: string,
   countdown = appEnv.countdownSeconds,
+  course: CourseDefinition = defaultCourse,
 ): RaceState => {
   const boatConfigs = appEnv.aiEnabled ? AI_BOAT_CONFIGS : []
   const boats = boatConfigs.map((config, idx) =>
     createBoatState(config.name, idx, config.id, config.aiProfileId),
   )
   const baselineWind = appEnv.baselineWindDeg
-  // Course geometry:
-  // - marks[0] is the windward mark.
-  // - Negative Y is "upwind" on the screen (higher on the canvas).
-  // We previously pushed the windward mark very far upwind (-728). Move it DOWN ~10%
-  // (closer to the start line) to tighten the course a bit.
-  const windwardY = Math.round(-728 * 0.9)
-  const defaultMarks: Vec2[] = [
-    { x: 0, y: windwardY }, // windward mark (moved down ~10%)
-    defaultStartLine.committee,
-    defaultStartLine.pin,
-    defaultLeewardGate.left,
-    defaultLeewardGate.right,
-  ]
   return {
     t: -countdown,
-    meta: createRaceMeta(raceId),
+    meta: { ...createRaceMeta(raceId), courseName: course.name },
     wind: {
       directionDeg: baselineWind,
       speed: 12,
@@ -136,6 +124,7 @@ export const createInitialRaceState = (
     windField: {
       enabled: appEnv.windFieldEnabled,
       intensityKts: appEnv.windFieldIntensityKts,
+      shiftDeg: appEnv.windFieldShiftDeg,
       count: appEnv.windFieldCount,
       sizeWorld: appEnv.windFieldSizeWorld,
       domainLengthWorld: appEnv.windFieldDomainLengthWorld,
@@ -143,9 +132,11 @@ export const createInitialRaceState = (
       advectionFactor: appEnv.windFieldAdvectionFactor,
       tileSizeWorld: appEnv.windFieldTileSizeWorld,
     },
-    marks: structuredCopy(defaultMarks),
-    startLine: structuredCopy(defaultStartLine),
-    leewardGate: structuredCopy(defaultLeewardGate),
+    currentField: { ...defaultCurrentField },
+    course: structuredCopy(course),
+    marks: courseMarkPositions(course),
+    startLine: courseStartLine(course),
+    leewardGate: courseLeewardGate(course),
     phase: 'prestart',
     countdownArmed: false,
     clockStartMs: null,
@@ -0,0 +1,61 @@
+import type { Vec2 } from './race'
+
+export type RoundingSide = 'port' | 'starboard'
+
+export type RadialStep = { axis: 'x' | 'y'; direction: 1 | -1 }
+
+export type CourseMarkDefinition = {
+  id: string
+  label: string
+  position: Vec2
+}
+
+export type CourseLegKind = 'windward' | 'leeward' | 'reach' | 'offset' | 'gate'
+
+export type CourseLegDefinition = {
+  id: string
+  label: string
+  kind: CourseLegKind
+  /** Mark to round (every kind except `gate`). */
+  markIndex?: number
+  /** Gate marks ordered [left/west, right/east]; required for `gate` legs. */
+  gateMarkIndices?: [number, number]
+  /** Defaults to port. Ignored for gates (boats pick a side). */
+  rounding?: RoundingSide
+  /**
+   * Radials a boat must cross, in order, to complete the rounding.
+   * Defaults to the windward/leeward set for the leg kind and rounding side.
+   */
+  radials?: RadialStep[]
+}
+
+export type CourseLineDefinition = {
+  /** Mark index of the committee boat end. */
+  committee: number
+  /** Mark index of the pin end. */
+  pin: number
+}
+
+/**
+ * JSON-serialisable description of a race course.
+ * Marks hold the initial geometry; `legs` describe a single lap which is
+ * repeated `lapsToFinish` times between the start and finish lines.
+ */
+export type CourseDefinition = {
+  version: 1
+  id: string
+  name: string
+  description?: string
+  marks: CourseMarkDefinition[]
+  startLine: CourseLineDefinition
+  /** Defaults to the start line. */
+  finishLine?: CourseLineDefinition
+  /** Legs sailed once, straight after the start (e.g. a reaching start). */
+  openingLegs?: CourseLegDefinition[]
+  legs: CourseLegDefinition[]
+  /**
+   * How many of `legs` are sailed on the final lap before heading to the
+   * finish. Defaults to all of them.
+   */
+  finalLapLegs?: number
+}
@@ -1,3 +1,5 @@
+import type { CourseDefinition } from './course'
+
 export type Vec2 = { x: number; y: number }
 
 export type Wind = {
@@ -9,6 +11,8 @@ export type WindFieldConfig = {
   enabled: boolean
   /** Typical peak delta (kts) of puffs/lulls before clamping. */
   intensityKts: number
+  /** Typical peak direction delta (deg) each puff/lull carries; 0 keeps them speed-only. */
+  shiftDeg: number
   /** Number of moving puff/lull blobs in the domain. */
   count: number
   /** Typical blob size in world units (roughly half-width). */
@@ -23,6 +27,183 @@ export type WindFieldConfig = {
   tileSizeWorld: number
 }
 
+/**
+ * Wind pattern the host picks for the race:
+ * - `oscillating`: the breeze swings either side of its median direction
+ * - `persistent-left` / `persistent-right`: that side of the course is shifted
+ *   towards it, like a shoreline bend, so it pays to get there
+ * - `convergence`: the breeze bends in from both sides to a stronger band
+ *   down the middle
+ * - `random-walk`: the median direction wanders without returning
+ */
+export type WindScenario =
+  | 'oscillating'
+  | 'persistent-left'
+  | 'persistent-right'
+  | 'convergence'
+  | 'random-walk'
+
+/** Scripted wind at `t` seconds of race time, interpolated towards the next keyframe. */
+export type WindKeyframe = {
+  t: number
+  /** Direction relative to the baseline (deg, positive = veer). */
+  shiftDeg: number
+  speedKts: number
+}
+
+/** A puff (or a lull when `deltaKts` is negative) entering the top of the course. */
+export type WindScriptPuff = {
+  t: number
+  /** Where it enters, looking upwind: -1 = left edge, 0 = middle, 1 = right edge. */
+  cross: number
+  deltaKts: number
+  /** Direction delta (deg, positive = veer) at its centre; none when omitted. */
+  shiftDeg?: number
+  /** Radius in world units. */
+  radiusWorld: number
+  /** Seconds from entering until it has faded out. */
+  durationSeconds: number
+}
+
+/**
+ * JSON-serialisable wind timeline.  While a script is loaded the wind depends
+ * only on race time, so every heat sailed with it sees the same conditions.
+ */
+export type WindScript = {
+  version: 1
+  id: string
+  name: string
+  description?: string
+  /** Sorted by `t`; the first and last keyframes hold before and after. */
+  keyframes: WindKeyframe[]
+  puffs?: WindScriptPuff[]
+}
+
+/**
+ * Shape of the tidal current field:
+ * - `uniform`: the same set and drift everywhere
+ * - `gradient`: drift ramps from slack on one side of the course to full on the other
+ * - `tidal`: uniform, with drift following a tidal cycle that reverses each half period
+ */
+export type CurrentMode = 'uniform' | 'gradient' | 'tidal'
+
+export type CurrentFieldConfig = {
+  enabled: boolean
+  mode: CurrentMode
+  /** Direction the current flows towards (degrees, 0 = north). */
+  setDeg: number
+  /** Drift in knots; the peak for `tidal`, the strong side for `gradient`. */
+  driftKts: number
+  /** Gradient only: cross-current width (world units) over which drift ramps up. */
+  gradientWidthWorld: number
+  /** Tidal only: seconds per full flood/ebb cycle. */
+  periodSeconds: number
+  /** Tidal only: offset into the cycle at race time zero, as a fraction (0..1). */
+  phase: number
+}
+
+/**
+ * How fouls between boats are paid off (RRS Appendix 44 / A).
+ * - `two-turns` / `one-turn`: spin on the water (44.2)
+ * - `scoring`: places added to the score at scoring time (44.3)
+ * - `dsq`: any foul disqualifies the boat
+ */
+export type PenaltySystem = 'two-turns' | 'one-turn' | 'scoring' | 'dsq'
+
+export type PenaltyConfig = {
+  system: PenaltySystem
+  /** Places added per scoring penalty, as a percentage of fleet size (44.3(c)). */
+  scoringPercent: number
+}
+
+/**
+ * How boats still racing when the finishing window closes are scored TLE:
+ * - `last-finisher`: the last finisher's place plus `tlePlaces`
+ * - `finishers`: the number of boats that finished plus two
+ */
+export type TleScoring = 'last-finisher' | 'finishers'
+
+/** Time limits for the race (RRS 35); zero minutes means no limit. */
+export type TimeLimitConfig = {
+  /** Minutes from the start for the first boat to finish before the race is abandoned. */
+  firstBoatMinutes: number
+  /** Minutes after the first boat finishes for the rest of the fleet to finish. */
+  windowMinutes: number
+  tleScoring: TleScoring
+  tlePlaces: number
+}
+
+/**
+ * How boats that did not finish are scored when results are confirmed:
+ * - `dnf`: did not finish, one more than the fleet size
+ * - `position`: placed where they were sailing
+ * - `tle`: time limit expired, scored by the race's `TleScoring`
+ */
+export type DnfMode = 'dnf' | 'position' | 'tle'
+
+/**
+ * Start procedure signalled with the preparatory flag (RRS 30.1–30.4).
+ * `standard` only tracks OCS at the starting signal.
+ */
+export type StartProcedure = 'standard' | 'i-flag' | 'z-flag' | 'u-flag' | 'black-flag'
+
+/** Scoring abbreviation for a start-procedure penalty (Appendix A11). */
+export type StartPenalty = 'zfp' | 'ufd' | 'bfd'
+
+/** Bow through the wind (tack) or stern through the wind (gybe). */
+export type ManeuverKind = 'tack' | 'gybe'
+
+/**
+ * Stage of a tack or gybe:
+ * - `luff`: turning towards and through the wind
+ * - `exit`: settling onto the new course with the sails coming in
+ * - `accelerate`: on the new course, rebuilding speed
+ */
+export type ManeuverPhase = 'luff' | 'exit' | 'accelerate'
+
+/**
+ * How finish times are corrected for boat speed:
+ * - `none`: scratch racing on elapsed time
+ * - `phrf-tot`: PHRF time-on-time, elapsed × A / (B + rating)
+ * - `phrf-tod`: PHRF time-on-distance, elapsed − rating × course miles
+ * - `portsmouth`: Portsmouth Yardstick, elapsed × 1000 / PN
+ */
+export type HandicapSystem = 'none' | 'phrf-tot' | 'phrf-tod' | 'portsmouth'
+
+/**
+ * Who trims the sails:
+ * - `auto`: a fixed trim for everyone, so racing is about tactics only
+ * - `manual`: each player eases and trims, and the best trim depends on TWA
+ */
+export type SailTrimMode = 'auto' | 'manual'
+
+/**
+ * What kind of race is sailed:
+ * - `fleet`: everyone against everyone, with fouls penalised automatically
+ * - `match`: two boats (Appendix C), entering the start box at the preparatory
+ *   signal, with fouls called by umpires on a Y flag
+ * - `team`: two teams of two to four boats (Appendix D), scored on the
+ *   combined finishing places of each team
+ * - `pursuit`: boats start one by one at times set from their ratings, so the
+ *   first boat home wins outright; the race ends at a fixed time
+ */
+export type RaceFormat = 'fleet' | 'match' | 'team' | 'pursuit'
+
+/** End of the starting line a match racing boat enters from (C3.2). */
+export type MatchEnd = 'port' | 'starboard'
+
+/** Team a boat sails for in a team race. */
+export type TeamId = 'a' | 'b'
+
+/**
+ * Umpire ruling on a Y flag: penalise the protested boat, signal no penalty
+ * (green and white flag), or penalise the boat that flew the Y flag.
+ */
+export type UmpireDecision = 'penalty' | 'no_penalty' | 'penalty_protestor'
+
+/** Boat class id; see `boatClasses` in `src/logic/boatClasses.ts`. */
+export type BoatClassId = 'generic' | 'laser' | '420' | 'j70'
+
 export type StartLine = {
   pin: Vec2
   committee: Vec2
@@ -33,6 +214,17 @@ export type Gate = {
   right: Vec2
 }
 
+/**
+ * Finish line laid when the committee shortens course (RRS 32.2): between the
+ * mark (`pin`) and a committee boat, or across a gate.
+ */
+export type ShortenedFinish = StartLine & {
+  /** Course leg whose mark the boats now finish at instead of rounding. */
+  legIndex: number
+  /** Heading (degrees) on which boats cross the line to finish. */
+  headingDeg: number
+}
+
 export type BoatAiConfig = {
   profileId: string
   accuracy: number
@@ -55,23 +247,55 @@ export type BoatState = {
   headingDeg: number
   desiredHeadingDeg: number
   speed: number
+  /** Defaults to `generic` when omitted. */
+  classId?: BoatClassId
+  /** Handicap rating for the race's system; the class rating when omitted or 0. */
+  rating?: number
+  /** Finish time corrected by the race's handicap system. */
+  correctedTime?: number
   wakeFactor?: number
   /**
    * When true, sails are "blown" (fully eased/depowered) to slow down without changing course.
    * This is intended as a momentary/held control.
    */
   blowSails?: boolean
+  /** Sheet under manual trim: 0 = eased right out, 1 = trimmed hard in. */
+  sheet?: number
   lap: number
   nextMarkIndex: number
+  /** Index into the expanded course legs (see `getCourseLegs`). */
+  legIndex?: number
   inMarkZone: boolean
   finished: boolean
   finishTime?: number
   distanceToNextMark?: number
   penalties: number
   protestPenalties: number /** Portion of `penalties` that came specifically from an on-water protest. */
+  markPenalties: number /** Portion of `penalties` from touching a mark (Rule 31), cleared with a single turn. */
   stallTimer: number
   tackTimer: number
+  /** Tack or gybe under way; omitted on a steady course. */
+  maneuver?: ManeuverKind
+  maneuverPhase?: ManeuverPhase
+  /** Seconds spent in the current maneuver phase. */
+  maneuverPhaseTime?: number
+  /** Timing of this maneuver's roll, 0 (missed) to 1 (perfect); omitted until tried. */
+  maneuverRoll?: number
   overEarly: boolean
+  /** Individually recalled (X flag): must return fully below the line before starting. */
+  recalled?: boolean
+  /** I flag: was on the course side in the last minute; must return around an end. */
+  roundTheEnds?: boolean
+  /** Z, U or black flag penalty for being in the start triangle in the last minute. */
+  startPenalty?: StartPenalty
+  /** Match racing: end of the line the boat enters from. */
+  matchEnd?: MatchEnd
+  /** Match racing: has crossed into the pre-start side during the entry window. */
+  matchEntered?: boolean
+  /** Team racing: the boat's team. */
+  team?: TeamId
+  /** Pursuit racing: race time of the boat's own start signal. */
+  startTime?: number
   fouled: boolean
   /** Race-time `t` until which the fouled flash should show. */
   fouledUntil?: number
@@ -98,12 +322,42 @@ export type RaceState = {
   wind: Wind
   baselineWindDeg: number
   windField?: WindFieldConfig
+  /** Defaults to `oscillating` when omitted. */
+  windScenario?: WindScenario
+  /** Replaces the random wind (shifts and puffs) while set. */
+  windScript?: WindScript
+  /** Tidal current; boats sail through still water when omitted or disabled. */
+  currentField?: CurrentFieldConfig
+  /** Defaults to the two-turns penalty when omitted. */
+  penaltyConfig?: PenaltyConfig
+  /** Defaults to `standard` when omitted. */
+  startProcedure?: StartProcedure
+  /** Class given to boats that join; individual boats may sail another class. */
+  boatClass?: BoatClassId
+  /** Defaults to `none` (scratch racing) when omitted. */
+  handicapSystem?: HandicapSystem
+  /** Defaults to `auto` when omitted. */
+  sailTrim?: SailTrimMode
+  /** Defaults to `fleet` when omitted. */
+  raceFormat?: RaceFormat
+  /** Pursuit racing: minutes from the first start to the end of the race. */
+  pursuitMinutes?: number
+  /** Defaults to a ten-minute finishing window when omitted. */
+  timeLimits?: TimeLimitConfig
+  /** Set once the committee shortens course; boats finish at this line. */
+  shortenedFinish?: ShortenedFinish
+  /** Set when the committee abandons the race (N flag); it is not scored. */
+  abandoned?: boolean
+  /** Race time at which the X flag (individual recall) comes down. */
+  xFlagUntil?: number
   boats: Record<string, BoatState>
   /**
    * Active protests keyed by `protestedBoatId`.
    * We intentionally keep this 1:1 for now (only one protest per protested boat).
    */
   protests: Record<string, Protest>
+  /** Course layout; marks/startLine/leewardGate hold its live geometry. */
+  course?: CourseDefinition
   marks: Vec2[]
   startLine: StartLine
   leewardGate: Gate
@@ -133,19 +387,42 @@ export type PlayerInput = {
    * When false, return to normal trim.
    */
   blowSails?: boolean
+  /** One-shot: roll the boat through the tack or gybe under way. */
+  roll?: boolean
+  /** New sheet setting (0-1), used when the race is sailed with manual trim. */
+  sheet?: number
   clearPenalty?: boolean
 }
 
-export type RuleId = '10' | '11' | '12' | '18' | '29' | 'other'
+export type RuleId =
+  | '10'
+  | '11'
+  | '12'
+  | '13'
+  | '15'
+  | '16'
+  | '18'
+  | '29'
+  | '30'
+  | '31'
+  | 'other'
+
+/** Sound/flag signals of the starting sequence (RRS 26). */
+export type StartSignal = 'warning' | 'preparatory' | 'one_minute' | 'start'
 
 export type RaceEventKind =
+  | 'sequence_signal'
   | 'start_signal'
   | 'penalty'
   | 'rule_hint'
   | 'general_recall'
+  | 'individual_recall'
   | 'finish'
   | 'mark_rounding'
   | 'boat_started'
+  | 'umpire_call'
+  | 'shorten_course'
+  | 'abandon'
 
 export type RaceEvent = {
   eventId: string
@@ -154,6 +431,8 @@ export type RaceEvent = {
   ruleId?: RuleId
   boats?: string[]
   message: string
+  /** Set on `sequence_signal` and `start_signal` events. */
+  signal?: StartSignal
 }
 
 export type ChatSenderRole = 'host' | 'player' | 'spectator' | 'system'
@@ -183,7 +462,8 @@ export type ReplayRecording = {
 
 export type RaceRole = 'host' | 'player' | 'spectator' | 'judge' | 'god'
 
-export type ProtestStatus = 'active' | 'active_waived'
+/** `y_flag`: match racing protest waiting for an umpire decision, with no penalty yet. */
+export type ProtestStatus = 'active' | 'active_waived' | 'y_flag'
 
 export type Protest = {
   protestedBoatId: string
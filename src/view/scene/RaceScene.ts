@@ -2,8 +2,27 @@ import { Application, Container, Graphics, Text } from 'pixi.js'
 import { appEnv } from '@/config/env'
 import type { BoatState, RaceState, Vec2, WindFieldConfig } from '@/types/race'
 import { identity } from '@/net/identity'
-import { angleDiff } from '@/logic/physics'
-import { getWindFieldConfig, sampleWindDeltaKts } from '@/logic/windField'
+import { angleDiff, computeVmgAngles } from '@/logic/physics'
+import {
+  getWindFieldConfig,
+  sampleWindDeltaKts,
+  sampleWindDirection,
+  sampleWindShiftDeg,
+  sampleWindSpeed,
+} from '@/logic/windField'
+import {
+  getCurrentFieldConfig,
+  laylineBearings,
+  sampleCurrentKts,
+} from '@/logic/currentField'
+import { getStartProcedure, isXFlagFlying } from '@/logic/startProcedures'
+import { isTeamRace } from '@/logic/teamRacing'
+import { boatStartTime, isPursuitRace } from '@/logic/pursuit'
+import {
+  signalFlagsFlying,
+  startSignalSchedule,
+  type SignalFlag,
+} from '@/logic/startSignals'
 import { getSceneColors, type ScenePalette } from './sceneColors'
 import { getResolvedTheme } from '@/state/themeStore'
 import {
@@ -14,7 +33,7 @@ import {
   BOAT_STERN_RADIUS,
   GATE_COLLIDER_RADIUS,
   MARK_COLLIDER_RADIUS,
-  NO_GO_ANGLE_DEG,
+  MARK_ZONE_RADIUS,
   STALL_DURATION_S,
   WAKE_FORWARD_OFFSET_MAX,
   WAKE_GRID_ENABLED,
@@ -22,10 +41,15 @@ import {
 } from '@/logic/constants'
 import { getEffectiveWakeTuning } from '@/logic/wakeTuning'
 import { boatCapsuleCircles } from '@/logic/boatGeometry'
+import { boatClassFor, hullScale, polarSpeedKts } from '@/logic/boatClasses'
 import { raceStore } from '@/state/raceStore'
 import {
-  courseLegs,
-  courseMarkAnnotations,
+  buildCourseMarkAnnotations,
+  courseGateMarkIndices,
+  courseGatePairs,
+  courseLineMarkIndices,
+  getCourseDefinition,
+  getCourseLegs,
   radialSets,
   gateRadials,
 } from '@/config/course'
@@ -41,6 +65,17 @@ import {
 
 const degToRad = (deg: number) => (deg * Math.PI) / 180
 const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+const SIGNAL_FLAG_CAPTIONS: Record<SignalFlag, string> = {
+  class: 'CLASS',
+  P: 'P',
+  I: 'I',
+  Z: 'Z',
+  U: 'U',
+  black: 'BLACK',
+  X: 'INDIVIDUAL RECALL',
+  S: 'SHORTENED COURSE',
+}
 const normalizeDeg = (deg: number) => {
   const wrapped = deg % 360
   return wrapped < 0 ? wrapped + 360 : wrapped
@@ -57,11 +92,6 @@ const wakeForwardOffset = (headingDeg: number, windDirDeg: number) => {
   return WAKE_FORWARD_OFFSET_MAX * downwindT
 }
 
-// Mark-zone radius in world units.
-// Note: our boat sprite is drawn ~2× the physics/collision `BOAT_LENGTH` (see hull points),
-// so use a multiplier that makes the ring read like ~2 boat lengths on screen.
-const MARK_ZONE_RADIUS = 4 * BOAT_LENGTH
-
 export type CameraMode = 'follow' | 'birdseye'
 
 let activePalette: ScenePalette = getSceneColors(getResolvedTheme())
@@ -91,6 +121,7 @@ class BoatView {
     },
   })
   private lastLeewardSign: 1 | -1 = 1
+  private lastHullScale = 1
   private lastNameText = ''
   private lastNameFill = activePalette.boatNameDefault
   private lastProjectionLen = NaN
@@ -116,6 +147,13 @@ class BoatView {
     this.wakeLabel.anchor.set(0.5)
   }
 
+  /** Recolour the hull, e.g. when the boat joins a team. */
+  setColor(color: number) {
+    if (color === this.color) return
+    this.color = color
+    this.drawBoat()
+  }
+
   private drawBoat() {
     // Collision footprint (capsule: bow + stern circles to match rules)
     this.collision.clear()
@@ -177,10 +215,19 @@ class BoatView {
   update(boat: BoatState, isPlayer = false, beforeStart = false) {
     this.container.position.set(boat.pos.x, boat.pos.y)
     this.container.rotation = degToRad(boat.headingDeg)
+    const hullScaleFactor = hullScale(boatClassFor(boat))
+    if (hullScaleFactor !== this.lastHullScale) {
+      // Longer classes draw bigger; the sail keeps its leeward flip.
+      this.hull.scale.set(hullScaleFactor)
+      this.collision.scale.set(hullScaleFactor)
+      this.wakeIndicator.scale.set(hullScaleFactor)
+      this.sail.scale.set(this.lastLeewardSign * hullScaleFactor, hullScaleFactor)
+      this.lastHullScale = hullScaleFactor
+    }
     const awa = angleDiff(RaceScene.currentWindDeg, boat.headingDeg)
     const leewardSign: 1 | -1 = awa >= 0 ? -1 : 1
     if (leewardSign !== this.lastLeewardSign) {
-      this.sail.scale.x = leewardSign
+      this.sail.scale.x = leewardSign * this.lastHullScale
       this.lastLeewardSign = leewardSign
     }
     const absAwa = Math.abs(angleDiff(boat.headingDeg, RaceScene.currentWindDeg))
@@ -204,7 +251,8 @@ class BoatView {
     // - Otherwise ramps up only when you're near the no-go zone (true luffing / stalled),
     //   not during normal upwind sailing (e.g. VMG ~45°).
     const LUFF_BUFFER_DEG = 12
-    const luffThresholdDeg = NO_GO_ANGLE_DEG + LUFF_BUFFER_DEG
+    const { noGoAwa } = computeVmgAngles(RaceScene.currentWindSpeed, boatClassFor(boat))
+    const luffThresholdDeg = noGoAwa + LUFF_BUFFER_DEG
     const nearNoGoIntensity = clamp01((luffThresholdDeg - absAwa) / LUFF_BUFFER_DEG)
     const stallIntensity = clamp01(boat.stallTimer / STALL_DURATION_S)
     const luffIntensity = isBlown ? 1 : Math.max(nearNoGoIntensity, stallIntensity)
@@ -325,6 +373,7 @@ export class RaceScene {
   private waterLayer = new Graphics()
   private worldLayer = new Container()
   private windFieldLayer = new Graphics()
+  private currentLayer = new Graphics()
   private windShadowLayer = new Graphics()
   private courseLayer = new Graphics()
   private contextLayer = new Graphics()
@@ -341,6 +390,11 @@ export class RaceScene {
     text: '',
     style: { fill: activePalette.hudTextFill, fontSize: 14, fontWeight: 'bold' },
   })
+  private signalFlags = new Graphics()
+  private signalFlagLabel = new Text({
+    text: '',
+    style: { fill: activePalette.hudTextFill, fontSize: 11, letterSpacing: 1, fontWeight: '600' },
+  })
   private countdownContainer = new Container()
   private countdownBg = new Graphics()
   private countdownFill = new Graphics()
@@ -371,6 +425,7 @@ export class RaceScene {
   private lastCourseWasDebug = false
   private sceneTick = 0
   private windFieldWasEnabled = false
+  private currentWasEnabled = false
   private windShadowLeewardBlend = 0
   private windShadowLastMs = 0
   private readonly windFieldBuckets = 6
@@ -398,6 +453,7 @@ export class RaceScene {
   ) {
     // Render order (bottom -> top):
     // - windFieldLayer: moving puffs/lulls visualization (world-space)
+    // - currentLayer: tidal current arrows (world-space)
     // - windShadowGridLayer: grid-based wind shadow heatmap (debug, world-space)
     // - windShadowLayer: player wind shadow visualization (world-space)
     // - courseLayer: static course visuals (kept above wind shadows for readability)
@@ -406,6 +462,7 @@ export class RaceScene {
     // - boatLayer: boats + name tags, etc.
     this.worldLayer.addChild(
       this.windFieldLayer,
+      this.currentLayer,
       this.windShadowGridLayer,
       this.windShadowLayer,
       this.courseLayer,
@@ -433,8 +490,13 @@ export class RaceScene {
       this.windArrowFill,
       this.windText,
       this.timerText,
+      this.signalFlags,
+      this.signalFlagLabel,
       this.countdownContainer,
     )
+    this.signalFlagLabel.anchor.set(1, 0)
+    this.signalFlags.visible = false
+    this.signalFlagLabel.visible = false
     // Phase/time line removed to reduce clutter; move wind readout up.
     this.windText.position.set(20, 74)
     // Wind info now lives in the HTML HUD cluster; keep only the arrow in-canvas.
@@ -451,6 +513,7 @@ export class RaceScene {
   }
 
   static currentWindDeg = 0
+  static currentWindSpeed = 0
   private palette: ScenePalette = activePalette
 
   setTheme(theme: 'light' | 'dark') {
@@ -512,6 +575,7 @@ export class RaceScene {
 
   update(state: RaceState) {
     RaceScene.currentWindDeg = state.wind.directionDeg
+    RaceScene.currentWindSpeed = state.wind.speed
     this.applyCameraTransform(state)
 
     // Responsive elements update every tick.
@@ -524,7 +588,7 @@ export class RaceScene {
     this.sceneTick += 1
     if (!isDrawFrame) return
 
-    const windCfg = getWindFieldConfig(state)
+    const windCfg = getWindFieldConfig(state) ?? this.scriptedPuffConfig(state)
     if (!windCfg) {
       if (this.windFieldWasEnabled) {
         this.windFieldLayer.clear()
@@ -534,6 +598,13 @@ export class RaceScene {
       this.windFieldWasEnabled = true
       this.drawWindField(state, windCfg)
     }
+    if (getCurrentFieldConfig(state)) {
+      this.currentWasEnabled = true
+      this.drawCurrentField(state)
+    } else if (this.currentWasEnabled) {
+      this.currentLayer.clear()
+      this.currentWasEnabled = false
+    }
     this.drawPlayerWindShadow(state)
     this.drawCourse(state)
   }
@@ -710,6 +781,15 @@ export class RaceScene {
     }
   }
 
+  /** Scripted puffs are drawn like the random field, even with that switched off. */
+  private scriptedPuffConfig(state: RaceState): WindFieldConfig | null {
+    const puffs = state.windScript?.puffs
+    if (!puffs?.length || !state.windField) return null
+    const intensityKts = Math.max(...puffs.map((puff) => Math.abs(puff.deltaKts)))
+    const shiftDeg = Math.max(...puffs.map((puff) => Math.abs(puff.shiftDeg ?? 0)))
+    return { ...state.windField, enabled: true, intensityKts, shiftDeg }
+  }
+
   private drawWindField(state: RaceState, cfg?: WindFieldConfig) {
     const resolved = cfg ?? getWindFieldConfig(state)
     this.windFieldLayer.clear()
@@ -785,10 +865,119 @@ export class RaceScene {
         this.windFieldLayer.fill()
       }
     }
+
+    this.drawWindFieldShifts(state, resolved, tile, { minX, maxX, minY, maxY })
+  }
+
+  /**
+   * Streaks along the local wind on a coarser grid than the patches, tinted
+   * like the wind arrow where a puff or lull has veered or backed the breeze.
+   */
+  private drawWindFieldShifts(
+    state: RaceState,
+    cfg: WindFieldConfig,
+    tile: number,
+    bounds: { minX: number; maxX: number; minY: number; maxY: number },
+  ) {
+    const maxShift = Number.isFinite(cfg.shiftDeg) ? cfg.shiftDeg : 0
+    if (maxShift <= 0) return
+    const spacing = tile * 3
+    const startX = Math.floor(bounds.minX / spacing) * spacing
+    const startY = Math.floor(bounds.minY / spacing) * spacing
+    const center: Vec2 = { x: 0, y: 0 }
+    const layer = this.windFieldLayer
+    const minShiftToDraw = 1
+
+    const veered: number[] = []
+    const backed: number[] = []
+
+    for (let y = startY; y <= bounds.maxY; y += spacing) {
+      for (let x = startX; x <= bounds.maxX; x += spacing) {
+        center.x = x + spacing / 2
+        center.y = y + spacing / 2
+        const shift = sampleWindShiftDeg(state, center)
+        if (Math.abs(shift) < minShiftToDraw) continue
+        const norm = Math.min(1, Math.abs(shift) / maxShift)
+        // Wind direction is where it blows from; streak along where it blows to.
+        const rad = ((sampleWindDirection(state, center) + 180) * Math.PI) / 180
+        const half = spacing * 0.25 * (0.5 + norm * 0.5)
+        const ux = Math.sin(rad) * half
+        const uy = -Math.cos(rad) * half
+        const list = shift > 0 ? veered : backed
+        list.push(center.x - ux, center.y - uy, center.x + ux, center.y + uy)
+      }
+    }
+
+    const width = Math.max(1.5, spacing / 40)
+    const strokes: [number[], number][] = [
+      [veered, this.palette.windArrowRight],
+      [backed, this.palette.windArrowLeft],
+    ]
+    for (const [segments, color] of strokes) {
+      if (!segments.length) continue
+      for (let i = 0; i < segments.length; i += 4) {
+        layer.moveTo(segments[i], segments[i + 1])
+        layer.lineTo(segments[i + 2], segments[i + 3])
+      }
+      layer.stroke({ width, color, alpha: 0.55 })
+    }
+  }
+
+  /** Arrows on a fixed world grid, pointing with the set and scaled by drift. */
+  private drawCurrentField(state: RaceState) {
+    this.currentLayer.clear()
+    const cfg = getCurrentFieldConfig(state)
+    if (!cfg) return
+
+    const { minX, maxX, minY, maxY } = this.getVisibleWorldBounds(state)
+    // Widen the spacing when zoomed out so the arrow count stays bounded.
+    const maxArrows = 400
+    let spacing = 140
+    const area = Math.max(1, (maxX - minX) * (maxY - minY))
+    if (area / (spacing * spacing) > maxArrows) {
+      spacing = Math.sqrt(area / maxArrows)
+    }
+    const startX = Math.floor(minX / spacing) * spacing
+    const startY = Math.floor(minY / spacing) * spacing
+    const center: Vec2 = { x: 0, y: 0 }
+
+    this.currentLayer.setStrokeStyle({
+      width: Math.max(1.5, spacing / 70),
+      color: this.palette.currentArrow,
+      alpha: this.palette.currentArrowAlpha,
+    })
+    for (let y = startY; y <= maxY; y += spacing) {
+      for (let x = startX; x <= maxX; x += spacing) {
+        center.x = x + spacing / 2
+        center.y = y + spacing / 2
+        const current = sampleCurrentKts(state, center)
+        const drift = Math.hypot(current.x, current.y)
+        const norm = Math.min(1, drift / cfg.driftKts)
+        if (norm < 0.05) continue
+        const ux = current.x / drift
+        const uy = current.y / drift
+        const half = spacing * 0.3 * norm
+        const tip = { x: center.x + ux * half, y: center.y + uy * half }
+        const wing = Math.max(4, half * 0.45)
+        this.currentLayer.moveTo(center.x - ux * half, center.y - uy * half)
+        this.currentLayer.lineTo(tip.x, tip.y)
+        this.currentLayer.moveTo(tip.x, tip.y)
+        this.currentLayer.lineTo(
+          tip.x - (ux + uy * 0.6) * wing,
+          tip.y - (uy - ux * 0.6) * wing,
+        )
+        this.currentLayer.moveTo(tip.x, tip.y)
+        this.currentLayer.lineTo(
+          tip.x - (ux - uy * 0.6) * wing,
+          tip.y - (uy + ux * 0.6) * wing,
+        )
+      }
+    }
+    this.currentLayer.stroke()
   }
 
   private getCourseKey(state: RaceState): string {
-    const parts: string[] = []
+    const parts: string[] = [getCourseDefinition(state).id]
     const push = (p: Vec2) => {
       // Course geometry is effectively static; round to avoid accidental redraws from tiny float noise.
       parts.push(`${p.x.toFixed(2)},${p.y.toFixed(2)}`)
@@ -798,6 +987,10 @@ export class RaceScene {
     push(state.startLine.committee)
     push(state.leewardGate.left)
     push(state.leewardGate.right)
+    if (state.shortenedFinish) {
+      push(state.shortenedFinish.pin)
+      push(state.shortenedFinish.committee)
+    }
     return parts.join('|')
   }
 
@@ -823,8 +1016,10 @@ export class RaceScene {
 
       this.courseLayer.clear()
       this.drawStartLine(state)
+      this.drawFinishLine(state)
+      this.drawShortenedFinish(state)
       this.drawMarks(state)
-      this.drawLeewardGate(state)
+      this.drawGates(state)
       return
     }
 
@@ -834,8 +1029,10 @@ export class RaceScene {
 
     this.courseLayer.clear()
     this.drawStartLine(state)
+    this.drawFinishLine(state)
+    this.drawShortenedFinish(state)
     this.drawMarks(state)
-    this.drawLeewardGate(state)
+    this.drawGates(state)
     this.drawDebugCrossingGuides(state)
     this.drawDebugAnnotations(state)
   }
@@ -870,31 +1067,67 @@ export class RaceScene {
       endOffsetWorld,
     )
     this.contextLayer.fill()
+    this.drawCurrentLaylines(state, boat, to, pxToWorld)
+  }
+
+  /**
+   * Laylines to the follow target when a current is running.  The set bends
+   * them away from the still-water angles, which is what makes current hard
+   * to judge by eye.
+   */
+  private drawCurrentLaylines(
+    state: RaceState,
+    boat: BoatState,
+    target: Vec2,
+    pxToWorld: number,
+  ) {
+    if (!getCurrentFieldConfig(state)) return
+    const windDir = sampleWindDirection(state, target)
+    const bearing =
+      (Math.atan2(target.x - boat.pos.x, -(target.y - boat.pos.y)) * 180) / Math.PI
+    const upwind = Math.abs(angleDiff(bearing, windDir)) < 90
+    const windSpeed = sampleWindSpeed(state, target)
+    const boatClass = boatClassFor(boat)
+    const vmg = computeVmgAngles(windSpeed, boatClass)
+    const twa = upwind ? vmg.upwindAwa : vmg.downwindAwa
+    const speedKts = polarSpeedKts(boatClass.polar, twa, windSpeed)
+    if (speedKts <= 0.01) return
+    const current = sampleCurrentKts(state, target)
+    const length = Math.hypot(target.x - boat.pos.x, target.y - boat.pos.y) * 1.5
+
+    this.contextLayer.setStrokeStyle({
+      width: 1.5 * pxToWorld,
+      color: this.palette.contextLine,
+      alpha: this.palette.contextLineAlpha,
+    })
+    laylineBearings(windDir, twa, speedKts, current).forEach((layline) => {
+      const rad = (layline * Math.PI) / 180
+      this.contextLayer.moveTo(target.x, target.y)
+      this.contextLayer.lineTo(
+        target.x + Math.sin(rad) * length,
+        target.y - Math.cos(rad) * length,
+      )
+    })
+    this.contextLayer.stroke()
   }
 
   private getFollowContextTarget(state: RaceState, boat: BoatState): Vec2 | null {
     const marks = state.marks
     if (!marks.length) return null
 
-    const nextIndex = Math.max(0, boat.nextMarkIndex ?? 0) % marks.length
-
-    // By convention in this project:
-    // - marks[0] is the windward mark
-    // - marks[1]/marks[2] are start line committee/pin
-    // - marks[3]/marks[4] are leeward gate marks
-    if (nextIndex === 1 || nextIndex === 2) {
-      return {
-        x: (state.startLine.pin.x + state.startLine.committee.x) / 2,
-        y: (state.startLine.pin.y + state.startLine.committee.y) / 2,
-      }
-    }
-    if (nextIndex === 3 || nextIndex === 4) {
-      return {
-        x: (state.leewardGate.left.x + state.leewardGate.right.x) / 2,
-        y: (state.leewardGate.left.y + state.leewardGate.right.y) / 2,
+    const legs = getCourseLegs(state)
+    const leg = legs[Math.min(boat.legIndex ?? 0, legs.length - 1)]
+    // Lines and gates aim at their midpoint; single marks at the mark itself.
+    const pair = leg?.finishLineIndices ?? leg?.gateMarkIndices
+    if (pair) {
+      const a = marks[pair[0]]
+      const b = marks[pair[1]]
+      if (a && b) {
+        return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
       }
     }
 
+    const nextIndex = Math.max(0, boat.nextMarkIndex ?? 0) % marks.length
     return marks[nextIndex] ?? null
   }
 
@@ -926,10 +1159,11 @@ export class RaceScene {
 
   private drawMarks(state: RaceState) {
     this.courseLayer.setStrokeStyle({ width: 2, color: this.palette.markZone, alpha: this.palette.markZoneAlpha })
-    // Gate marks (indices 3 and 4) are drawn separately in drawLeewardGate
-    // Pin (index 2) and committee (index 1) don't get zone circles
-    const gateMarkIndices = new Set([3, 4])
-    const startLineMarkIndices = new Set([1, 2])
+    // Gate marks are drawn separately in drawGates
+    // Start/finish line ends (pin and committee) don't get zone circles
+    const course = getCourseDefinition(state)
+    const gateMarkIndices = courseGateMarkIndices(course)
+    const startLineMarkIndices = courseLineMarkIndices(course)
     state.marks.forEach((mark, index) => {
       const x = mark.x
       const y = mark.y
@@ -1446,24 +1680,24 @@ export class RaceScene {
 
   private drawMarkRadials(state: RaceState) {
     const radialLength = 70
+    const legs = getCourseLegs(state)
 
     // Track which marks are part of gates so we draw them differently
-    const gateMarkIndices = new Set<number>()
-    courseLegs.forEach((leg) => {
-      if (leg.kind === 'gate' && leg.gateMarkIndices) {
-        leg.gateMarkIndices.forEach((idx) => gateMarkIndices.add(idx))
-      }
-    })
+    const gateMarkIndices = courseGateMarkIndices(getCourseDefinition(state))
 
-    // Draw gate lines and radials for gate marks
-    courseLegs.forEach((leg) => {
+    // Draw gate lines and radials for gate marks (once per gate, not per lap)
+    const drawnGates = new Set<string>()
+    legs.forEach((leg) => {
       if (leg.kind === 'gate' && leg.gateMarkIndices) {
+        const key = leg.gateMarkIndices.join('-')
+        if (drawnGates.has(key)) return
+        drawnGates.add(key)
         this.drawGateRadials(state, leg.gateMarkIndices, radialLength)
       }
     })
 
     // Draw regular radials for non-gate marks
-    courseMarkAnnotations.forEach((annotation) => {
+    buildCourseMarkAnnotations(legs).forEach((annotation) => {
       // Skip gate marks - they're handled above
       if (gateMarkIndices.has(annotation.markIndex)) return
 
@@ -1474,7 +1708,7 @@ export class RaceScene {
       const color = annotation.rounding === 'port' ? 0xff6b6b : 0x00ffc3
       const kind: 'windward' | 'leeward' =
         annotation.kind === 'leeward' ? 'leeward' : 'windward'
-      const steps = radialSets[kind][annotation.rounding]
+      const steps = annotation.radials ?? radialSets[kind][annotation.rounding]
       steps.forEach((step, idx) => {
         const dx = step.axis === 'x' ? step.direction : 0
         const dy = step.axis === 'y' ? step.direction : 0
@@ -1583,8 +1817,9 @@ export class RaceScene {
   }
 
   private drawMarkLabels(state: RaceState) {
+    const annotations = buildCourseMarkAnnotations(getCourseLegs(state))
     const legCounts: Record<string, number> = {}
-    courseMarkAnnotations.forEach((annotation) => {
+    annotations.forEach((annotation) => {
       const mark = state.marks[annotation.markIndex]
       if (!mark) return
       const key = annotation.sequences.join('-')
@@ -1593,7 +1828,7 @@ export class RaceScene {
 
     const variantIndex: Record<string, number> = {}
 
-    courseMarkAnnotations.forEach((annotation) => {
+    annotations.forEach((annotation) => {
       const mark = state.marks[annotation.markIndex]
       if (!mark) return
       const key = annotation.sequences.join('-')
@@ -1625,15 +1860,10 @@ export class RaceScene {
   private drawNextMarkHighlight(state: RaceState) {
     const boat = state.boats[identity.boatId]
     if (!boat) return
-    const currentLeg = courseLegs.find((entry) =>
-      entry.markIndices.includes(boat.nextMarkIndex ?? -1),
-    )
+    const legs = getCourseLegs(state)
+    const currentLeg = legs[Math.min(boat.legIndex ?? 0, legs.length - 1)]
     const marksToHighlight =
-      currentLeg && currentLeg.sequence
-        ? courseLegs
-            .filter((entry) => entry.sequence === currentLeg.sequence)
-            .flatMap((entry) => entry.markIndices)
-        : [boat.nextMarkIndex ?? 0]
+      currentLeg && currentLeg.sequence ? currentLeg.markIndices : [boat.nextMarkIndex ?? 0]
     marksToHighlight.forEach((markIndex) => {
       const mark = state.marks[markIndex]
       if (!mark) return
@@ -1714,13 +1944,7 @@ export class RaceScene {
   }
 
   private drawCollisionDebug(state: RaceState) {
-    const gateIndices = new Set<number>()
-    courseLegs.forEach((leg) => {
-      if (leg.kind === 'gate' && leg.gateMarkIndices) {
-        gateIndices.add(leg.gateMarkIndices[0])
-        gateIndices.add(leg.gateMarkIndices[1])
-      }
-    })
+    const gateIndices = courseGateMarkIndices(getCourseDefinition(state))
 
     const markOverlay = new Graphics()
     markOverlay.setStrokeStyle({ width: 1, color: 0xffa53a, alpha: 0.5 })
@@ -1818,17 +2042,54 @@ export class RaceScene {
 
   // (dashed-line helper removed; solid lines scale and read better under zoom)
 
-  private drawLeewardGate(state: RaceState) {
-    const left = state.leewardGate.left
-    const right = state.leewardGate.right
-    this.courseLayer.setStrokeStyle({ width: 2, color: this.palette.leewardGate, alpha: 0.8 })
-    this.courseLayer.moveTo(left.x, left.y)
-    this.courseLayer.lineTo(right.x, right.y)
-    ;[left, right].forEach((gateMark) => {
-      this.courseLayer.fill({ color: this.palette.leewardGate, alpha: 0.9 })
-      this.courseLayer.circle(gateMark.x, gateMark.y, 7)
-      this.courseLayer.fill()
-      this.drawZoneCircle(gateMark, MARK_ZONE_RADIUS)
+  /** Finish line, when the course finishes somewhere other than the start line. */
+  private drawFinishLine(state: RaceState) {
+    const course = getCourseDefinition(state)
+    const finishLine = course.finishLine
+    if (!finishLine) return
+    if (
+      finishLine.committee === course.startLine.committee &&
+      finishLine.pin === course.startLine.pin
+    ) {
+      return
+    }
+    const committee = state.marks[finishLine.committee]
+    const pin = state.marks[finishLine.pin]
+    if (!committee || !pin) return
+    this.courseLayer.setStrokeStyle({ width: 2, color: this.palette.startLine, alpha: 0.6 })
+    this.courseLayer.moveTo(pin.x, pin.y)
+    this.courseLayer.lineTo(committee.x, committee.y)
+    this.courseLayer.stroke()
+  }
+
+  /** The finish line laid at a mark when course is shortened. */
+  private drawShortenedFinish(state: RaceState) {
+    const finish = state.shortenedFinish
+    if (!finish) return
+    const { pin, committee } = finish
+    this.courseLayer.setStrokeStyle({ width: 2, color: this.palette.startLine, alpha: 0.9 })
+    this.courseLayer.moveTo(pin.x, pin.y)
+    this.courseLayer.lineTo(committee.x, committee.y)
+    this.courseLayer.stroke()
+    this.courseLayer.fill({ color: this.palette.committeBoat, alpha: 0.95 })
+    this.courseLayer.circle(committee.x, committee.y, 8)
+    this.courseLayer.fill()
+  }
+
+  private drawGates(state: RaceState) {
+    courseGatePairs(getCourseDefinition(state)).forEach(([leftIdx, rightIdx]) => {
+      const left = state.marks[leftIdx]
+      const right = state.marks[rightIdx]
+      if (!left || !right) return
+      this.courseLayer.setStrokeStyle({ width: 2, color: this.palette.leewardGate, alpha: 0.8 })
+      this.courseLayer.moveTo(left.x, left.y)
+      this.courseLayer.lineTo(right.x, right.y)
+      ;[left, right].forEach((gateMark) => {
+        this.courseLayer.fill({ color: this.palette.leewardGate, alpha: 0.9 })
+        this.courseLayer.circle(gateMark.x, gateMark.y, 7)
+        this.courseLayer.fill()
+        this.drawZoneCircle(gateMark, MARK_ZONE_RADIUS)
+      })
     })
   }
 
@@ -1836,7 +2097,8 @@ export class RaceScene {
     if (!appEnv.debugHud) return
     const guideColor = 0x32e5ff
 
-    const windward = state.marks[0]
+    const windwardLeg = getCourseLegs(state).find((leg) => leg.kind === 'windward')
+    const windward = windwardLeg ? state.marks[windwardLeg.markIndices[0]] : undefined
     if (windward) {
       const span = 400
       const start = { x: windward.x - span, y: windward.y }
@@ -1907,15 +2169,25 @@ export class RaceScene {
 
   private drawBoats(state: RaceState) {
     const seen = new Set<string>()
+    const teamRace = isTeamRace(state)
     Object.values(state.boats).forEach((boat) => {
       seen.add(boat.id)
+      // Team racing paints every hull in its team's colour.
+      const color =
+        teamRace && boat.team
+          ? boat.team === 'a'
+            ? this.palette.teamA
+            : this.palette.teamB
+          : boat.color
       if (!this.boats.has(boat.id)) {
-        const view = new BoatView(boat.color)
+        const view = new BoatView(color)
         this.boats.set(boat.id, view)
         this.boatLayer.addChild(view.container)
       }
       const isPlayer = boat.id === identity.boatId
-      this.boats.get(boat.id)?.update(boat, isPlayer, state.t < 0)
+      const view = this.boats.get(boat.id)
+      view?.setColor(color)
+      view?.update(boat, isPlayer, state.t < 0)
     })
 
     // cleanup
@@ -1963,11 +2235,112 @@ export class RaceScene {
       this.windArrowFill.fill()
     }
 
+    this.drawSignalFlags(state)
     this.drawCountdown(state)
   }
 
+  /**
+   * Committee signal flags (class, preparatory and X), right-aligned along the
+   * top of the HUD.
+   */
+  private drawSignalFlags(state: RaceState) {
+    const flags: SignalFlag[] =
+      state.phase === 'prestart' && state.countdownArmed
+        ? signalFlagsFlying(
+            startSignalSchedule(appEnv.countdownSeconds),
+            state.t,
+            getStartProcedure(state),
+          )
+        : []
+    if (isXFlagFlying(state)) flags.push('X')
+    if (state.shortenedFinish && state.phase === 'running') flags.push('S')
+
+    const show = flags.length > 0
+    this.signalFlags.visible = show
+    this.signalFlagLabel.visible = show
+    this.signalFlags.clear()
+    if (!show) return
+
+    const width = 60
+    const height = 40
+    const gap = 10
+    const right = this.app.canvas.width - 20
+    const y = 20
+    flags.forEach((flag, index) => {
+      const x = right - (flags.length - index) * (width + gap) + gap
+      this.drawSignalFlag(flag, x, y, width, height)
+    })
+
+    this.signalFlagLabel.text = flags.map((flag) => SIGNAL_FLAG_CAPTIONS[flag]).join('  ')
+    this.signalFlagLabel.style.fill = this.palette.hudTextFill
+    this.signalFlagLabel.position.set(right, y + height + 6)
+  }
+
+  private drawSignalFlag(flag: SignalFlag, x: number, y: number, w: number, h: number) {
+    const g = this.signalFlags
+    const { signalFlagWhite, signalFlagBlue, signalFlagYellow, signalFlagRed, signalFlagBlack } =
+      this.palette
+    const cx = x + w / 2
+    const cy = y + h / 2
+    switch (flag) {
+      case 'P':
+        // Blue with a white square in the centre.
+        g.rect(x, y, w, h).fill({ color: signalFlagBlue })
+        g.rect(x + w / 3, y + h / 3, w / 3, h / 3).fill({ color: signalFlagWhite })
+        break
+      case 'I':
+        // Yellow with a black disc.
+        g.rect(x, y, w, h).fill({ color: signalFlagYellow })
+        g.circle(cx, cy, h / 4).fill({ color: signalFlagBlack })
+        break
+      case 'Z':
+        // Four triangles meeting in the centre: yellow, blue, red and black.
+        g.poly([x, y, x + w, y, cx, cy]).fill({ color: signalFlagYellow })
+        g.poly([x, y + h, x + w, y + h, cx, cy]).fill({ color: signalFlagBlue })
+        g.poly([x + w, y, x + w, y + h, cx, cy]).fill({ color: signalFlagRed })
+        g.poly([x, y, x, y + h, cx, cy]).fill({ color: signalFlagBlack })
+        break
+      case 'U':
+        // Red and white quarters.
+        g.rect(x, y, w, h).fill({ color: signalFlagWhite })
+        g.rect(x, y, w / 2, h / 2).fill({ color: signalFlagRed })
+        g.rect(cx, cy, w / 2, h / 2).fill({ color: signalFlagRed })
+        break
+      case 'black':
+        g.rect(x, y, w, h).fill({ color: signalFlagBlack })
+        break
+      case 'X': {
+        // White with a blue cross.
+        const bar = 7
+        g.rect(x, y, w, h).fill({ color: signalFlagWhite })
+        g.rect(cx - bar / 2, y, bar, h).fill({ color: signalFlagBlue })
+        g.rect(x, cy - bar / 2, w, bar).fill({ color: signalFlagBlue })
+        break
+      }
+      case 'S':
+        // White with a blue square in the centre.
+        g.rect(x, y, w, h).fill({ color: signalFlagWhite })
+        g.rect(x + w / 4, y + h / 4, w / 2, h / 2).fill({ color: signalFlagBlue })
+        break
+      case 'class':
+        // Generic class flag: a pennant on the committee's class colour.
+        g.rect(x, y, w, h).fill({ color: this.palette.signalFlagClass })
+        g.poly([x + 6, y + 8, x + w - 6, cy, x + 6, y + h - 8]).fill({
+          color: signalFlagWhite,
+        })
+        break
+    }
+    g.rect(x, y, w, h).stroke({ width: 1, color: this.palette.signalFlagOutline, alpha: 0.6 })
+  }
+
   private drawCountdown(state: RaceState) {
-    const show = state.phase === 'prestart' && state.countdownArmed
+    // In a pursuit the countdown runs on to the player's own start.
+    const ownBoat = state.boats[identity.boatId]
+    const startAt = isPursuitRace(state) && ownBoat ? boatStartTime(ownBoat) : 0
+    const show =
+      state.countdownArmed &&
+      (state.phase === 'prestart' || state.phase === 'running') &&
+      state.t < startAt
     this.countdownContainer.visible = show
     if (!show) {
       this.countdownBg.clear()
@@ -1978,7 +2351,7 @@ export class RaceScene {
     const stageWidth = this.app.canvas.width
     const stageHeight = this.app.canvas.height
     const totalSeconds = Math.max(1, appEnv.countdownSeconds)
-    const remainingSeconds = Math.max(0, -state.t)
+    const remainingSeconds = Math.max(0, startAt - state.t)
     const percent = clamp01(remainingSeconds / totalSeconds)
     const secondsRounded = Math.ceil(remainingSeconds)
     const minutes = Math.floor(secondsRounded / 60)
@@ -2025,6 +2398,7 @@ export class RaceScene {
     this.countdownFill.stroke()
 
     const centerX = overlayX + overlayWidth / 2
+    this.countdownLabel.text = startAt > 0 ? 'YOUR START IN' : 'START IN'
     this.countdownLabel.style.fill = this.palette.countdownLabelFill
     this.countdownLabel.position.set(centerX, overlayY + 28)
     this.countdownTime.style.fill = this.palette.countdownTimeFill
@@ -5,6 +5,8 @@ export interface ScenePalette {
   windPuff: number
   windLull: number
   windShadow: number
+  currentArrow: number
+  currentArrowAlpha: number
   windArrowDefault: number
   windArrowRight: number
   windArrowLeft: number
@@ -18,6 +20,8 @@ export interface ScenePalette {
   boatProjectionAlpha: number
   boatNameDefault: string
   boatNameFouled: string
+  teamA: number
+  teamB: number
   mark: number
   markAlpha: number
   markZone: number
@@ -38,6 +42,13 @@ export interface ScenePalette {
   countdownTimeFill: string
   hudTextFill: string
   wakeLabelFill: string
+  signalFlagWhite: number
+  signalFlagBlue: number
+  signalFlagYellow: number
+  signalFlagRed: number
+  signalFlagBlack: number
+  signalFlagClass: number
+  signalFlagOutline: number
 }
 
 const darkPalette: ScenePalette = {
@@ -45,6 +56,8 @@ const darkPalette: ScenePalette = {
   windPuff: 0x19d3c5,
   windLull: 0xb07aa1,
   windShadow: 0x6aaeff,
+  currentArrow: 0xa8e6cf,
+  currentArrowAlpha: 0.35,
   windArrowDefault: 0xffffff,
   windArrowRight: 0xff8f70,
   windArrowLeft: 0x70d6ff,
@@ -58,6 +71,8 @@ const darkPalette: ScenePalette = {
   boatProjectionAlpha: 0.3,
   boatNameDefault: '#ffffff',
   boatNameFouled: '#ff6b6b',
+  teamA: 0x3d8bff,
+  teamB: 0xff4d5e,
   mark: 0xffff00,
   markAlpha: 0.8,
   markZone: 0xffffff,
@@ -78,6 +93,13 @@ const darkPalette: ScenePalette = {
   countdownTimeFill: '#ffffff',
   hudTextFill: '#ffffff',
   wakeLabelFill: '#ffcf70',
+  signalFlagWhite: 0xffffff,
+  signalFlagBlue: 0x1f4fbf,
+  signalFlagYellow: 0xffd21f,
+  signalFlagRed: 0xd62828,
+  signalFlagBlack: 0x111111,
+  signalFlagClass: 0x2a9d8f,
+  signalFlagOutline: 0xffffff,
 }
 
 const lightPalette: ScenePalette = {
@@ -85,6 +107,8 @@ const lightPalette: ScenePalette = {
   windPuff: 0x0dab7a,
   windLull: 0xa85a8a,
   windShadow: 0x3366aa,
+  currentArrow: 0x2a7f62,
+  currentArrowAlpha: 0.45,
   windArrowDefault: 0x1a1d2e,
   windArrowRight: 0xcc5533,
   windArrowLeft: 0x2277aa,
@@ -98,6 +122,8 @@ const lightPalette: ScenePalette = {
   boatProjectionAlpha: 0.35,
   boatNameDefault: '#1a1d2e',
   boatNameFouled: '#cc3333',
+  teamA: 0x1f5fcc,
+  teamB: 0xcc2233,
   mark: 0xdd9900,
   markAlpha: 0.9,
   markZone: 0x1a1d2e,
@@ -118,6 +144,13 @@ const lightPalette: ScenePalette = {
   countdownTimeFill: '#1a1d2e',
   hudTextFill: '#1a1d2e',
   wakeLabelFill: '#996600',
+  signalFlagWhite: 0xffffff,
+  signalFlagBlue: 0x1f4fbf,
+  signalFlagYellow: 0xffd21f,
+  signalFlagRed: 0xd62828,
+  signalFlagBlack: 0x111111,
+  signalFlagClass: 0x2a9d8f,
+  signalFlagOutline: 0x1a1d2e,
 }
 
 export const getSceneColors = (theme: ResolvedTheme): ScenePalette =>